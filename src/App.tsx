@@ -1,6 +1,11 @@
-import { ThemeGeneratorProvider, useThemeGenerator } from './context';
+import { ThemeGeneratorProvider, useThemeGenerator, type ThemeModePreference } from './context';
 import {
   ImageUploader,
+  RegionSelector,
+  Eyedropper,
+  ThemePropertyEditor,
+  HistoryList,
+  useUndoShortcuts,
   DownloadButton,
   ThemePreview,
   ProcessingSteps,
@@ -12,7 +17,16 @@ import {
   PrivacyPolicy,
   type ProcessingStep,
 } from './components';
-import { useMemo, useCallback, useState, createContext, useContext } from 'react';
+import {
+  AndroidThemeExporter,
+  IosThemeExporter,
+  THEME_STYLE_PRESETS,
+  type ThemeColors,
+  type ThemeStyle,
+} from './core/theme-generation';
+import { describeBorders } from './core/color-extraction';
+import { themeImporter } from './core/theme-import';
+import { useMemo, useCallback, useState, createContext, useContext, type ChangeEvent } from 'react';
 
 // Theme colors matching Telegram samples
 const THEME_COLORS = {
@@ -24,6 +38,15 @@ const THEME_COLORS = {
   borderGrey: '#e5e5e5', // Borders
 } as const;
 
+// Theme mode choices shown above the preview
+const MODE_OPTIONS: { value: ThemeModePreference; label: string }[] = [
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'auto', label: 'Auto' },
+];
+
+const STYLE_OPTIONS = Object.entries(THEME_STYLE_PRESETS) as [ThemeStyle, (typeof THEME_STYLE_PRESETS)[ThemeStyle]][];
+
 // Privacy Modal Context
 const PrivacyModalContext = createContext<{ openPrivacyModal: () => void } | null>(null);
 
@@ -77,24 +100,113 @@ function SampleImages() {
 }
 
 /**
- * Color Palette Display Component
+ * Color Palette Component - click a swatch to pin it as primary or accent,
+ * lock it, or replace it with a custom colour
  */
 function ColorPalette() {
-  const { extractedColors } = useThemeGenerator();
+  const {
+    palette,
+    ignoredBorders,
+    isProcessing,
+    setPrimary,
+    setAccent,
+    lockSwatch,
+    replaceSwatch,
+  } = useThemeGenerator();
+  const [selected, setSelected] = useState<number | null>(null);
+  const [customColor, setCustomColor] = useState('#000000');
   
-  if (extractedColors.length === 0) return null;
+  if (!palette || palette.swatches.length === 0) return null;
+  
+  const selectedSwatch = selected === null ? undefined : palette.swatches[selected];
+  
+  const handleSelect = (index: number) => {
+    setSelected(index === selected ? null : index);
+    setCustomColor(palette.swatches[index].color.hex);
+  };
   
   return (
-    <div className="flex flex-wrap gap-1.5 sm:gap-2 justify-center">
-      {extractedColors.slice(0, 6).map((color, index) => (
-        <div
-          key={index}
-          className="w-8 h-8 sm:w-10 sm:h-10 rounded-lg shadow-md border border-gray-200 cursor-pointer hover:scale-110 transition-transform"
-          style={{ backgroundColor: color.hex }}
-          title={color.hex}
-        />
-      ))}
-    </div>
+    <>
+      <div className="flex flex-wrap gap-1.5 sm:gap-2 justify-center">
+        {palette.swatches.map((swatch, index) => {
+          const { hex } = swatch.color;
+          const role = hex === palette.primary ? 'P' : hex === palette.accent ? 'A' : null;
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => handleSelect(index)}
+              aria-pressed={selected === index}
+              aria-label={`Swatch ${hex}`}
+              className={`relative w-8 h-8 sm:w-10 sm:h-10 rounded-lg shadow-md border hover:scale-110 transition-transform ${
+                selected === index ? 'border-gray-800 ring-2 ring-gray-800' : 'border-gray-200'
+              }`}
+              style={{ backgroundColor: hex }}
+              title={swatch.originalHex ? `${hex} (was ${swatch.originalHex})` : hex}
+            >
+              {role && (
+                <span className="absolute -top-1.5 -left-1.5 w-4 h-4 rounded-full bg-gray-800 text-white text-[10px] leading-4">
+                  {role}
+                </span>
+              )}
+              {swatch.locked && (
+                <span className="absolute -bottom-1.5 -right-1.5 text-xs" aria-hidden="true">
+                  🔒
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+      {selected !== null && selectedSwatch && (
+        <div className="mt-3 flex flex-wrap items-center justify-center sm:justify-start gap-2 text-xs">
+          <button
+            type="button"
+            disabled={isProcessing}
+            onClick={() => setPrimary(palette.primary === selectedSwatch.color.hex ? null : selected)}
+            className="px-2 py-1 rounded-md border border-gray-200 bg-white hover:bg-gray-100 disabled:opacity-50"
+          >
+            {palette.primary === selectedSwatch.color.hex ? 'Unpin primary' : 'Make primary'}
+          </button>
+          <button
+            type="button"
+            disabled={isProcessing}
+            onClick={() => setAccent(palette.accent === selectedSwatch.color.hex ? null : selected)}
+            className="px-2 py-1 rounded-md border border-gray-200 bg-white hover:bg-gray-100 disabled:opacity-50"
+          >
+            {palette.accent === selectedSwatch.color.hex ? 'Unpin accent' : 'Make accent'}
+          </button>
+          <button
+            type="button"
+            disabled={isProcessing}
+            onClick={() => lockSwatch(selected, !selectedSwatch.locked)}
+            className="px-2 py-1 rounded-md border border-gray-200 bg-white hover:bg-gray-100 disabled:opacity-50"
+          >
+            {selectedSwatch.locked ? 'Unlock' : 'Lock'}
+          </button>
+          <input
+            type="color"
+            value={customColor}
+            onChange={(e) => setCustomColor(e.target.value)}
+            aria-label="Custom colour"
+            className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+          />
+          <button
+            type="button"
+            disabled={isProcessing || customColor === selectedSwatch.color.hex}
+            onClick={() => replaceSwatch(selected, customColor)}
+            className="px-2 py-1 rounded-md border border-gray-200 bg-white hover:bg-gray-100 disabled:opacity-50"
+          >
+            Replace
+          </button>
+        </div>
+      )}
+      {ignoredBorders && (
+        <p className="mt-2 text-xs text-gray-500">
+          Ignored {describeBorders(ignoredBorders)}
+        </p>
+      )}
+    </>
   );
 }
 
@@ -219,20 +331,73 @@ function MainContent() {
     stage,
     imagePreviewUrl,
     generatedTheme,
+    imageFile,
     previewColors,
+    themeMode,
+    modePreference,
+    setThemeMode,
+    themeStyle,
+    setThemeStyle,
+    focusRegions,
+    setFocusRegions,
+    palette,
+    setColorOverride,
+    propertyEdits,
+    setThemeProperty,
+    resetThemeProperty,
+    resetThemeProperties,
+    history,
+    undo,
+    redo,
+    goToHistory,
     uploadImage,
+    importTheme,
     reset,
+    cancel,
     error,
     isProcessing,
   } = useThemeGenerator();
   
   const toast = useToast();
+  const [tiledBackground, setTiledBackground] = useState(false);
+  
+  useUndoShortcuts({ undo, redo, enabled: history.entries.length > 1 });
+  
+  // Android clients use their own key set; derive it from the desktop palette
+  const androidContent = useMemo(
+    () => generatedTheme
+      ? new AndroidThemeExporter({ name: generatedTheme.name }).generateContent(generatedTheme.properties)
+      : '',
+    [generatedTheme]
+  );
+  // iOS themes are built from theme colours; read them back from the edited,
+  // contrast-fixed properties so edits reach this download too
+  const iosContent = useMemo(
+    () => generatedTheme
+      ? new IosThemeExporter({ mode: themeMode, name: generatedTheme.name }).generateContent(
+        themeImporter.deriveThemeColors(generatedTheme.properties)
+      )
+      : '',
+    [generatedTheme, themeMode]
+  );
   
   const handleImageUpload = useCallback((file: File, previewUrl: string) => {
     uploadImage(file, previewUrl);
     toast.info('Extracting colours from your image...', { title: 'Processing Image', duration: 3000 });
   }, [uploadImage, toast]);
   
+  const handleThemeImport = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    const imported = await importTheme(file);
+    if (imported) {
+      setTiledBackground(imported.background?.tiled ?? false);
+      toast.success(`Loaded ${imported.name}`, { title: 'Theme Imported', duration: 3000 });
+    }
+  }, [importTheme, toast]);
+  
   const handleDownloadSuccess = useCallback(() => {
     toast.success('Your theme file has been downloaded!', { title: 'Download Complete', duration: 4000 });
   }, [toast]);
@@ -288,6 +453,19 @@ function MainContent() {
           <span>Max 10MB</span>
         </div>
         
+        {/* Import an existing theme */}
+        <div className="text-center text-sm text-gray-500">
+          <label className="cursor-pointer underline hover:text-gray-700">
+            Or open an existing .tdesktop-theme or .attheme file
+            <input
+              type="file"
+              accept=".tdesktop-theme,.tdesktop-palette,.attheme"
+              onChange={handleThemeImport}
+              className="sr-only"
+            />
+          </label>
+        </div>
+        
         {/* Privacy Notice */}
         <PrivacyNotice />
       </div>
@@ -309,6 +487,13 @@ function MainContent() {
             className="mt-6 w-32 h-32 sm:w-48 sm:h-48 object-cover rounded-xl shadow-lg"
           />
         )}
+        <button
+          type="button"
+          onClick={cancel}
+          className="mt-6 px-4 py-1.5 text-sm font-medium text-gray-600 rounded-md border border-gray-200 bg-white hover:bg-gray-100 transition-colors"
+        >
+          Cancel
+        </button>
       </div>
     );
   }
@@ -346,8 +531,113 @@ function MainContent() {
           </div>
         </div>
         
-        {/* Theme Mode Toggle */}
-        {/* Theme Mode controls removed: Telegram themes do not support dark mode switching */}
+        {/* Theme Mode and Style Pickers (imported themes keep their own colours) */}
+        {imageFile && (
+          <div className="flex flex-col items-center gap-1">
+            <div
+              role="radiogroup"
+              aria-label="Theme mode"
+              className="inline-flex rounded-lg border border-gray-200 bg-white p-1"
+            >
+              {MODE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  role="radio"
+                  aria-checked={modePreference === option.value}
+                  onClick={() => setThemeMode(option.value)}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    modePreference === option.value
+                      ? 'bg-gray-800 text-white'
+                      : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {modePreference === 'auto' && (
+              <span className="text-xs text-gray-400">
+                Picked {themeMode} from your image&apos;s brightness
+              </span>
+            )}
+            <div
+              role="radiogroup"
+              aria-label="Theme style"
+              className="mt-2 flex flex-wrap justify-center gap-2"
+            >
+              {STYLE_OPTIONS.map(([style, preset]) => (
+                <button
+                  key={style}
+                  role="radio"
+                  aria-checked={themeStyle === style}
+                  title={preset.description}
+                  disabled={isProcessing}
+                  onClick={() => setThemeStyle(style)}
+                  className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors disabled:opacity-50 ${
+                    themeStyle === style
+                      ? 'border-gray-800 bg-gray-800 text-white'
+                      : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Focus Regions (only for generated themes) */}
+        {imageFile && imagePreviewUrl && (
+          <div className="text-center">
+            <h3 className="text-xs font-medium uppercase tracking-wide mb-2" style={{ color: THEME_COLORS.coral }}>
+              Focus
+            </h3>
+            <RegionSelector
+              imageUrl={imagePreviewUrl}
+              alt="Source image with focus regions"
+              regions={focusRegions}
+              onChange={setFocusRegions}
+              disabled={isProcessing}
+            />
+          </div>
+        )}
+        
+        {/* Eyedropper (only for generated themes) */}
+        {imageFile && imagePreviewUrl && palette && (
+          <div className="text-center">
+            <h3 className="text-xs font-medium uppercase tracking-wide mb-2" style={{ color: THEME_COLORS.coral }}>
+              Pick Colours
+            </h3>
+            <Eyedropper
+              imageUrl={imagePreviewUrl}
+              alt="Source image to pick colours from"
+              onPick={setColorOverride}
+              disabled={isProcessing}
+            />
+            {Object.keys(palette.overrides).length > 0 && (
+              <div className="mt-2 flex flex-wrap justify-center gap-2 text-xs">
+                {(Object.entries(palette.overrides) as [keyof ThemeColors, string][]).map(([slot, hex]) => (
+                  <span
+                    key={slot}
+                    className="inline-flex items-center gap-1 rounded-full border border-gray-200 bg-white pl-1 pr-2 py-0.5"
+                  >
+                    <span className="w-3 h-3 rounded-full border border-gray-200" style={{ backgroundColor: hex }} />
+                    {slot}
+                    <button
+                      type="button"
+                      disabled={isProcessing}
+                      onClick={() => setColorOverride(slot, null)}
+                      className="ml-1 text-gray-500 hover:text-red-500 disabled:opacity-50"
+                      aria-label={`Stop overriding ${slot}`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
         
         {/* Theme Preview */}
         <div className="max-w-2xl mx-auto">
@@ -356,6 +646,51 @@ function MainContent() {
             showSidebar={true}
             responsive={true}
             wallpaperUrl={imagePreviewUrl || undefined}
+            wallpaperTiled={tiledBackground}
+          />
+        </div>
+        
+        {/* Background options */}
+        {imagePreviewUrl && (
+          <label className="flex items-center justify-center gap-2 text-sm text-gray-600 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={tiledBackground}
+              onChange={(e) => setTiledBackground(e.target.checked)}
+              className="rounded"
+            />
+            Tile the image as a repeating pattern
+          </label>
+        )}
+        
+        {/* Undo history */}
+        {history.entries.length > 1 && (
+          <div className="max-w-md mx-auto">
+            <h3 className="text-xs font-medium uppercase tracking-wide mb-2 text-center" style={{ color: THEME_COLORS.coral }}>
+              History
+            </h3>
+            <HistoryList
+              entries={history.entries}
+              index={history.index}
+              onSelect={goToHistory}
+              onUndo={undo}
+              onRedo={redo}
+            />
+          </div>
+        )}
+        
+        {/* Per-property editor; edits show in the preview and every download (iOS only takes the core colours) */}
+        <div className="max-w-2xl mx-auto">
+          <h3 className="text-xs font-medium uppercase tracking-wide mb-2 text-center" style={{ color: THEME_COLORS.coral }}>
+            Edit Properties
+          </h3>
+          <ThemePropertyEditor
+            properties={generatedTheme.properties}
+            edits={propertyEdits}
+            onChange={setThemeProperty}
+            onReset={resetThemeProperty}
+            onResetAll={resetThemeProperties}
+            disabled={isProcessing}
           />
         </div>
         
@@ -364,12 +699,38 @@ function MainContent() {
           <DownloadButton
             content={generatedTheme.content}
             filename={generatedTheme.name.replace(/\s+/g, '_')}
+            background={imagePreviewUrl ? { source: imagePreviewUrl, tiled: tiledBackground } : undefined}
             onSuccess={handleDownloadSuccess}
             onError={handleDownloadError}
             variant="primary"
             size="large"
           >
-            Download Theme (.attheme)
+            Download for Desktop (.tdesktop-theme)
+          </DownloadButton>
+          
+          <DownloadButton
+            content={androidContent}
+            filename={generatedTheme.name.replace(/\s+/g, '_')}
+            format="android"
+            background={imagePreviewUrl ? { source: imagePreviewUrl } : undefined}
+            onSuccess={handleDownloadSuccess}
+            onError={handleDownloadError}
+            variant="secondary"
+            size="large"
+          >
+            Download for Android (.attheme)
+          </DownloadButton>
+          
+          <DownloadButton
+            content={iosContent}
+            filename={generatedTheme.name.replace(/\s+/g, '_')}
+            format="ios"
+            onSuccess={handleDownloadSuccess}
+            onError={handleDownloadError}
+            variant="secondary"
+            size="large"
+          >
+            Download for iOS (.tgios-theme)
           </DownloadButton>
           
           <button
@@ -381,13 +742,14 @@ function MainContent() {
         </div>
         
         {/* Validation warnings */}
-        {generatedTheme.validation.warnings.length > 0 && (
+        {/* Imported themes can also carry errors for lines that could not be read */}
+        {(generatedTheme.validation.errors.length > 0 || generatedTheme.validation.warnings.length > 0) && (
           <div className="max-w-lg mx-auto p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
             <h4 className="text-sm font-medium text-yellow-800 mb-2">
               Theme Warnings
             </h4>
             <ul className="text-sm text-yellow-700 space-y-1">
-              {generatedTheme.validation.warnings.slice(0, 3).map((warning, i) => (
+              {[...generatedTheme.validation.errors, ...generatedTheme.validation.warnings].slice(0, 3).map((warning, i) => (
                 <li key={i}>• {warning}</li>
               ))}
             </ul>
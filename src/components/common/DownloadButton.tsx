@@ -1,5 +1,10 @@
 import { useState, useCallback } from 'react';
-import { downloadTheme, type DownloadResult } from '../../utils/file-utils';
+import {
+  downloadTheme,
+  type DownloadResult,
+  type ThemeExportFormat,
+} from '../../utils/file-utils';
+import type { ThemeBackground } from '../../core/packaging';
 
 /**
  * Download state type.
@@ -20,6 +25,18 @@ export interface DownloadButtonProps {
    */
   filename: string;
 
+  /**
+   * Target client. `content` must already be in this client's format.
+   * @default 'desktop'
+   */
+  format?: ThemeExportFormat;
+
+  /**
+   * Optional wallpaper to bundle into a zipped .tdesktop-theme package
+   * (or embed into the .attheme file for Android).
+   */
+  background?: ThemeBackground;
+
   /**
    * Callback when download succeeds.
    */
@@ -139,7 +156,7 @@ function Notification({
  * DownloadButton component for downloading theme files.
  *
  * Features:
- * - Downloads .tdesktop-theme files
+ * - Downloads .tdesktop-theme files, optionally bundling the wallpaper
  * - Shows loading state during download
  * - Displays success/error notifications
  * - Supports multiple variants and sizes
@@ -156,6 +173,8 @@ function Notification({
 export function DownloadButton({
   content,
   filename,
+  format = 'desktop',
+  background,
   onSuccess,
   onError,
   disabled = false,
@@ -183,6 +202,8 @@ export function DownloadButton({
     const result = await downloadTheme({
       filename,
       content,
+      format,
+      background,
       onStart: () => setState('downloading'),
       onSuccess: (downloadResult) => {
         setState('success');
@@ -224,7 +245,7 @@ export function DownloadButton({
         setNotification(null);
       }, feedbackDuration);
     }
-  }, [content, filename, disabled, state, feedbackDuration, onSuccess, onError]);
+  }, [content, filename, format, background, disabled, state, feedbackDuration, onSuccess, onError]);
 
   // Variant styles
   const variantStyles = {
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { HistoryList } from './HistoryList';
+
+const entries = [{ label: 'Generated from cat.jpg' }, { label: 'Switched to dark mode' }, { label: 'Edited windowBg' }];
+
+function renderList(index: number) {
+  const handlers = { onSelect: vi.fn(), onUndo: vi.fn(), onRedo: vi.fn() };
+  render(<HistoryList entries={entries} index={index} {...handlers} />);
+  return handlers;
+}
+
+describe('HistoryList', () => {
+  it('should list entries and mark the current one', () => {
+    renderList(1);
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(3);
+    expect(screen.getByRole('button', { name: 'Switched to dark mode' })).toHaveAttribute(
+      'aria-current',
+      'step'
+    );
+  });
+
+  it('should jump to an entry', async () => {
+    const user = userEvent.setup();
+    const { onSelect } = renderList(2);
+
+    await user.click(screen.getByRole('button', { name: 'Generated from cat.jpg' }));
+
+    expect(onSelect).toHaveBeenCalledWith(0);
+  });
+
+  it('should disable undo at the first entry', () => {
+    renderList(0);
+
+    expect(screen.getByRole('button', { name: 'Undo' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Redo' })).toBeEnabled();
+  });
+
+  it('should disable redo at the last entry', async () => {
+    const user = userEvent.setup();
+    const { onUndo } = renderList(2);
+
+    expect(screen.getByRole('button', { name: 'Redo' })).toBeDisabled();
+    await user.click(screen.getByRole('button', { name: 'Undo' }));
+    expect(onUndo).toHaveBeenCalled();
+  });
+});
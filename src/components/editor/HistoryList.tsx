@@ -0,0 +1,60 @@
+import type { HistoryListProps } from './types';
+
+/**
+ * HistoryList shows the changes made to a theme, oldest first, with undo
+ * and redo buttons. Clicking an entry jumps straight to it; undone entries
+ * stay listed, dimmed, until a new change replaces them.
+ */
+export function HistoryList({
+  entries,
+  index,
+  onSelect,
+  onUndo,
+  onRedo,
+  className = '',
+  disabled = false,
+}: HistoryListProps) {
+  return (
+    <div className={`w-full text-left ${className}`} data-testid="history-list">
+      <div className="mb-2 flex items-center justify-center gap-2 text-xs">
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={disabled || index <= 0}
+          title="Undo (Ctrl+Z)"
+          className="px-2 py-1 rounded-md border border-gray-200 bg-white hover:bg-gray-100 disabled:opacity-50"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={onRedo}
+          disabled={disabled || index >= entries.length - 1}
+          title="Redo (Ctrl+Shift+Z)"
+          className="px-2 py-1 rounded-md border border-gray-200 bg-white hover:bg-gray-100 disabled:opacity-50"
+        >
+          Redo
+        </button>
+      </div>
+      <ol className="max-h-48 overflow-y-auto rounded-lg border border-gray-200 text-xs">
+        {entries.map((entry, i) => (
+          <li key={i}>
+            <button
+              type="button"
+              onClick={() => onSelect(i)}
+              disabled={disabled || i === index}
+              aria-current={i === index ? 'step' : undefined}
+              className={`w-full px-3 py-1 text-left hover:bg-gray-100 ${
+                i === index ? 'bg-blue-50 font-medium text-blue-700' : ''
+              } ${i > index ? 'text-gray-400' : 'text-gray-700'}`}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default HistoryList;
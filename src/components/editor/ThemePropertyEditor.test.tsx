@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ThemePropertyEditor } from './ThemePropertyEditor';
+import { THEME_PROPERTIES } from '../../core/theme-generation';
+
+const properties = {
+  windowBg: 'ffffff',
+  windowFg: '000000',
+  msgInBg: 'f0f0f080',
+};
+
+function renderEditor(props: Partial<Parameters<typeof ThemePropertyEditor>[0]> = {}) {
+  const handlers = { onChange: vi.fn(), onReset: vi.fn(), onResetAll: vi.fn() };
+  render(<ThemePropertyEditor properties={properties} edits={{}} {...handlers} {...props} />);
+  return handlers;
+}
+
+describe('ThemePropertyEditor', () => {
+  it('should list every property grouped by category', () => {
+    renderEditor();
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(THEME_PROPERTIES.length);
+    const window = screen.getByTestId('property-category-window');
+    expect(within(window).getByText('windowBg')).toBeInTheDocument();
+    expect(within(window).getByText('Main window background')).toBeInTheDocument();
+  });
+
+  it('should show the colour and opacity of RRGGBBAA values', () => {
+    renderEditor();
+
+    expect(screen.getByLabelText('msgInBg colour')).toHaveValue('#f0f0f0');
+    expect(screen.getByLabelText('msgInBg opacity')).toHaveValue('128');
+    expect(screen.getByTestId('property-msgInBg')).toHaveTextContent('#f0f0f080');
+  });
+
+  it('should filter by key or description', async () => {
+    const user = userEvent.setup();
+    renderEditor();
+
+    await user.type(screen.getByLabelText('Search properties'), 'main window');
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+    expect(screen.getByTestId('property-windowBg')).toBeVisible();
+
+    await user.clear(screen.getByLabelText('Search properties'));
+    await user.type(screen.getByLabelText('Search properties'), 'zzz');
+    expect(screen.getByText(/No properties match/)).toBeInTheDocument();
+  });
+
+  it('should report a new colour, keeping the opacity', () => {
+    const { onChange } = renderEditor();
+
+    fireEvent.change(screen.getByLabelText('msgInBg colour'), { target: { value: '#112233' } });
+    fireEvent.change(screen.getByLabelText('windowFg colour'), { target: { value: '#445566' } });
+
+    expect(onChange).toHaveBeenCalledWith('msgInBg', '11223380');
+    expect(onChange).toHaveBeenCalledWith('windowFg', '445566');
+  });
+
+  it('should report a new opacity', () => {
+    const { onChange } = renderEditor();
+
+    fireEvent.change(screen.getByLabelText('windowBg opacity'), { target: { value: '16' } });
+
+    expect(onChange).toHaveBeenCalledWith('windowBg', 'ffffff10');
+  });
+
+  it('should offer a reset only for edited properties', async () => {
+    const user = userEvent.setup();
+    const { onReset } = renderEditor({ edits: { windowFg: '000000' } });
+
+    expect(screen.queryByRole('button', { name: 'Reset windowBg' })).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Reset windowFg', hidden: true }));
+
+    expect(onReset).toHaveBeenCalledWith('windowFg');
+  });
+
+  it('should reset every edit at once', async () => {
+    const user = userEvent.setup();
+    const { onResetAll } = renderEditor({ edits: { windowFg: '000000', windowBg: 'eeeeee' } });
+
+    await user.click(screen.getByRole('button', { name: 'Reset all (2)' }));
+
+    expect(onResetAll).toHaveBeenCalled();
+  });
+
+  it('should disable the controls when disabled', () => {
+    renderEditor({ disabled: true, edits: { windowFg: '000000' } });
+
+    expect(screen.getByLabelText('windowFg colour')).toBeDisabled();
+    expect(screen.getByLabelText('windowFg opacity')).toBeDisabled();
+  });
+});
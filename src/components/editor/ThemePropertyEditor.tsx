@@ -0,0 +1,170 @@
+import { useMemo, useState } from 'react';
+import { THEME_PROPERTIES, type ThemeCategory, type ThemeProperty } from '../../core/theme-generation';
+import { CATEGORY_LABELS, type ThemePropertyEditorProps } from './types';
+
+/**
+ * Splits an RRGGBB or RRGGBBAA value into the colour input's #rrggbb and an
+ * alpha of 0-255. Missing or malformed values read as opaque black.
+ */
+function splitValue(value: string | undefined): { rgb: string; alpha: number } {
+  const cleaned = (value ?? '').replace(/^#/, '').toLowerCase();
+  if (!/^([0-9a-f]{6}|[0-9a-f]{8})$/.test(cleaned)) {
+    return { rgb: '#000000', alpha: 255 };
+  }
+
+  return {
+    rgb: `#${cleaned.slice(0, 6)}`,
+    alpha: cleaned.length === 8 ? parseInt(cleaned.slice(6), 16) : 255,
+  };
+}
+
+/**
+ * Joins a #rrggbb colour and an alpha back into a property value, leaving
+ * out the alpha when the colour is opaque.
+ */
+function joinValue(rgb: string, alpha: number): string {
+  const hex = rgb.replace(/^#/, '').toLowerCase();
+  return alpha >= 255 ? hex : `${hex}${alpha.toString(16).padStart(2, '0')}`;
+}
+
+function matches(property: ThemeProperty, query: string): boolean {
+  return (
+    property.key.toLowerCase().includes(query) ||
+    property.description.toLowerCase().includes(query)
+  );
+}
+
+/**
+ * ThemePropertyEditor lists every Telegram Desktop theme property, grouped
+ * by category, with a colour and opacity control for each. Edited
+ * properties can be reset to the generated value one by one.
+ */
+export function ThemePropertyEditor({
+  properties,
+  edits,
+  onChange,
+  onReset,
+  onResetAll,
+  className = '',
+  disabled = false,
+}: ThemePropertyEditorProps) {
+  const [query, setQuery] = useState('');
+  const search = query.trim().toLowerCase();
+
+  const groups = useMemo(() => {
+    const byCategory = new Map<ThemeCategory, ThemeProperty[]>();
+    for (const category of Object.keys(CATEGORY_LABELS) as ThemeCategory[]) {
+      byCategory.set(category, []);
+    }
+    for (const property of THEME_PROPERTIES) {
+      if (!search || matches(property, search)) {
+        byCategory.get(property.category)?.push(property);
+      }
+    }
+    return [...byCategory].filter(([, list]) => list.length > 0);
+  }, [search]);
+
+  const editCount = Object.keys(edits).length;
+
+  return (
+    <div className={`w-full text-left ${className}`} data-testid="theme-property-editor">
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search properties"
+          aria-label="Search properties"
+          className="flex-1 min-w-[12rem] rounded-md border border-gray-200 px-3 py-1.5 text-sm"
+        />
+        {onResetAll && editCount > 0 && (
+          <button
+            type="button"
+            onClick={onResetAll}
+            disabled={disabled}
+            className="px-2 py-1 rounded-md border border-gray-200 bg-white text-xs hover:bg-gray-100 disabled:opacity-50"
+          >
+            Reset all ({editCount})
+          </button>
+        )}
+      </div>
+
+      {groups.length === 0 && (
+        <p className="text-sm text-gray-500">No properties match “{query.trim()}”.</p>
+      )}
+
+      {groups.map(([category, list]) => (
+        <details
+          key={category}
+          open={search.length > 0}
+          className="mb-2 rounded-lg border border-gray-200"
+          data-testid={`property-category-${category}`}
+        >
+          <summary className="cursor-pointer px-3 py-2 text-sm font-medium text-gray-800">
+            {CATEGORY_LABELS[category].label}
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {CATEGORY_LABELS[category].description} · {list.length}
+            </span>
+          </summary>
+          <ul className="divide-y divide-gray-100">
+            {list.map((property) => {
+              const value = properties[property.key];
+              const { rgb, alpha } = splitValue(value);
+              const edited = property.key in edits;
+
+              return (
+                <li
+                  key={property.key}
+                  className="flex flex-wrap items-center gap-2 px-3 py-1.5 text-xs"
+                  data-testid={`property-${property.key}`}
+                >
+                  <div className="flex-1 min-w-[10rem]">
+                    <div className="font-mono text-gray-800">
+                      {property.key}
+                      {edited && <span className="ml-1 text-blue-600">•</span>}
+                    </div>
+                    <div className="text-gray-500">{property.description}</div>
+                  </div>
+                  <input
+                    type="color"
+                    value={rgb}
+                    onChange={(e) => onChange(property.key, joinValue(e.target.value, alpha))}
+                    disabled={disabled}
+                    aria-label={`${property.key} colour`}
+                    className="h-7 w-9 cursor-pointer rounded border border-gray-200"
+                  />
+                  <input
+                    type="range"
+                    min={0}
+                    max={255}
+                    value={alpha}
+                    onChange={(e) => onChange(property.key, joinValue(rgb, Number(e.target.value)))}
+                    disabled={disabled}
+                    aria-label={`${property.key} opacity`}
+                    className="w-20"
+                  />
+                  <span className="w-20 font-mono text-gray-600">
+                    {value ? `#${value}` : 'Not set'}
+                  </span>
+                  {edited && (
+                    <button
+                      type="button"
+                      onClick={() => onReset(property.key)}
+                      disabled={disabled}
+                      aria-label={`Reset ${property.key}`}
+                      className="px-2 py-0.5 rounded border border-gray-200 bg-white hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      Reset
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+export default ThemePropertyEditor;
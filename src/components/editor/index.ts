@@ -0,0 +1,10 @@
+export { ThemePropertyEditor } from './ThemePropertyEditor';
+export { HistoryList } from './HistoryList';
+export { useUndoShortcuts } from './useUndoShortcuts';
+
+export {
+  type ThemePropertyEditorProps,
+  type HistoryListProps,
+  type UseUndoShortcutsOptions,
+  CATEGORY_LABELS,
+} from './types';
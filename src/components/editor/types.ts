@@ -0,0 +1,112 @@
+import type { ThemeCategory } from '../../core/theme-generation';
+
+/**
+ * Heading and summary of each property category, in display order.
+ */
+export const CATEGORY_LABELS: Record<ThemeCategory, { label: string; description: string }> = {
+  window: { label: 'Window', description: 'Backgrounds, text, buttons and controls used everywhere' },
+  chat: { label: 'Chat', description: 'Message bubbles, replies and service messages' },
+  dialogs: { label: 'Chat list', description: 'The sidebar of chats, with unread badges and search' },
+  history: { label: 'History', description: 'Message text, links, sender names and the compose area' },
+  media: { label: 'Media', description: 'Player, viewer and file icons' },
+  profile: { label: 'Profile', description: 'Profile pages and avatars' },
+  settings: { label: 'Settings', description: 'Settings pages and their controls' },
+  intro: { label: 'Intro', description: 'Login and welcome screens' },
+  calls: { label: 'Calls', description: 'Voice and video call panels' },
+  misc: { label: 'Other', description: 'Emoji and sticker panels and everything else' },
+};
+
+/**
+ * Props for ThemePropertyEditor component.
+ */
+export interface ThemePropertyEditorProps {
+  /**
+   * Current theme properties, with edits applied (RRGGBB or RRGGBBAA, without #).
+   */
+  properties: Record<string, string>;
+
+  /**
+   * Properties the user has edited, shown with a reset button.
+   */
+  edits: Record<string, string>;
+
+  /**
+   * Callback when a property gets a new value (RRGGBB or RRGGBBAA, without #).
+   */
+  onChange: (key: string, value: string) => void;
+
+  /**
+   * Callback to return a property to its generated value.
+   */
+  onReset: (key: string) => void;
+
+  /**
+   * Callback to drop every edit. Without it no "reset all" button is shown.
+   */
+  onResetAll?: () => void;
+
+  /**
+   * Additional CSS classes.
+   */
+  className?: string;
+
+  /**
+   * Whether the editor is disabled.
+   * @default false
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Props for HistoryList component.
+ */
+export interface HistoryListProps {
+  /**
+   * Recorded changes, oldest first.
+   */
+  entries: { label: string }[];
+
+  /**
+   * Entry currently shown. Later entries were undone.
+   */
+  index: number;
+
+  /**
+   * Callback when an entry is chosen to jump to.
+   */
+  onSelect: (index: number) => void;
+
+  /**
+   * Callback for the undo button.
+   */
+  onUndo: () => void;
+
+  /**
+   * Callback for the redo button.
+   */
+  onRedo: () => void;
+
+  /**
+   * Additional CSS classes.
+   */
+  className?: string;
+
+  /**
+   * Whether the list is disabled.
+   * @default false
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Options for useUndoShortcuts hook.
+ */
+export interface UseUndoShortcutsOptions {
+  undo: () => void;
+  redo: () => void;
+  /**
+   * Whether the shortcuts are listened for.
+   * @default true
+   */
+  enabled?: boolean;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, fireEvent } from '@testing-library/react';
+import { useUndoShortcuts } from './useUndoShortcuts';
+
+function setup(enabled = true) {
+  const undo = vi.fn();
+  const redo = vi.fn();
+  const hook = renderHook(() => useUndoShortcuts({ undo, redo, enabled }));
+  return { undo, redo, ...hook };
+}
+
+describe('useUndoShortcuts', () => {
+  it('should undo on Ctrl+Z and Cmd+Z', () => {
+    const { undo, redo } = setup();
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+    fireEvent.keyDown(window, { key: 'z', metaKey: true });
+
+    expect(undo).toHaveBeenCalledTimes(2);
+    expect(redo).not.toHaveBeenCalled();
+  });
+
+  it('should redo on Ctrl+Shift+Z and Ctrl+Y', () => {
+    const { undo, redo } = setup();
+
+    fireEvent.keyDown(window, { key: 'Z', ctrlKey: true, shiftKey: true });
+    fireEvent.keyDown(window, { key: 'y', ctrlKey: true });
+
+    expect(redo).toHaveBeenCalledTimes(2);
+    expect(undo).not.toHaveBeenCalled();
+  });
+
+  it('should leave text fields their own undo', () => {
+    const { undo } = setup();
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+
+    fireEvent.keyDown(input, { key: 'z', ctrlKey: true });
+
+    expect(undo).not.toHaveBeenCalled();
+    input.remove();
+  });
+
+  it('should ignore keys without a modifier, when disabled and after unmount', () => {
+    const { undo, unmount } = setup();
+    fireEvent.keyDown(window, { key: 'z' });
+    unmount();
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+
+    const disabled = setup(false);
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+
+    expect(undo).not.toHaveBeenCalled();
+    expect(disabled.undo).not.toHaveBeenCalled();
+  });
+});
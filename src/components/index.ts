@@ -2,3 +2,4 @@ export * from './uploader';
 export * from './common';
 export * from './preview';
 export * from './PrivacyPolicy';
+export * from './editor';
@@ -122,6 +122,7 @@ export function MessageList({
   isGroupChat = false,
   className = '',
   wallpaperUrl,
+  wallpaperTiled = false,
 }: MessageListProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   
@@ -157,14 +158,14 @@ export function MessageList({
       return {
         ...baseStyles,
         backgroundImage: `url(${wallpaperUrl})`,
-        backgroundSize: 'cover',
-        backgroundPosition: 'center',
-        backgroundRepeat: 'no-repeat',
+        backgroundSize: wallpaperTiled ? 'auto' : 'cover',
+        backgroundPosition: wallpaperTiled ? 'top left' : 'center',
+        backgroundRepeat: wallpaperTiled ? 'repeat' : 'no-repeat',
       };
     }
     
     return baseStyles;
-  }, [theme.windowBg, scrollbarStyles, wallpaperUrl]);
+  }, [theme.windowBg, scrollbarStyles, wallpaperUrl, wallpaperTiled]);
   
   return (
     <div
@@ -492,6 +492,7 @@ export function ThemePreview({
   showSidebar = true,
   responsive = true,
   wallpaperUrl,
+  wallpaperTiled = false,
 }: ThemePreviewProps) {
   const [selectedChat, setSelectedChat] = useState<string>('1');
   const [showTyping, setShowTyping] = useState(false);
@@ -568,6 +569,7 @@ export function ThemePreview({
             theme={theme}
             isGroupChat={false}
             wallpaperUrl={wallpaperUrl}
+            wallpaperTiled={wallpaperTiled}
           />
           
           {/* Typing indicator */}
@@ -16,4 +16,4 @@ export type {
   ChatListItemProps,
 } from './types';
 
-export { defaultPreviewTheme, hexToCSS } from './types';
+export { defaultPreviewTheme, hexToCSS, mapThemeToPreviewColors } from './types';
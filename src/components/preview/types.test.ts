@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { defaultPreviewTheme, mapThemeToPreviewColors } from './types';
+
+describe('mapThemeToPreviewColors', () => {
+  it('should prefix theme colours with #', () => {
+    const colors = mapThemeToPreviewColors({ windowBg: '17212b', msgServiceBg: '00000080' });
+    expect(colors.windowBg).toBe('#17212b');
+    expect(colors.msgServiceBg).toBe('#00000080');
+  });
+
+  it('should keep colours that already have #', () => {
+    expect(mapThemeToPreviewColors({ windowFg: '#ffffff' }).windowFg).toBe('#ffffff');
+  });
+
+  it('should fall back to the default preview theme', () => {
+    expect(mapThemeToPreviewColors({})).toEqual(defaultPreviewTheme);
+  });
+
+  it('should ignore properties the preview does not use', () => {
+    const colors = mapThemeToPreviewColors({ someUnknownKey: 'ff0000' });
+    expect(colors).not.toHaveProperty('someUnknownKey');
+  });
+});
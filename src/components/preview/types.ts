@@ -171,6 +171,8 @@ export interface MessageListProps {
   isGroupChat?: boolean;
   className?: string;
   wallpaperUrl?: string;
+  /** Repeat the wallpaper instead of stretching it (tiled.png backgrounds) */
+  wallpaperTiled?: boolean;
 }
 
 /**
@@ -182,6 +184,8 @@ export interface ThemePreviewProps {
   showSidebar?: boolean;
   responsive?: boolean;
   wallpaperUrl?: string;
+  /** Repeat the wallpaper instead of stretching it (tiled.png backgrounds) */
+  wallpaperTiled?: boolean;
 }
 
 /**
@@ -321,3 +325,22 @@ export function hexToCSS(hex: string): string {
   
   return `#${cleaned}`;
 }
+
+/**
+ * Convert generated theme properties (hex without #) to PreviewThemeColors.
+ * Properties missing from the theme fall back to defaultPreviewTheme.
+ */
+export function mapThemeToPreviewColors(
+  properties: Record<string, string>
+): PreviewThemeColors {
+  const colors = { ...defaultPreviewTheme };
+  
+  for (const key of Object.keys(colors) as (keyof PreviewThemeColors)[]) {
+    const value = properties[key];
+    if (value) {
+      colors[key] = value.startsWith('#') ? value : `#${value}`;
+    }
+  }
+  
+  return colors;
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Eyedropper } from './Eyedropper';
+
+// The node build of color-thief cannot load in jsdom
+vi.mock('colorthief', () => ({
+  default: class MockColorThief {},
+}));
+
+// The overlay covers a 200×100 image at the page origin
+function mockOverlaySize() {
+  vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({
+    left: 0,
+    top: 0,
+    width: 200,
+    height: 100,
+    right: 200,
+    bottom: 100,
+    x: 0,
+    y: 0,
+    toJSON: () => ({}),
+  });
+}
+
+/**
+ * A 20×10 canvas whose left half is red and right half is blue.
+ */
+function createSource(): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = 20;
+  canvas.height = 10;
+
+  const data = new Uint8ClampedArray(20 * 10 * 4);
+  for (let i = 0; i < 20 * 10; i++) {
+    data.set((i % 20) < 10 ? [230, 57, 70, 255] : [29, 53, 87, 255], i * 4);
+  }
+  const drawImage = vi.fn();
+  vi.spyOn(canvas, 'getContext').mockReturnValue({
+    getImageData: () => ({ data, width: 20, height: 10 }),
+    drawImage,
+    fillRect: vi.fn(),
+  } as unknown as CanvasRenderingContext2D);
+
+  return canvas;
+}
+
+async function renderReady(props: Partial<Parameters<typeof Eyedropper>[0]> = {}) {
+  const onPick = vi.fn();
+  const source = createSource();
+  const loadCanvas = vi.fn().mockResolvedValue(source);
+  render(<Eyedropper imageUrl="img.png" onPick={onPick} loadCanvas={loadCanvas} {...props} />);
+
+  const toggle = screen.getByRole('button', { name: 'Pick from image' });
+  await waitFor(() => expect(toggle).toBeEnabled());
+  return { onPick, loadCanvas, toggle };
+}
+
+describe('Eyedropper', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    mockOverlaySize();
+  });
+
+  it('should load the canvas for the image', async () => {
+    const { loadCanvas } = await renderReady();
+
+    expect(loadCanvas).toHaveBeenCalledWith('img.png', expect.any(AbortSignal));
+    expect(screen.getByTestId('eyedropper-image')).toHaveAttribute('src', 'img.png');
+  });
+
+  it('should stay off until pixels are loaded', () => {
+    render(
+      <Eyedropper imageUrl="img.png" onPick={vi.fn()} loadCanvas={() => new Promise(() => {})} />
+    );
+
+    expect(screen.getByRole('button', { name: 'Pick from image' })).toBeDisabled();
+  });
+
+  it('should offer theme colour slots with readable labels', async () => {
+    await renderReady();
+
+    const select = screen.getByLabelText('Theme colour to set');
+    expect(select).toHaveValue('primary');
+    expect(screen.getByRole('option', { name: 'Background secondary' })).toHaveValue(
+      'backgroundSecondary'
+    );
+  });
+
+  it('should show a loupe with the colour under the pointer', async () => {
+    const user = userEvent.setup();
+    const { toggle } = await renderReady();
+
+    await user.click(toggle);
+    fireEvent.pointerMove(screen.getByTestId('eyedropper-overlay'), { clientX: 150, clientY: 50 });
+
+    const loupe = screen.getByTestId('eyedropper-loupe');
+    expect(loupe).toHaveTextContent('#1d3557');
+    expect(loupe.style.left).toBe('75%');
+  });
+
+  it('should pick the colour into the chosen slot and turn itself off', async () => {
+    const user = userEvent.setup();
+    const { onPick, toggle } = await renderReady();
+
+    await user.selectOptions(screen.getByLabelText('Theme colour to set'), 'background');
+    await user.click(toggle);
+    fireEvent.pointerUp(screen.getByTestId('eyedropper-overlay'), { clientX: 20, clientY: 10 });
+
+    expect(onPick).toHaveBeenCalledWith('background', '#e63946');
+    expect(screen.queryByTestId('eyedropper-overlay')).not.toBeInTheDocument();
+  });
+
+  it('should stop picking on Escape', async () => {
+    const user = userEvent.setup();
+    const { toggle } = await renderReady();
+
+    await user.click(toggle);
+    expect(toggle).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.keyDown(toggle, { key: 'Escape' });
+
+    expect(toggle).toHaveAttribute('aria-pressed', 'false');
+    expect(screen.queryByTestId('eyedropper-overlay')).not.toBeInTheDocument();
+  });
+
+  it('should not allow picking when disabled', async () => {
+    const onPick = vi.fn();
+    render(
+      <Eyedropper
+        imageUrl="img.png"
+        onPick={onPick}
+        loadCanvas={vi.fn().mockResolvedValue(createSource())}
+        disabled
+      />
+    );
+
+    await waitFor(() => expect(screen.getByLabelText('Theme colour to set')).toBeDisabled());
+    expect(screen.getByRole('button', { name: 'Pick from image' })).toBeDisabled();
+  });
+
+  it('should read from the preprocessed canvas by default', async () => {
+    const { ColorExtractor } = await import('../../core/color-extraction');
+    const spy = vi
+      .spyOn(ColorExtractor.prototype, 'getPreprocessedCanvas')
+      .mockResolvedValue(createSource());
+
+    render(<Eyedropper imageUrl="img.png" onPick={vi.fn()} />);
+
+    await waitFor(() =>
+      expect(screen.getByRole('button', { name: 'Pick from image' })).toBeEnabled()
+    );
+    expect(spy).toHaveBeenCalledWith('img.png', { signal: expect.any(AbortSignal) });
+  });
+});
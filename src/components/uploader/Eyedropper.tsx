@@ -0,0 +1,244 @@
+import { useState, useRef, useEffect, useCallback, type PointerEvent } from 'react';
+import { ColorExtractor } from '../../core/color-extraction';
+import type { ThemeColors } from '../../core/theme-generation';
+import { EYEDROPPER_SLOTS, LOUPE_RADIUS, LOUPE_SCALE, type EyedropperProps } from './types';
+
+interface Sample {
+  /** Pixel in the source canvas */
+  x: number;
+  y: number;
+  /** Pointer position as image fractions, to place the loupe */
+  left: number;
+  top: number;
+  hex: string;
+}
+
+interface LoadedSource {
+  imageUrl: string;
+  canvas: HTMLCanvasElement;
+  pixels: ImageData;
+}
+
+const LOUPE_SIZE = (LOUPE_RADIUS * 2 + 1) * LOUPE_SCALE;
+
+function loadPreprocessedCanvas(imageUrl: string, signal: AbortSignal): Promise<HTMLCanvasElement> {
+  return new ColorExtractor().getPreprocessedCanvas(imageUrl, { signal });
+}
+
+/**
+ * "backgroundSecondary" → "Background secondary"
+ */
+function slotLabel(slot: keyof ThemeColors): string {
+  const words = slot.replace(/([A-Z0-9])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function toHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Eyedropper shows an image and, once switched on, a magnified loupe under
+ * the pointer. Clicking picks that pixel's colour for the chosen theme
+ * colour. Pixels come from the downscaled canvas colour extraction reads,
+ * so a picked colour is one extraction could have found.
+ */
+export function Eyedropper({
+  imageUrl,
+  onPick,
+  slots = EYEDROPPER_SLOTS,
+  loadCanvas = loadPreprocessedCanvas,
+  alt = 'Uploaded preview',
+  className = '',
+  disabled = false,
+}: EyedropperProps) {
+  const [source, setSource] = useState<LoadedSource | null>(null);
+  const [active, setActive] = useState(false);
+  const [slot, setSlot] = useState<keyof ThemeColors>(slots[0]);
+  const [sample, setSample] = useState<Sample | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const loupeRef = useRef<HTMLCanvasElement>(null);
+
+  // Pixels of a previous image are never read
+  const loaded = source?.imageUrl === imageUrl ? source : null;
+  const canvas = loaded?.canvas ?? null;
+  const pixels = loaded?.pixels ?? null;
+
+  // Read the source pixels once per image
+  useEffect(() => {
+    const controller = new AbortController();
+
+    loadCanvas(imageUrl, controller.signal)
+      .then((loadedCanvas) => {
+        if (controller.signal.aborted) return;
+        const ctx = loadedCanvas.getContext('2d');
+        if (!ctx) return;
+        setSource({
+          imageUrl,
+          canvas: loadedCanvas,
+          pixels: ctx.getImageData(0, 0, loadedCanvas.width, loadedCanvas.height),
+        });
+      })
+      .catch(() => {
+        // Without pixels the eyedropper stays unavailable
+      });
+
+    return () => controller.abort();
+  }, [imageUrl, loadCanvas]);
+
+  // Draw the magnified neighbourhood of the sampled pixel
+  useEffect(() => {
+    const ctx = loupeRef.current?.getContext('2d');
+    if (!ctx || !canvas || !sample) return;
+
+    ctx.imageSmoothingEnabled = false;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, LOUPE_SIZE, LOUPE_SIZE);
+    ctx.drawImage(
+      canvas,
+      sample.x - LOUPE_RADIUS,
+      sample.y - LOUPE_RADIUS,
+      LOUPE_RADIUS * 2 + 1,
+      LOUPE_RADIUS * 2 + 1,
+      0,
+      0,
+      LOUPE_SIZE,
+      LOUPE_SIZE
+    );
+
+    // Outline the picked pixel
+    const start = LOUPE_RADIUS * LOUPE_SCALE;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(start - 1, start - 1, LOUPE_SCALE + 2, 1);
+    ctx.fillRect(start - 1, start + LOUPE_SCALE, LOUPE_SCALE + 2, 1);
+    ctx.fillRect(start - 1, start, 1, LOUPE_SCALE);
+    ctx.fillRect(start + LOUPE_SCALE, start, 1, LOUPE_SCALE);
+  }, [canvas, sample]);
+
+  /**
+   * Reads the pixel under the pointer.
+   */
+  const toSample = useCallback(
+    (e: PointerEvent<HTMLDivElement>): Sample | null => {
+      const rect = overlayRef.current?.getBoundingClientRect();
+      if (!pixels || !rect || rect.width === 0 || rect.height === 0) {
+        return null;
+      }
+
+      const left = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+      const top = Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1);
+      const x = Math.min(pixels.width - 1, Math.floor(left * pixels.width));
+      const y = Math.min(pixels.height - 1, Math.floor(top * pixels.height));
+      const offset = (y * pixels.width + x) * 4;
+
+      return {
+        x,
+        y,
+        left,
+        top,
+        hex: toHex(pixels.data[offset], pixels.data[offset + 1], pixels.data[offset + 2]),
+      };
+    },
+    [pixels]
+  );
+
+  const stop = useCallback(() => {
+    setActive(false);
+    setSample(null);
+  }, []);
+
+  const handlePick = useCallback(
+    (e: PointerEvent<HTMLDivElement>) => {
+      const picked = toSample(e);
+      if (!picked) return;
+
+      onPick(slot, picked.hex);
+      stop();
+    },
+    [toSample, onPick, slot, stop]
+  );
+
+  const available = !disabled && pixels !== null;
+
+  return (
+    <div
+      className={`w-full ${className}`}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') stop();
+      }}
+      data-testid="eyedropper"
+    >
+      <div className="mb-2 flex flex-wrap items-center justify-center gap-2 text-xs text-gray-600">
+        <select
+          value={slot}
+          onChange={(e) => setSlot(e.target.value as keyof ThemeColors)}
+          disabled={disabled}
+          aria-label="Theme colour to set"
+          className="rounded-md border border-gray-200 bg-white px-2 py-1"
+        >
+          {slots.map((option) => (
+            <option key={option} value={option}>
+              {slotLabel(option)}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => (active ? stop() : setActive(true))}
+          disabled={!available}
+          aria-pressed={active}
+          className="px-2 py-1 rounded-md border border-gray-200 bg-white hover:bg-gray-100 disabled:opacity-50"
+        >
+          {active ? 'Stop picking' : 'Pick from image'}
+        </button>
+      </div>
+
+      <div className="relative inline-block max-w-full select-none">
+        <img
+          src={imageUrl}
+          alt={alt}
+          className="block max-h-[300px] max-w-full rounded-md object-contain"
+          draggable={false}
+          data-testid="eyedropper-image"
+        />
+        {active && available && (
+          <div
+            ref={overlayRef}
+            className="absolute inset-0 rounded-md cursor-crosshair"
+            style={{ touchAction: 'none' }}
+            onPointerMove={(e) => setSample(toSample(e))}
+            onPointerLeave={() => setSample(null)}
+            onPointerUp={handlePick}
+            aria-label={`Click to pick ${slotLabel(slot).toLowerCase()}`}
+            data-testid="eyedropper-overlay"
+          >
+            {sample && (
+              <div
+                className="absolute pointer-events-none flex flex-col items-center"
+                style={{
+                  left: `${sample.left * 100}%`,
+                  top: `${sample.top * 100}%`,
+                  transform: 'translate(-50%, calc(-100% - 12px))',
+                }}
+                data-testid="eyedropper-loupe"
+              >
+                <canvas
+                  ref={loupeRef}
+                  width={LOUPE_SIZE}
+                  height={LOUPE_SIZE}
+                  className="rounded-full border-2 border-white shadow-lg"
+                  style={{ imageRendering: 'pixelated' }}
+                />
+                <span className="mt-1 rounded bg-gray-800 px-1.5 py-0.5 font-mono text-[10px] text-white">
+                  {sample.hex}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Eyedropper;
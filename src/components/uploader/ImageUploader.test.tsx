@@ -492,6 +492,66 @@ describe('ImageUploader', () => {
     });
   });
 
+  describe('focus regions', () => {
+    it('should draw regions on the preview when enabled', async () => {
+      const onRegionsChange = vi.fn();
+      render(
+        <ImageUploader
+          onImageUpload={mockOnImageUpload}
+          regions={[{ x: 0.1, y: 0.1, width: 0.5, height: 0.5 }]}
+          onRegionsChange={onRegionsChange}
+        />
+      );
+
+      const file = createMockFile('test.jpg', 1024, 'image/jpeg');
+      fireEvent.change(screen.getByTestId('file-input'), {
+        target: { files: [file] },
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('region-selector')).toBeInTheDocument();
+      });
+      expect(screen.getAllByTestId('focus-region')).toHaveLength(1);
+    });
+
+    it('should not open the file dialog when editing regions', async () => {
+      const user = userEvent.setup();
+      const onRegionsChange = vi.fn();
+      render(
+        <ImageUploader
+          onImageUpload={mockOnImageUpload}
+          regions={[{ x: 0.1, y: 0.1, width: 0.5, height: 0.5 }]}
+          onRegionsChange={onRegionsChange}
+        />
+      );
+
+      const input = screen.getByTestId('file-input') as HTMLInputElement;
+      fireEvent.change(input, { target: { files: [createMockFile('test.jpg', 1024, 'image/jpeg')] } });
+      await waitFor(() => {
+        expect(screen.getByTestId('region-selector')).toBeInTheDocument();
+      });
+
+      const clickSpy = vi.spyOn(input, 'click');
+      await user.click(screen.getByRole('button', { name: 'Remove focus region 1' }));
+
+      expect(onRegionsChange).toHaveBeenCalledWith([]);
+      expect(clickSpy).not.toHaveBeenCalled();
+    });
+
+    it('should show a plain preview without a region handler', async () => {
+      render(<ImageUploader onImageUpload={mockOnImageUpload} />);
+
+      fireEvent.change(screen.getByTestId('file-input'), {
+        target: { files: [createMockFile('test.jpg', 1024, 'image/jpeg')] },
+      });
+
+      await waitFor(() => {
+        expect(screen.getByTestId('image-preview')).toBeInTheDocument();
+      });
+      expect(screen.queryByTestId('region-selector')).not.toBeInTheDocument();
+    });
+  });
+
   describe('clear functionality', () => {
     it('should show clear button after upload', async () => {
       render(<ImageUploader onImageUpload={mockOnImageUpload} />);
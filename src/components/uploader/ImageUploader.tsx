@@ -6,6 +6,7 @@ import {
   type ImageUploaderProps,
   type ValidationError,
 } from './types';
+import { RegionSelector } from './RegionSelector';
 
 /**
  * ImageUploader component allows users to upload wallpaper images
@@ -19,6 +20,8 @@ export function ImageUploader({
   acceptedTypes = ACCEPTED_IMAGE_TYPES,
   className = '',
   disabled = false,
+  regions = [],
+  onRegionsChange,
 }: ImageUploaderProps) {
   const [uploadState, setUploadState] = useState<UploadState>('idle');
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
@@ -282,12 +285,23 @@ export function ImageUploader({
         {/* Preview state */}
         {previewUrl && uploadState === 'success' && (
           <div className="relative w-full">
-            <img
-              src={previewUrl}
-              alt="Uploaded preview"
-              className="max-h-[300px] mx-auto rounded-md object-contain"
-              data-testid="image-preview"
-            />
+            {onRegionsChange ? (
+              <div className="text-center">
+                <RegionSelector
+                  imageUrl={previewUrl}
+                  regions={regions}
+                  onChange={onRegionsChange}
+                  disabled={disabled}
+                />
+              </div>
+            ) : (
+              <img
+                src={previewUrl}
+                alt="Uploaded preview"
+                className="max-h-[300px] mx-auto rounded-md object-contain"
+                data-testid="image-preview"
+              />
+            )}
             <button
               type="button"
               onClick={(e) => {
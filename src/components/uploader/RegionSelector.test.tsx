@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { RegionSelector } from './RegionSelector';
+
+// The overlay covers a 200×100 image at the page origin
+function mockOverlaySize() {
+  vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({
+    left: 0,
+    top: 0,
+    width: 200,
+    height: 100,
+    right: 200,
+    bottom: 100,
+    x: 0,
+    y: 0,
+    toJSON: () => ({}),
+  });
+}
+
+function drag(from: [number, number], to: [number, number]) {
+  const overlay = screen.getByTestId('region-overlay');
+  fireEvent.pointerDown(overlay, { button: 0, clientX: from[0], clientY: from[1] });
+  fireEvent.pointerMove(overlay, { clientX: to[0], clientY: to[1] });
+  fireEvent.pointerUp(overlay, { clientX: to[0], clientY: to[1] });
+}
+
+describe('RegionSelector', () => {
+  const onChange = vi.fn();
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    onChange.mockClear();
+    mockOverlaySize();
+  });
+
+  it('should render the image and existing regions', () => {
+    render(
+      <RegionSelector
+        imageUrl="data:image/png;base64,test"
+        regions={[{ x: 0.25, y: 0.5, width: 0.5, height: 0.25 }]}
+        onChange={onChange}
+      />
+    );
+
+    expect(screen.getByTestId('image-preview')).toHaveAttribute('src', 'data:image/png;base64,test');
+    const region = screen.getByTestId('focus-region');
+    expect(region.style.left).toBe('25%');
+    expect(region.style.top).toBe('50%');
+    expect(region.style.width).toBe('50%');
+    expect(screen.getByText('1 focus region')).toBeInTheDocument();
+  });
+
+  it('should add a region in image fractions when dragging', () => {
+    render(<RegionSelector imageUrl="img.png" regions={[]} onChange={onChange} />);
+
+    drag([150, 80], [50, 20]);
+
+    expect(onChange).toHaveBeenCalledWith([
+      { x: 0.25, y: 0.2, width: 0.5, height: expect.closeTo(0.6, 10) },
+    ]);
+  });
+
+  it('should clamp drags that leave the image', () => {
+    render(<RegionSelector imageUrl="img.png" regions={[]} onChange={onChange} />);
+
+    drag([100, 50], [400, 300]);
+
+    expect(onChange).toHaveBeenCalledWith([{ x: 0.5, y: 0.5, width: 0.5, height: 0.5 }]);
+  });
+
+  it('should show the region while dragging', () => {
+    render(<RegionSelector imageUrl="img.png" regions={[]} onChange={onChange} />);
+    const overlay = screen.getByTestId('region-overlay');
+
+    fireEvent.pointerDown(overlay, { button: 0, clientX: 10, clientY: 10 });
+    fireEvent.pointerMove(overlay, { clientX: 60, clientY: 40 });
+
+    expect(screen.getByTestId('draft-region')).toBeInTheDocument();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should ignore clicks and tiny drags', () => {
+    render(<RegionSelector imageUrl="img.png" regions={[]} onChange={onChange} />);
+
+    drag([50, 50], [50, 50]);
+    drag([50, 50], [51, 51]);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should append to existing regions', () => {
+    const existing = { x: 0, y: 0, width: 0.1, height: 0.1 };
+    render(<RegionSelector imageUrl="img.png" regions={[existing]} onChange={onChange} />);
+
+    drag([100, 0], [200, 100]);
+
+    expect(onChange).toHaveBeenCalledWith([existing, { x: 0.5, y: 0, width: 0.5, height: 1 }]);
+  });
+
+  it('should remove a region', async () => {
+    const user = userEvent.setup();
+    const first = { x: 0, y: 0, width: 0.1, height: 0.1 };
+    const second = { x: 0.5, y: 0.5, width: 0.2, height: 0.2 };
+    render(<RegionSelector imageUrl="img.png" regions={[first, second]} onChange={onChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'Remove focus region 1' }));
+
+    expect(onChange).toHaveBeenCalledWith([second]);
+  });
+
+  it('should clear all regions', async () => {
+    const user = userEvent.setup();
+    render(
+      <RegionSelector
+        imageUrl="img.png"
+        regions={[{ x: 0, y: 0, width: 0.1, height: 0.1 }]}
+        onChange={onChange}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Clear' }));
+
+    expect(onChange).toHaveBeenCalledWith([]);
+  });
+
+  it('should not allow changes when disabled', () => {
+    render(
+      <RegionSelector
+        imageUrl="img.png"
+        regions={[{ x: 0, y: 0, width: 0.1, height: 0.1 }]}
+        onChange={onChange}
+        disabled
+      />
+    );
+
+    drag([0, 0], [100, 100]);
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(screen.queryByRole('button', { name: /remove focus region/i })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Clear' })).not.toBeInTheDocument();
+  });
+});
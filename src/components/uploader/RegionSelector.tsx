@@ -0,0 +1,204 @@
+import { useState, useRef, useCallback, type PointerEvent } from 'react';
+import type { ImageRegion } from '../../core/color-extraction';
+import { MIN_REGION_SIZE, type RegionSelectorProps } from './types';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Rectangle spanned by two corners, in image fractions.
+ */
+function toRegion(start: Point, end: Point): ImageRegion {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+function toPercent(value: number): string {
+  return `${value * 100}%`;
+}
+
+/**
+ * RegionSelector shows an image and lets the user drag rectangles over the
+ * parts whose colours matter most. Regions are reported in image fractions
+ * (0-1), ready for ColorExtractor.
+ */
+export function RegionSelector({
+  imageUrl,
+  regions,
+  onChange,
+  alt = 'Uploaded preview',
+  className = '',
+  disabled = false,
+}: RegionSelectorProps) {
+  const [start, setStart] = useState<Point | null>(null);
+  const [current, setCurrent] = useState<Point | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Converts a pointer position to image fractions, clamped to the image.
+   */
+  const toPoint = useCallback((e: PointerEvent<HTMLDivElement>): Point | null => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) {
+      return null;
+    }
+
+    return {
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    };
+  }, []);
+
+  const handlePointerDown = useCallback(
+    (e: PointerEvent<HTMLDivElement>) => {
+      if (disabled || e.button !== 0) return;
+
+      const point = toPoint(e);
+      if (!point) return;
+
+      e.preventDefault();
+      e.currentTarget.setPointerCapture?.(e.pointerId);
+      setStart(point);
+      setCurrent(point);
+    },
+    [disabled, toPoint]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: PointerEvent<HTMLDivElement>) => {
+      if (!start) return;
+
+      const point = toPoint(e);
+      if (point) {
+        setCurrent(point);
+      }
+    },
+    [start, toPoint]
+  );
+
+  const handlePointerUp = useCallback(
+    (e: PointerEvent<HTMLDivElement>) => {
+      if (!start) return;
+
+      const end = toPoint(e) ?? current ?? start;
+      const region = toRegion(start, end);
+      setStart(null);
+      setCurrent(null);
+
+      // Ignore clicks and accidental tiny drags
+      if (region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+        onChange([...regions, region]);
+      }
+    },
+    [start, current, toPoint, onChange, regions]
+  );
+
+  const handleRemove = useCallback(
+    (index: number) => {
+      onChange(regions.filter((_, i) => i !== index));
+    },
+    [onChange, regions]
+  );
+
+  const draft = start && current ? toRegion(start, current) : null;
+
+  return (
+    <div
+      className={`w-full ${className}`}
+      // Keep clicks and key presses from reaching a surrounding drop zone
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+      data-testid="region-selector"
+    >
+      <div className="relative inline-block max-w-full select-none">
+        <img
+          src={imageUrl}
+          alt={alt}
+          className="block max-h-[300px] max-w-full rounded-md object-contain"
+          draggable={false}
+          data-testid="image-preview"
+        />
+        <div
+          ref={overlayRef}
+          className={`absolute inset-0 rounded-md ${disabled ? '' : 'cursor-crosshair'}`}
+          style={{ touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => {
+            setStart(null);
+            setCurrent(null);
+          }}
+          aria-label="Drag to mark a focus region"
+          data-testid="region-overlay"
+        >
+          {regions.map((region, index) => (
+            <div
+              key={index}
+              className="absolute border-2 border-white rounded-sm"
+              style={{
+                left: toPercent(region.x),
+                top: toPercent(region.y),
+                width: toPercent(region.width),
+                height: toPercent(region.height),
+                boxShadow: '0 0 0 1px rgba(0, 0, 0, 0.5)',
+                backgroundColor: 'rgba(79, 168, 168, 0.2)',
+              }}
+              data-testid="focus-region"
+            >
+              {!disabled && (
+                <button
+                  type="button"
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => handleRemove(index)}
+                  className="absolute -top-2.5 -right-2.5 w-5 h-5 rounded-full bg-gray-800 text-white text-xs leading-none flex items-center justify-center hover:bg-red-500 transition-colors"
+                  aria-label={`Remove focus region ${index + 1}`}
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+          {draft && (
+            <div
+              className="absolute border-2 border-dashed border-white rounded-sm pointer-events-none"
+              style={{
+                left: toPercent(draft.x),
+                top: toPercent(draft.y),
+                width: toPercent(draft.width),
+                height: toPercent(draft.height),
+                boxShadow: '0 0 0 1px rgba(0, 0, 0, 0.5)',
+              }}
+              data-testid="draft-region"
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="mt-2 flex items-center justify-center gap-3 text-xs text-gray-600">
+        <span>
+          {regions.length === 0
+            ? 'Drag over the image to focus on the parts you care about'
+            : `${regions.length} focus ${regions.length === 1 ? 'region' : 'regions'}`}
+        </span>
+        {regions.length > 0 && !disabled && (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="text-blue-600 hover:text-blue-800 underline"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RegionSelector;
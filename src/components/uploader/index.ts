@@ -1,11 +1,19 @@
 export { ImageUploader } from './ImageUploader';
+export { RegionSelector } from './RegionSelector';
+export { Eyedropper } from './Eyedropper';
 
 export {
   type ImageUploaderProps,
+  type RegionSelectorProps,
+  type EyedropperProps,
   type UploadState,
   type ValidationError,
   ACCEPTED_IMAGE_TYPES,
   ACCEPTED_EXTENSIONS,
   MAX_FILE_SIZE,
   ERROR_MESSAGES,
+  MIN_REGION_SIZE,
+  EYEDROPPER_SLOTS,
+  LOUPE_RADIUS,
+  LOUPE_SCALE,
 } from './types';
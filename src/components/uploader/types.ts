@@ -1,3 +1,6 @@
+import type { ImageRegion } from '../../core/color-extraction';
+import type { ThemeColors } from '../../core/theme-generation';
+
 /**
  * Accepted image MIME types.
  */
@@ -73,4 +76,126 @@ export interface ImageUploaderProps {
    * Whether the uploader is disabled.
    */
   disabled?: boolean;
+
+  /**
+   * Focus regions drawn on the preview.
+   */
+  regions?: ImageRegion[];
+
+  /**
+   * Enables drawing focus regions on the preview. Called with the new list
+   * whenever a region is added or removed.
+   */
+  onRegionsChange?: (regions: ImageRegion[]) => void;
+}
+
+/**
+ * Smallest region side, as a fraction of the image, kept after a drag.
+ */
+export const MIN_REGION_SIZE = 0.02;
+
+/**
+ * Props for RegionSelector component.
+ */
+export interface RegionSelectorProps {
+  /**
+   * Image to draw regions on.
+   */
+  imageUrl: string;
+
+  /**
+   * Current regions, in image fractions (0-1).
+   */
+  regions: ImageRegion[];
+
+  /**
+   * Called with the new list when a region is added or removed.
+   */
+  onChange: (regions: ImageRegion[]) => void;
+
+  /**
+   * Alt text for the image.
+   * @default 'Uploaded preview'
+   */
+  alt?: string;
+
+  /**
+   * Optional class name for the container.
+   */
+  className?: string;
+
+  /**
+   * Shows the regions without allowing changes.
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Theme colours the eyedropper can set, in the order offered.
+ */
+export const EYEDROPPER_SLOTS: readonly (keyof ThemeColors)[] = [
+  'primary',
+  'accent',
+  'background',
+  'backgroundSecondary',
+  'backgroundTertiary',
+  'textPrimary',
+  'textSecondary',
+  'textMuted',
+  'textOnPrimary',
+  'online',
+  'offline',
+];
+
+/**
+ * Source pixels shown on each side of the picked one in the loupe.
+ */
+export const LOUPE_RADIUS = 5;
+
+/**
+ * Screen pixels per source pixel in the loupe.
+ */
+export const LOUPE_SCALE = 8;
+
+/**
+ * Props for Eyedropper component.
+ */
+export interface EyedropperProps {
+  /**
+   * Image to pick colours from.
+   */
+  imageUrl: string;
+
+  /**
+   * Called with the chosen theme colour and the picked hex colour.
+   */
+  onPick: (slot: keyof ThemeColors, hex: string) => void;
+
+  /**
+   * Theme colours offered.
+   * @default EYEDROPPER_SLOTS
+   */
+  slots?: readonly (keyof ThemeColors)[];
+
+  /**
+   * Loads the canvas to read pixels from.
+   * @default ColorExtractor.getPreprocessedCanvas, the canvas extraction reads
+   */
+  loadCanvas?: (imageUrl: string, signal: AbortSignal) => Promise<HTMLCanvasElement>;
+
+  /**
+   * Alt text for the image.
+   * @default 'Uploaded preview'
+   */
+  alt?: string;
+
+  /**
+   * Optional class name for the container.
+   */
+  className?: string;
+
+  /**
+   * Shows the image without allowing picks.
+   */
+  disabled?: boolean;
 }
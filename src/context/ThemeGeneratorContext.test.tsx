@@ -2,22 +2,60 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { ThemeGeneratorProvider, useThemeGenerator } from './ThemeGeneratorContext';
 import type { ReactNode } from 'react';
+import { ThemeImporter } from '../core/theme-import';
+
+const { mockAverageBrightness, mockBorders, builderInstances, solverOptions } = vi.hoisted(() => ({
+  mockAverageBrightness: vi.fn(),
+  // Border report returned by every extraction
+  mockBorders: { current: null as unknown },
+  // Builders created by the provider, to inspect the mode and colours used
+  builderInstances: [] as { options: { mode: string }; buildTheme: ReturnType<typeof vi.fn> }[],
+  // Options of every contrast solver created while generating
+  solverOptions: [] as { model?: string }[],
+}));
 
 // Mock modules at module level - these must be hoisted
 vi.mock('../core/color-extraction', () => {
   return {
     ColorExtractor: class {
       getDominantColors = vi.fn().mockResolvedValue([
-        { rgb: [64, 167, 227], hex: '#40a7e3', vibrancy: 0.8, brightness: 0.6 },
-        { rgb: [93, 196, 82], hex: '#5dc452', vibrancy: 0.7, brightness: 0.5 },
-        { rgb: [255, 200, 100], hex: '#ffc864', vibrancy: 0.6, brightness: 0.7 },
+        { rgb: [64, 167, 227], hex: '#40a7e3', vibrancy: 0.8, brightness: 0.6, population: 0.5 },
+        { rgb: [93, 196, 82], hex: '#5dc452', vibrancy: 0.7, brightness: 0.5, population: 0.3 },
+        { rgb: [255, 200, 100], hex: '#ffc864', vibrancy: 0.6, brightness: 0.7, population: 0.2 },
       ]);
+      getAverageBrightness = mockAverageBrightness;
+      async extract(source: string, options: object) {
+        return {
+          colors: await this.getDominantColors(source, options),
+          brightness: await this.getAverageBrightness(source, options),
+          borders: mockBorders.current,
+        };
+      }
     },
+    toExtractedColor: (rgb: number[], population: number) => ({
+      rgb,
+      hex: `#${rgb.map(c => c.toString(16).padStart(2, '0')).join('')}`,
+      vibrancy: 0.9,
+      brightness: 0.5,
+      population,
+    }),
   };
 });
 
-vi.mock('../core/contrast', () => {
+vi.mock('../core/contrast', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../core/contrast')>();
   return {
+    ...actual,
+    ContrastSolver: class {
+      constructor(options: { model?: string }) {
+        solverOptions.push(options);
+      }
+      solve = vi.fn((properties: Record<string, string>) => ({
+        properties: { ...properties },
+        changes: {},
+        unmet: [],
+      }));
+    },
     ContrastOptimizer: class {
       ensureContrast = vi.fn().mockReturnValue({
         wasAdjusted: false,
@@ -34,9 +72,21 @@ vi.mock('../core/contrast', () => {
   };
 });
 
-vi.mock('../core/theme-generation', () => {
+vi.mock('../core/theme-generation', async (importOriginal) => {
+  // Keep the real validator and property schema for imported themes
+  const actual = await importOriginal<typeof import('../core/theme-generation')>();
   return {
+    ...actual,
     TelegramThemeBuilder: class {
+      options: { mode: string };
+      constructor(options: { mode: string }) {
+        this.options = options;
+        builderInstances.push(this);
+      }
+      // Edits go through the real builder
+      applyPropertyEdits(...args: Parameters<InstanceType<typeof actual.TelegramThemeBuilder>['applyPropertyEdits']>) {
+        return new actual.TelegramThemeBuilder().applyPropertyEdits(...args);
+      }
       buildTheme = vi.fn().mockReturnValue({
         name: 'Test Theme',
         content: 'windowBg: #ffffff',
@@ -54,6 +104,7 @@ vi.mock('../core/theme-generation', () => {
           dialogsBg: 'ffffff',
           dialogsNameFg: '212121',
         },
+        references: { dialogsBg: 'windowBg' },
         validation: {
           valid: true,
           errors: [],
@@ -72,6 +123,10 @@ function wrapper({ children }: { children: ReactNode }) {
 describe('ThemeGeneratorContext', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    builderInstances.length = 0;
+    solverOptions.length = 0;
+    mockBorders.current = null;
+    mockAverageBrightness.mockResolvedValue(200);
   });
 
   afterEach(() => {
@@ -115,6 +170,126 @@ describe('ThemeGeneratorContext', () => {
     });
   });
 
+  describe('theme mode', () => {
+    const mockFile = new File(['test'], 'test.jpg', { type: 'image/jpeg' });
+    const mockPreviewUrl = 'data:image/jpeg;base64,test';
+    
+    it('should default to auto', () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      expect(result.current.modePreference).toBe('auto');
+    });
+    
+    it('should pick dark for dark images in auto mode', async () => {
+      mockAverageBrightness.mockResolvedValue(60);
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      
+      expect(mockAverageBrightness).toHaveBeenCalledWith(mockPreviewUrl, expect.anything());
+      expect(result.current.themeMode).toBe('dark');
+      expect(builderInstances[0].options.mode).toBe('dark');
+    });
+    
+    it('should tune dark themes with APCA and light ones with WCAG', async () => {
+      mockAverageBrightness.mockResolvedValueOnce(60);
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      await act(async () => {
+        result.current.setThemeMode('light');
+      });
+      
+      expect(solverOptions.map(options => options.model)).toEqual(['apca', 'wcag']);
+    });
+    
+    it('should pick light for bright images in auto mode', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      
+      expect(result.current.themeMode).toBe('light');
+    });
+    
+    it('should regenerate in the chosen mode', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      await act(async () => {
+        result.current.setThemeMode('dark');
+      });
+      
+      expect(result.current.modePreference).toBe('dark');
+      expect(result.current.themeMode).toBe('dark');
+      expect(builderInstances).toHaveLength(2);
+      expect(builderInstances[1].options.mode).toBe('dark');
+    });
+    
+    it('should tint dark surfaces with the image hue', async () => {
+      mockAverageBrightness.mockResolvedValue(60);
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      
+      // The darkest mock colour is green (#5dc452), so surfaces lean green
+      const colors = builderInstances[0].buildTheme.mock.calls[0][0];
+      const [r, g, b] = [1, 3, 5].map(i => parseInt(colors.background.slice(i, i + 2), 16));
+      expect(g).toBeGreaterThan(r);
+      expect(g).toBeGreaterThan(b);
+      expect(r + g + b).toBeLessThan(3 * 64);
+      expect(colors.backgroundSecondary).not.toBe(colors.background);
+    });
+  });
+
+  describe('theme style', () => {
+    const mockFile = new File(['test'], 'test.jpg', { type: 'image/jpeg' });
+    const mockPreviewUrl = 'data:image/jpeg;base64,test';
+    
+    it('should default to vibrant', () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      expect(result.current.themeStyle).toBe('vibrant');
+    });
+    
+    it('should store the style without an image', () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      act(() => {
+        result.current.setThemeStyle('muted');
+      });
+      
+      expect(result.current.themeStyle).toBe('muted');
+      expect(builderInstances).toHaveLength(0);
+    });
+    
+    it('should regenerate with the chosen style', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      await act(async () => {
+        result.current.setThemeStyle('monochrome');
+      });
+      
+      expect(result.current.themeStyle).toBe('monochrome');
+      expect(builderInstances).toHaveLength(2);
+      
+      const vibrant = builderInstances[0].buildTheme.mock.calls[0][0];
+      const monochrome = builderInstances[1].buildTheme.mock.calls[0][0];
+      expect(monochrome.primary).toBe(vibrant.primary);
+      expect(monochrome.accent).not.toBe(vibrant.accent);
+    });
+  });
+
   describe('reset', () => {
     it('should reset state to initial values', async () => {
       const { result } = renderHook(() => useThemeGenerator(), { wrapper });
@@ -137,6 +312,627 @@ describe('ThemeGeneratorContext', () => {
     });
   });
 
+  describe('ignored borders', () => {
+    it('should expose the borders left out of extraction', async () => {
+      const borders = { kind: 'letterbox', top: 6, bottom: 6, left: 0, right: 0, fraction: 0.12, color: [0, 0, 0] };
+      mockBorders.current = borders;
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      expect(result.current.ignoredBorders).toBeNull();
+      
+      await act(async () => {
+        await result.current.uploadImage(new File(['test'], 'still.jpg', { type: 'image/jpeg' }), 'data:image/jpeg;base64,test');
+      });
+      
+      expect(result.current.ignoredBorders).toEqual(borders);
+    });
+  });
+
+  describe('focus regions', () => {
+    const mockFile = new File(['test'], 'test.jpg', { type: 'image/jpeg' });
+    const mockPreviewUrl = 'data:image/jpeg;base64,test';
+    const regions = [{ x: 0.1, y: 0.2, width: 0.3, height: 0.4 }];
+    
+    it('should start with the whole image', () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      expect(result.current.focusRegions).toEqual([]);
+    });
+    
+    it('should regenerate with the regions and save them with the theme', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      await act(async () => {
+        result.current.setFocusRegions(regions);
+      });
+      
+      expect(mockAverageBrightness).toHaveBeenLastCalledWith(
+        mockPreviewUrl,
+        expect.objectContaining({ regions })
+      );
+      expect(builderInstances).toHaveLength(2);
+      expect(result.current.focusRegions).toEqual(regions);
+      expect(result.current.generatedTheme?.focusRegions).toEqual(regions);
+    });
+    
+    it('should reuse the saved regions when regenerating', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      await act(async () => {
+        result.current.setFocusRegions(regions);
+      });
+      await act(async () => {
+        await result.current.regenerateTheme();
+      });
+      
+      expect(mockAverageBrightness).toHaveBeenLastCalledWith(
+        mockPreviewUrl,
+        expect.objectContaining({ regions })
+      );
+      expect(result.current.generatedTheme?.focusRegions).toEqual(regions);
+    });
+    
+    it('should clear the regions for a new image', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      await act(async () => {
+        result.current.setFocusRegions(regions);
+      });
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      
+      expect(result.current.focusRegions).toEqual([]);
+      expect(result.current.generatedTheme?.focusRegions).toBeUndefined();
+    });
+  });
+
+  describe('palette editing', () => {
+    const mockFile = new File(['test'], 'test.jpg', { type: 'image/jpeg' });
+    const mockPreviewUrl = 'data:image/jpeg;base64,test';
+    
+    const upload = async () => {
+      const hook = renderHook(() => useThemeGenerator(), { wrapper });
+      await act(async () => {
+        await hook.result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      return hook;
+    };
+    
+    it('should expose the extracted colours as an unedited palette', async () => {
+      const { result } = await upload();
+      
+      expect(result.current.palette?.swatches.map(s => s.color)).toEqual(result.current.extractedColors);
+      expect(result.current.palette?.primary).toBeNull();
+    });
+    
+    it('should regenerate with a swatch pinned as primary or accent', async () => {
+      const { result } = await upload();
+      
+      await act(async () => {
+        result.current.setPrimary(2);
+      });
+      expect(result.current.palette?.primary).toBe('#ffc864');
+      expect(builderInstances[1].buildTheme.mock.calls[0][0].primary).toBe('#ffc864');
+      
+      await act(async () => {
+        result.current.setAccent(0);
+      });
+      expect(builderInstances[2].buildTheme.mock.calls[0][0].accent).toBe('#40a7e3');
+    });
+    
+    it('should regenerate with a replaced swatch and keep it locked', async () => {
+      const { result } = await upload();
+      
+      await act(async () => {
+        result.current.replaceSwatch(0, '#c2185b');
+      });
+      
+      expect(result.current.palette?.swatches[0]).toMatchObject({
+        color: { hex: '#c2185b' },
+        locked: true,
+        originalHex: '#40a7e3',
+      });
+      expect(builderInstances[1].buildTheme.mock.calls[0][0].primary).toBe('#c2185b');
+    });
+    
+    it('should regenerate with a colour set from the eyedropper', async () => {
+      const { result } = await upload();
+      
+      await act(async () => {
+        result.current.setColorOverride('background', '#fdf0d5');
+      });
+      
+      expect(result.current.palette?.overrides).toEqual({ background: '#fdf0d5' });
+      expect(builderInstances[1].buildTheme.mock.calls[0][0].background).toBe('#fdf0d5');
+      
+      await act(async () => {
+        result.current.setColorOverride('background', null);
+      });
+      
+      expect(result.current.palette?.overrides).toEqual({});
+      expect(builderInstances[2].buildTheme.mock.calls[0][0].background).not.toBe('#fdf0d5');
+    });
+    
+    it('should keep edits when the mode or style changes', async () => {
+      const { result } = await upload();
+      
+      await act(async () => {
+        result.current.lockSwatch(1);
+      });
+      await act(async () => {
+        result.current.setPrimary(1);
+      });
+      await act(async () => {
+        result.current.setThemeMode('dark');
+      });
+      await act(async () => {
+        result.current.setThemeStyle('muted');
+      });
+      
+      expect(result.current.palette?.swatches[1].locked).toBe(true);
+      expect(result.current.palette?.primary).toBe('#5dc452');
+    });
+    
+    it('should start a new image with a fresh palette', async () => {
+      const { result } = await upload();
+      
+      await act(async () => {
+        result.current.setPrimary(1);
+      });
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      
+      expect(result.current.palette?.primary).toBeNull();
+    });
+    
+    it('should ignore edits without a palette', () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      act(() => {
+        result.current.setPrimary(0);
+      });
+      
+      expect(result.current.palette).toBeNull();
+      expect(builderInstances).toHaveLength(0);
+    });
+  });
+
+  describe('property editing', () => {
+    const mockFile = new File(['test'], 'test.jpg', { type: 'image/jpeg' });
+    const mockPreviewUrl = 'data:image/jpeg;base64,test';
+    
+    const upload = async () => {
+      const hook = renderHook(() => useThemeGenerator(), { wrapper });
+      await act(async () => {
+        await hook.result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      return hook;
+    };
+    
+    it('should apply an edit to the preview and the downloadable content', async () => {
+      const { result } = await upload();
+      
+      act(() => {
+        result.current.setThemeProperty('msgInBg', '#FFEEDD80');
+      });
+      
+      expect(result.current.propertyEdits).toEqual({ msgInBg: 'ffeedd80' });
+      expect(result.current.generatedTheme?.properties.msgInBg).toBe('ffeedd80');
+      expect(result.current.generatedTheme?.content).toContain('msgInBg: #ffeedd80;');
+      expect(result.current.previewColors?.msgInBg).toBe('#ffeedd80');
+      expect(result.current.baseTheme?.properties.msgInBg).toBe('ffffff');
+    });
+    
+    it('should let references follow an edited property', async () => {
+      const { result } = await upload();
+      
+      act(() => {
+        result.current.setThemeProperty('windowBg', '223344');
+      });
+      
+      expect(result.current.generatedTheme?.properties.dialogsBg).toBe('223344');
+    });
+    
+    it('should reset one or every property to the generated value', async () => {
+      const { result } = await upload();
+      
+      act(() => {
+        result.current.setThemeProperty('windowFg', '333333');
+        result.current.setThemeProperty('windowBg', 'eeeeee');
+      });
+      act(() => {
+        result.current.resetThemeProperty('windowFg');
+      });
+      
+      expect(result.current.propertyEdits).toEqual({ windowBg: 'eeeeee' });
+      expect(result.current.generatedTheme?.properties.windowFg).toBe('000000');
+      
+      act(() => {
+        result.current.resetThemeProperties();
+      });
+      
+      expect(result.current.propertyEdits).toEqual({});
+      expect(result.current.generatedTheme).toBe(result.current.baseTheme);
+    });
+    
+    it('should drop an edit equal to the generated value', async () => {
+      const { result } = await upload();
+      
+      act(() => {
+        result.current.setThemeProperty('windowFg', '333333');
+      });
+      act(() => {
+        result.current.setThemeProperty('windowFg', '000000');
+      });
+      
+      expect(result.current.propertyEdits).toEqual({});
+    });
+    
+    it('should reject values that are not colours', async () => {
+      const { result } = await upload();
+      
+      expect(() => result.current.setThemeProperty('windowFg', 'red')).toThrow('Invalid colour: red');
+    });
+    
+    it('should keep edits when the theme is regenerated', async () => {
+      const { result } = await upload();
+      
+      act(() => {
+        result.current.setThemeProperty('windowFg', '333333');
+      });
+      await act(async () => {
+        result.current.setThemeStyle('muted');
+      });
+      
+      expect(result.current.generatedTheme?.properties.windowFg).toBe('333333');
+    });
+    
+    it('should clear edits for a new image', async () => {
+      const { result } = await upload();
+      
+      act(() => {
+        result.current.setThemeProperty('windowFg', '333333');
+      });
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      
+      expect(result.current.propertyEdits).toEqual({});
+      expect(result.current.generatedTheme?.properties.windowFg).toBe('000000');
+    });
+  });
+
+  describe('history', () => {
+    const mockFile = new File(['test'], 'test.jpg', { type: 'image/jpeg' });
+    const mockPreviewUrl = 'data:image/jpeg;base64,test';
+    
+    const upload = async () => {
+      const hook = renderHook(() => useThemeGenerator(), { wrapper });
+      await act(async () => {
+        await hook.result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      return hook;
+    };
+    
+    it('should start with the generated theme', async () => {
+      const { result } = await upload();
+      
+      expect(result.current.history.entries.map(e => e.label)).toEqual(['Generated from test.jpg']);
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.canRedo).toBe(false);
+    });
+    
+    it('should record regenerations, palette changes, property edits and mode switches', async () => {
+      const { result } = await upload();
+      
+      await act(async () => {
+        result.current.setThemeMode('dark');
+      });
+      await act(async () => {
+        result.current.setPrimary(1);
+      });
+      act(() => {
+        result.current.setThemeProperty('windowFg', '333333');
+      });
+      await act(async () => {
+        await result.current.regenerateTheme();
+      });
+      
+      expect(result.current.history.entries.map(e => e.command)).toEqual([
+        'upload',
+        'mode',
+        'palette',
+        'property',
+        'regenerate',
+      ]);
+      expect(result.current.history.entries[1].label).toBe('Switched to dark mode');
+    });
+    
+    it('should undo and redo without regenerating', async () => {
+      const { result } = await upload();
+      
+      await act(async () => {
+        result.current.setThemeMode('dark');
+      });
+      act(() => {
+        result.current.setThemeProperty('windowFg', '333333');
+      });
+      
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.generatedTheme?.properties.windowFg).toBe('000000');
+      expect(result.current.themeMode).toBe('dark');
+      
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.themeMode).toBe('light');
+      expect(result.current.modePreference).toBe('auto');
+      expect(result.current.canUndo).toBe(false);
+      
+      act(() => {
+        result.current.redo();
+      });
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.themeMode).toBe('dark');
+      expect(result.current.generatedTheme?.properties.windowFg).toBe('333333');
+      expect(builderInstances.filter(b => b.buildTheme.mock.calls.length > 0)).toHaveLength(2);
+    });
+    
+    it('should restore palette edits so later changes build on them', async () => {
+      const { result } = await upload();
+      
+      await act(async () => {
+        result.current.setPrimary(2);
+      });
+      act(() => {
+        result.current.undo();
+      });
+      
+      expect(result.current.palette?.primary).toBeNull();
+      
+      await act(async () => {
+        result.current.setThemeStyle('muted');
+      });
+      expect(result.current.palette?.primary).toBeNull();
+      expect(result.current.canRedo).toBe(false);
+    });
+    
+    it('should merge a run of edits to one property', async () => {
+      const { result } = await upload();
+      
+      act(() => {
+        result.current.setThemeProperty('windowFg', '111111');
+      });
+      act(() => {
+        result.current.setThemeProperty('windowFg', '222222');
+      });
+      
+      expect(result.current.history.entries).toHaveLength(2);
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.propertyEdits).toEqual({});
+    });
+    
+    it('should jump to an entry of the list', async () => {
+      const { result } = await upload();
+      
+      act(() => {
+        result.current.setThemeProperty('windowFg', '111111');
+        result.current.setThemeProperty('windowBg', 'eeeeee');
+      });
+      act(() => {
+        result.current.goToHistory(0);
+      });
+      
+      expect(result.current.propertyEdits).toEqual({});
+      expect(result.current.history.index).toBe(0);
+      expect(result.current.canRedo).toBe(true);
+    });
+    
+    it('should start a new history for a new image', async () => {
+      const { result } = await upload();
+      
+      act(() => {
+        result.current.setThemeProperty('windowFg', '111111');
+      });
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      
+      expect(result.current.history.entries).toHaveLength(1);
+      expect(result.current.canUndo).toBe(false);
+    });
+  });
+
+  describe('cancellation', () => {
+    const mockFile = new File(['test'], 'test.jpg', { type: 'image/jpeg' });
+    const mockPreviewUrl = 'data:image/jpeg;base64,test';
+    
+    /** Makes the next brightness read wait until the returned function is called */
+    function holdBrightness(value: number) {
+      let release = () => {};
+      const held = new Promise<number>(resolve => { release = () => resolve(value); });
+      mockAverageBrightness.mockImplementationOnce(() => held);
+      return release;
+    }
+    
+    it('should ignore a run superseded by a newer upload', async () => {
+      const releaseFirst = holdBrightness(60);
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      let first: Promise<void> = Promise.resolve();
+      act(() => {
+        first = result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      
+      expect(result.current.themeMode).toBe('light');
+      
+      await act(async () => {
+        releaseFirst();
+        await first;
+      });
+      
+      // The stale dark run never built a theme or touched state
+      expect(result.current.stage).toBe('preview');
+      expect(result.current.themeMode).toBe('light');
+      expect(result.current.error).toBeNull();
+      expect(builderInstances).toHaveLength(1);
+      expect(builderInstances[0].options.mode).toBe('light');
+    });
+    
+    it('should return to upload when cancelling the first run', async () => {
+      const release = holdBrightness(200);
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      let pending: Promise<void> = Promise.resolve();
+      act(() => {
+        pending = result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      expect(result.current.isProcessing).toBe(true);
+      
+      act(() => {
+        result.current.cancel();
+      });
+      
+      expect(result.current.stage).toBe('upload');
+      expect(result.current.isProcessing).toBe(false);
+      
+      await act(async () => {
+        release();
+        await pending;
+      });
+      
+      expect(result.current.stage).toBe('upload');
+      expect(result.current.generatedTheme).toBeNull();
+      expect(result.current.error).toBeNull();
+      expect(builderInstances).toHaveLength(0);
+    });
+    
+    it('should keep the previous theme when cancelling a regeneration', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      const previousTheme = result.current.generatedTheme;
+      
+      const release = holdBrightness(60);
+      let pending: Promise<void> = Promise.resolve();
+      act(() => {
+        pending = result.current.regenerateTheme();
+      });
+      act(() => {
+        result.current.cancel();
+      });
+      
+      expect(result.current.stage).toBe('preview');
+      expect(result.current.generatedTheme).toBe(previousTheme);
+      
+      await act(async () => {
+        release();
+        await pending;
+      });
+      
+      expect(result.current.themeMode).toBe('light');
+      expect(builderInstances).toHaveLength(1);
+    });
+    
+    it('should keep the shown image and edits when cancelling a new upload', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+      act(() => {
+        result.current.setThemeProperty('windowBg', 'eeeeee');
+      });
+      const previousTheme = result.current.generatedTheme;
+
+      const release = holdBrightness(60);
+      const newFile = new File(['other'], 'other.jpg', { type: 'image/jpeg' });
+      let pending: Promise<void> = Promise.resolve();
+      act(() => {
+        pending = result.current.uploadImage(newFile, 'data:image/jpeg;base64,other');
+      });
+      expect(result.current.imageFile).toBe(newFile);
+
+      act(() => {
+        result.current.cancel();
+      });
+      await act(async () => {
+        release();
+        await pending;
+      });
+
+      expect(result.current.stage).toBe('preview');
+      expect(result.current.imageFile).toBe(mockFile);
+      expect(result.current.imagePreviewUrl).toBe(mockPreviewUrl);
+      expect(result.current.propertyEdits).toEqual({ windowBg: 'eeeeee' });
+      expect(result.current.generatedTheme).toBe(previousTheme);
+    });
+
+    it('should keep the mode and style when cancelling their regeneration', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+
+      await act(async () => {
+        await result.current.uploadImage(mockFile, mockPreviewUrl);
+      });
+
+      const releaseMode = holdBrightness(60);
+      const releaseStyle = holdBrightness(60);
+      act(() => {
+        result.current.setThemeMode('dark');
+      });
+      act(() => {
+        result.current.setThemeStyle('pastel');
+      });
+      expect(result.current.modePreference).toBe('dark');
+      expect(result.current.themeStyle).toBe('pastel');
+
+      act(() => {
+        result.current.cancel();
+      });
+      await act(async () => {
+        releaseMode();
+        releaseStyle();
+        await new Promise(resolve => setTimeout(resolve));
+      });
+
+      expect(result.current.stage).toBe('preview');
+      expect(result.current.modePreference).toBe('auto');
+      expect(result.current.themeMode).toBe('light');
+      expect(result.current.themeStyle).toBe('vibrant');
+    });
+
+    it('should do nothing when no run is active', () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      
+      act(() => {
+        result.current.cancel();
+      });
+      
+      expect(result.current.stage).toBe('upload');
+    });
+  });
+
   describe('setThemeMode', () => {
     it('should update the theme mode', () => {
       const { result } = renderHook(() => useThemeGenerator(), { wrapper });
@@ -151,6 +947,175 @@ describe('ThemeGeneratorContext', () => {
     });
   });
 
+  describe('importTheme', () => {
+    it('should load a palette into the preview', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      const file = new File(
+        ['windowBg: #17212b;\nwindowFg: #f5f5f5;\ndialogsBg: windowBg;\n'],
+        'Night.tdesktop-palette'
+      );
+      
+      await act(async () => {
+        await result.current.importTheme(file);
+      });
+      
+      expect(result.current.stage).toBe('preview');
+      expect(result.current.themeMode).toBe('dark');
+      expect(result.current.generatedTheme?.name).toBe('Night');
+      expect(result.current.generatedTheme?.properties.dialogsBg).toBe('17212b');
+      expect(result.current.previewColors?.windowBg).toBe('#17212b');
+      expect(result.current.imagePreviewUrl).toBeNull();
+    });
+    
+    it('should report malformed lines as validation errors', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      const file = new File(['windowBg: #ffffff;\nnot a palette line\n'], 'broken.tdesktop-palette');
+      
+      await act(async () => {
+        await result.current.importTheme(file);
+      });
+      
+      expect(result.current.generatedTheme?.validation.valid).toBe(false);
+      expect(result.current.generatedTheme?.validation.errors[0]).toContain('line 2');
+    });
+    
+    it('should enter the error stage for unreadable archives', async () => {
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      const file = new File([new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x00])], 'broken.tdesktop-theme');
+      
+      let imported: unknown;
+      await act(async () => {
+        imported = await result.current.importTheme(file);
+      });
+      
+      expect(imported).toBeNull();
+      expect(result.current.stage).toBe('error');
+      expect(result.current.error).toBe('Theme archive is corrupted');
+    });
+
+    describe('wallpaper preview', () => {
+      const file = new File(['archive'], 'Night.tdesktop-theme');
+      let urls: number;
+
+      beforeEach(() => {
+        urls = 0;
+        global.URL.createObjectURL = vi.fn(() => `blob:background-${++urls}`);
+        global.URL.revokeObjectURL = vi.fn();
+        vi.spyOn(ThemeImporter.prototype, 'importFile').mockResolvedValue({
+          name: 'Night',
+          mode: 'dark',
+          content: 'windowBg: #17212b;\n',
+          properties: { windowBg: '17212b' },
+          references: {},
+          issues: [],
+          background: { filename: 'background.jpg', blob: new Blob(['jpeg']), tiled: false },
+        });
+      });
+
+      it('should show the wallpaper until another theme replaces it', async () => {
+        const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+
+        await act(async () => {
+          await result.current.importTheme(file);
+        });
+        expect(result.current.imagePreviewUrl).toBe('blob:background-1');
+        expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+        await act(async () => {
+          await result.current.importTheme(file);
+        });
+        expect(result.current.imagePreviewUrl).toBe('blob:background-2');
+        expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:background-1');
+
+        await act(async () => {
+          await result.current.uploadImage(new File(['test'], 'test.jpg', { type: 'image/jpeg' }), 'data:image/jpeg;base64,test');
+        });
+        expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:background-2');
+        // The upload's own preview URL is left to the caller
+        expect(URL.revokeObjectURL).toHaveBeenCalledTimes(2);
+      });
+
+      it('should keep the wallpaper when an upload over it is cancelled', async () => {
+        const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+
+        await act(async () => {
+          await result.current.importTheme(file);
+        });
+        mockAverageBrightness.mockImplementationOnce(() => new Promise(() => {}));
+        act(() => {
+          result.current.uploadImage(new File(['test'], 'test.jpg', { type: 'image/jpeg' }), 'data:image/jpeg;base64,test');
+        });
+        act(() => {
+          result.current.cancel();
+        });
+
+        expect(result.current.imagePreviewUrl).toBe('blob:background-1');
+        expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+      });
+
+      it('should revoke the wallpaper URL on reset', async () => {
+        const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+
+        await act(async () => {
+          await result.current.importTheme(file);
+        });
+        act(() => {
+          result.current.reset();
+        });
+
+        expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:background-1');
+      });
+
+      it('should revoke the wallpaper URL on unmount', async () => {
+        const { result, unmount } = renderHook(() => useThemeGenerator(), { wrapper });
+
+        await act(async () => {
+          await result.current.importTheme(file);
+        });
+        unmount();
+
+        expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:background-1');
+      });
+    });
+
+    it('should ignore an import superseded by a newer upload', async () => {
+      const mockPreviewUrl = 'data:image/jpeg;base64,test';
+      const importer = ThemeImporter.prototype;
+      const importFile = importer.importFile;
+      let release = () => {};
+      const held = new Promise<void>(resolve => { release = resolve; });
+      const spy = vi.spyOn(importer, 'importFile').mockImplementationOnce(async function (this: ThemeImporter, file) {
+        await held;
+        return importFile.call(this, file);
+      });
+      const { result } = renderHook(() => useThemeGenerator(), { wrapper });
+      const file = new File(['windowBg: #17212b;\nwindowFg: #f5f5f5;\n'], 'Night.tdesktop-palette');
+
+      let pending: Promise<unknown> = Promise.resolve();
+      act(() => {
+        pending = result.current.importTheme(file);
+      });
+      await act(async () => {
+        await result.current.uploadImage(new File(['test'], 'test.jpg', { type: 'image/jpeg' }), mockPreviewUrl);
+      });
+
+      let imported: unknown;
+      await act(async () => {
+        release();
+        imported = await pending;
+      });
+      spy.mockRestore();
+
+      // The stale import never replaced the uploaded image's theme
+      expect(imported).toBeNull();
+      expect(result.current.stage).toBe('preview');
+      expect(result.current.themeMode).toBe('light');
+      expect(result.current.generatedTheme?.name).not.toBe('Night');
+      expect(result.current.imagePreviewUrl).toBe(mockPreviewUrl);
+      expect(result.current.history.entries.map(entry => entry.command)).not.toContain('import');
+    });
+  });
+
   describe('error handling', () => {
     it('should throw error when useThemeGenerator is used outside provider', () => {
       expect(() => {
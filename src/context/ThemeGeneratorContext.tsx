@@ -4,19 +4,47 @@ import {
   useContext,
   useState,
   useCallback,
+  useEffect,
   useMemo,
+  useRef,
   type ReactNode,
 } from 'react';
-import { ColorExtractor, type ExtractedColor } from '../core/color-extraction';
-import { TelegramThemeBuilder, type GeneratedTheme, type ThemeColors, type ThemeMode } from '../core/theme-generation';
-import { ContrastOptimizer } from '../core/contrast';
-import type { PreviewThemeColors } from '../components/preview/types';
+import type { BorderReport, ExtractedColor, ImageRegion } from '../core/color-extraction';
+import {
+  TelegramThemeBuilder,
+  ThemeValidator,
+  THEME_STYLE_PRESETS,
+  setPaletteRole,
+  lockPaletteSwatch,
+  replacePaletteSwatch,
+  setPaletteOverride,
+  type EditablePalette,
+  type GeneratedTheme,
+  type ThemeColors,
+  type ThemeMode,
+  type ThemeStyle,
+} from '../core/theme-generation';
+import { ThemeWorkerClient, type ThemeModePreference } from '../core/pipeline';
+import { ThemeImporter, type ImportedTheme } from '../core/theme-import';
+import { mapThemeToPreviewColors, type PreviewThemeColors } from '../components/preview/types';
+import { createFileUploadError, isErrorCode, ErrorCode } from '../utils/error-handling';
+import {
+  createHistory,
+  recordHistory,
+  moveHistory,
+  canUndo,
+  canRedo,
+  type History,
+  type HistoryEntry,
+} from './theme-history';
 
 /**
  * Workflow stages for theme generation
  */
 export type WorkflowStage = 'upload' | 'extracting' | 'generating' | 'preview' | 'error';
 
+export type { ThemeModePreference };
+
 /**
  * Theme generator state
  */
@@ -25,13 +53,54 @@ export interface ThemeGeneratorState {
   imageFile: File | null;
   imagePreviewUrl: string | null;
   extractedColors: ExtractedColor[];
+  /** Colours the theme was built from, with the user's edits; null for imported themes */
+  palette: EditablePalette | null;
+  /** Letterbox bars, margins or frames left out of extraction */
+  ignoredBorders: BorderReport | null;
+  /** Theme as generated or imported, before property edits */
+  baseTheme: GeneratedTheme | null;
+  /** Property values the user set by hand, kept across regeneration */
+  propertyEdits: Record<string, string>;
+  /** Theme with property edits applied; this is what is previewed and downloaded */
   generatedTheme: GeneratedTheme | null;
   previewColors: PreviewThemeColors | null;
+  /** Mode the current theme was generated in */
   themeMode: ThemeMode;
+  /** Mode the user asked for */
+  modePreference: ThemeModePreference;
+  /** Generation style preset */
+  themeStyle: ThemeStyle;
+  /** Parts of the image colour extraction favours; empty for the whole image */
+  focusRegions: ImageRegion[];
   error: string | null;
   isProcessing: boolean;
+  /** Undo history of the current image or imported theme */
+  history: History<ThemeSnapshot>;
 }
 
+/**
+ * The part of the state a history entry restores
+ */
+export type ThemeSnapshot = Pick<
+  ThemeGeneratorState,
+  | 'extractedColors'
+  | 'palette'
+  | 'ignoredBorders'
+  | 'baseTheme'
+  | 'propertyEdits'
+  | 'generatedTheme'
+  | 'previewColors'
+  | 'themeMode'
+  | 'modePreference'
+  | 'themeStyle'
+  | 'focusRegions'
+>;
+
+/**
+ * A change about to be recorded, without its snapshot
+ */
+type HistoryStep = Omit<HistoryEntry<ThemeSnapshot>, 'snapshot'>;
+
 /**
  * Theme generator context value
  */
@@ -40,10 +109,44 @@ export interface ThemeGeneratorContextValue extends ThemeGeneratorState {
   uploadImage: (file: File, previewUrl: string) => Promise<void>;
   /** Clear current state and start over */
   reset: () => void;
-  /** Set theme mode (light/dark) */
-  setThemeMode: (mode: ThemeMode) => void;
+  /** Set theme mode (light/dark/auto) */
+  setThemeMode: (mode: ThemeModePreference) => void;
+  /** Set the generation style preset and regenerate */
+  setThemeStyle: (style: ThemeStyle) => void;
+  /** Set the focus regions and regenerate */
+  setFocusRegions: (regions: ImageRegion[]) => void;
+  /** Pin a swatch as the primary colour (null to unpin) and regenerate */
+  setPrimary: (index: number | null) => void;
+  /** Pin a swatch as the accent colour (null to unpin) and regenerate */
+  setAccent: (index: number | null) => void;
+  /** Lock or unlock a swatch so it survives regeneration */
+  lockSwatch: (index: number, locked?: boolean) => void;
+  /** Replace a swatch with a custom colour and regenerate */
+  replaceSwatch: (index: number, hex: string) => void;
+  /** Set a theme colour exactly, e.g. from the eyedropper (null to derive it again), and regenerate */
+  setColorOverride: (slot: keyof ThemeColors, hex: string | null) => void;
+  /** Set a theme property (RRGGBB or RRGGBBAA) on top of the generated value */
+  setThemeProperty: (key: string, value: string) => void;
+  /** Return a theme property to its generated value */
+  resetThemeProperty: (key: string) => void;
+  /** Drop every property edit */
+  resetThemeProperties: () => void;
+  /** Whether there is an earlier history entry to go back to */
+  canUndo: boolean;
+  /** Whether an undone entry can be restored */
+  canRedo: boolean;
+  /** Go back one history entry */
+  undo: () => void;
+  /** Restore the entry last undone */
+  redo: () => void;
+  /** Jump to any entry of the history list */
+  goToHistory: (index: number) => void;
   /** Regenerate theme with current settings */
   regenerateTheme: () => Promise<void>;
+  /** Stop the running generation, returning to the previous theme or the upload screen */
+  cancel: () => void;
+  /** Load an existing .tdesktop-theme, .tdesktop-palette or .attheme file for preview */
+  importTheme: (file: File) => Promise<ImportedTheme | null>;
 }
 
 const initialState: ThemeGeneratorState = {
@@ -51,183 +154,89 @@ const initialState: ThemeGeneratorState = {
   imageFile: null,
   imagePreviewUrl: null,
   extractedColors: [],
+  palette: null,
+  ignoredBorders: null,
+  baseTheme: null,
+  propertyEdits: {},
   generatedTheme: null,
   previewColors: null,
   themeMode: 'light',
+  modePreference: 'auto',
+  themeStyle: 'vibrant',
+  focusRegions: [],
   error: null,
   isProcessing: false,
+  history: createHistory(),
 };
 
-const ThemeGeneratorContext = createContext<ThemeGeneratorContextValue | null>(null);
+/**
+ * Applies property edits to a theme, leaving it untouched when there are none.
+ */
+function applyPropertyEdits(theme: GeneratedTheme, edits: Record<string, string>): GeneratedTheme {
+  if (Object.keys(edits).length === 0) return theme;
+  return new TelegramThemeBuilder().applyPropertyEdits(theme, edits);
+}
 
 /**
- * Convert extracted colors to ThemeColors format
+ * State with the displayed theme rebuilt from a base theme and edits.
  */
-function mapExtractedColorsToThemeColors(
-  colors: ExtractedColor[],
-  mode: ThemeMode
-): ThemeColors {
-  // Sort by vibrancy to get the most vibrant colors first
-  const sorted = [...colors].sort((a, b) => b.vibrancy - a.vibrancy);
-  
-  // Get base colors
-  const primary = sorted[0]?.hex || '#40a7e3';
-  const accent = sorted[1]?.hex || '#5dc452';
-  
-  // Calculate light/dark variants
-  const isLightMode = mode === 'light';
-  
-  // Background based on mode
-  const background = isLightMode ? '#ffffff' : '#17212b';
-  const backgroundSecondary = isLightMode ? '#f5f5f5' : '#232e3c';
-  const backgroundTertiary = isLightMode ? '#eeeeee' : '#2b3945';
-  
-  // Text colors based on mode
-  const textPrimary = isLightMode ? '#000000' : '#ffffff';
-  const textSecondary = isLightMode ? '#707070' : '#8b9aab';
-  const textMuted = isLightMode ? '#a0a0a0' : '#6c7883';
-  const textOnPrimary = '#ffffff';
-  
-  // Adjust primary variants
-  const primaryLight = adjustBrightness(primary, isLightMode ? 20 : 10);
-  const primaryDark = adjustBrightness(primary, isLightMode ? -20 : -10);
-  const accentLight = adjustBrightness(accent, 15);
-  
+function withTheme(
+  state: ThemeGeneratorState,
+  baseTheme: GeneratedTheme,
+  propertyEdits: Record<string, string>
+): ThemeGeneratorState {
+  const generatedTheme = applyPropertyEdits(baseTheme, propertyEdits);
   return {
-    primary,
-    primaryLight,
-    primaryDark,
-    accent,
-    accentLight,
-    background,
-    backgroundSecondary,
-    backgroundTertiary,
-    textPrimary,
-    textSecondary,
-    textMuted,
-    textOnPrimary,
-    online: '#4fae4e',
-    offline: '#8b9aab',
-    // Map additional extracted colors
-    color1: sorted[0]?.hex || primary,
-    color2: sorted[1]?.hex || accent,
-    color3: sorted[2]?.hex || primaryLight,
-    color4: sorted[3]?.hex || accentLight,
-    color5: sorted[4]?.hex || backgroundSecondary,
-    color6: sorted[5]?.hex || backgroundTertiary,
+    ...state,
+    baseTheme,
+    propertyEdits,
+    generatedTheme,
+    previewColors: mapThemeToPreviewColors(generatedTheme.properties),
   };
 }
 
-/**
- * Adjust color brightness
- */
-function adjustBrightness(hex: string, percent: number): string {
-  const num = parseInt(hex.replace('#', ''), 16);
-  const amt = Math.round(2.55 * percent);
-  const R = Math.min(255, Math.max(0, (num >> 16) + amt));
-  const G = Math.min(255, Math.max(0, ((num >> 8) & 0x00ff) + amt));
-  const B = Math.min(255, Math.max(0, (num & 0x0000ff) + amt));
-  return `#${((1 << 24) + (R << 16) + (G << 8) + B).toString(16).slice(1)}`;
+function takeSnapshot(state: ThemeGeneratorState): ThemeSnapshot {
+  return {
+    extractedColors: state.extractedColors,
+    palette: state.palette,
+    ignoredBorders: state.ignoredBorders,
+    baseTheme: state.baseTheme,
+    propertyEdits: state.propertyEdits,
+    generatedTheme: state.generatedTheme,
+    previewColors: state.previewColors,
+    themeMode: state.themeMode,
+    modePreference: state.modePreference,
+    themeStyle: state.themeStyle,
+    focusRegions: state.focusRegions,
+  };
 }
 
 /**
- * Convert generated theme properties to PreviewThemeColors
+ * Records the state after a change. A new image or import starts a new
+ * history, since earlier entries belong to another source.
  */
-function mapThemeToPreviewColors(
-  properties: Record<string, string>
-): PreviewThemeColors {
-  const toHex = (color: string) => (color.startsWith('#') ? color : `#${color}`);
-  
+function withHistory(state: ThemeGeneratorState, step: HistoryStep): ThemeGeneratorState {
+  const entry = { ...step, snapshot: takeSnapshot(state) };
+  const fresh = step.command === 'upload' || step.command === 'import';
   return {
-    windowBg: toHex(properties.windowBg || 'ffffff'),
-    windowFg: toHex(properties.windowFg || '000000'),
-    windowBgOver: toHex(properties.windowBgOver || 'f1f1f1'),
-    windowFgOver: toHex(properties.windowFgOver || '000000'),
-    windowBgActive: toHex(properties.windowBgActive || '40a7e3'),
-    windowFgActive: toHex(properties.windowFgActive || 'ffffff'),
-    
-    historyPeer1NameFg: toHex(properties.historyPeer1NameFg || 'c03d33'),
-    historyPeer2NameFg: toHex(properties.historyPeer2NameFg || '4fad2d'),
-    historyPeer3NameFg: toHex(properties.historyPeer3NameFg || 'd09306'),
-    historyPeer4NameFg: toHex(properties.historyPeer4NameFg || '168acd'),
-    
-    msgInBg: toHex(properties.msgInBg || 'ffffff'),
-    msgInBgSelected: toHex(properties.msgInBgSelected || 'c2dcf2'),
-    msgOutBg: toHex(properties.msgOutBg || 'efffde'),
-    msgOutBgSelected: toHex(properties.msgOutBgSelected || 'b7dbdb'),
-    msgInShadow: toHex(properties.msgInShadow || '00000000'),
-    msgOutShadow: toHex(properties.msgOutShadow || '00000000'),
-    
-    historyTextInFg: toHex(properties.historyTextInFg || '000000'),
-    historyTextOutFg: toHex(properties.historyTextOutFg || '000000'),
-    
-    msgInDateFg: toHex(properties.msgInDateFg || 'a0acb6'),
-    msgOutDateFg: toHex(properties.msgOutDateFg || '6cc264'),
-    historyOutIconFg: toHex(properties.historyOutIconFg || '5dc452'),
-    historyOutIconFgSelected: toHex(properties.historyOutIconFgSelected || '5dc452'),
-    
-    msgInReplyBarColor: toHex(properties.msgInReplyBarColor || '40a7e3'),
-    msgOutReplyBarColor: toHex(properties.msgOutReplyBarColor || '5dc452'),
-    msgInReplyBarSelColor: toHex(properties.msgInReplyBarSelColor || '40a7e3'),
-    msgOutReplyBarSelColor: toHex(properties.msgOutReplyBarSelColor || '5dc452'),
-    
-    msgServiceBg: toHex(properties.msgServiceBg || '7fc8e580'),
-    msgServiceFg: toHex(properties.msgServiceFg || 'ffffff'),
-    
-    dialogsBg: toHex(properties.dialogsBg || 'ffffff'),
-    dialogsNameFg: toHex(properties.dialogsNameFg || '212121'),
-    dialogsTextFg: toHex(properties.dialogsTextFg || '888888'),
-    dialogsDateFg: toHex(properties.dialogsDateFg || 'a8a8a8'),
-    dialogsBgActive: toHex(properties.dialogsBgActive || '419fd9'),
-    dialogsNameFgActive: toHex(properties.dialogsNameFgActive || 'ffffff'),
-    dialogsTextFgActive: toHex(properties.dialogsTextFgActive || 'd4e7f5'),
-    dialogsDateFgActive: toHex(properties.dialogsDateFgActive || 'd4e7f5'),
-    dialogsUnreadBg: toHex(properties.dialogsUnreadBg || '419fd9'),
-    dialogsUnreadBgMuted: toHex(properties.dialogsUnreadBgMuted || 'bbbbbb'),
-    dialogsUnreadFg: toHex(properties.dialogsUnreadFg || 'ffffff'),
-    
-    activeButtonBg: toHex(properties.activeButtonBg || '40a7e3'),
-    activeButtonFg: toHex(properties.activeButtonFg || 'ffffff'),
-    activeButtonBgOver: toHex(properties.activeButtonBgOver || '2095e4'),
-    activeButtonBgRipple: toHex(properties.activeButtonBgRipple || '1c8dd5'),
-    
-    historyComposeAreaBg: toHex(properties.historyComposeAreaBg || 'ffffff'),
-    historyComposeAreaFg: toHex(properties.historyComposeAreaFg || '000000'),
-    historyComposeIconFg: toHex(properties.historyComposeIconFg || '999999'),
-    historyComposeIconFgOver: toHex(properties.historyComposeIconFgOver || '40a7e3'),
-    
-    scrollBg: toHex(properties.scrollBg || '00000000'),
-    scrollBgOver: toHex(properties.scrollBgOver || '00000000'),
-    scrollBarBg: toHex(properties.scrollBarBg || 'c8c8c880'),
-    scrollBarBgOver: toHex(properties.scrollBarBgOver || '9e9e9e80'),
-    
-    menuBg: toHex(properties.menuBg || 'ffffff'),
-    menuBgOver: toHex(properties.menuBgOver || 'f1f1f1'),
-    menuIconFg: toHex(properties.menuIconFg || '40a7e3'),
-    menuFgDisabled: toHex(properties.menuFgDisabled || 'a8a8a8'),
-    menuSeparatorFg: toHex(properties.menuSeparatorFg || 'e8e8e8'),
-    
-    tooltipBg: toHex(properties.tooltipBg || 'e5f0f6'),
-    tooltipFg: toHex(properties.tooltipFg || '547085'),
-    tooltipBorderFg: toHex(properties.tooltipBorderFg || 'c9d9e3'),
-    
-    titleBg: toHex(properties.titleBg || 'ffffff'),
-    titleFg: toHex(properties.titleFg || 'acacac'),
-    titleBgActive: toHex(properties.titleBgActive || 'ffffff'),
-    titleFgActive: toHex(properties.titleFgActive || '3e3c3e'),
-    titleButtonBg: toHex(properties.titleButtonBg || 'ffffff00'),
-    titleButtonFg: toHex(properties.titleButtonFg || 'acacac'),
-    titleButtonBgOver: toHex(properties.titleButtonBgOver || 'e5e5e5'),
-    titleButtonFgOver: toHex(properties.titleButtonFgOver || '9a9a9a'),
-    titleButtonBgActive: toHex(properties.titleButtonBgActive || 'e5e5e5'),
-    titleButtonFgActive: toHex(properties.titleButtonFgActive || '9a9a9a'),
-    titleButtonCloseBg: toHex(properties.titleButtonCloseBg || 'e5e5e5'),
-    titleButtonCloseFg: toHex(properties.titleButtonCloseFg || 'd92626'),
-    titleButtonCloseBgOver: toHex(properties.titleButtonCloseBgOver || 'e81123'),
-    titleButtonCloseFgOver: toHex(properties.titleButtonCloseFgOver || 'ffffff'),
+    ...state,
+    history: fresh ? createHistory(entry) : recordHistory(state.history, entry),
   };
 }
 
+/**
+ * Lower-case RRGGBB or RRGGBBAA without #, or an error for anything else.
+ */
+function normalizePropertyValue(value: string): string {
+  const normalized = value.replace(/^#/, '').toLowerCase();
+  if (!/^([0-9a-f]{6}|[0-9a-f]{8})$/.test(normalized)) {
+    throw new Error(`Invalid colour: ${value}`);
+  }
+  return normalized;
+}
+
+const ThemeGeneratorContext = createContext<ThemeGeneratorContextValue | null>(null);
+
 /**
  * Provider props
  */
@@ -241,8 +250,57 @@ export interface ThemeGeneratorProviderProps {
 export function ThemeGeneratorProvider({ children }: ThemeGeneratorProviderProps) {
   const [state, setState] = useState<ThemeGeneratorState>(initialState);
   
-  const colorExtractor = useMemo(() => new ColorExtractor({ colorCount: 8 }), []);
-  const contrastOptimizer = useMemo(() => new ContrastOptimizer(), []);
+  const themeWorkerClient = useMemo(() => new ThemeWorkerClient(), []);
+  const themeImporter = useMemo(() => new ThemeImporter(), []);
+  
+  // Only the latest run may update state; starting a new one aborts the old
+  const runRef = useRef<AbortController | null>(null);
+  
+  const startRun = useCallback(() => {
+    runRef.current?.abort(createFileUploadError('cancelled'));
+    const controller = new AbortController();
+    runRef.current = controller;
+    return controller;
+  }, []);
+  
+  const stopRun = useCallback(() => {
+    runRef.current?.abort(createFileUploadError('cancelled'));
+    runRef.current = null;
+  }, []);
+  
+  // Object URL made for an imported theme's wallpaper. Uploads bring their
+  // own preview URL, which belongs to the caller.
+  const backgroundUrlRef = useRef<string | null>(null);
+  
+  /**
+   * Frees the wallpaper URL once nothing can show it again: when another
+   * import or upload has finished, on reset and on unmount.
+   */
+  const releaseBackgroundUrl = useCallback(() => {
+    if (backgroundUrlRef.current) URL.revokeObjectURL(backgroundUrlRef.current);
+    backgroundUrlRef.current = null;
+  }, []);
+  
+  useEffect(() => () => {
+    stopRun();
+    releaseBackgroundUrl();
+    themeWorkerClient.dispose();
+  }, [themeWorkerClient, stopRun, releaseBackgroundUrl]);
+  
+  // Fields set ahead of the running generation (the new image, mode or
+  // style), as they were before it, so cancelling can put them back. When
+  // runs replace each other the oldest values are kept.
+  const pendingRef = useRef<Partial<ThemeGeneratorState>>({});
+  
+  const holdUntilDone = useCallback((fields: Partial<ThemeGeneratorState>) => {
+    pendingRef.current = { ...fields, ...pendingRef.current };
+  }, []);
+  
+  const takePending = useCallback(() => {
+    const pending = pendingRef.current;
+    pendingRef.current = {};
+    return pending;
+  }, []);
   
   /**
    * Process image and generate theme
@@ -250,8 +308,15 @@ export function ThemeGeneratorProvider({ children }: ThemeGeneratorProviderProps
   const processImage = useCallback(async (
     file: File,
     previewUrl: string,
-    mode: ThemeMode
+    preference: ThemeModePreference,
+    style: ThemeStyle,
+    regions: ImageRegion[],
+    paletteEdits: EditablePalette | null,
+    step: HistoryStep
   ) => {
+    const controller = startRun();
+    const isCurrent = () => runRef.current === controller;
+    
     setState(prev => ({
       ...prev,
       stage: 'extracting',
@@ -260,68 +325,46 @@ export function ThemeGeneratorProvider({ children }: ThemeGeneratorProviderProps
     }));
     
     try {
-      // Extract colors
-      const extractedColors = await colorExtractor.getDominantColors(previewUrl);
-      
-      setState(prev => ({
-        ...prev,
-        stage: 'generating',
-        extractedColors,
-      }));
-      
-      // Map to theme colors
-      const themeColors = mapExtractedColorsToThemeColors(extractedColors, mode);
-      
-      // Build theme
-      const builder = new TelegramThemeBuilder({
-        mode,
-        name: `Theme from ${file.name}`,
-      });
-      
-      const generatedTheme = builder.buildTheme(themeColors);
-      
-      // Optimize contrast
-      const optimizedProperties = { ...generatedTheme.properties };
-      
-      // Apply WCAG contrast optimization for key text/background pairs
-      const textBgPairs = [
-        ['windowFg', 'windowBg'],
-        ['historyTextInFg', 'msgInBg'],
-        ['historyTextOutFg', 'msgOutBg'],
-        ['dialogsNameFg', 'dialogsBg'],
-      ];
-      
-      for (const [fgKey, bgKey] of textBgPairs) {
-        const fg = optimizedProperties[fgKey];
-        const bg = optimizedProperties[bgKey];
-        if (fg && bg) {
-          const result = contrastOptimizer.ensureContrast(
-            `#${fg.replace('#', '')}`,
-            `#${bg.replace('#', '')}`
-          );
-          if (result.wasAdjusted) {
-            optimizedProperties[fgKey] = result.adjustedForeground.replace('#', '');
-          }
+      // Runs in a worker when the browser supports it
+      const { extractedColors, palette, borders, mode, theme } = await themeWorkerClient.generate(
+        { file, previewUrl },
+        {
+          name: `Theme from ${file.name}`,
+          mode: preference,
+          style,
+          regions,
+          palette: paletteEdits ?? undefined,
+        },
+        {
+          onProgress: ({ stage }) => {
+            if (isCurrent()) setState(prev => ({ ...prev, stage }));
+          },
+          signal: controller.signal,
         }
-      }
+      );
       
-      // Update generated theme with optimized properties
-      const optimizedTheme: GeneratedTheme = {
-        ...generatedTheme,
-        properties: optimizedProperties,
-      };
+      if (!isCurrent()) return;
+      runRef.current = null;
+      takePending();
+      if (backgroundUrlRef.current !== previewUrl) releaseBackgroundUrl();
       
-      // Convert to preview colors
-      const previewColors = mapThemeToPreviewColors(optimizedProperties);
-      
-      setState(prev => ({
-        ...prev,
+      // Property edits stay on top of the regenerated theme
+      setState(prev => withHistory({
+        ...withTheme(prev, theme, prev.propertyEdits),
         stage: 'preview',
-        generatedTheme: optimizedTheme,
-        previewColors,
+        extractedColors,
+        palette,
+        ignoredBorders: borders,
+        themeMode: mode,
+        focusRegions: theme.focusRegions ?? [],
         isProcessing: false,
-      }));
+      }, step));
     } catch (err) {
+      // Cancelled or superseded runs leave state to whoever stopped them
+      if (!isCurrent() || isErrorCode(err, ErrorCode.FILE_UPLOAD_CANCELLED)) return;
+      runRef.current = null;
+      takePending();
+      
       setState(prev => ({
         ...prev,
         stage: 'error',
@@ -329,55 +372,431 @@ export function ThemeGeneratorProvider({ children }: ThemeGeneratorProviderProps
         isProcessing: false,
       }));
     }
-  }, [colorExtractor, contrastOptimizer]);
+  }, [themeWorkerClient, startRun, takePending, releaseBackgroundUrl]);
   
   /**
    * Upload image handler
    */
   const uploadImage = useCallback(async (file: File, previewUrl: string) => {
+    holdUntilDone({
+      imageFile: state.imageFile,
+      imagePreviewUrl: state.imagePreviewUrl,
+      focusRegions: state.focusRegions,
+      propertyEdits: state.propertyEdits,
+    });
     setState(prev => ({
       ...prev,
       imageFile: file,
       imagePreviewUrl: previewUrl,
+      focusRegions: [],
+      propertyEdits: {},
     }));
     
-    await processImage(file, previewUrl, state.themeMode);
-  }, [processImage, state.themeMode]);
+    // Regions, palette and property edits belong to the previous image
+    await processImage(file, previewUrl, state.modePreference, state.themeStyle, [], null, {
+      command: 'upload',
+      label: `Generated from ${file.name}`,
+    });
+  }, [
+    processImage,
+    holdUntilDone,
+    state.imageFile,
+    state.imagePreviewUrl,
+    state.focusRegions,
+    state.propertyEdits,
+    state.modePreference,
+    state.themeStyle,
+  ]);
   
   /**
    * Reset state
    */
   const reset = useCallback(() => {
+    stopRun();
+    takePending();
+    releaseBackgroundUrl();
     setState(initialState);
-  }, []);
+  }, [stopRun, takePending, releaseBackgroundUrl]);
+  
+  /**
+   * Cancel the running generation
+   */
+  const cancel = useCallback(() => {
+    if (!runRef.current) return;
+    stopRun();
+    const pending = takePending();
+    
+    setState(prev => ({
+      ...prev,
+      // Undo what the run set up front, such as a new image or mode
+      ...pending,
+      stage: prev.generatedTheme ? 'preview' : 'upload',
+      // Go back to the regions the shown theme was made with
+      focusRegions: prev.generatedTheme?.focusRegions ?? [],
+      isProcessing: false,
+    }));
+  }, [stopRun, takePending]);
   
   /**
    * Set theme mode
    */
-  const setThemeMode = useCallback((mode: ThemeMode) => {
-    setState(prev => ({ ...prev, themeMode: mode }));
+  const setThemeMode = useCallback((mode: ThemeModePreference) => {
+    setState(prev => ({
+      ...prev,
+      modePreference: mode,
+      themeMode: mode === 'auto' ? prev.themeMode : mode,
+    }));
     
     // Regenerate if we have an image
     if (state.imageFile && state.imagePreviewUrl) {
-      processImage(state.imageFile, state.imagePreviewUrl, mode);
+      holdUntilDone({ modePreference: state.modePreference, themeMode: state.themeMode });
+      processImage(
+        state.imageFile,
+        state.imagePreviewUrl,
+        mode,
+        state.themeStyle,
+        state.focusRegions,
+        state.palette,
+        { command: 'mode', label: `Switched to ${mode} mode` }
+      );
+    }
+  }, [
+    processImage,
+    holdUntilDone,
+    state.imageFile,
+    state.imagePreviewUrl,
+    state.modePreference,
+    state.themeMode,
+    state.themeStyle,
+    state.focusRegions,
+    state.palette,
+  ]);
+  
+  /**
+   * Set generation style
+   */
+  const setThemeStyle = useCallback((style: ThemeStyle) => {
+    setState(prev => ({ ...prev, themeStyle: style }));
+    
+    // Regenerate if we have an image
+    if (state.imageFile && state.imagePreviewUrl) {
+      holdUntilDone({ themeStyle: state.themeStyle });
+      processImage(
+        state.imageFile,
+        state.imagePreviewUrl,
+        state.modePreference,
+        style,
+        state.focusRegions,
+        state.palette,
+        { command: 'style', label: `Switched to ${THEME_STYLE_PRESETS[style].label} style` }
+      );
+    }
+  }, [
+    processImage,
+    holdUntilDone,
+    state.imageFile,
+    state.imagePreviewUrl,
+    state.modePreference,
+    state.themeStyle,
+    state.focusRegions,
+    state.palette,
+  ]);
+  
+  /**
+   * Set focus regions
+   */
+  const setFocusRegions = useCallback((regions: ImageRegion[]) => {
+    setState(prev => ({ ...prev, focusRegions: regions }));
+    
+    // Regenerate if we have an image
+    if (state.imageFile && state.imagePreviewUrl) {
+      processImage(
+        state.imageFile,
+        state.imagePreviewUrl,
+        state.modePreference,
+        state.themeStyle,
+        regions,
+        state.palette,
+        {
+          command: 'regions',
+          label: regions.length > 0 ? `Set ${regions.length} focus region(s)` : 'Cleared focus regions',
+        }
+      );
     }
-  }, [processImage, state.imageFile, state.imagePreviewUrl]);
+  }, [
+    processImage,
+    state.imageFile,
+    state.imagePreviewUrl,
+    state.modePreference,
+    state.themeStyle,
+    state.palette,
+  ]);
+  
+  /**
+   * Apply a palette edit and regenerate. The edited palette is only stored
+   * once the new theme is ready, so cancelling keeps the shown one.
+   */
+  const editPalette = useCallback((
+    edit: (palette: EditablePalette) => EditablePalette,
+    label: string
+  ) => {
+    if (!state.palette || !state.imageFile || !state.imagePreviewUrl) return;
+    
+    processImage(
+      state.imageFile,
+      state.imagePreviewUrl,
+      state.modePreference,
+      state.themeStyle,
+      state.focusRegions,
+      edit(state.palette),
+      { command: 'palette', label }
+    );
+  }, [
+    processImage,
+    state.palette,
+    state.imageFile,
+    state.imagePreviewUrl,
+    state.modePreference,
+    state.themeStyle,
+    state.focusRegions,
+  ]);
+  
+  const setPrimary = useCallback((index: number | null) => {
+    editPalette(
+      palette => setPaletteRole(palette, 'primary', index),
+      index === null ? 'Unpinned primary' : `Pinned swatch ${index + 1} as primary`
+    );
+  }, [editPalette]);
+  
+  const setAccent = useCallback((index: number | null) => {
+    editPalette(
+      palette => setPaletteRole(palette, 'accent', index),
+      index === null ? 'Unpinned accent' : `Pinned swatch ${index + 1} as accent`
+    );
+  }, [editPalette]);
+  
+  const lockSwatch = useCallback((index: number, locked = true) => {
+    editPalette(
+      palette => lockPaletteSwatch(palette, index, locked),
+      `${locked ? 'Locked' : 'Unlocked'} swatch ${index + 1}`
+    );
+  }, [editPalette]);
+  
+  const replaceSwatch = useCallback((index: number, hex: string) => {
+    editPalette(
+      palette => replacePaletteSwatch(palette, index, hex),
+      `Replaced swatch ${index + 1} with ${hex}`
+    );
+  }, [editPalette]);
+  
+  const setColorOverride = useCallback((slot: keyof ThemeColors, hex: string | null) => {
+    editPalette(
+      palette => setPaletteOverride(palette, slot, hex),
+      hex === null ? `Derived ${slot} again` : `Set ${slot} to ${hex}`
+    );
+  }, [editPalette]);
+  
+  /**
+   * Set a theme property. A value equal to the generated one drops the edit.
+   */
+  const setThemeProperty = useCallback((key: string, value: string) => {
+    const normalized = normalizePropertyValue(value);
+    
+    setState(prev => {
+      if (!prev.baseTheme) return prev;
+      
+      const propertyEdits = { ...prev.propertyEdits, [key]: normalized };
+      if (prev.baseTheme.properties[key]?.toLowerCase() === normalized) {
+        delete propertyEdits[key];
+      }
+      return withHistory(withTheme(prev, prev.baseTheme, propertyEdits), {
+        command: 'property',
+        label: `Edited ${key}`,
+        mergeKey: `property:${key}`,
+      });
+    });
+  }, []);
+  
+  const resetThemeProperty = useCallback((key: string) => {
+    setState(prev => {
+      if (!prev.baseTheme || !(key in prev.propertyEdits)) return prev;
+      
+      const propertyEdits = { ...prev.propertyEdits };
+      delete propertyEdits[key];
+      return withHistory(withTheme(prev, prev.baseTheme, propertyEdits), {
+        command: 'property',
+        label: `Reset ${key}`,
+      });
+    });
+  }, []);
+  
+  const resetThemeProperties = useCallback(() => {
+    setState(prev => {
+      if (!prev.baseTheme || Object.keys(prev.propertyEdits).length === 0) return prev;
+      
+      return withHistory(withTheme(prev, prev.baseTheme, {}), {
+        command: 'property',
+        label: 'Reset all properties',
+      });
+    });
+  }, []);
+  
+  /**
+   * Restore a history entry. A running generation is stopped first so it
+   * cannot overwrite the restored theme.
+   */
+  const goToHistory = useCallback((index: number) => {
+    stopRun();
+    const pending = takePending();
+    
+    setState(prev => {
+      const history = moveHistory(prev.history, index);
+      return {
+        ...prev,
+        // The entry belongs to the image shown before the stopped run
+        ...pending,
+        ...history.entries[index].snapshot,
+        history,
+        stage: 'preview',
+        error: null,
+        isProcessing: false,
+      };
+    });
+  }, [stopRun, takePending]);
+  
+  const undo = useCallback(() => {
+    if (canUndo(state.history)) goToHistory(state.history.index - 1);
+  }, [goToHistory, state.history]);
+  
+  const redo = useCallback(() => {
+    if (canRedo(state.history)) goToHistory(state.history.index + 1);
+  }, [goToHistory, state.history]);
   
   /**
    * Regenerate theme
    */
   const regenerateTheme = useCallback(async () => {
     if (state.imageFile && state.imagePreviewUrl) {
-      await processImage(state.imageFile, state.imagePreviewUrl, state.themeMode);
+      await processImage(
+        state.imageFile,
+        state.imagePreviewUrl,
+        state.modePreference,
+        state.themeStyle,
+        state.focusRegions,
+        state.palette,
+        { command: 'regenerate', label: 'Regenerated' }
+      );
+    }
+  }, [
+    processImage,
+    state.imageFile,
+    state.imagePreviewUrl,
+    state.modePreference,
+    state.themeStyle,
+    state.focusRegions,
+    state.palette,
+  ]);
+  
+  /**
+   * Import an existing theme file
+   */
+  const importTheme = useCallback(async (file: File) => {
+    // An import replaces whatever an image run would have produced, and a
+    // newer upload or import replaces the import
+    const controller = startRun();
+    const isCurrent = () => runRef.current === controller;
+    
+    setState(prev => ({
+      ...prev,
+      stage: 'generating',
+      isProcessing: true,
+      error: null,
+    }));
+    
+    try {
+      const imported = await themeImporter.importFile(file);
+      if (!isCurrent()) return null;
+      runRef.current = null;
+      takePending();
+      
+      // Validate the resolved palette, reporting parse problems first
+      const validator = new ThemeValidator();
+      const advancedValidation = validator.validate(imported.properties);
+      const validation = validator.toSimpleResult(advancedValidation);
+      validation.errors.unshift(
+        ...imported.issues.filter(i => i.severity === 'error').map(i => i.message)
+      );
+      validation.warnings.unshift(
+        ...imported.issues.filter(i => i.severity === 'warning').map(i => i.message)
+      );
+      validation.valid = validation.errors.length === 0;
+      
+      const generatedTheme: GeneratedTheme = {
+        name: imported.name,
+        content: imported.content,
+        properties: imported.properties,
+        references: imported.references,
+        colors: themeImporter.deriveThemeColors(imported.properties),
+        validation,
+        advancedValidation,
+      };
+      
+      releaseBackgroundUrl();
+      const backgroundUrl = imported.background ? URL.createObjectURL(imported.background.blob) : null;
+      backgroundUrlRef.current = backgroundUrl;
+      
+      setState(prev => withHistory({
+        ...withTheme(prev, generatedTheme, {}),
+        stage: 'preview',
+        imageFile: null,
+        imagePreviewUrl: backgroundUrl,
+        extractedColors: [],
+        palette: null,
+        ignoredBorders: null,
+        focusRegions: [],
+        themeMode: imported.mode,
+        isProcessing: false,
+      }, { command: 'import', label: `Imported ${imported.name}` }));
+      
+      return imported;
+    } catch (err) {
+      if (!isCurrent()) return null;
+      runRef.current = null;
+      takePending();
+      
+      setState(prev => ({
+        ...prev,
+        stage: 'error',
+        error: err instanceof Error ? err.message : 'Failed to import theme',
+        isProcessing: false,
+      }));
+      return null;
     }
-  }, [processImage, state.imageFile, state.imagePreviewUrl, state.themeMode]);
+  }, [themeImporter, startRun, takePending, releaseBackgroundUrl]);
   
   const value: ThemeGeneratorContextValue = {
     ...state,
     uploadImage,
     reset,
     setThemeMode,
+    setThemeStyle,
+    setFocusRegions,
+    setPrimary,
+    setAccent,
+    lockSwatch,
+    replaceSwatch,
+    setColorOverride,
+    setThemeProperty,
+    resetThemeProperty,
+    resetThemeProperties,
+    canUndo: canUndo(state.history),
+    canRedo: canRedo(state.history),
+    undo,
+    redo,
+    goToHistory,
     regenerateTheme,
+    cancel,
+    importTheme,
   };
   
   return (
@@ -2,7 +2,15 @@ export {
   ThemeGeneratorProvider,
   useThemeGenerator,
   type WorkflowStage,
+  type ThemeModePreference,
   type ThemeGeneratorState,
   type ThemeGeneratorContextValue,
   type ThemeGeneratorProviderProps,
+  type ThemeSnapshot,
 } from './ThemeGeneratorContext';
+export {
+  HISTORY_LIMIT,
+  type History,
+  type HistoryEntry,
+  type HistoryCommand,
+} from './theme-history';
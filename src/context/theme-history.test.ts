@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHistory,
+  recordHistory,
+  moveHistory,
+  canUndo,
+  canRedo,
+  type HistoryEntry,
+} from './theme-history';
+
+function entry(label: string, mergeKey?: string): HistoryEntry<string> {
+  return { command: 'property', label, mergeKey, snapshot: label };
+}
+
+describe('theme history', () => {
+  it('should start empty or with one entry', () => {
+    expect(createHistory()).toEqual({ entries: [], index: -1 });
+    expect(createHistory(entry('a'))).toEqual({ entries: [entry('a')], index: 0 });
+  });
+
+  it('should record entries and move through them', () => {
+    let history = recordHistory(recordHistory(createHistory(entry('a')), entry('b')), entry('c'));
+    expect(history.index).toBe(2);
+    expect(canUndo(history)).toBe(true);
+    expect(canRedo(history)).toBe(false);
+
+    history = moveHistory(history, 0);
+    expect(canUndo(history)).toBe(false);
+    expect(canRedo(history)).toBe(true);
+  });
+
+  it('should drop undone entries when a new change is recorded', () => {
+    const history = moveHistory(recordHistory(createHistory(entry('a')), entry('b')), 0);
+    const next = recordHistory(history, entry('c'));
+
+    expect(next.entries.map((e) => e.label)).toEqual(['a', 'c']);
+    expect(canRedo(next)).toBe(false);
+  });
+
+  it('should merge back-to-back entries with the same key', () => {
+    let history = createHistory(entry('upload'));
+    history = recordHistory(history, entry('first', 'windowBg'));
+    history = recordHistory(history, entry('second', 'windowBg'));
+    history = recordHistory(history, entry('other', 'windowFg'));
+
+    expect(history.entries.map((e) => e.label)).toEqual(['upload', 'second', 'other']);
+  });
+
+  it('should keep at most the limit, dropping the oldest', () => {
+    let history = createHistory(entry('0'));
+    for (let i = 1; i < 10; i++) {
+      history = recordHistory(history, entry(String(i)), 4);
+    }
+
+    expect(history.entries.map((e) => e.label)).toEqual(['6', '7', '8', '9']);
+    expect(history.index).toBe(3);
+  });
+
+  it('should throw for a missing entry', () => {
+    expect(() => moveHistory(createHistory(entry('a')), 1)).toThrow('No history entry at index 1');
+  });
+});
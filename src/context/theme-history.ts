@@ -0,0 +1,89 @@
+/**
+ * Most entries a history keeps. Older ones are dropped first.
+ */
+export const HISTORY_LIMIT = 50;
+
+/**
+ * What kind of change an entry records
+ */
+export type HistoryCommand =
+  | 'upload'
+  | 'import'
+  | 'regenerate'
+  | 'mode'
+  | 'style'
+  | 'regions'
+  | 'palette'
+  | 'property';
+
+/**
+ * One recorded change and the state it left behind
+ */
+export interface HistoryEntry<T> {
+  command: HistoryCommand;
+  /** Shown in the history list, e.g. "Edited windowBg" */
+  label: string;
+  /**
+   * Entries recorded back to back with the same key merge into one, so
+   * dragging a colour picker is a single step
+   */
+  mergeKey?: string;
+  snapshot: T;
+}
+
+/**
+ * Linear undo history. Entries after `index` can be redone until a new
+ * change is recorded.
+ */
+export interface History<T> {
+  entries: HistoryEntry<T>[];
+  /** Entry whose snapshot is shown, or -1 when empty */
+  index: number;
+}
+
+/**
+ * History holding a single entry, or none.
+ */
+export function createHistory<T>(entry?: HistoryEntry<T>): History<T> {
+  return entry ? { entries: [entry], index: 0 } : { entries: [], index: -1 };
+}
+
+/**
+ * Records a change after the current entry, dropping anything that could
+ * have been redone and the oldest entries beyond the limit.
+ */
+export function recordHistory<T>(
+  history: History<T>,
+  entry: HistoryEntry<T>,
+  limit = HISTORY_LIMIT
+): History<T> {
+  const entries = history.entries.slice(0, history.index + 1);
+  const last = entries[entries.length - 1];
+
+  if (entry.mergeKey && last?.mergeKey === entry.mergeKey) {
+    entries[entries.length - 1] = entry;
+  } else {
+    entries.push(entry);
+  }
+
+  const kept = entries.slice(-Math.max(1, limit));
+  return { entries: kept, index: kept.length - 1 };
+}
+
+/**
+ * Moves to an entry, e.g. one step back to undo.
+ */
+export function moveHistory<T>(history: History<T>, index: number): History<T> {
+  if (!Number.isInteger(index) || index < 0 || index >= history.entries.length) {
+    throw new Error(`No history entry at index ${index}`);
+  }
+  return { ...history, index };
+}
+
+export function canUndo(history: History<unknown>): boolean {
+  return history.index > 0;
+}
+
+export function canRedo(history: History<unknown>): boolean {
+  return history.index < history.entries.length - 1;
+}
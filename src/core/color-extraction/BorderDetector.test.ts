@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { BorderDetector, describeBorders, type PixelData } from './BorderDetector';
+import type { RGB } from './ColorExtractor';
+
+/**
+ * Builds an image from a function returning each pixel's colour.
+ */
+function image(width: number, height: number, colorAt: (x: number, y: number) => RGB): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...colorAt(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+// A busy picture: colour changes with position
+const picture = (x: number, y: number): RGB => [(x * 37) % 256, (y * 53) % 256, ((x + y) * 29) % 256];
+
+const BLACK: RGB = [0, 0, 0];
+const WHITE: RGB = [255, 255, 255];
+
+describe('BorderDetector', () => {
+  const detector = new BorderDetector();
+
+  describe('detect', () => {
+    it('should find letterbox bars', () => {
+      const still = image(100, 50, (x, y) => (y < 6 || y >= 44 ? BLACK : picture(x, y)));
+      const report = detector.detect(still);
+
+      expect(report).toMatchObject({ kind: 'letterbox', top: 6, bottom: 6, left: 0, right: 0 });
+      expect(report?.fraction).toBeCloseTo(12 / 50, 5);
+      expect(report?.color).toEqual(BLACK);
+    });
+
+    it('should find pillarbox bars', () => {
+      const still = image(80, 40, (x, y) => (x < 10 || x >= 70 ? BLACK : picture(x, y)));
+      expect(detector.detect(still)).toMatchObject({ kind: 'pillarbox', left: 10, right: 10 });
+    });
+
+    it('should find a frame', () => {
+      const framed = image(60, 60, (x, y) =>
+        x < 4 || x >= 56 || y < 4 || y >= 56 ? WHITE : picture(x, y)
+      );
+      expect(detector.detect(framed)).toMatchObject({
+        kind: 'frame',
+        top: 4,
+        bottom: 4,
+        left: 4,
+        right: 4,
+        color: WHITE,
+      });
+    });
+
+    it('should report a single flat margin', () => {
+      const screenshot = image(60, 60, (x, y) => (y < 8 ? WHITE : picture(x, y)));
+      expect(detector.detect(screenshot)).toMatchObject({ kind: 'margin', top: 8, bottom: 0 });
+    });
+
+    it('should tolerate noise and captions inside bars', () => {
+      const still = image(100, 50, (x, y) => {
+        if (y >= 6 && y < 44) return picture(x, y);
+        // JPEG-like noise, plus a caption across 5% of one bar row
+        if (y === 45 && x >= 40 && x < 45) return WHITE;
+        return [(x * 7) % 9, (y * 5) % 9, 3];
+      });
+
+      expect(detector.detect(still)).toMatchObject({ kind: 'letterbox', top: 6, bottom: 6 });
+    });
+
+    it('should keep a coloured band without a matching opposite band', () => {
+      const sky: RGB = [90, 160, 235];
+      const photo = image(60, 60, (x, y) => (y < 10 ? sky : picture(x, y)));
+      expect(detector.detect(photo)).toBeNull();
+    });
+
+    it('should accept coloured bars that mirror each other', () => {
+      const red: RGB = [200, 30, 40];
+      const still = image(60, 60, (x, y) => (y < 5 || y >= 55 ? red : picture(x, y)));
+      expect(detector.detect(still)).toMatchObject({ kind: 'letterbox', color: red });
+    });
+
+    it('should leave flat images alone', () => {
+      expect(detector.detect(image(40, 40, () => BLACK))).toBeNull();
+    });
+
+    it('should return null for images without borders', () => {
+      expect(detector.detect(image(40, 40, picture))).toBeNull();
+    });
+
+    it('should ignore bands thicker than the limit', () => {
+      const still = image(40, 40, (x, y) => (y < 20 ? BLACK : picture(x, y)));
+      expect(new BorderDetector({ maxBandFraction: 0.25 }).detect(still)).toBeNull();
+    });
+  });
+
+  describe('createMask', () => {
+    it('should zero the bands and keep the picture', () => {
+      const mask = detector.createMask(
+        { kind: 'frame', top: 1, bottom: 1, left: 1, right: 1, fraction: 8 / 9, color: BLACK },
+        3,
+        3
+      );
+      expect([...mask.weights]).toEqual([0, 0, 0, 0, 1, 0, 0, 0, 0]);
+    });
+  });
+
+  describe('describeBorders', () => {
+    it('should give the share and kind', () => {
+      expect(
+        describeBorders({ kind: 'letterbox', top: 6, bottom: 6, left: 0, right: 0, fraction: 0.12, color: BLACK })
+      ).toBe('12% letterbox');
+    });
+  });
+});
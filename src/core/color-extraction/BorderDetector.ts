@@ -0,0 +1,293 @@
+import type { RGB } from './ColorExtractor';
+import type { WeightMask } from './regions';
+
+/**
+ * RGBA pixels with their size; ImageData satisfies this
+ */
+export interface PixelData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * - `letterbox`: bars above and below the picture
+ * - `pillarbox`: bars left and right of it
+ * - `frame`: a border on all four sides
+ * - `margin`: any other combination, e.g. a flat strip on one side
+ */
+export type BorderKind = 'letterbox' | 'pillarbox' | 'frame' | 'margin';
+
+export interface BorderReport {
+  kind: BorderKind;
+  /** Band thickness in pixels of the analysed image, per edge */
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  /** Share of the image's pixels left out (0-1) */
+  fraction: number;
+  /** Average colour of the bands */
+  color: RGB;
+}
+
+export interface BorderDetectorOptions {
+  /**
+   * Largest RGB distance from the band colour a pixel may have and still
+   * belong to the band; absorbs JPEG noise.
+   * @default 24
+   */
+  tolerance?: number;
+
+  /**
+   * Share of a row or column that must match the band colour. Below 1 so
+   * captions and logos inside bars do not end the band.
+   * @default 0.9
+   */
+  minCoverage?: number;
+
+  /**
+   * Thickest band looked for on each edge, as a share of the image size.
+   * @default 0.35
+   */
+  maxBandFraction?: number;
+}
+
+type Edge = 'top' | 'bottom' | 'left' | 'right';
+
+interface Band {
+  size: number;
+  color: RGB;
+}
+
+const OPPOSITE: Record<Edge, Edge> = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' };
+
+/**
+ * Colours whose channels differ by at most this count as neutral (black,
+ * white or grey), the usual colours of bars and margins.
+ */
+const NEUTRAL_SPREAD = 24;
+
+/**
+ * BorderDetector finds flat bands along the edges of an image, such as
+ * letterbox bars on movie stills or white margins around screenshots, so
+ * colour extraction can leave them out.
+ *
+ * Each edge is scanned inwards for rows (or columns) that match the colour
+ * of the outermost one. A band only counts as a border when it ends inside
+ * the scan limit, so flat images are left alone, and when its colour is
+ * neutral or the opposite edge has a matching band, so a clear blue sky at
+ * the top of a photo is kept.
+ *
+ * @example
+ * ```typescript
+ * const report = new BorderDetector().detect(ctx.getImageData(0, 0, w, h));
+ * // report?.kind === 'letterbox', report.fraction === 0.12
+ * ```
+ */
+export class BorderDetector {
+  private options: Required<BorderDetectorOptions>;
+
+  constructor(options: BorderDetectorOptions = {}) {
+    this.options = {
+      tolerance: options.tolerance ?? 24,
+      minCoverage: options.minCoverage ?? 0.9,
+      maxBandFraction: options.maxBandFraction ?? 0.35,
+    };
+  }
+
+  /**
+   * Finds border bands.
+   * @param pixels - RGBA pixels with their size
+   * @returns The bands found, or null when the image has no border
+   */
+  detect(pixels: PixelData): BorderReport | null {
+    const { width, height } = pixels;
+    if (width < 3 || height < 3) {
+      return null;
+    }
+
+    const bands = {} as Record<Edge, Band | null>;
+    for (const edge of ['top', 'bottom', 'left', 'right'] as const) {
+      bands[edge] = this.scanEdge(pixels, edge);
+    }
+
+    // Keep neutral bands, and coloured ones that mirror the opposite edge
+    const kept = {} as Record<Edge, Band | null>;
+    for (const edge of Object.keys(bands) as Edge[]) {
+      const band = bands[edge];
+      const opposite = bands[OPPOSITE[edge]];
+      kept[edge] =
+        band && (isNeutral(band.color) || (opposite && this.matches(band.color, opposite.color)))
+          ? band
+          : null;
+    }
+
+    const top = kept.top?.size ?? 0;
+    const bottom = kept.bottom?.size ?? 0;
+    const left = kept.left?.size ?? 0;
+    const right = kept.right?.size ?? 0;
+
+    if (top + bottom + left + right === 0) {
+      return null;
+    }
+
+    const innerWidth = width - left - right;
+    const innerHeight = height - top - bottom;
+    const fraction = 1 - (innerWidth * innerHeight) / (width * height);
+
+    return {
+      kind: borderKind(top > 0, bottom > 0, left > 0, right > 0),
+      top,
+      bottom,
+      left,
+      right,
+      fraction,
+      color: averageColor(
+        (Object.keys(kept) as Edge[])
+          .map((edge) => kept[edge])
+          .filter((band): band is Band => band !== null)
+      ),
+    };
+  }
+
+  /**
+   * Builds a mask that leaves the bands out (weight 0) and keeps the rest
+   * (weight 1).
+   */
+  createMask(report: BorderReport, width: number, height: number): WeightMask {
+    const weights = new Float32Array(width * height);
+
+    for (let row = report.top; row < height - report.bottom; row++) {
+      weights.fill(1, row * width + report.left, (row + 1) * width - report.right);
+    }
+
+    return { width, height, weights };
+  }
+
+  /**
+   * Scans one edge inwards while lines match the outermost line's colour.
+   */
+  private scanEdge(pixels: PixelData, edge: Edge): Band | null {
+    const horizontal = edge === 'top' || edge === 'bottom';
+    const lines = horizontal ? pixels.height : pixels.width;
+    const limit = Math.floor(lines * this.options.maxBandFraction);
+
+    const lineAt = (i: number) => (edge === 'top' || edge === 'left' ? i : lines - 1 - i);
+    const color = this.lineColor(pixels, horizontal, lineAt(0));
+    if (!color) {
+      return null;
+    }
+
+    let size = 0;
+    while (
+      size <= limit &&
+      this.lineCoverage(pixels, horizontal, lineAt(size), color) >= this.options.minCoverage
+    ) {
+      size++;
+    }
+
+    // A band that runs past the limit is the picture itself, not a border
+    if (size === 0 || size > limit) {
+      return null;
+    }
+
+    return { size, color };
+  }
+
+  /**
+   * Average colour of a line, or null if the line is not flat.
+   */
+  private lineColor(pixels: PixelData, horizontal: boolean, line: number): RGB | null {
+    const sum = [0, 0, 0];
+    let count = 0;
+
+    this.forEachPixel(pixels, horizontal, line, (r, g, b) => {
+      sum[0] += r;
+      sum[1] += g;
+      sum[2] += b;
+      count++;
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const color: RGB = [sum[0] / count, sum[1] / count, sum[2] / count];
+    return this.lineCoverage(pixels, horizontal, line, color) >= this.options.minCoverage
+      ? color
+      : null;
+  }
+
+  /**
+   * Share of a line's opaque pixels within tolerance of a colour.
+   */
+  private lineCoverage(pixels: PixelData, horizontal: boolean, line: number, color: RGB): number {
+    let matching = 0;
+    let count = 0;
+
+    this.forEachPixel(pixels, horizontal, line, (r, g, b) => {
+      count++;
+      if (this.matches([r, g, b], color)) {
+        matching++;
+      }
+    });
+
+    // Fully transparent lines are left to the quantizer, which skips them
+    return count > 0 ? matching / count : 0;
+  }
+
+  private forEachPixel(
+    pixels: PixelData,
+    horizontal: boolean,
+    line: number,
+    visit: (r: number, g: number, b: number) => void
+  ): void {
+    const { data, width, height } = pixels;
+    const length = horizontal ? width : height;
+
+    for (let i = 0; i < length; i++) {
+      const offset = (horizontal ? line * width + i : i * width + line) * 4;
+      if (data[offset + 3] < 128) continue;
+      visit(data[offset], data[offset + 1], data[offset + 2]);
+    }
+  }
+
+  private matches(a: RGB, b: RGB): boolean {
+    const dr = a[0] - b[0];
+    const dg = a[1] - b[1];
+    const db = a[2] - b[2];
+    return dr * dr + dg * dg + db * db <= this.options.tolerance * this.options.tolerance;
+  }
+}
+
+/**
+ * Short description for the UI, e.g. "12% letterbox".
+ */
+export function describeBorders(report: BorderReport): string {
+  const percent = Math.max(1, Math.round(report.fraction * 100));
+  return `${percent}% ${report.kind}`;
+}
+
+function isNeutral([r, g, b]: RGB): boolean {
+  return Math.max(r, g, b) - Math.min(r, g, b) <= NEUTRAL_SPREAD;
+}
+
+function borderKind(top: boolean, bottom: boolean, left: boolean, right: boolean): BorderKind {
+  if (top && bottom && left && right) return 'frame';
+  if (top && bottom && !left && !right) return 'letterbox';
+  if (left && right && !top && !bottom) return 'pillarbox';
+  return 'margin';
+}
+
+/**
+ * Average band colour, weighted by band thickness.
+ */
+function averageColor(bands: Band[]): RGB {
+  const total = bands.reduce((sum, band) => sum + band.size, 0);
+  const channel = (i: number) =>
+    Math.round(bands.reduce((sum, band) => sum + band.color[i] * band.size, 0) / total);
+  return [channel(0), channel(1), channel(2)];
+}
+
+export default BorderDetector;
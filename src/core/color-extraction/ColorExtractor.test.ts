@@ -128,6 +128,146 @@ describe('ColorExtractor', () => {
       
       expect(elapsed).toBeLessThan(500);
     });
+
+    it('should reject with the abort reason when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const reason = new Error('cancelled');
+      const pending = extractor.getDominantColors('data:image/png;base64,test', {
+        signal: controller.signal,
+      });
+      controller.abort(reason);
+
+      await expect(pending).rejects.toBe(reason);
+    });
+  });
+
+  describe('population', () => {
+    it('should measure ColorThief colours against the image pixels', async () => {
+      const colors = await extractor.getDominantColors('data:image/png;base64,test');
+      const total = colors.reduce((sum, color) => sum + color.population, 0);
+
+      colors.forEach((color) => {
+        expect(color.population).toBeGreaterThanOrEqual(0);
+        expect(color.population).toBeLessThanOrEqual(1);
+      });
+      expect(total).toBeCloseTo(1, 5);
+    });
+
+    it.each(['kmeans', 'median-cut'] as const)('should quantize with the %s method', async (method) => {
+      const ext = new ColorExtractor({ method, colorCount: 4 });
+      const colors = await ext.getDominantColors('data:image/png;base64,test');
+
+      expect(colors.length).toBeGreaterThan(0);
+      expect(colors.length).toBeLessThanOrEqual(4);
+      expect(colors.reduce((sum, color) => sum + color.population, 0)).toBeCloseTo(1, 5);
+      colors.forEach((color) => expect(color.hex).toMatch(/^#[0-9a-f]{6}$/));
+    });
+  });
+
+  describe('extract', () => {
+    it('should return colours and brightness from one load', async () => {
+      const result = await extractor.extract('data:image/png;base64,test');
+
+      expect(result.colors).toHaveLength(6);
+      expect(result.brightness).toBeGreaterThan(0);
+      expect(result.borders).toBeNull();
+    });
+  });
+
+  describe('getPreprocessedCanvas', () => {
+    it('should return the downscaled canvas extraction reads from', async () => {
+      const source = document.createElement('canvas');
+      source.width = 800;
+      source.height = 400;
+
+      const canvas = await extractor.getPreprocessedCanvas(source);
+
+      expect(canvas).toBeInstanceOf(HTMLCanvasElement);
+      expect([canvas.width, canvas.height]).toEqual([400, 200]);
+    });
+
+    it('should reject once the signal is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('stop'));
+
+      await expect(
+        extractor.getPreprocessedCanvas('data:image/png;base64,test', { signal: controller.signal })
+      ).rejects.toThrow('stop');
+    });
+  });
+
+  describe('extractFromPixels', () => {
+    // 40×40 with black bars on the top and bottom 6 rows around a teal picture
+    const width = 40;
+    const height = 40;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bar = y < 6 || y >= 34;
+        data.set(bar ? [0, 0, 0, 255] : [40 + (x % 3), 160, 150 - (y % 4), 255], (y * width + x) * 4);
+      }
+    }
+    const still = { data, width, height };
+    const isBlack = (color: ExtractedColor) => color.rgb.every((c) => c < 20);
+
+    it('should leave letterbox bars out when rejectBorders is on', () => {
+      const ext = new ColorExtractor({ method: 'kmeans', quality: 1, rejectBorders: true });
+      const { colors, borders, brightness } = ext.extractFromPixels(still);
+
+      expect(borders).toMatchObject({ kind: 'letterbox', top: 6, bottom: 6 });
+      expect(borders?.fraction).toBeCloseTo(0.3, 5);
+      expect(colors.some(isBlack)).toBe(false);
+      expect(brightness).toBeGreaterThan(100);
+    });
+
+    it('should keep the bars by default', () => {
+      const ext = new ColorExtractor({ method: 'kmeans', quality: 1 });
+      const { colors, borders } = ext.extractFromPixels(still);
+
+      expect(borders).toBeNull();
+      expect(colors.some(isBlack)).toBe(true);
+    });
+
+    it('should combine borders with focus regions', () => {
+      const ext = new ColorExtractor({ method: 'kmeans', quality: 1, rejectBorders: true });
+      // A region over the top bar alone still cannot bring the bar back
+      const { colors } = ext.extractFromPixels(still, {
+        regions: [{ x: 0, y: 0, width: 1, height: 0.15 }],
+      });
+
+      expect(colors.some(isBlack)).toBe(false);
+    });
+  });
+
+  describe('weighting', () => {
+    // 60×60 grey backdrop with a red 12×12 subject in the middle
+    const size = 60;
+    const data = new Uint8ClampedArray(size * size * 4);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const subject = x >= 24 && x < 36 && y >= 24 && y < 36;
+        data.set(subject ? [220, 30, 40, 255] : [120, 120, 120, 255], (y * size + x) * 4);
+      }
+    }
+    const photo = { data, width: size, height: size };
+    const redShare = (weighting: 'uniform' | 'center' | 'saliency') =>
+      new ColorExtractor({ method: 'kmeans', quality: 1, colorCount: 2, weighting })
+        .extractFromPixels(photo)
+        .colors.filter((color) => color.rgb[0] > 180 && color.rgb[1] < 100)
+        .reduce((sum, color) => sum + color.population, 0);
+
+    it('should count every pixel the same by default', () => {
+      expect(redShare('uniform')).toBeCloseTo(144 / 3600, 2);
+    });
+
+    it('should favour the subject with center and saliency weighting', () => {
+      const uniform = redShare('uniform');
+      const center = redShare('center');
+      const saliency = redShare('saliency');
+
+      expect(center).toBeGreaterThan(uniform);
+      expect(saliency).toBeGreaterThan(center);
+    });
   });
 
   describe('getAverageBrightness', () => {
@@ -1,4 +1,8 @@
 import ColorThief from 'colorthief';
+import { ColorQuantizer, type QuantizationMethod, type QuantizedColor } from './ColorQuantizer';
+import { createRegionMask, resampleMask, type ImageRegion, type WeightMask } from './regions';
+import { BorderDetector, type BorderReport, type PixelData } from './BorderDetector';
+import { createWeightingMask, type PixelWeighting } from './saliency';
 
 export type RGB = [number, number, number];
 
@@ -7,23 +11,76 @@ export interface ExtractedColor {
   hex: string;
   vibrancy: number;
   brightness: number;
+  /** Share of the image's pixels closest to this colour (0-1) */
+  population: number;
+}
+
+/**
+ * 'colorthief' uses the color-thief library; 'kmeans' and 'median-cut' use
+ * the built-in CIELAB ColorQuantizer.
+ */
+export type ExtractionMethod = 'colorthief' | QuantizationMethod;
+
+/**
+ * Per-call options for extraction methods
+ */
+export interface ExtractionRequestOptions {
+  /** Aborts the extraction, rejecting with the signal's reason */
+  signal?: AbortSignal;
+  /** Parts of the image to favour; the rest counts at REGION_BACKGROUND_WEIGHT */
+  regions?: ImageRegion[];
+  /** Per-pixel weights at any resolution; takes precedence over `regions` */
+  mask?: WeightMask;
 }
 
 export interface ColorExtractionOptions {
   colorCount?: number;
   quality?: number;
   maxSize?: number;
+  method?: ExtractionMethod;
+  /** Leave flat edge bands (letterbox bars, margins, frames) out of the sample */
+  rejectBorders?: boolean;
+  /**
+   * How pixels are weighted before quantization; 'center' and 'saliency'
+   * favour the subject over large uniform backgrounds.
+   * @default 'uniform'
+   */
+  weighting?: PixelWeighting;
+}
+
+/**
+ * Everything extract() learns about an image in one pass
+ */
+export interface ExtractionResult {
+  /** Extracted colours sorted by vibrancy */
+  colors: ExtractedColor[];
+  /** Average brightness (0-255) of the sampled pixels */
+  brightness: number;
+  /** Bands left out of the sample; null when rejectBorders is off or there were none */
+  borders: BorderReport | null;
 }
 
 const DEFAULT_OPTIONS: Required<ColorExtractionOptions> = {
   colorCount: 6,
   quality: 10,
   maxSize: 400,
+  method: 'colorthief',
+  rejectBorders: false,
+  weighting: 'uniform',
 };
 
 /**
  * ColorExtractor class for extracting dominant colors from images
- * using the color-thief library with preprocessing and vibrancy sorting.
+ * using the color-thief library or the built-in CIELAB quantizer,
+ * with preprocessing and vibrancy sorting. Every colour carries its
+ * pixel population, so callers can tell dominant colours from specks.
+ *
+ * Regions or a weight mask make some pixels count more than others,
+ * `weighting` favours the centre or the most salient parts of the image,
+ * and `rejectBorders` drops flat edge bands found by BorderDetector.
+ * All of these combine by multiplying their weights.
+ * color-thief cannot weight pixels, so weighted extraction always uses the
+ * built-in quantizer (k-means when the method is 'colorthief').
  */
 export class ColorExtractor {
   private colorThief: ColorThief;
@@ -37,41 +94,135 @@ export class ColorExtractor {
   /**
    * Extracts dominant colors from an image source.
    * @param source - HTMLImageElement, HTMLCanvasElement, or image URL
+   * @param options - `signal` cancels loading and extraction; `regions` or `mask` weight pixels
    * @returns Promise resolving to array of extracted colors sorted by vibrancy
    */
   async getDominantColors(
-    source: HTMLImageElement | HTMLCanvasElement | string
+    source: HTMLImageElement | HTMLCanvasElement | string,
+    options: ExtractionRequestOptions = {}
   ): Promise<ExtractedColor[]> {
-    const canvas = await this.preprocessImage(source);
-    const palette = await this.extractPalette(canvas);
+    return (await this.extract(source, options)).colors;
+  }
 
-    const colors: ExtractedColor[] = palette.map((rgb) => ({
-      rgb,
-      hex: this.rgbToHex(rgb),
-      vibrancy: this.calculateVibrancy(rgb),
-      brightness: this.calculateBrightness(rgb),
-    }));
+  /**
+   * Extracts colours and brightness from an image source, loading it once,
+   * and reports any borders left out.
+   * @param source - HTMLImageElement, HTMLCanvasElement, or image URL
+   * @param options - `signal` cancels loading and extraction; `regions` or `mask` weight pixels
+   */
+  async extract(
+    source: HTMLImageElement | HTMLCanvasElement | string,
+    options: ExtractionRequestOptions = {}
+  ): Promise<ExtractionResult> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+
+    const canvas = await this.preprocessImage(source, signal);
+    signal?.throwIfAborted();
+
+    const data = this.getPixels(canvas);
+    const { weights, borders } = data
+      ? this.getSampleWeights({ data, width: canvas.width, height: canvas.height }, options)
+      : { weights: undefined, borders: null };
+
+    const palette = weights
+      ? this.quantizeCanvas(canvas, this.quantizerMethod(), weights)
+      : await this.extractPalette(canvas, signal);
+    signal?.throwIfAborted();
 
-    return this.sortByVibrancy(colors);
+    return {
+      colors: this.toExtractedColors(palette),
+      brightness: data ? this.getBrightnessFromPixels(data, weights) : 0,
+      borders,
+    };
+  }
+
+  /**
+   * Pixel counterpart of extract(), without the DOM, for workers.
+   * @param pixels - RGBA pixels, already resized (see calculateResizedDimensions)
+   * @param options - `regions` or `mask` weight pixels
+   */
+  extractFromPixels(
+    pixels: PixelData,
+    options: Omit<ExtractionRequestOptions, 'signal'> = {}
+  ): ExtractionResult {
+    const { weights, borders } = this.getSampleWeights(pixels, options);
+
+    return {
+      colors: this.getColorsFromPixels(pixels.data, weights),
+      brightness: this.getBrightnessFromPixels(pixels.data, weights),
+      borders,
+    };
+  }
+
+  /**
+   * Extracts dominant colors from raw RGBA pixels, without touching the DOM,
+   * so it can run in a worker. Uses the built-in quantizer; the
+   * 'colorthief' method falls back to k-means because color-thief needs an
+   * image element.
+   * @param data - RGBA bytes, already resized
+   * @param weights - Optional weight per pixel (see createRegionMask)
+   * @returns Extracted colors sorted by vibrancy
+   */
+  getColorsFromPixels(data: Uint8ClampedArray, weights?: ArrayLike<number>): ExtractedColor[] {
+    const quantizer = new ColorQuantizer({
+      method: this.quantizerMethod(),
+      colorCount: this.options.colorCount,
+    });
+    const palette = quantizer.quantize(data, this.options.quality, weights);
+
+    return this.toExtractedColors(
+      palette.length > 0 ? palette : [{ rgb: [128, 128, 128], population: 1 }]
+    );
+  }
+
+  /**
+   * Loads and downscales an image to the canvas extraction reads from, so
+   * tools like the eyedropper sample exactly the pixels extraction sees.
+   * @param source - HTMLImageElement, HTMLCanvasElement, or image URL
+   * @param options - `signal` cancels loading
+   */
+  async getPreprocessedCanvas(
+    source: HTMLImageElement | HTMLCanvasElement | string,
+    options: Pick<ExtractionRequestOptions, 'signal'> = {}
+  ): Promise<HTMLCanvasElement> {
+    options.signal?.throwIfAborted();
+    return this.preprocessImage(source, options.signal);
   }
 
   /**
    * Calculates the average brightness of an image.
    * @param source - HTMLImageElement, HTMLCanvasElement, or image URL
+   * @param options - `signal` cancels loading; `regions` or `mask` weight pixels
    * @returns Promise resolving to brightness value (0-255)
    */
   async getAverageBrightness(
-    source: HTMLImageElement | HTMLCanvasElement | string
+    source: HTMLImageElement | HTMLCanvasElement | string,
+    options: ExtractionRequestOptions = {}
   ): Promise<number> {
-    const canvas = await this.preprocessImage(source);
-    const ctx = canvas.getContext('2d');
+    options.signal?.throwIfAborted();
+    const canvas = await this.preprocessImage(source, options.signal);
+    options.signal?.throwIfAborted();
+    const data = this.getPixels(canvas);
 
-    if (!ctx) {
+    if (!data) {
       throw new Error('Failed to get canvas context');
     }
 
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
+    const { weights } = this.getSampleWeights(
+      { data, width: canvas.width, height: canvas.height },
+      options
+    );
+    return this.getBrightnessFromPixels(data, weights);
+  }
+
+  /**
+   * Calculates the average brightness of raw RGBA pixels.
+   * @param data - RGBA bytes
+   * @param weights - Optional weight per pixel
+   * @returns Brightness value (0-255)
+   */
+  getBrightnessFromPixels(data: Uint8ClampedArray, weights?: ArrayLike<number>): number {
     let totalBrightness = 0;
     let pixelCount = 0;
 
@@ -85,8 +236,11 @@ export class ColorExtractor {
       // Skip transparent pixels
       if (a < 128) continue;
 
-      totalBrightness += this.calculateBrightness([r, g, b]);
-      pixelCount++;
+      const weight = weights ? weights[i / 4] : 1;
+      if (!(weight > 0)) continue;
+
+      totalBrightness += calculateBrightness([r, g, b]) * weight;
+      pixelCount += weight;
     }
 
     return pixelCount > 0 ? totalBrightness / pixelCount : 0;
@@ -95,15 +249,17 @@ export class ColorExtractor {
   /**
    * Preprocesses an image by resizing it to the maximum size while maintaining aspect ratio.
    * @param source - Image source
+   * @param signal - Abort signal for loading
    * @returns Promise resolving to preprocessed canvas
    */
   private async preprocessImage(
-    source: HTMLImageElement | HTMLCanvasElement | string
+    source: HTMLImageElement | HTMLCanvasElement | string,
+    signal?: AbortSignal
   ): Promise<HTMLCanvasElement> {
     let image: HTMLImageElement;
 
     if (typeof source === 'string') {
-      image = await this.loadImage(source);
+      image = await this.loadImage(source, signal);
     } else if (source instanceof HTMLCanvasElement) {
       return this.resizeCanvas(source);
     } else {
@@ -119,15 +275,29 @@ export class ColorExtractor {
   /**
    * Loads an image from a URL.
    * @param url - Image URL or data URL
+   * @param signal - Rejects with the signal's reason when aborted
    * @returns Promise resolving to loaded HTMLImageElement
    */
-  private loadImage(url: string): Promise<HTMLImageElement> {
+  private loadImage(url: string, signal?: AbortSignal): Promise<HTMLImageElement> {
     return new Promise((resolve, reject) => {
       const img = new Image();
       img.crossOrigin = 'anonymous';
 
-      img.onload = () => resolve(img);
-      img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
+      const onAbort = () => {
+        img.onload = null;
+        img.onerror = null;
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      img.onload = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(img);
+      };
+      img.onerror = () => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(new Error(`Failed to load image: ${url}`));
+      };
 
       img.src = url;
     });
@@ -198,8 +368,9 @@ export class ColorExtractor {
 
   /**
    * Calculates resized dimensions while maintaining aspect ratio.
+   * Used to size the canvas pixels are read from, also in workers.
    */
-  private calculateResizedDimensions(
+  calculateResizedDimensions(
     originalWidth: number,
     originalHeight: number
   ): { width: number; height: number } {
@@ -225,123 +396,143 @@ export class ColorExtractor {
   }
 
   /**
-   * Extracts color palette from a canvas using ColorThief.
+   * Extracts color palette from a canvas using the configured method.
    */
-  private async extractPalette(canvas: HTMLCanvasElement): Promise<RGB[]> {
+  private async extractPalette(
+    canvas: HTMLCanvasElement,
+    signal?: AbortSignal
+  ): Promise<QuantizedColor[]> {
+    if (this.options.method !== 'colorthief') {
+      return this.quantizeCanvas(canvas, this.options.method);
+    }
+
     // Convert canvas to image for ColorThief
     const dataUrl = canvas.toDataURL('image/png');
-    const img = await this.loadImage(dataUrl);
+    const img = await this.loadImage(dataUrl, signal);
+    let palette: RGB[];
 
     try {
-      const palette = this.colorThief.getPalette(
+      const result = this.colorThief.getPalette(
         img,
         this.options.colorCount,
         this.options.quality
       );
 
-      if (!palette || palette.length === 0) {
+      if (result && result.length > 0) {
+        palette = result;
+      } else {
         // Fallback: get single dominant color
         const dominant = this.colorThief.getColor(img, this.options.quality);
-        return dominant ? [dominant] : [[128, 128, 128]];
+        palette = dominant ? [dominant] : [[128, 128, 128]];
       }
-
-      return palette;
     } catch {
       // Handle edge cases like single-color or grayscale images
-      return this.extractFallbackPalette(canvas);
+      return this.quantizeCanvas(canvas, 'kmeans');
     }
+
+    // ColorThief reports no populations; measure them against the pixels
+    const pixels = this.getPixels(canvas);
+    const populations = pixels
+      ? new ColorQuantizer().measurePopulation(pixels, palette, this.options.quality)
+      : palette.map(() => 1 / palette.length);
+
+    return palette.map((rgb, i) => ({ rgb, population: populations[i] }));
   }
 
   /**
-   * Fallback palette extraction for edge cases.
+   * Adds vibrancy and brightness to palette colours and sorts them.
    */
-  private extractFallbackPalette(canvas: HTMLCanvasElement): RGB[] {
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      return [[128, 128, 128]];
-    }
-
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-
-    // Sample colors from the image
-    const colors: RGB[] = [];
-    const step = Math.max(1, Math.floor(data.length / (this.options.colorCount * 4 * 100)));
-
-    for (let i = 0; i < data.length && colors.length < this.options.colorCount; i += step * 4) {
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      const a = data[i + 3];
-
-      if (a >= 128) {
-        const color: RGB = [r, g, b];
-        // Avoid duplicates
-        if (!colors.some((c) => this.colorDistance(c, color) < 30)) {
-          colors.push(color);
-        }
-      }
-    }
+  private toExtractedColors(palette: QuantizedColor[]): ExtractedColor[] {
+    const colors = palette.map(({ rgb, population }) => toExtractedColor(rgb, population));
 
-    return colors.length > 0 ? colors : [[128, 128, 128]];
+    return this.sortByVibrancy(colors);
   }
 
   /**
-   * Calculates the Euclidean distance between two colors.
+   * Extracts a palette with the built-in quantizer.
    */
-  private colorDistance(c1: RGB, c2: RGB): number {
-    return Math.sqrt(
-      Math.pow(c1[0] - c2[0], 2) +
-        Math.pow(c1[1] - c2[1], 2) +
-        Math.pow(c1[2] - c2[2], 2)
-    );
+  private quantizeCanvas(
+    canvas: HTMLCanvasElement,
+    method: QuantizationMethod,
+    weights?: ArrayLike<number>
+  ): QuantizedColor[] {
+    const pixels = this.getPixels(canvas);
+    const quantizer = new ColorQuantizer({ method, colorCount: this.options.colorCount });
+    const palette = pixels ? quantizer.quantize(pixels, this.options.quality, weights) : [];
+
+    return palette.length > 0 ? palette : [{ rgb: [128, 128, 128], population: 1 }];
   }
 
   /**
-   * Converts RGB to hex color string.
+   * The built-in quantizer method to use when color-thief cannot be.
    */
-  private rgbToHex(rgb: RGB): string {
-    return (
-      '#' +
-      rgb
-        .map((c) => {
-          const hex = Math.max(0, Math.min(255, Math.round(c))).toString(16);
-          return hex.length === 1 ? '0' + hex : hex;
-        })
-        .join('')
-    );
+  private quantizerMethod(): QuantizationMethod {
+    return this.options.method === 'colorthief' ? 'kmeans' : this.options.method;
   }
 
   /**
-   * Calculates the vibrancy (saturation * brightness) of a color.
-   * Higher values indicate more vibrant colors.
+   * Per-pixel weights from the regions or mask times the weighting mode,
+   * with borders zeroed when rejectBorders is on. Weights are undefined
+   * when every pixel counts the same.
    */
-  private calculateVibrancy(rgb: RGB): number {
-    const [r, g, b] = rgb.map((c) => c / 255);
+  private getSampleWeights(
+    pixels: PixelData,
+    options: Omit<ExtractionRequestOptions, 'signal'>
+  ): { weights: Float32Array | undefined; borders: BorderReport | null } {
+    const { width, height } = pixels;
+    let weights: Float32Array | undefined;
+
+    if (options.mask) {
+      weights = resampleMask(options.mask, width, height);
+    } else if (options.regions && options.regions.length > 0) {
+      weights = createRegionMask(options.regions, width, height).weights;
+    }
 
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    const delta = max - min;
+    const weighting = createWeightingMask(pixels, this.options.weighting);
+    if (weighting) {
+      weights = weights
+        ? weights.map((weight, i) => weight * weighting.weights[i])
+        : weighting.weights;
+    }
 
-    // Saturation (HSL)
-    const lightness = (max + min) / 2;
-    const saturation =
-      delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+    if (!this.options.rejectBorders) {
+      return { weights, borders: null };
+    }
 
-    // Vibrancy = saturation * adjusted brightness
-    // Prefer colors that are neither too dark nor too light
-    const brightnessScore = 1 - Math.abs(lightness - 0.5) * 2;
+    const detector = new BorderDetector();
+    const borders = detector.detect(pixels);
+    if (!borders) {
+      return { weights, borders: null };
+    }
 
-    return saturation * brightnessScore;
+    const keep = detector.createMask(borders, width, height).weights;
+    if (weights) {
+      // Copy, as a mask at the image size is returned by resampleMask as is
+      weights = weights.map((weight, i) => weight * keep[i]);
+    } else {
+      weights = keep;
+    }
+
+    return { weights, borders };
   }
 
   /**
-   * Calculates the perceived brightness of a color using luminance formula.
-   * @returns Brightness value from 0 (dark) to 255 (light)
+   * Reads the pixels of a canvas.
    */
-  private calculateBrightness(rgb: RGB): number {
-    // Using the luminance formula for perceived brightness
-    return 0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2];
+  private getPixels(canvas: HTMLCanvasElement): Uint8ClampedArray | null {
+    const ctx = canvas.getContext('2d');
+    return ctx ? ctx.getImageData(0, 0, canvas.width, canvas.height).data : null;
+  }
+
+  /**
+   * Calculates the Euclidean distance between two colors.
+   */
+  private colorDistance(c1: RGB, c2: RGB): number {
+    return Math.sqrt(
+      Math.pow(c1[0] - c2[0], 2) +
+        Math.pow(c1[1] - c2[1], 2) +
+        Math.pow(c1[2] - c2[2], 2)
+    );
   }
 
   /**
@@ -388,4 +579,66 @@ export class ColorExtractor {
   }
 }
 
+/**
+ * Describes a colour the way extraction does, for colours that did not come
+ * from an image, such as one the user picked.
+ * @param population - Share of the image the colour stands for (0-1)
+ */
+export function toExtractedColor(rgb: RGB, population: number): ExtractedColor {
+  return {
+    rgb,
+    hex: rgbToHex(rgb),
+    vibrancy: calculateVibrancy(rgb),
+    brightness: calculateBrightness(rgb),
+    population,
+  };
+}
+
+/**
+ * Converts RGB to hex color string.
+ */
+function rgbToHex(rgb: RGB): string {
+  return (
+    '#' +
+    rgb
+      .map((c) => {
+        const hex = Math.max(0, Math.min(255, Math.round(c))).toString(16);
+        return hex.length === 1 ? '0' + hex : hex;
+      })
+      .join('')
+  );
+}
+
+/**
+ * Calculates the vibrancy (saturation * brightness) of a color.
+ * Higher values indicate more vibrant colors.
+ */
+function calculateVibrancy(rgb: RGB): number {
+  const [r, g, b] = rgb.map((c) => c / 255);
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+
+  // Saturation (HSL)
+  const lightness = (max + min) / 2;
+  const saturation =
+    delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+
+  // Vibrancy = saturation * adjusted brightness
+  // Prefer colors that are neither too dark nor too light
+  const brightnessScore = 1 - Math.abs(lightness - 0.5) * 2;
+
+  return saturation * brightnessScore;
+}
+
+/**
+ * Calculates the perceived brightness of a color using luminance formula.
+ * @returns Brightness value from 0 (dark) to 255 (light)
+ */
+function calculateBrightness(rgb: RGB): number {
+  // Using the luminance formula for perceived brightness
+  return 0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2];
+}
+
 export default ColorExtractor;
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { ColorQuantizer } from './ColorQuantizer';
+import type { RGB } from './ColorExtractor';
+
+/**
+ * Builds RGBA pixel data from [colour, pixel count] runs.
+ */
+function pixels(runs: [RGB, number, number?][]): Uint8ClampedArray {
+  const total = runs.reduce((sum, [, count]) => sum + count, 0);
+  const data = new Uint8ClampedArray(total * 4);
+  let offset = 0;
+  for (const [[r, g, b], count, alpha = 255] of runs) {
+    for (let i = 0; i < count; i++, offset += 4) {
+      data.set([r, g, b, alpha], offset);
+    }
+  }
+  return data;
+}
+
+// Noisy clusters, so buckets differ slightly within each colour
+function noisy([r, g, b]: RGB, count: number): [RGB, number][] {
+  return Array.from({ length: count }, (_, i) => [[r + (i % 5), g - (i % 3), b + (i % 4)], 1]);
+}
+
+const RED: RGB = [200, 30, 40];
+const BLUE: RGB = [30, 60, 200];
+const GREEN: RGB = [40, 180, 60];
+
+const image = pixels([...noisy(RED, 700), ...noisy(BLUE, 250), ...noisy(GREEN, 50)]);
+
+function distance(a: RGB, b: RGB): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+describe('ColorQuantizer', () => {
+  describe('constructor', () => {
+    it('should reject a colour count below 1', () => {
+      expect(() => new ColorQuantizer({ colorCount: 0 })).toThrow('colorCount must be at least 1');
+    });
+  });
+
+  describe.each(['kmeans', 'median-cut'] as const)('quantize (%s)', (method) => {
+    const quantizer = new ColorQuantizer({ method, colorCount: 3 });
+
+    it('should find each colour cluster', () => {
+      const swatches = quantizer.quantize(image);
+      expect(swatches).toHaveLength(3);
+      expect(distance(swatches[0].rgb, RED)).toBeLessThan(10);
+      expect(distance(swatches[1].rgb, BLUE)).toBeLessThan(10);
+      expect(distance(swatches[2].rgb, GREEN)).toBeLessThan(10);
+    });
+
+    it('should report pixel shares sorted largest first', () => {
+      const swatches = quantizer.quantize(image);
+      expect(swatches.map((s) => s.population)).toEqual([
+        expect.closeTo(0.7, 2),
+        expect.closeTo(0.25, 2),
+        expect.closeTo(0.05, 2),
+      ]);
+      expect(swatches.reduce((sum, s) => sum + s.population, 0)).toBeCloseTo(1, 10);
+    });
+
+    it('should ignore transparent pixels', () => {
+      const swatches = quantizer.quantize(pixels([[RED, 10], [BLUE, 90, 0]]));
+      expect(swatches).toHaveLength(1);
+      expect(swatches[0].population).toBe(1);
+      expect(distance(swatches[0].rgb, RED)).toBeLessThan(2);
+    });
+
+    it('should return an empty palette for fully transparent images', () => {
+      expect(quantizer.quantize(pixels([[RED, 10, 0]]))).toEqual([]);
+    });
+
+    it('should return fewer swatches than requested for flat images', () => {
+      const swatches = quantizer.quantize(pixels([[GREEN, 100]]));
+      expect(swatches).toEqual([{ rgb: GREEN, population: 1 }]);
+    });
+
+    it('should sample every nth pixel', () => {
+      // Alternating red and blue: a step of 2 only sees red
+      const data = pixels(Array.from({ length: 100 }, (_, i) => [i % 2 ? BLUE : RED, 1] as [RGB, number]));
+      const swatches = quantizer.quantize(data, 2);
+      expect(swatches).toHaveLength(1);
+      expect(distance(swatches[0].rgb, RED)).toBeLessThan(2);
+    });
+
+    it('should be deterministic', () => {
+      expect(quantizer.quantize(image)).toEqual(quantizer.quantize(image));
+    });
+
+    it('should count each pixel with its weight', () => {
+      // 700 red and 250 blue pixels, with blue weighted 10×
+      const weights = new Float32Array(1000).fill(1);
+      weights.fill(10, 700, 950);
+      const swatches = quantizer.quantize(image, 1, weights);
+
+      expect(distance(swatches[0].rgb, BLUE)).toBeLessThan(10);
+      expect(swatches[0].population).toBeCloseTo(2500 / 3250, 2);
+    });
+
+    it('should skip pixels with zero weight', () => {
+      const weights = new Float32Array(1000);
+      weights.fill(1, 950);
+      const swatches = quantizer.quantize(image, 1, weights);
+
+      expect(swatches).toHaveLength(1);
+      expect(distance(swatches[0].rgb, GREEN)).toBeLessThan(10);
+    });
+  });
+
+  describe('kmeans', () => {
+    it('should not let a small saturated speck outweigh a large area', () => {
+      const data = pixels([...noisy([120, 110, 100], 980), [[255, 0, 200], 20]]);
+      const swatches = new ColorQuantizer({ colorCount: 2 }).quantize(data);
+      expect(swatches[0].population).toBeCloseTo(0.98, 2);
+      expect(swatches[1].population).toBeCloseTo(0.02, 2);
+    });
+
+    it('should give the same palette for the same seed', () => {
+      const first = new ColorQuantizer({ colorCount: 5, seed: 7 }).quantize(image);
+      const second = new ColorQuantizer({ colorCount: 5, seed: 7 }).quantize(image);
+      expect(first).toEqual(second);
+    });
+  });
+
+  describe('measurePopulation', () => {
+    it('should assign pixels to the nearest palette colour', () => {
+      const shares = new ColorQuantizer().measurePopulation(image, [GREEN, RED, BLUE]);
+      expect(shares[0]).toBeCloseTo(0.05, 2);
+      expect(shares[1]).toBeCloseTo(0.7, 2);
+      expect(shares[2]).toBeCloseTo(0.25, 2);
+    });
+
+    it('should give zero shares when every pixel is transparent', () => {
+      expect(new ColorQuantizer().measurePopulation(pixels([[RED, 4, 0]]), [RED])).toEqual([0]);
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import { srgbToLab, labToSrgb, labDistanceSquared, type Lab } from '../color-space';
+import type { RGB } from './ColorExtractor';
+
+export type QuantizationMethod = 'kmeans' | 'median-cut';
+
+export interface QuantizerOptions {
+  /**
+   * Clustering algorithm.
+   * @default 'kmeans'
+   */
+  method?: QuantizationMethod;
+
+  /**
+   * Number of swatches to return at most.
+   * @default 6
+   */
+  colorCount?: number;
+
+  /**
+   * Maximum k-means refinement passes.
+   * @default 20
+   */
+  maxIterations?: number;
+
+  /**
+   * Seed for k-means++ centre selection, so the same image always gives
+   * the same palette.
+   * @default 1
+   */
+  seed?: number;
+}
+
+export interface QuantizedColor {
+  rgb: RGB;
+  /** Share of the sampled pixels in this swatch (0-1) */
+  population: number;
+}
+
+/**
+ * Pixels with alpha below this are ignored.
+ */
+const MIN_ALPHA = 125;
+
+/**
+ * Bits per channel kept when bucketing pixels before clustering.
+ */
+const HISTOGRAM_BITS = 5;
+
+interface WeightedPoint {
+  lab: Lab;
+  weight: number;
+}
+
+/**
+ * ColorQuantizer reduces an image to a few representative colours in
+ * CIELAB, where distance follows perceived difference, and reports how
+ * much of the image each colour covers.
+ *
+ * Pixels are first bucketed into a 15-bit histogram, so the cost of
+ * clustering depends on how many distinct colours the image has rather than
+ * its size. Two methods are available:
+ * - `kmeans` seeds centres with k-means++ and refines them with Lloyd's
+ *   algorithm; it follows the actual colour clusters closely
+ * - `median-cut` repeatedly splits the most populous, widest box of colours
+ *   at its weighted median; it is faster and fully deterministic
+ *
+ * @example
+ * ```typescript
+ * const quantizer = new ColorQuantizer({ method: 'kmeans', colorCount: 8 });
+ * const swatches = quantizer.quantize(ctx.getImageData(0, 0, w, h).data);
+ * // swatches[0].population === 0.42 → 42% of the image
+ * ```
+ */
+export class ColorQuantizer {
+  private options: Required<QuantizerOptions>;
+
+  constructor(options: QuantizerOptions = {}) {
+    this.options = {
+      method: options.method ?? 'kmeans',
+      colorCount: options.colorCount ?? 6,
+      maxIterations: options.maxIterations ?? 20,
+      seed: options.seed ?? 1,
+    };
+
+    if (this.options.colorCount < 1) {
+      throw new Error('colorCount must be at least 1');
+    }
+  }
+
+  /**
+   * Quantizes RGBA pixel data.
+   * @param data - RGBA bytes, as in ImageData.data
+   * @param step - Sample every nth pixel
+   * @param weights - Optional weight per pixel (see createRegionMask); populations are weighted too
+   * @returns Swatches sorted by population, largest first; empty if every pixel is transparent
+   */
+  quantize(data: Uint8ClampedArray, step = 1, weights?: ArrayLike<number>): QuantizedColor[] {
+    const points = this.buildHistogram(data, step, weights);
+    if (points.length === 0) {
+      return [];
+    }
+
+    const clusters =
+      this.options.method === 'median-cut' ? this.medianCut(points) : this.kMeans(points);
+
+    const total = points.reduce((sum, point) => sum + point.weight, 0);
+    return clusters
+      .filter((cluster) => cluster.weight > 0)
+      .map((cluster) => ({ rgb: labToSrgb(cluster.lab), population: cluster.weight / total }))
+      .sort((a, b) => b.population - a.population);
+  }
+
+  /**
+   * Measures how much of an image each palette colour covers by assigning
+   * every sampled pixel to its nearest palette colour.
+   * @param data - RGBA bytes
+   * @param palette - Colours from another source, e.g. ColorThief
+   * @param step - Sample every nth pixel
+   * @param weights - Optional weight per pixel
+   * @returns Population share per palette entry, in palette order
+   */
+  measurePopulation(
+    data: Uint8ClampedArray,
+    palette: RGB[],
+    step = 1,
+    weights?: ArrayLike<number>
+  ): number[] {
+    const centres = palette.map((rgb) => srgbToLab(rgb));
+    const counts = new Array<number>(palette.length).fill(0);
+    let total = 0;
+
+    for (const point of this.buildHistogram(data, step, weights)) {
+      counts[this.nearest(point.lab, centres)] += point.weight;
+      total += point.weight;
+    }
+
+    return counts.map((count) => (total > 0 ? count / total : 0));
+  }
+
+  /**
+   * Buckets opaque pixels by their top bits and averages each bucket.
+   * Each pixel counts with its weight, 1 when no weights are given.
+   */
+  private buildHistogram(
+    data: Uint8ClampedArray,
+    step: number,
+    weights?: ArrayLike<number>
+  ): WeightedPoint[] {
+    const shift = 8 - HISTOGRAM_BITS;
+    const buckets = new Map<number, [number, number, number, number]>();
+    const stride = Math.max(1, Math.floor(step)) * 4;
+
+    for (let i = 0; i + 3 < data.length; i += stride) {
+      if (data[i + 3] < MIN_ALPHA) continue;
+
+      const weight = weights ? weights[i / 4] : 1;
+      if (!(weight > 0)) continue;
+
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+      const key =
+        ((r >> shift) << (2 * HISTOGRAM_BITS)) | ((g >> shift) << HISTOGRAM_BITS) | (b >> shift);
+
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket[0] += r * weight;
+        bucket[1] += g * weight;
+        bucket[2] += b * weight;
+        bucket[3] += weight;
+      } else {
+        buckets.set(key, [r * weight, g * weight, b * weight, weight]);
+      }
+    }
+
+    return [...buckets.values()].map(([r, g, b, count]) => ({
+      lab: srgbToLab([r / count, g / count, b / count]),
+      weight: count,
+    }));
+  }
+
+  /**
+   * Weighted k-means with k-means++ seeding.
+   */
+  private kMeans(points: WeightedPoint[]): WeightedPoint[] {
+    const k = Math.min(this.options.colorCount, points.length);
+    const random = createRandom(this.options.seed);
+
+    // k-means++: each new centre is picked with probability proportional
+    // to its pixel count times its squared distance to the nearest centre
+    const centres: Lab[] = [pickWeighted(points, points.map((p) => p.weight), random).lab];
+    const distances = points.map((p) => labDistanceSquared(p.lab, centres[0]));
+
+    while (centres.length < k) {
+      const scores = points.map((p, i) => p.weight * distances[i]);
+      if (scores.every((score) => score === 0)) break;
+
+      const centre = pickWeighted(points, scores, random).lab;
+      centres.push(centre);
+      points.forEach((p, i) => {
+        distances[i] = Math.min(distances[i], labDistanceSquared(p.lab, centre));
+      });
+    }
+
+    const assignments = new Array<number>(points.length).fill(-1);
+    let sums: WeightedPoint[] = [];
+
+    for (let iteration = 0; iteration < this.options.maxIterations; iteration++) {
+      let changed = false;
+      points.forEach((p, i) => {
+        const nearest = this.nearest(p.lab, centres);
+        if (nearest !== assignments[i]) {
+          assignments[i] = nearest;
+          changed = true;
+        }
+      });
+
+      sums = centres.map(() => ({ lab: { l: 0, a: 0, b: 0 }, weight: 0 }));
+      points.forEach((p, i) => {
+        const sum = sums[assignments[i]];
+        sum.lab.l += p.lab.l * p.weight;
+        sum.lab.a += p.lab.a * p.weight;
+        sum.lab.b += p.lab.b * p.weight;
+        sum.weight += p.weight;
+      });
+      sums.forEach((sum, c) => {
+        if (sum.weight > 0) {
+          centres[c] = {
+            l: sum.lab.l / sum.weight,
+            a: sum.lab.a / sum.weight,
+            b: sum.lab.b / sum.weight,
+          };
+        }
+      });
+
+      if (!changed) break;
+    }
+
+    return centres.map((lab, c) => ({ lab, weight: sums[c]?.weight ?? 0 }));
+  }
+
+  /**
+   * Weighted median cut in Lab.
+   */
+  private medianCut(points: WeightedPoint[]): WeightedPoint[] {
+    const boxes: WeightedPoint[][] = [points];
+
+    while (boxes.length < this.options.colorCount) {
+      // Split the box where a split helps most: many pixels over a wide range
+      let best = -1;
+      let bestScore = 0;
+      let bestAxis: keyof Lab = 'l';
+
+      boxes.forEach((box, index) => {
+        if (box.length < 2) return;
+        const { axis, range } = widestAxis(box);
+        const score = range * box.reduce((sum, p) => sum + p.weight, 0);
+        if (score > bestScore) {
+          best = index;
+          bestScore = score;
+          bestAxis = axis;
+        }
+      });
+
+      if (best === -1) break;
+
+      const box = [...boxes[best]].sort((a, b) => a.lab[bestAxis] - b.lab[bestAxis]);
+      const half = box.reduce((sum, p) => sum + p.weight, 0) / 2;
+      let running = 0;
+      let split = 1;
+      for (; split < box.length - 1; split++) {
+        running += box[split - 1].weight;
+        if (running >= half) break;
+      }
+
+      boxes.splice(best, 1, box.slice(0, split), box.slice(split));
+    }
+
+    return boxes.map((box) => {
+      const weight = box.reduce((sum, p) => sum + p.weight, 0);
+      return {
+        lab: {
+          l: box.reduce((sum, p) => sum + p.lab.l * p.weight, 0) / weight,
+          a: box.reduce((sum, p) => sum + p.lab.a * p.weight, 0) / weight,
+          b: box.reduce((sum, p) => sum + p.lab.b * p.weight, 0) / weight,
+        },
+        weight,
+      };
+    });
+  }
+
+  /**
+   * Index of the closest centre.
+   */
+  private nearest(lab: Lab, centres: Lab[]): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    centres.forEach((centre, index) => {
+      const distance = labDistanceSquared(lab, centre);
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+}
+
+/**
+ * Axis of a box with the largest spread.
+ */
+function widestAxis(box: WeightedPoint[]): { axis: keyof Lab; range: number } {
+  let result: { axis: keyof Lab; range: number } = { axis: 'l', range: -1 };
+
+  for (const axis of ['l', 'a', 'b'] as const) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const p of box) {
+      min = Math.min(min, p.lab[axis]);
+      max = Math.max(max, p.lab[axis]);
+    }
+    if (max - min > result.range) {
+      result = { axis, range: max - min };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Picks an item with probability proportional to its score.
+ */
+function pickWeighted<T>(items: T[], scores: number[], random: () => number): T {
+  const total = scores.reduce((sum, score) => sum + score, 0);
+  let target = random() * total;
+
+  for (let i = 0; i < items.length; i++) {
+    target -= scores[i];
+    if (target < 0) return items[i];
+  }
+
+  return items[items.length - 1];
+}
+
+/**
+ * Small seeded PRNG (mulberry32).
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export default ColorQuantizer;
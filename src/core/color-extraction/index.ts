@@ -1 +1,43 @@
-export { ColorExtractor, type ExtractedColor, type RGB, type ColorExtractionOptions } from './ColorExtractor';
+export {
+  ColorExtractor,
+  toExtractedColor,
+  type ExtractedColor,
+  type RGB,
+  type ColorExtractionOptions,
+  type ExtractionMethod,
+  type ExtractionRequestOptions,
+  type ExtractionResult,
+} from './ColorExtractor';
+
+export {
+  BorderDetector,
+  describeBorders,
+  type BorderDetectorOptions,
+  type BorderReport,
+  type BorderKind,
+  type PixelData,
+} from './BorderDetector';
+
+export {
+  createRegionMask,
+  resampleMask,
+  clampRegion,
+  REGION_BACKGROUND_WEIGHT,
+  type ImageRegion,
+  type WeightMask,
+} from './regions';
+
+export {
+  createWeightingMask,
+  createCenterBiasMask,
+  createSaliencyMask,
+  SALIENCY_FLOOR,
+  type PixelWeighting,
+} from './saliency';
+
+export {
+  ColorQuantizer,
+  type QuantizerOptions,
+  type QuantizedColor,
+  type QuantizationMethod,
+} from './ColorQuantizer';
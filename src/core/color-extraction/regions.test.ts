@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { clampRegion, createRegionMask, resampleMask, REGION_BACKGROUND_WEIGHT } from './regions';
+
+describe('regions', () => {
+  describe('clampRegion', () => {
+    it('should clip regions to the image', () => {
+      expect(clampRegion({ x: -0.25, y: 0.5, width: 0.5, height: 1 })).toEqual({
+        x: 0,
+        y: 0.5,
+        width: 0.25,
+        height: 0.5,
+      });
+    });
+
+    it('should keep the weight', () => {
+      expect(clampRegion({ x: 0, y: 0, width: 1, height: 1, weight: 3 })?.weight).toBe(3);
+    });
+
+    it('should drop regions outside the image or without area', () => {
+      expect(clampRegion({ x: 1.2, y: 0, width: 0.5, height: 0.5 })).toBeNull();
+      expect(clampRegion({ x: 0.2, y: 0.2, width: 0, height: 0.5 })).toBeNull();
+    });
+  });
+
+  describe('createRegionMask', () => {
+    it('should weight pixels inside regions and keep a low weight elsewhere', () => {
+      const mask = createRegionMask([{ x: 0.5, y: 0, width: 0.5, height: 0.5 }], 4, 2);
+
+      expect(mask.width).toBe(4);
+      expect(mask.height).toBe(2);
+      expect([...mask.weights]).toEqual([
+        REGION_BACKGROUND_WEIGHT, REGION_BACKGROUND_WEIGHT, 1, 1,
+        REGION_BACKGROUND_WEIGHT, REGION_BACKGROUND_WEIGHT, REGION_BACKGROUND_WEIGHT, REGION_BACKGROUND_WEIGHT,
+      ].map(Math.fround));
+    });
+
+    it('should take the largest weight where regions overlap', () => {
+      const mask = createRegionMask(
+        [
+          { x: 0, y: 0, width: 1, height: 1, weight: 2 },
+          { x: 0, y: 0, width: 0.5, height: 1, weight: 5 },
+        ],
+        2,
+        1
+      );
+
+      expect([...mask.weights]).toEqual([5, 2]);
+    });
+
+    it('should cover at least one pixel for tiny regions', () => {
+      const mask = createRegionMask([{ x: 0.5, y: 0.5, width: 0.001, height: 0.001 }], 10, 10);
+      expect(mask.weights.filter((w) => w === 1)).toHaveLength(1);
+    });
+  });
+
+  describe('resampleMask', () => {
+    it('should return the weights unchanged at the same size', () => {
+      const mask = createRegionMask([], 3, 3);
+      expect(resampleMask(mask, 3, 3)).toBe(mask.weights);
+    });
+
+    it('should pick the nearest cell when scaling', () => {
+      const mask = { width: 2, height: 1, weights: new Float32Array([1, 4]) };
+      expect([...resampleMask(mask, 4, 2)]).toEqual([1, 1, 4, 4, 1, 1, 4, 4]);
+    });
+
+    it('should reject masks whose weights do not match their size', () => {
+      const mask = { width: 2, height: 2, weights: new Float32Array(3) };
+      expect(() => resampleMask(mask, 2, 2)).toThrow('Weight mask size does not match its dimensions');
+    });
+  });
+});
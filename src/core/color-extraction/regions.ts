@@ -0,0 +1,107 @@
+/**
+ * A rectangle of the image that colour extraction should favour.
+ * Coordinates are fractions of the image size (0-1), so a region keeps
+ * its meaning at any resolution.
+ */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /**
+   * How much a pixel inside counts relative to one outside every region.
+   * @default 1
+   */
+  weight?: number;
+}
+
+/**
+ * Per-pixel weights at any resolution; sampled by position when applied to
+ * pixels of a different size.
+ */
+export interface WeightMask {
+  width: number;
+  height: number;
+  /** Row-major, one weight (0 or more) per mask cell */
+  weights: Float32Array;
+}
+
+/**
+ * Weight of pixels outside every region. Not zero, so the rest of the image
+ * still fills the palette when the regions hold only one or two colours.
+ */
+export const REGION_BACKGROUND_WEIGHT = 0.1;
+
+/**
+ * Clamps a region to the image and drops empty ones.
+ * @returns The clamped region, or null if nothing of it lies inside the image
+ */
+export function clampRegion(region: ImageRegion): ImageRegion | null {
+  const x = Math.min(Math.max(region.x, 0), 1);
+  const y = Math.min(Math.max(region.y, 0), 1);
+  const width = Math.min(region.x + region.width, 1) - x;
+  const height = Math.min(region.y + region.height, 1) - y;
+
+  if (!(width > 0 && height > 0)) {
+    return null;
+  }
+
+  const clamped = { x, y, width, height };
+  return region.weight === undefined ? clamped : { ...clamped, weight: region.weight };
+}
+
+/**
+ * Builds a weight mask from regions. Pixels covered by several regions take
+ * the largest weight; pixels outside all of them get REGION_BACKGROUND_WEIGHT.
+ * @param regions - Regions in image fractions
+ * @param width - Mask width in cells
+ * @param height - Mask height in cells
+ */
+export function createRegionMask(regions: ImageRegion[], width: number, height: number): WeightMask {
+  const weights = new Float32Array(width * height).fill(REGION_BACKGROUND_WEIGHT);
+
+  for (const region of regions) {
+    const clamped = clampRegion(region);
+    if (!clamped) continue;
+
+    const weight = clamped.weight ?? 1;
+    const left = Math.floor(clamped.x * width);
+    const top = Math.floor(clamped.y * height);
+    const right = Math.max(left + 1, Math.ceil((clamped.x + clamped.width) * width));
+    const bottom = Math.max(top + 1, Math.ceil((clamped.y + clamped.height) * height));
+
+    for (let row = top; row < Math.min(bottom, height); row++) {
+      for (let col = left; col < Math.min(right, width); col++) {
+        const index = row * width + col;
+        weights[index] = Math.max(weights[index], weight);
+      }
+    }
+  }
+
+  return { width, height, weights };
+}
+
+/**
+ * Resamples a mask to one weight per pixel of a width × height image,
+ * taking the nearest mask cell.
+ */
+export function resampleMask(mask: WeightMask, width: number, height: number): Float32Array {
+  if (mask.weights.length !== mask.width * mask.height) {
+    throw new Error('Weight mask size does not match its dimensions');
+  }
+
+  if (mask.width === width && mask.height === height) {
+    return mask.weights;
+  }
+
+  const weights = new Float32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    const maskRow = Math.min(mask.height - 1, Math.floor(((row + 0.5) / height) * mask.height));
+    for (let col = 0; col < width; col++) {
+      const maskCol = Math.min(mask.width - 1, Math.floor(((col + 0.5) / width) * mask.width));
+      weights[row * width + col] = mask.weights[maskRow * mask.width + maskCol];
+    }
+  }
+
+  return weights;
+}
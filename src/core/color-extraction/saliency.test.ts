@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCenterBiasMask,
+  createSaliencyMask,
+  createWeightingMask,
+  SALIENCY_FLOOR,
+} from './saliency';
+import type { PixelData } from './BorderDetector';
+import type { RGB } from './ColorExtractor';
+
+function image(width: number, height: number, colorAt: (x: number, y: number) => RGB): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...colorAt(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+const GREY: RGB = [120, 120, 120];
+const RED: RGB = [220, 30, 40];
+
+describe('saliency', () => {
+  describe('createCenterBiasMask', () => {
+    it('should weigh the centre most and the corners least', () => {
+      const { weights } = createCenterBiasMask(21, 21);
+      const center = weights[10 * 21 + 10];
+      const edge = weights[10 * 21];
+      const corner = weights[0];
+
+      expect(center).toBeCloseTo(1, 2);
+      expect(edge).toBeLessThan(center);
+      expect(corner).toBeLessThan(edge);
+      expect(corner).toBeGreaterThanOrEqual(SALIENCY_FLOOR);
+    });
+
+    it('should be symmetric', () => {
+      const { weights } = createCenterBiasMask(10, 6);
+      expect(weights[0]).toBeCloseTo(weights[9], 5);
+      expect(weights[0]).toBeCloseTo(weights[5 * 10 + 9], 5);
+    });
+  });
+
+  describe('createSaliencyMask', () => {
+    it('should weigh a subject above its flat background', () => {
+      // Subject off-centre, so centre bias alone would not favour it
+      const photo = image(64, 64, (x, y) => (x >= 8 && x < 16 && y >= 8 && y < 16 ? RED : GREY));
+      const { weights } = createSaliencyMask(photo);
+
+      expect(weights[12 * 64 + 12]).toBeGreaterThan(weights[32 * 64 + 32]);
+    });
+
+    it('should keep every weight between the floor and 1', () => {
+      const photo = image(32, 32, (x, y) => (x > 10 && x < 20 && y > 10 ? RED : GREY));
+      const { weights } = createSaliencyMask(photo);
+
+      const values = Array.from(weights);
+      expect(Math.max(...values)).toBeCloseTo(1, 5);
+      expect(Math.min(...values)).toBeGreaterThanOrEqual(SALIENCY_FLOOR - 1e-6);
+    });
+
+    it('should fall back to the centre bias for flat images', () => {
+      const flat = image(16, 16, () => GREY);
+      expect(createSaliencyMask(flat).weights).toEqual(createCenterBiasMask(16, 16).weights);
+    });
+  });
+
+  describe('createWeightingMask', () => {
+    const photo = image(8, 8, () => GREY);
+
+    it('should return null for uniform weighting', () => {
+      expect(createWeightingMask(photo, 'uniform')).toBeNull();
+    });
+
+    it('should return a mask the size of the pixels otherwise', () => {
+      for (const weighting of ['center', 'saliency'] as const) {
+        const mask = createWeightingMask(photo, weighting);
+        expect(mask).toMatchObject({ width: 8, height: 8 });
+        expect(mask?.weights).toHaveLength(64);
+      }
+    });
+  });
+});
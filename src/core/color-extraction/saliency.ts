@@ -0,0 +1,174 @@
+import type { PixelData } from './BorderDetector';
+import type { WeightMask } from './regions';
+
+/**
+ * How pixels are weighted before quantization:
+ * - `uniform`: every pixel counts the same
+ * - `center`: pixels count less the further they are from the centre
+ * - `saliency`: centre bias combined with local contrast, so a subject
+ *   stands out from a large flat background
+ */
+export type PixelWeighting = 'uniform' | 'center' | 'saliency';
+
+/**
+ * Lowest weight any pixel gets. Not zero, so backgrounds still fill the
+ * palette when the subject holds only a few colours.
+ */
+export const SALIENCY_FLOOR = 0.1;
+
+/**
+ * Spread of the centre bias, as a share of the image size. A pixel in a
+ * corner counts about 6% as much as one in the centre before the floor.
+ */
+const CENTER_SIGMA = 0.3;
+
+/**
+ * Box radii of the centre and surround averages, as shares of the shorter
+ * image side. Their difference is large where a pixel's neighbourhood
+ * differs from its wider surroundings.
+ */
+const CENTER_RADIUS = 1 / 64;
+const SURROUND_RADIUS = 1 / 8;
+
+/**
+ * Builds the weight mask for a weighting mode.
+ * @param pixels - RGBA pixels, usually the downscaled extraction canvas
+ * @returns The mask, or null for 'uniform'
+ */
+export function createWeightingMask(pixels: PixelData, weighting: PixelWeighting): WeightMask | null {
+  switch (weighting) {
+    case 'uniform':
+      return null;
+    case 'center':
+      return createCenterBiasMask(pixels.width, pixels.height);
+    case 'saliency':
+      return createSaliencyMask(pixels);
+  }
+}
+
+/**
+ * Gaussian falloff from the image centre, from 1 down to SALIENCY_FLOOR.
+ */
+export function createCenterBiasMask(width: number, height: number): WeightMask {
+  const weights = new Float32Array(width * height);
+
+  for (let row = 0; row < height; row++) {
+    const dy = (row + 0.5) / height - 0.5;
+    for (let col = 0; col < width; col++) {
+      const dx = (col + 0.5) / width - 0.5;
+      const bias = Math.exp(-(dx * dx + dy * dy) / (2 * CENTER_SIGMA * CENTER_SIGMA));
+      weights[row * width + col] = SALIENCY_FLOOR + (1 - SALIENCY_FLOOR) * bias;
+    }
+  }
+
+  return { width, height, weights };
+}
+
+/**
+ * Centre-surround contrast times centre bias, scaled so the most salient
+ * pixel weighs 1 and none weighs less than SALIENCY_FLOOR. Images without
+ * any contrast fall back to the centre bias alone.
+ */
+export function createSaliencyMask(pixels: PixelData): WeightMask {
+  const { width, height } = pixels;
+  const center = createCenterBiasMask(width, height);
+  const contrast = localContrast(pixels);
+
+  const weights = new Float32Array(width * height);
+  let max = 0;
+  for (let i = 0; i < weights.length; i++) {
+    weights[i] = contrast[i] * center.weights[i];
+    max = Math.max(max, weights[i]);
+  }
+
+  if (max === 0) {
+    return center;
+  }
+
+  for (let i = 0; i < weights.length; i++) {
+    weights[i] = SALIENCY_FLOOR + (1 - SALIENCY_FLOOR) * (weights[i] / max);
+  }
+
+  return { width, height, weights };
+}
+
+/**
+ * RGB distance between each pixel's small and wide box averages.
+ */
+function localContrast(pixels: PixelData): Float32Array {
+  const { width, height } = pixels;
+  const sums = integralImage(pixels);
+  const shorter = Math.min(width, height);
+  const inner = Math.max(1, Math.round(shorter * CENTER_RADIUS));
+  const outer = Math.max(inner + 1, Math.round(shorter * SURROUND_RADIUS));
+
+  const contrast = new Float32Array(width * height);
+  const a: number[] = [0, 0, 0];
+  const b: number[] = [0, 0, 0];
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      boxAverage(sums, width, height, col, row, inner, a);
+      boxAverage(sums, width, height, col, row, outer, b);
+      const dr = a[0] - b[0];
+      const dg = a[1] - b[1];
+      const db = a[2] - b[2];
+      contrast[row * width + col] = Math.sqrt(dr * dr + dg * dg + db * db);
+    }
+  }
+
+  return contrast;
+}
+
+/**
+ * Summed-area table of the RGB channels, (width + 1) × (height + 1) × 3,
+ * so any box average costs four lookups per channel.
+ */
+function integralImage({ data, width, height }: PixelData): Float64Array {
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1) * 3);
+
+  for (let row = 0; row < height; row++) {
+    const rowSum = [0, 0, 0];
+    for (let col = 0; col < width; col++) {
+      const offset = (row * width + col) * 4;
+      const cell = ((row + 1) * stride + col + 1) * 3;
+      const above = (row * stride + col + 1) * 3;
+      for (let c = 0; c < 3; c++) {
+        rowSum[c] += data[offset + c];
+        sums[cell + c] = sums[above + c] + rowSum[c];
+      }
+    }
+  }
+
+  return sums;
+}
+
+/**
+ * Average colour of the box of a radius around a pixel, clipped to the image.
+ */
+function boxAverage(
+  sums: Float64Array,
+  width: number,
+  height: number,
+  col: number,
+  row: number,
+  radius: number,
+  out: number[]
+): void {
+  const stride = width + 1;
+  const left = Math.max(0, col - radius);
+  const top = Math.max(0, row - radius);
+  const right = Math.min(width, col + radius + 1);
+  const bottom = Math.min(height, row + radius + 1);
+  const area = (right - left) * (bottom - top);
+
+  for (let c = 0; c < 3; c++) {
+    const total =
+      sums[(bottom * stride + right) * 3 + c] -
+      sums[(top * stride + right) * 3 + c] -
+      sums[(bottom * stride + left) * 3 + c] +
+      sums[(top * stride + left) * 3 + c];
+    out[c] = total / area;
+  }
+}
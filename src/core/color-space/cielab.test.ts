@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { srgbToLab, labToSrgb, labDistanceSquared, type SRGB } from './index';
+
+describe('CIELAB conversion', () => {
+  it('should match reference values', () => {
+    const white = srgbToLab([255, 255, 255]);
+    expect(white.l).toBeCloseTo(100, 2);
+    expect(white.a).toBeCloseTo(0, 2);
+    expect(white.b).toBeCloseTo(0, 2);
+
+    const red = srgbToLab([255, 0, 0]);
+    expect(red.l).toBeCloseTo(53.24, 1);
+    expect(red.a).toBeCloseTo(80.09, 1);
+    expect(red.b).toBeCloseTo(67.2, 1);
+
+    expect(srgbToLab([0, 0, 0]).l).toBeCloseTo(0, 5);
+  });
+
+  it('should round-trip sRGB colours', () => {
+    const samples: SRGB[] = [
+      [0, 0, 0],
+      [255, 255, 255],
+      [1, 2, 3],
+      [23, 33, 43],
+      [64, 167, 227],
+      [255, 200, 0],
+      [128, 0, 255],
+    ];
+
+    for (const rgb of samples) {
+      expect(labToSrgb(srgbToLab(rgb))).toEqual(rgb);
+    }
+  });
+
+  it('should clamp out-of-gamut Lab colours', () => {
+    const rgb = labToSrgb({ l: 50, a: 150, b: -150 });
+    rgb.forEach((channel) => {
+      expect(channel).toBeGreaterThanOrEqual(0);
+      expect(channel).toBeLessThanOrEqual(255);
+    });
+  });
+
+  it('should measure squared distance', () => {
+    expect(labDistanceSquared({ l: 0, a: 0, b: 0 }, { l: 3, a: 4, b: 0 })).toBe(25);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * CIELAB conversion (D65 white point), used by the colour quantizer, where
+ * Euclidean distance approximates how different two colours look.
+ */
+
+import type { SRGB } from './oklab';
+
+/** CIELAB colour: lightness 0-100, a/b roughly -128 to 127 */
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// D65 reference white
+const XN = 0.95047;
+const YN = 1;
+const ZN = 1.08883;
+
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+/**
+ * Converts sRGB channels (0-255) to CIELAB.
+ */
+export function srgbToLab([r, g, b]: SRGB): Lab {
+  const lr = toLinear(r / 255);
+  const lg = toLinear(g / 255);
+  const lb = toLinear(b / 255);
+
+  const fx = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / XN);
+  const fy = labF((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / YN);
+  const fz = labF((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / ZN);
+
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+}
+
+/**
+ * Converts CIELAB to sRGB channels (0-255), clamped and rounded.
+ */
+export function labToSrgb({ l, a, b }: Lab): SRGB {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+
+  const x = labFInverse(fx) * XN;
+  const y = (l > KAPPA * EPSILON ? fy ** 3 : l / KAPPA) * YN;
+  const z = labFInverse(fz) * ZN;
+
+  return [
+    3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+    -0.969266 * x + 1.8760108 * y + 0.041556 * z,
+    0.0556434 * x - 0.2040259 * y + 1.0572252 * z,
+  ].map((channel) => Math.round(Math.min(1, Math.max(0, fromLinear(channel))) * 255)) as SRGB;
+}
+
+/**
+ * Squared Euclidean distance between two Lab colours (CIE76 ΔE²).
+ */
+export function labDistanceSquared(first: Lab, second: Lab): number {
+  return (first.l - second.l) ** 2 + (first.a - second.a) ** 2 + (first.b - second.b) ** 2;
+}
+
+function labF(t: number): number {
+  return t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116;
+}
+
+function labFInverse(t: number): number {
+  const cubed = t ** 3;
+  return cubed > EPSILON ? cubed : (116 * t - 16) / KAPPA;
+}
+
+function toLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(channel: number): number {
+  return channel <= 0.0031308 ? channel * 12.92 : 1.055 * channel ** (1 / 2.4) - 0.055;
+}
@@ -0,0 +1,21 @@
+export {
+  srgbToOklab,
+  oklabToSrgb,
+  oklabToOklch,
+  oklchToOklab,
+  hexToOklch,
+  oklchToHex,
+  isInGamut,
+  gamutMap,
+  transformColor,
+  lighten,
+  darken,
+  adjustLightness,
+  setLightness,
+  scaleChroma,
+  type OKLab,
+  type OKLCH,
+  type SRGB,
+} from './oklab';
+
+export { srgbToLab, labToSrgb, labDistanceSquared, type Lab } from './cielab';
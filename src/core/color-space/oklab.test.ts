@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  srgbToOklab,
+  oklabToSrgb,
+  oklabToOklch,
+  oklchToOklab,
+  hexToOklch,
+  oklchToHex,
+  isInGamut,
+  gamutMap,
+  lighten,
+  darken,
+  adjustLightness,
+  setLightness,
+  scaleChroma,
+  type SRGB,
+} from './index';
+
+describe('OKLab conversion', () => {
+  it('should map white and black to the ends of the lightness axis', () => {
+    const white = srgbToOklab([255, 255, 255]);
+    expect(white.l).toBeCloseTo(1, 4);
+    expect(white.a).toBeCloseTo(0, 4);
+    expect(white.b).toBeCloseTo(0, 4);
+
+    expect(srgbToOklab([0, 0, 0])).toEqual({ l: 0, a: 0, b: 0 });
+  });
+
+  it('should match reference values for the sRGB primaries', () => {
+    const red = hexToOklch('#ff0000');
+    expect(red.l).toBeCloseTo(0.628, 3);
+    expect(red.c).toBeCloseTo(0.2577, 3);
+    expect(red.h).toBeCloseTo(29.23, 1);
+
+    const blue = hexToOklch('#0000ff');
+    expect(blue.l).toBeCloseTo(0.452, 3);
+    expect(blue.c).toBeCloseTo(0.3132, 3);
+    expect(blue.h).toBeCloseTo(264.05, 1);
+  });
+
+  it('should round-trip sRGB through OKLab', () => {
+    const samples: SRGB[] = [
+      [0, 0, 0],
+      [255, 255, 255],
+      [23, 33, 43],
+      [64, 167, 227],
+      [255, 200, 0],
+      [93, 196, 82],
+      [128, 0, 255],
+    ];
+
+    for (const rgb of samples) {
+      const back = oklabToSrgb(srgbToOklab(rgb));
+      back.forEach((channel, i) => expect(channel).toBeCloseTo(rgb[i], 3));
+    }
+  });
+
+  it('should round-trip OKLab through OKLCH', () => {
+    const lab = srgbToOklab([64, 167, 227]);
+    const back = oklchToOklab(oklabToOklch(lab));
+    expect(back.l).toBeCloseTo(lab.l, 10);
+    expect(back.a).toBeCloseTo(lab.a, 10);
+    expect(back.b).toBeCloseTo(lab.b, 10);
+  });
+
+  it('should round-trip every sampled hex colour', () => {
+    for (let value = 0; value < 0x1000000; value += 0x0f0f0f + 0x10203) {
+      const hex = `#${value.toString(16).padStart(6, '0')}`;
+      expect(oklchToHex(hexToOklch(hex))).toBe(hex);
+    }
+  });
+
+  it('should give greys zero chroma', () => {
+    const grey = hexToOklch('#808080');
+    expect(grey.c).toBeCloseTo(0, 4);
+    expect(grey.h).toBe(0);
+  });
+});
+
+describe('gamut mapping', () => {
+  it('should accept colours inside sRGB', () => {
+    expect(isInGamut(hexToOklch('#40a7e3'))).toBe(true);
+  });
+
+  it('should reject colours outside sRGB', () => {
+    expect(isInGamut({ l: 0.9, c: 0.3, h: 264 })).toBe(false);
+  });
+
+  it('should lower chroma but keep lightness and hue', () => {
+    const mapped = gamutMap({ l: 0.9, c: 0.3, h: 264 });
+    expect(mapped.l).toBe(0.9);
+    expect(mapped.h).toBe(264);
+    expect(mapped.c).toBeLessThan(0.3);
+    expect(isInGamut(mapped)).toBe(true);
+  });
+
+  it('should clamp lightness to black and white', () => {
+    expect(oklchToHex({ l: 1.4, c: 0.2, h: 100 })).toBe('#ffffff');
+    expect(oklchToHex({ l: -0.2, c: 0.2, h: 100 })).toBe('#000000');
+  });
+});
+
+describe('lightness and chroma adjustment', () => {
+  const saturated = ['#2255ee', '#ffd500', '#e53935', '#00c853'];
+
+  it('should keep the hue of saturated colours when lightening', () => {
+    for (const hex of saturated) {
+      const before = hexToOklch(hex);
+      const after = hexToOklch(lighten(hex, 0.3));
+      expect(after.l).toBeGreaterThan(before.l);
+      expect(Math.abs(after.h - before.h)).toBeLessThan(2);
+    }
+  });
+
+  it('should keep the hue of saturated colours when darkening', () => {
+    for (const hex of saturated) {
+      const before = hexToOklch(hex);
+      const after = hexToOklch(darken(hex, 0.3));
+      expect(after.l).toBeLessThan(before.l);
+      expect(Math.abs(after.h - before.h)).toBeLessThan(2);
+    }
+  });
+
+  it('should lighten and darken by fractions of the remaining range', () => {
+    const l = hexToOklch('#808080').l;
+    expect(hexToOklch(lighten('#808080', 0.5)).l).toBeCloseTo(l + (1 - l) / 2, 2);
+    expect(hexToOklch(darken('#808080', 0.5)).l).toBeCloseTo(l / 2, 2);
+    expect(lighten('#808080', 1)).toBe('#ffffff');
+    expect(darken('#808080', 1)).toBe('#000000');
+  });
+
+  it('should shift and set lightness', () => {
+    expect(hexToOklch(adjustLightness('#808080', 0.1)).l).toBeCloseTo(hexToOklch('#808080').l + 0.1, 2);
+    expect(hexToOklch(setLightness('#2255ee', 0.7)).l).toBeCloseTo(0.7, 2);
+  });
+
+  it('should give a grey of equal lightness at zero chroma', () => {
+    const grey = scaleChroma('#e53935', 0);
+    expect(hexToOklch(grey).c).toBeCloseTo(0, 3);
+    expect(hexToOklch(grey).l).toBeCloseTo(hexToOklch('#e53935').l, 2);
+  });
+
+  it('should keep the # style and alpha of the input', () => {
+    expect(lighten('#2255ee', 0)).toBe('#2255ee');
+    expect(lighten('2255ee', 0)).toBe('2255ee');
+    expect(darken('2255ee80', 0.2)).toMatch(/^[0-9a-f]{6}80$/);
+  });
+});
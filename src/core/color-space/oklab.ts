@@ -0,0 +1,210 @@
+/**
+ * OKLab / OKLCH colour math shared by the palette deriver, the theme builder
+ * and the contrast optimizer.
+ *
+ * OKLab is a perceptual colour space: equal steps in lightness look equal,
+ * and changing lightness or chroma at a fixed hue does not drift the hue the
+ * way RGB offsets or HSL do (saturated blues turning purple, yellows turning
+ * green). OKLCH is its polar form.
+ *
+ * Hex inputs may have a leading #, and RRGGBBAA alpha is preserved. Outputs
+ * use the same # style as the input.
+ *
+ * @see https://bottosson.github.io/posts/oklab/
+ */
+
+/** OKLab colour: lightness 0-1, a/b roughly -0.4 to 0.4 */
+export interface OKLab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/** OKLCH colour: lightness 0-1, chroma 0 to ~0.37, hue in degrees (0-360) */
+export interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+/** sRGB channels, 0-255 */
+export type SRGB = [number, number, number];
+
+const GAMUT_EPSILON = 1e-4;
+
+/**
+ * Converts sRGB channels (0-255) to OKLab.
+ */
+export function srgbToOklab([r, g, b]: SRGB): OKLab {
+  const lr = toLinear(r / 255);
+  const lg = toLinear(g / 255);
+  const lb = toLinear(b / 255);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+}
+
+/**
+ * Converts OKLab to sRGB channels (0-255). Channels are not clamped, so
+ * out-of-gamut colours give values below 0 or above 255.
+ */
+export function oklabToSrgb({ l, a, b }: OKLab): SRGB {
+  const l3 = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m3 = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s3 = (l - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  return [
+    fromLinear(4.0767416621 * l3 - 3.3077115913 * m3 + 0.2309699292 * s3) * 255,
+    fromLinear(-1.2684380046 * l3 + 2.6097574011 * m3 - 0.3413193965 * s3) * 255,
+    fromLinear(-0.0041960863 * l3 - 0.7034186147 * m3 + 1.707614701 * s3) * 255,
+  ];
+}
+
+/**
+ * Converts OKLab to its polar form.
+ */
+export function oklabToOklch({ l, a, b }: OKLab): OKLCH {
+  const c = Math.sqrt(a * a + b * b);
+  const h = c < GAMUT_EPSILON ? 0 : ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+  return { l, c, h };
+}
+
+/**
+ * Converts OKLCH back to OKLab.
+ */
+export function oklchToOklab({ l, c, h }: OKLCH): OKLab {
+  const radians = (h * Math.PI) / 180;
+  return { l, a: c * Math.cos(radians), b: c * Math.sin(radians) };
+}
+
+/**
+ * Whether an OKLCH colour can be shown in sRGB.
+ */
+export function isInGamut(color: OKLCH): boolean {
+  return oklabToSrgb(oklchToOklab(color)).every(
+    (channel) => channel >= -GAMUT_EPSILON * 255 && channel <= 255 + GAMUT_EPSILON * 255
+  );
+}
+
+/**
+ * Brings an OKLCH colour into sRGB by lowering its chroma at the same
+ * lightness and hue, so out-of-gamut colours lose saturation rather than
+ * shifting hue the way channel clipping would.
+ */
+export function gamutMap(color: OKLCH): OKLCH {
+  const l = Math.min(1, Math.max(0, color.l));
+  if (l === 0 || l === 1) {
+    return { l, c: 0, h: color.h };
+  }
+  if (isInGamut({ ...color, l })) {
+    return { ...color, l };
+  }
+
+  let low = 0;
+  let high = color.c;
+  while (high - low > GAMUT_EPSILON) {
+    const mid = (low + high) / 2;
+    if (isInGamut({ l, c: mid, h: color.h })) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return { l, c: low, h: color.h };
+}
+
+/**
+ * Converts a hex colour to OKLCH (alpha is ignored).
+ */
+export function hexToOklch(hex: string): OKLCH {
+  return oklabToOklch(srgbToOklab(parseHex(hex).rgb));
+}
+
+/**
+ * Converts OKLCH to a hex colour (RRGGBB with #), gamut mapping first.
+ */
+export function oklchToHex(color: OKLCH): string {
+  const rgb = oklabToSrgb(oklchToOklab(gamutMap(color)));
+  return `#${rgb.map((channel) => toHexByte(channel)).join('')}`;
+}
+
+/**
+ * Applies an OKLCH transform to a hex colour, keeping its alpha and # style.
+ */
+export function transformColor(hex: string, transform: (color: OKLCH) => OKLCH): string {
+  const { rgb, alpha, prefixed } = parseHex(hex);
+  const result = oklchToHex(transform(oklabToOklch(srgbToOklab(rgb)))).slice(1) + alpha;
+  return prefixed ? `#${result}` : result;
+}
+
+/**
+ * Moves a colour's perceptual lightness towards white.
+ * @param amount - Fraction of the remaining distance to white (0-1)
+ */
+export function lighten(hex: string, amount: number): string {
+  return transformColor(hex, (color) => ({ ...color, l: color.l + (1 - color.l) * amount }));
+}
+
+/**
+ * Moves a colour's perceptual lightness towards black.
+ * @param amount - Fraction of the current lightness to remove (0-1)
+ */
+export function darken(hex: string, amount: number): string {
+  return transformColor(hex, (color) => ({ ...color, l: color.l * (1 - amount) }));
+}
+
+/**
+ * Shifts perceptual lightness by a fixed amount, clamped to 0-1.
+ * @param delta - Change in OKLCH lightness (-1 to 1)
+ */
+export function adjustLightness(hex: string, delta: number): string {
+  return transformColor(hex, (color) => ({ ...color, l: color.l + delta }));
+}
+
+/**
+ * Sets perceptual lightness, keeping hue and chroma where the gamut allows.
+ * @param lightness - Target OKLCH lightness (0-1)
+ */
+export function setLightness(hex: string, lightness: number): string {
+  return transformColor(hex, (color) => ({ ...color, l: lightness }));
+}
+
+/**
+ * Scales chroma (colourfulness) at the same lightness and hue.
+ * @param factor - Multiplier; 0 gives a grey of equal lightness
+ */
+export function scaleChroma(hex: string, factor: number): string {
+  return transformColor(hex, (color) => ({ ...color, c: Math.max(0, color.c * factor) }));
+}
+
+function parseHex(hex: string): { rgb: SRGB; alpha: string; prefixed: boolean } {
+  const normalized = hex.replace(/^#/, '').toLowerCase();
+  const value = parseInt(normalized.slice(0, 6), 16);
+  return {
+    rgb: [(value >> 16) & 255, (value >> 8) & 255, value & 255],
+    alpha: normalized.length === 8 ? normalized.slice(6) : '',
+    prefixed: hex.startsWith('#'),
+  };
+}
+
+function toHexByte(channel: number): string {
+  return Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0');
+}
+
+function toLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(channel: number): number {
+  const sign = channel < 0 ? -1 : 1;
+  const abs = Math.abs(channel);
+  return sign * (abs <= 0.0031308 ? abs * 12.92 : 1.055 * abs ** (1 / 2.4) - 0.055);
+}
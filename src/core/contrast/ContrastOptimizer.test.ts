@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ContrastOptimizer } from './ContrastOptimizer';
 import { WCAG_CONTRAST_RATIOS, CONTRAST_THRESHOLDS } from './wcag-standards';
+import { APCA_CONTRAST_TARGETS } from './apca';
+import { hexToOklch } from '../color-space';
 
 describe('ContrastOptimizer', () => {
   let optimizer: ContrastOptimizer;
@@ -249,7 +251,7 @@ describe('ContrastOptimizer', () => {
     });
 
     it('should handle 8-character hex with alpha', () => {
-      // Should strip alpha channel
+      // Opaque alpha changes nothing
       const ratio = optimizer.calculateContrastRatio('ffffffFF', '000000FF');
       expect(ratio).toBeCloseTo(21, 0);
     });
@@ -260,6 +262,123 @@ describe('ContrastOptimizer', () => {
     });
   });
 
+  describe('translucent colors', () => {
+    it('should composite a color over its backdrop', () => {
+      expect(optimizer.blendOver('ffffff80', '000000')).toBe('808080');
+      expect(optimizer.blendOver('#FF000080', '#0000ff')).toBe('80007f');
+      expect(optimizer.blendOver('336699', 'ffffff')).toBe('336699');
+    });
+
+    it('should read alpha from 8-digit hex only', () => {
+      expect(optimizer.getAlpha('ffffff80')).toBeCloseTo(128 / 255, 5);
+      expect(optimizer.getAlpha('ffffff')).toBe(1);
+      expect(optimizer.getAlpha('fff')).toBe(1);
+    });
+
+    it('should composite a translucent foreground over the background', () => {
+      const ratio = optimizer.calculateContrastRatio('ffffff80', '000000');
+      expect(ratio).toBeCloseTo(optimizer.calculateContrastRatio('808080', '000000'), 5);
+      expect(ratio).toBeLessThan(21);
+    });
+
+    it('should return the worst ratio over the backdrops', () => {
+      const ratio = optimizer.calculateContrastRatio('ffffff', '00000080', ['ffffff', '000000']);
+      expect(ratio).toBeCloseTo(optimizer.calculateContrastRatio('ffffff', '7f7f7f'), 5);
+    });
+
+    it('should ignore background alpha without backdrops', () => {
+      expect(optimizer.calculateContrastRatio('ffffff', '00000080')).toBeCloseTo(21, 0);
+    });
+
+    it('should keep the alpha of an adjusted foreground', () => {
+      const result = optimizer.ensureContrast('cccccccc', 'ffffff');
+
+      expect(result.wasAdjusted).toBe(true);
+      expect(result.originalForeground).toBe('cccccccc');
+      expect(result.adjustedForeground).toMatch(/^[0-9a-f]{6}cc$/);
+      expect(optimizer.calculateContrastRatio(result.adjustedForeground, 'ffffff')).toBeGreaterThanOrEqual(4.49);
+    });
+
+    it('should meet the target over every backdrop', () => {
+      const backdrops = ['ffffff', '000000'];
+      const result = optimizer.ensureContrast('cccccc', '00000080', 3, backdrops);
+
+      expect(result.wasAdjusted).toBe(true);
+      expect(result.finalRatio).toBeGreaterThanOrEqual(2.99);
+      for (const backdrop of backdrops) {
+        const background = optimizer.blendOver('00000080', backdrop);
+        expect(optimizer.calculateContrastRatio(result.adjustedForeground, background)).toBeGreaterThanOrEqual(2.99);
+      }
+    });
+  });
+
+  describe('APCA model', () => {
+    let apca: ContrastOptimizer;
+
+    beforeEach(() => {
+      apca = new ContrastOptimizer({ model: 'apca' });
+    });
+
+    it('should measure signed Lc and its magnitude', () => {
+      expect(apca.calculateAPCAContrast('000000', 'ffffff')).toBeCloseTo(106.04, 1);
+      expect(apca.calculateAPCAContrast('ffffff', '000000')).toBeCloseTo(-107.88, 1);
+      expect(apca.calculateContrast('ffffff', '000000')).toBeCloseTo(107.88, 1);
+    });
+
+    it('should keep measuring WCAG ratios by default', () => {
+      expect(optimizer.calculateContrast('000000', 'ffffff')).toBeCloseTo(21, 0);
+    });
+
+    it('should composite translucent colours and take the worst backdrop', () => {
+      expect(apca.calculateAPCAContrast('ffffff80', '000000')).toBeCloseTo(
+        apca.calculateAPCAContrast('808080', '000000'),
+        5
+      );
+      expect(apca.calculateAPCAContrast('ffffff', '00000080', ['ffffff', '000000'])).toBeCloseTo(
+        apca.calculateAPCAContrast('ffffff', '7f7f7f'),
+        5
+      );
+    });
+
+    it('should pick targets by text role and level', () => {
+      expect(apca.getTarget()).toBe(APCA_CONTRAST_TARGETS.AA.body);
+      expect(apca.getTarget('timestamp')).toBe(APCA_CONTRAST_TARGETS.AA.timestamp);
+      expect(new ContrastOptimizer({ model: 'apca', level: 'AAA', textRole: 'secondary' }).getTarget()).toBe(
+        APCA_CONTRAST_TARGETS.AAA.secondary
+      );
+      expect(optimizer.getTarget('timestamp')).toBe(4.5);
+    });
+
+    it('should adjust a dark-theme timestamp that passes WCAG until it meets its Lc target', () => {
+      expect(optimizer.ensureContrast('8594a3', '17212b').wasAdjusted).toBe(false);
+
+      const result = apca.ensureContrast('8594a3', '17212b', apca.getTarget('timestamp'));
+      expect(result.wasAdjusted).toBe(true);
+      expect(result.originalRatio).toBeLessThan(45);
+      expect(result.finalRatio).toBeGreaterThanOrEqual(45 - 0.01);
+      expect(Math.abs(apca.calculateAPCAContrast(result.adjustedForeground, '17212b'))).toBeCloseTo(
+        result.finalRatio,
+        5
+      );
+      expect(optimizer.getRelativeLuminance(result.adjustedForeground)).toBeGreaterThan(
+        optimizer.getRelativeLuminance('8594a3')
+      );
+    });
+
+    it('should optimise theme pairs to the target of their role', () => {
+      const results = apca.optimizeThemePairs(
+        [
+          { foreground: 'windowFg', background: 'windowBg' },
+          { foreground: 'dateFg', background: 'windowBg', role: 'timestamp' },
+        ],
+        { windowFg: '8594a3', dateFg: '8594a3', windowBg: '17212b' }
+      );
+
+      expect(results.get('windowFg')?.targetRatio).toBe(75);
+      expect(results.get('dateFg')?.targetRatio).toBe(45);
+    });
+  });
+
   describe('color conversion', () => {
     describe('hexToRgb', () => {
       it('should convert black', () => {
@@ -383,29 +502,30 @@ describe('ContrastOptimizer', () => {
       const hsl = optimizer.hexToHsl(result);
       expect(hsl.l).toBe(100);
     });
+
+    it('should keep the perceptual hue of saturated blues', () => {
+      const original = hexToOklch('2255ee');
+      const adjusted = hexToOklch(optimizer.adjustLightness('2255ee', 15));
+      expect(adjusted.l).toBeGreaterThan(original.l);
+      expect(Math.abs(adjusted.h - original.h)).toBeLessThan(2);
+    });
   });
 
   describe('setLightness', () => {
-    it('should set specific lightness', () => {
-      const result = optimizer.setLightness('ff5500', 75);
-      const hsl = optimizer.hexToHsl(result);
-      expect(hsl.l).toBe(75);
+    it('should set specific perceptual lightness', () => {
+      const result = optimizer.setLightness('ff5500', 50);
+      expect(hexToOklch(result).l).toBeCloseTo(0.5, 2);
     });
 
     it('should preserve hue', () => {
-      const original = 'ff5500';
-      const originalHsl = optimizer.hexToHsl(original);
-      const result = optimizer.setLightness(original, 30);
-      const resultHsl = optimizer.hexToHsl(result);
-      expect(resultHsl.h).toBe(originalHsl.h);
+      const original = hexToOklch('ff5500');
+      const result = hexToOklch(optimizer.setLightness('ff5500', 50));
+      expect(Math.abs(result.h - original.h)).toBeLessThan(2);
     });
 
-    it('should preserve saturation', () => {
-      const original = 'ff5500';
-      const originalHsl = optimizer.hexToHsl(original);
-      const result = optimizer.setLightness(original, 30);
-      const resultHsl = optimizer.hexToHsl(result);
-      expect(resultHsl.s).toBe(originalHsl.s);
+    it('should clamp lightness to 0-100', () => {
+      expect(optimizer.setLightness('ff5500', 150)).toBe('ffffff');
+      expect(optimizer.setLightness('ff5500', -20)).toBe('000000');
     });
   });
 
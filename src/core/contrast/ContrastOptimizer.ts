@@ -7,15 +7,18 @@ import {
   type RGBColor,
   WCAG_CONTRAST_RATIOS,
 } from './wcag-standards';
+import { APCA_CONTRAST_TARGETS, calculateAPCA, type TextRole } from './apca';
+import { hexToOklch, oklchToHex, adjustLightness, setLightness } from '../color-space';
 
 /**
  * ContrastOptimizer provides WCAG 2.1 compliant contrast ratio calculations
  * and automatic color adjustment to ensure text readability.
  *
  * Features:
- * - Calculate contrast ratios per WCAG 2.1 formula
- * - Adjust colors to meet AA (4.5:1) or AAA (7:1) standards
- * - Preserve hue while adjusting lightness
+ * - Calculate contrast ratios per WCAG 2.1 formula, or APCA Lc with `model: 'apca'`
+ * - Adjust colors to meet AA (4.5:1) or AAA (7:1) standards, or per-role APCA targets
+ * - Preserve hue while adjusting perceptual (OKLCH) lightness
+ * - Composite translucent (RRGGBBAA) colours over what is behind them
  * - Binary search for efficient convergence (<20 iterations)
  *
  * @example
@@ -35,7 +38,9 @@ export class ContrastOptimizer {
 
   constructor(options: ContrastOptimizerOptions = {}) {
     this.options = {
+      model: options.model ?? 'wcag',
       level: options.level ?? 'AA',
+      textRole: options.textRole ?? 'body',
       textSize: options.textSize ?? 'normal',
       maxIterations: options.maxIterations ?? 20,
       tolerance: options.tolerance ?? 0.01,
@@ -54,12 +59,26 @@ export class ContrastOptimizer {
    * where L1 is the relative luminance of the lighter color and
    * L2 is the relative luminance of the darker color.
    *
+   * A translucent foreground is composited over the background first. A
+   * translucent background is composited over each backdrop, and the lowest
+   * ratio is returned; without backdrops its alpha is ignored.
+   *
    * @param foreground - Foreground color (hex string with or without #)
    * @param background - Background color (hex string with or without #)
+   * @param backdrops - Colors the background may be drawn over, e.g. the
+   *   wallpaper's average and extreme colors behind service messages
    * @returns Contrast ratio from 1:1 to 21:1
    */
-  calculateContrastRatio(foreground: string, background: string): number {
-    const fgLuminance = this.getRelativeLuminance(foreground);
+  calculateContrastRatio(foreground: string, background: string, backdrops: string[] = []): number {
+    if (backdrops.length > 0) {
+      return Math.min(
+        ...backdrops.map((backdrop) =>
+          this.calculateContrastRatio(foreground, this.blendOver(background, backdrop))
+        )
+      );
+    }
+
+    const fgLuminance = this.getRelativeLuminance(this.blendOver(foreground, background));
     const bgLuminance = this.getRelativeLuminance(background);
 
     const lighter = Math.max(fgLuminance, bgLuminance);
@@ -69,6 +88,39 @@ export class ContrastOptimizer {
     return (lighter + 0.05) / (darker + 0.05);
   }
 
+  /**
+   * Calculates the APCA lightness contrast (Lc) of text on a background,
+   * compositing translucent colors like calculateContrastRatio. With
+   * backdrops, the value closest to zero is returned.
+   *
+   * @param foreground - Text color (hex string with or without #)
+   * @param background - Background color (hex string with or without #)
+   * @param backdrops - Colors the background may be drawn over
+   * @returns Lc, positive for dark text on light, negative for light on dark
+   */
+  calculateAPCAContrast(foreground: string, background: string, backdrops: string[] = []): number {
+    if (backdrops.length > 0) {
+      return backdrops
+        .map((backdrop) => this.calculateAPCAContrast(foreground, this.blendOver(background, backdrop)))
+        .reduce((worst, lc) => (Math.abs(lc) < Math.abs(worst) ? lc : worst));
+    }
+
+    return calculateAPCA(
+      this.hexToRgb(this.blendOver(foreground, background)),
+      this.hexToRgb(background)
+    );
+  }
+
+  /**
+   * Measures contrast with the configured model: the WCAG ratio, or the
+   * absolute APCA Lc.
+   */
+  calculateContrast(foreground: string, background: string, backdrops: string[] = []): number {
+    return this.options.model === 'apca'
+      ? Math.abs(this.calculateAPCAContrast(foreground, background, backdrops))
+      : this.calculateContrastRatio(foreground, background, backdrops);
+  }
+
   /**
    * Calculates the relative luminance of a color per WCAG 2.1.
    *
@@ -96,26 +148,35 @@ export class ContrastOptimizer {
   }
 
   /**
-   * Adjusts the foreground color to meet the target contrast ratio,
-   * preserving the original hue while adjusting lightness.
+   * Adjusts the foreground color to meet the target contrast (in the
+   * configured model), preserving the original hue while adjusting lightness.
    *
    * Uses binary search for efficient convergence (typically <10 iterations).
    *
+   * A translucent foreground keeps its alpha; only its color changes.
+   *
    * @param foreground - Foreground color to adjust (hex string)
    * @param background - Background color (remains unchanged)
-   * @param targetRatio - Optional custom target ratio (defaults to level/textSize)
+   * @param targetRatio - Optional custom target (defaults to getTarget())
+   * @param backdrops - Colors a translucent background may be drawn over
+   *   (see calculateContrastRatio); the target must be met over all of them
    * @returns ContrastResult with original and adjusted colors
    */
-  ensureContrast(foreground: string, background: string, targetRatio?: number): ContrastResult {
-    const target = targetRatio ?? this.getTargetRatio();
-    const originalRatio = this.calculateContrastRatio(foreground, background);
+  ensureContrast(
+    foreground: string,
+    background: string,
+    targetRatio?: number,
+    backdrops: string[] = []
+  ): ContrastResult {
+    const target = targetRatio ?? this.getTarget();
+    const originalRatio = this.calculateContrast(foreground, background, backdrops);
 
     // Already meets target
     if (originalRatio >= target) {
       return {
-        originalForeground: this.normalizeHex(foreground),
-        background: this.normalizeHex(background),
-        adjustedForeground: this.normalizeHex(foreground),
+        originalForeground: this.keepAlpha(foreground),
+        background: this.keepAlpha(background),
+        adjustedForeground: this.keepAlpha(foreground),
         originalRatio,
         finalRatio: originalRatio,
         meetsTarget: true,
@@ -125,8 +186,12 @@ export class ContrastOptimizer {
       };
     }
 
-    // Determine adjustment direction based on background luminance
-    const bgLuminance = this.getRelativeLuminance(background);
+    // Determine adjustment direction based on the luminance actually behind the text
+    const visible = backdrops.length > 0
+      ? backdrops.map((backdrop) => this.blendOver(background, backdrop))
+      : [background];
+    const bgLuminance =
+      visible.reduce((sum, color) => sum + this.getRelativeLuminance(color), 0) / visible.length;
     const shouldLighten = this.options.preferLighten ?? bgLuminance < 0.5;
 
     // Perform binary search adjustment
@@ -134,12 +199,13 @@ export class ContrastOptimizer {
       foreground,
       background,
       target,
-      shouldLighten
+      shouldLighten,
+      backdrops
     );
 
     return {
-      originalForeground: this.normalizeHex(foreground),
-      background: this.normalizeHex(background),
+      originalForeground: this.keepAlpha(foreground),
+      background: this.keepAlpha(background),
       adjustedForeground: adjustedColor,
       originalRatio,
       finalRatio,
@@ -181,14 +247,29 @@ export class ContrastOptimizer {
   }
 
   /**
-   * Optimizes multiple color pairs to meet contrast requirements.
+   * Gets the target in the configured model's units: the WCAG ratio for
+   * the level and text size, or the APCA Lc for the level and text role.
+   * @param role - Text role (defaults to instance textRole; APCA only)
+   */
+  getTarget(role?: TextRole): number {
+    if (this.options.model === 'apca') {
+      return APCA_CONTRAST_TARGETS[this.options.level][role ?? this.options.textRole];
+    }
+    return this.getTargetRatio();
+  }
+
+  /**
+   * Optimizes multiple color pairs to meet contrast requirements, each on
+   * its own. A foreground in several pairs gets one result per pair, the
+   * last one winning; use ContrastSolver to satisfy them all at once.
    *
-   * @param pairs - Array of foreground/background pairs with property mappings
+   * @param pairs - Array of foreground/background pairs with property mappings;
+   *   a pair's role sets its APCA target
    * @param themeProperties - Theme properties object to read colors from
    * @returns Map of property names to adjusted colors
    */
   optimizeThemePairs(
-    pairs: Array<{ foreground: string; background: string; name?: string }>,
+    pairs: Array<{ foreground: string; background: string; name?: string; role?: TextRole }>,
     themeProperties: Record<string, string>
   ): Map<string, ContrastResult> {
     const results = new Map<string, ContrastResult>();
@@ -198,7 +279,7 @@ export class ContrastOptimizer {
       const bgColor = themeProperties[pair.background];
 
       if (fgColor && bgColor) {
-        const result = this.ensureContrast(fgColor, bgColor);
+        const result = this.ensureContrast(fgColor, bgColor, this.getTarget(pair.role));
         results.set(pair.foreground, result);
       }
     }
@@ -212,14 +293,17 @@ export class ContrastOptimizer {
 
   /**
    * Performs binary search to find optimal lightness adjustment.
+   * Searches OKLCH lightness so the hue stays put for saturated colours.
    */
   private binarySearchAdjust(
     foreground: string,
     background: string,
     targetRatio: number,
-    shouldLighten: boolean
+    shouldLighten: boolean,
+    backdrops: string[]
   ): { adjustedColor: string; finalRatio: number; iterations: number } {
-    const hsl = this.hexToHsl(foreground);
+    const lch = hexToOklch(foreground);
+    const alpha = this.alphaSuffix(foreground);
     let iterations = 0;
 
     // Set search bounds for lightness
@@ -227,22 +311,21 @@ export class ContrastOptimizer {
     let high: number;
 
     if (shouldLighten) {
-      low = hsl.l;
-      high = 100;
+      low = lch.l;
+      high = 1;
     } else {
       low = 0;
-      high = hsl.l;
+      high = lch.l;
     }
 
-    let bestColor = this.hslToHex(hsl);
-    let bestRatio = this.calculateContrastRatio(bestColor, background);
+    let bestColor = this.keepAlpha(foreground);
+    let bestRatio = this.calculateContrast(bestColor, background, backdrops);
 
     // Binary search for optimal lightness
-    while (iterations < this.options.maxIterations && high - low > 0.1) {
+    while (iterations < this.options.maxIterations && high - low > 0.001) {
       const mid = (low + high) / 2;
-      const testHsl: HSLColor = { h: hsl.h, s: hsl.s, l: mid };
-      const testColor = this.hslToHex(testHsl);
-      const testRatio = this.calculateContrastRatio(testColor, background);
+      const testColor = this.normalizeHex(oklchToHex({ ...lch, l: mid })) + alpha;
+      const testRatio = this.calculateContrast(testColor, background, backdrops);
 
       iterations++;
 
@@ -276,9 +359,8 @@ export class ContrastOptimizer {
 
     // If still not meeting target, try extreme values
     if (bestRatio < targetRatio - this.options.tolerance) {
-      const extremeHsl: HSLColor = { h: hsl.h, s: hsl.s, l: shouldLighten ? 100 : 0 };
-      const extremeColor = this.hslToHex(extremeHsl);
-      const extremeRatio = this.calculateContrastRatio(extremeColor, background);
+      const extremeColor = (shouldLighten ? 'ffffff' : '000000') + alpha;
+      const extremeRatio = this.calculateContrast(extremeColor, background, backdrops);
 
       if (extremeRatio > bestRatio) {
         bestColor = extremeColor;
@@ -297,6 +379,37 @@ export class ContrastOptimizer {
   // Color Conversion Utilities
   // ============================================================
 
+  /**
+   * Composites a color over an opaque backdrop, giving the color the
+   * screen shows. Colors without alpha are returned unchanged.
+   *
+   * @param color - Hex color, optionally RRGGBBAA
+   * @param backdrop - Hex color behind it (its own alpha is ignored)
+   * @returns Opaque hex color (without #)
+   */
+  blendOver(color: string, backdrop: string): string {
+    const alpha = this.getAlpha(color);
+    if (alpha >= 1) {
+      return this.normalizeHex(color);
+    }
+
+    const fg = this.hexToRgb(color);
+    const bg = this.hexToRgb(backdrop);
+    return this.rgbToHex({
+      r: fg.r * alpha + bg.r * (1 - alpha),
+      g: fg.g * alpha + bg.g * (1 - alpha),
+      b: fg.b * alpha + bg.b * (1 - alpha),
+    });
+  }
+
+  /**
+   * Alpha of a hex color from 0 to 1; colors without alpha are opaque.
+   */
+  getAlpha(color: string): number {
+    const suffix = this.alphaSuffix(color);
+    return suffix ? parseInt(suffix, 16) / 255 : 1;
+  }
+
   /**
    * Converts a hex color string to RGB components.
    */
@@ -435,29 +548,42 @@ export class ContrastOptimizer {
   }
 
   /**
-   * Adjusts color lightness by a specific amount.
+   * The AA digits of an RRGGBBAA color, or '' for opaque notations.
+   */
+  private alphaSuffix(hex: string): string {
+    const cleaned = hex.replace(/^#/, '').toLowerCase();
+    return cleaned.length === 8 ? cleaned.slice(6) : '';
+  }
+
+  /**
+   * Normalizes a hex color like normalizeHex, but keeps its alpha.
+   */
+  private keepAlpha(hex: string): string {
+    return this.normalizeHex(hex) + this.alphaSuffix(hex);
+  }
+
+  /**
+   * Adjusts perceptual (OKLCH) lightness by a specific amount,
+   * keeping the hue.
    *
    * @param hex - Hex color to adjust
    * @param amount - Lightness adjustment (-100 to 100)
    * @returns Adjusted hex color
    */
   adjustLightness(hex: string, amount: number): string {
-    const hsl = this.hexToHsl(hex);
-    hsl.l = Math.max(0, Math.min(100, hsl.l + amount));
-    return this.hslToHex(hsl);
+    return adjustLightness(this.normalizeHex(hex), amount / 100);
   }
 
   /**
-   * Creates a color with specific lightness while preserving hue and saturation.
+   * Creates a color with a specific perceptual (OKLCH) lightness,
+   * keeping the hue.
    *
-   * @param hex - Original color for hue/saturation
+   * @param hex - Original color for hue/chroma
    * @param lightness - Target lightness (0-100)
    * @returns New hex color
    */
   setLightness(hex: string, lightness: number): string {
-    const hsl = this.hexToHsl(hex);
-    hsl.l = Math.max(0, Math.min(100, lightness));
-    return this.hslToHex(hsl);
+    return setLightness(this.normalizeHex(hex), Math.max(0, Math.min(100, lightness)) / 100);
   }
 }
 
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { ContrastSolver, getPairBackdrops } from './ContrastSolver';
+import { ContrastOptimizer } from './ContrastOptimizer';
+import { adjustLightness, hexToOklch } from '../color-space';
+import type { ColorPair } from './wcag-standards';
+
+const optimizer = new ContrastOptimizer();
+
+const WINDOW_PAIRS: ColorPair[] = [
+  { foreground: 'windowFg', background: 'windowBg' },
+  { foreground: 'windowFg', background: 'windowBgOver' },
+  { foreground: 'windowFg', background: 'menuBg' },
+];
+
+describe('ContrastSolver', () => {
+  const solver = new ContrastSolver();
+
+  describe('solve', () => {
+    it('should leave pairs that already pass untouched', () => {
+      const properties = { windowFg: '000000', windowBg: 'ffffff', windowBgOver: 'f1f1f1', menuBg: 'ffffff' };
+      const solution = solver.solve(properties, WINDOW_PAIRS);
+
+      expect(solution.properties).toEqual(properties);
+      expect(solution.changes).toEqual({});
+      expect(solution.unmet).toEqual([]);
+    });
+
+    it('should meet every background a foreground appears on', () => {
+      const properties = { windowFg: '8a8a8a', windowBg: 'ffffff', windowBgOver: 'e0e0e0', menuBg: 'f4f4f4' };
+      const { properties: solved, unmet } = solver.solve(properties, WINDOW_PAIRS);
+
+      expect(unmet).toEqual([]);
+      for (const background of ['windowBg', 'windowBgOver', 'menuBg']) {
+        expect(optimizer.calculateContrastRatio(solved.windowFg, solved[background])).toBeGreaterThanOrEqual(4.49);
+      }
+      // Fixing against windowBg alone would not have been enough
+      const alone = optimizer.ensureContrast('8a8a8a', 'ffffff').adjustedForeground;
+      expect(optimizer.calculateContrastRatio(alone, 'e0e0e0')).toBeLessThan(4.5);
+    });
+
+    it('should make the smallest lightness change that meets all targets', () => {
+      const properties = { windowFg: '8a8a8a', windowBg: 'ffffff', windowBgOver: 'e0e0e0', menuBg: 'f4f4f4' };
+      const { properties: solved } = solver.solve(properties, WINDOW_PAIRS);
+
+      // Darker than the original, but only just dark enough for the darkest background
+      expect(hexToOklch(solved.windowFg).l).toBeLessThan(hexToOklch('8a8a8a').l);
+      expect(optimizer.calculateContrastRatio(adjustLightness(solved.windowFg, 0.01), 'e0e0e0')).toBeLessThan(4.5);
+    });
+
+    it('should keep hue and alpha', () => {
+      const { properties: solved } = solver.solve(
+        { linkFg: '#6fa8dccc', windowBg: '#ffffff' },
+        [{ foreground: 'linkFg', background: 'windowBg' }]
+      );
+
+      expect(solved.linkFg).toMatch(/^#[0-9a-f]{6}cc$/);
+      expect(Math.abs(hexToOklch(solved.linkFg).h - hexToOklch('#6fa8dc').h)).toBeLessThan(3);
+      expect(optimizer.calculateContrastRatio(solved.linkFg, solved.windowBg)).toBeGreaterThanOrEqual(4.49);
+    });
+
+    it('should adjust backgrounds when the foreground is locked', () => {
+      const properties = { windowFg: '8a8a8a', windowBg: 'ffffff', windowBgOver: 'e0e0e0', menuBg: 'f4f4f4' };
+      const { properties: solved, changes, unmet } = solver.solve(properties, WINDOW_PAIRS, {
+        locked: ['windowFg'],
+      });
+
+      expect(solved.windowFg).toBe('8a8a8a');
+      expect(changes.windowFg).toBeUndefined();
+      expect(Object.keys(changes).sort()).toEqual(['menuBg', 'windowBg', 'windowBgOver']);
+      expect(unmet).toEqual([]);
+    });
+
+    it('should solve foregrounds against the adjusted backgrounds', () => {
+      const pairs: ColorPair[] = [
+        { foreground: 'windowFg', background: 'windowBg' },
+        { foreground: 'windowSubTextFg', background: 'windowBg' },
+      ];
+      const { properties: solved, unmet } = solver.solve(
+        { windowFg: '8a8a8a', windowSubTextFg: '999999', windowBg: 'ffffff' },
+        pairs,
+        { locked: ['windowFg'] }
+      );
+
+      expect(unmet).toEqual([]);
+      expect(optimizer.calculateContrastRatio(solved.windowSubTextFg, solved.windowBg)).toBeGreaterThanOrEqual(4.49);
+    });
+
+    it('should report pairs it cannot fix', () => {
+      const pair: ColorPair = { foreground: 'windowFg', background: 'windowBg' };
+      const { properties: solved, unmet } = solver.solve(
+        { windowFg: '8a8a8a', windowBg: 'ffffff' },
+        [pair],
+        { locked: ['windowFg', 'windowBg'] }
+      );
+
+      expect(solved.windowFg).toBe('8a8a8a');
+      expect(unmet).toEqual([pair]);
+    });
+
+    it('should use a shared target when given one', () => {
+      const { properties: solved } = solver.solve(
+        { windowFg: '767676', windowBg: 'ffffff' },
+        [{ foreground: 'windowFg', background: 'windowBg' }],
+        { target: 7 }
+      );
+      expect(optimizer.calculateContrastRatio(solved.windowFg, 'ffffff')).toBeGreaterThanOrEqual(6.99);
+    });
+
+    it('should use the APCA target of each role', () => {
+      const apca = new ContrastSolver({ model: 'apca' });
+      const { properties: solved } = apca.solve({ dateFg: '8594a3', windowBg: '17212b' }, [
+        { foreground: 'dateFg', background: 'windowBg', role: 'timestamp' },
+      ]);
+
+      const lc = new ContrastOptimizer({ model: 'apca' }).calculateContrast(solved.dateFg, '17212b');
+      expect(lc).toBeGreaterThanOrEqual(44.99);
+      expect(lc).toBeLessThan(50);
+    });
+
+    it('should check service messages over the wallpaper colours', () => {
+      const pair: ColorPair = { foreground: 'msgServiceFg', background: 'msgServiceBg', overWallpaper: true };
+      const wallpaperColors = ['#000000', '#c0c0c0'];
+      const { properties: solved } = solver.solve(
+        { msgServiceFg: 'ffffff', msgServiceBg: '40a7e380' },
+        [pair],
+        { wallpaperColors, locked: ['msgServiceFg'] }
+      );
+
+      expect(optimizer.calculateContrastRatio('ffffff', solved.msgServiceBg, wallpaperColors)).toBeGreaterThanOrEqual(4.49);
+      expect(solved.msgServiceBg).toMatch(/80$/);
+    });
+
+    it('should skip pairs with missing or malformed colours', () => {
+      const { changes, unmet } = solver.solve({ windowFg: 'nope', windowBg: 'ffffff' }, WINDOW_PAIRS);
+      expect(changes).toEqual({});
+      expect(unmet).toEqual([]);
+    });
+
+    it('should stop when aborted', () => {
+      const controller = new AbortController();
+      controller.abort(new Error('stopped'));
+
+      expect(() =>
+        solver.solve({ windowFg: '8a8a8a', windowBg: 'ffffff' }, WINDOW_PAIRS, { signal: controller.signal })
+      ).toThrow('stopped');
+    });
+  });
+
+  describe('getPairBackdrops', () => {
+    it('should use the wallpaper colours for pairs over the wallpaper', () => {
+      const pair: ColorPair = { foreground: 'a', background: 'b', overWallpaper: true };
+      expect(getPairBackdrops(pair, {}, ['#112233', 'bad'])).toEqual(['112233']);
+    });
+
+    it('should use the backdrop property when it is a colour', () => {
+      const pair: ColorPair = { foreground: 'a', background: 'b', backdrop: 'c' };
+      expect(getPairBackdrops(pair, { c: '17212b' })).toEqual(['17212b']);
+      expect(getPairBackdrops(pair, { c: 'nope' })).toEqual([]);
+      expect(getPairBackdrops({ foreground: 'a', background: 'b' }, { c: '17212b' })).toEqual([]);
+    });
+  });
+});
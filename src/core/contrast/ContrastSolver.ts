@@ -0,0 +1,271 @@
+import type { ColorPair, ContrastOptimizerOptions } from './wcag-standards';
+import { ContrastOptimizer } from './ContrastOptimizer';
+import { hexToOklch, setLightness } from '../color-space';
+
+/**
+ * Configuration for the contrast solver.
+ */
+export interface ContrastSolverOptions extends ContrastOptimizerOptions {
+  /**
+   * OKLCH lightness step the solver scans in before refining.
+   * @default 0.01
+   */
+  searchStep?: number;
+}
+
+/**
+ * Per-call options for ContrastSolver.solve.
+ */
+export interface SolveOptions {
+  /**
+   * Properties that must keep their colour. A pair with a locked
+   * foreground is fixed by adjusting its background instead.
+   */
+  locked?: Iterable<string>;
+  /** Target for every pair; by default each pair's role target (see ContrastOptimizer.getTarget) */
+  target?: number;
+  /** Colours of the chat wallpaper, for pairs drawn over it */
+  wallpaperColors?: string[];
+  /** Aborts between properties, throwing the signal's reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of solving a set of pairs.
+ */
+export interface ContrastSolution {
+  /** All input properties, with adjusted colours in place */
+  properties: Record<string, string>;
+  /** Original and adjusted colour of every property that changed */
+  changes: Record<string, { from: string; to: string }>;
+  /** Pairs still below their target, e.g. because both colours are locked */
+  unmet: ColorPair[];
+}
+
+/**
+ * A pair with both colours present and its target.
+ */
+interface Constraint {
+  pair: ColorPair;
+  target: number;
+}
+
+/**
+ * Colours a pair's background is drawn over: the wallpaper colours for
+ * pairs over the wallpaper, or the pair's backdrop property. Empty when
+ * nothing is known, so the background counts as opaque.
+ */
+export function getPairBackdrops(
+  pair: ColorPair,
+  properties: Record<string, string>,
+  wallpaperColors: string[] = []
+): string[] {
+  if (pair.overWallpaper) {
+    return wallpaperColors.map((color) => color.replace(/^#/, '')).filter(isHexColor);
+  }
+
+  const backdrop = pair.backdrop ? properties[pair.backdrop] : undefined;
+  return backdrop && isHexColor(backdrop) ? [backdrop] : [];
+}
+
+/**
+ * ContrastSolver fixes many text/background pairs at once. A property that
+ * appears in several pairs (e.g. windowFg on windowBg, windowBgOver and
+ * menuBg) gets the smallest OKLCH lightness change that meets all of its
+ * targets, instead of being fixed against one background at a time.
+ *
+ * Backgrounds behind locked foregrounds are solved first, against the
+ * locked colours only; every unlocked foreground is then solved against
+ * the final backgrounds.
+ *
+ * @example
+ * ```typescript
+ * const solver = new ContrastSolver({ level: 'AA' });
+ * const { properties, unmet } = solver.solve(theme.properties, TELEGRAM_TEXT_PAIRS, {
+ *   locked: ['windowFg'],
+ * });
+ * ```
+ */
+export class ContrastSolver {
+  private options: Required<Pick<ContrastSolverOptions, 'searchStep' | 'tolerance'>>;
+  private optimizer: ContrastOptimizer;
+
+  constructor(options: ContrastSolverOptions = {}) {
+    this.options = {
+      searchStep: options.searchStep ?? 0.01,
+      tolerance: options.tolerance ?? 0.01,
+    };
+    this.optimizer = new ContrastOptimizer(options);
+  }
+
+  /**
+   * Adjusts properties until every pair meets its target, where possible.
+   * Pairs with a missing or malformed colour are ignored.
+   *
+   * @param properties - Theme properties (RRGGBB or RRGGBBAA, with or without #)
+   * @param pairs - Text/background pairs to satisfy
+   * @param options - Locked properties, a shared target, wallpaper colours and an abort signal
+   */
+  solve(
+    properties: Record<string, string>,
+    pairs: ColorPair[],
+    options: SolveOptions = {}
+  ): ContrastSolution {
+    const { signal } = options;
+    const locked = new Set(options.locked);
+    const current = { ...properties };
+    const constraints: Constraint[] = pairs
+      .filter((pair) => isHexColor(properties[pair.foreground]) && isHexColor(properties[pair.background]))
+      .map((pair) => ({ pair, target: options.target ?? this.optimizer.getTarget(pair.role) }));
+
+    // Backgrounds behind locked foregrounds
+    for (const background of unique(constraints.map(({ pair }) => pair.background))) {
+      signal?.throwIfAborted();
+      const own = constraints.filter(
+        ({ pair }) => pair.background === background && locked.has(pair.foreground)
+      );
+      if (locked.has(background) || own.length === 0) continue;
+
+      current[background] = this.solveProperty(current[background], own, (candidate, pair) =>
+        this.measure(current[pair.foreground], candidate, pair, current, options.wallpaperColors)
+      );
+    }
+
+    // Every free foreground against all of its backgrounds
+    for (const foreground of unique(constraints.map(({ pair }) => pair.foreground))) {
+      signal?.throwIfAborted();
+      if (locked.has(foreground)) continue;
+
+      const own = constraints.filter(({ pair }) => pair.foreground === foreground);
+      current[foreground] = this.solveProperty(current[foreground], own, (candidate, pair) =>
+        this.measure(candidate, current[pair.background], pair, current, options.wallpaperColors)
+      );
+    }
+
+    const changes: ContrastSolution['changes'] = {};
+    for (const [key, value] of Object.entries(current)) {
+      if (value !== properties[key]) {
+        changes[key] = { from: properties[key], to: value };
+      }
+    }
+
+    const unmet = constraints
+      .filter(
+        ({ pair, target }) =>
+          this.measure(current[pair.foreground], current[pair.background], pair, current, options.wallpaperColors) <
+          target - this.options.tolerance
+      )
+      .map(({ pair }) => pair);
+
+    return { properties: current, changes, unmet };
+  }
+
+  /**
+   * Finds the lightness closest to the colour's own that meets every
+   * constraint. Scans outwards in both directions, then narrows the first
+   * step that passes. When nothing passes, returns the colour with the
+   * best worst-case margin, or the original if nothing beats it.
+   */
+  private solveProperty(
+    color: string,
+    constraints: Constraint[],
+    measure: (candidate: string, pair: ColorPair) => number
+  ): string {
+    // Worst shortfall relative to each target; >= 0 means all are met
+    const margin = (candidate: string) =>
+      Math.min(
+        ...constraints.map(
+          ({ pair, target }) => (measure(candidate, pair) - target + this.options.tolerance) / target
+        )
+      );
+
+    let best = color;
+    let bestMargin = margin(color);
+    if (bestMargin >= 0) {
+      return color;
+    }
+
+    const { l } = hexToOklch(color);
+    const { searchStep } = this.options;
+
+    for (let distance = searchStep; distance <= 1 + searchStep; distance += searchStep) {
+      const passing: { candidate: string; margin: number; direction: number }[] = [];
+
+      for (const direction of [-1, 1]) {
+        const lightness = l + direction * distance;
+        if (lightness < -searchStep || lightness > 1 + searchStep) continue;
+
+        const candidate = setLightness(color, clamp(lightness));
+        const candidateMargin = margin(candidate);
+        if (candidateMargin >= 0) {
+          passing.push({ candidate, margin: candidateMargin, direction });
+        } else if (candidateMargin > bestMargin) {
+          best = candidate;
+          bestMargin = candidateMargin;
+        }
+      }
+
+      if (passing.length > 0) {
+        const { direction } = passing.reduce((a, b) => (b.margin > a.margin ? b : a));
+        return this.refine(color, l, direction, distance - searchStep, distance, margin);
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Binary search between a failing and a passing distance in one direction.
+   */
+  private refine(
+    color: string,
+    lightness: number,
+    direction: number,
+    failing: number,
+    passing: number,
+    margin: (candidate: string) => number
+  ): string {
+    let low = failing;
+    let high = passing;
+    let result = setLightness(color, clamp(lightness + direction * high));
+
+    while (high - low > 0.001) {
+      const mid = (low + high) / 2;
+      const candidate = setLightness(color, clamp(lightness + direction * mid));
+      if (margin(candidate) >= 0) {
+        high = mid;
+        result = candidate;
+      } else {
+        low = mid;
+      }
+    }
+
+    return result;
+  }
+
+  private measure(
+    foreground: string,
+    background: string,
+    pair: ColorPair,
+    properties: Record<string, string>,
+    wallpaperColors?: string[]
+  ): number {
+    return this.optimizer.calculateContrast(
+      foreground,
+      background,
+      getPairBackdrops(pair, properties, wallpaperColors)
+    );
+  }
+}
+
+function isHexColor(value: string | undefined): value is string {
+  return value !== undefined && /^#?[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value);
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+function clamp(lightness: number): number {
+  return Math.min(1, Math.max(0, lightness));
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { APCA_CONTRAST_TARGETS, apcaLuminance, calculateAPCA } from './apca';
+import type { RGBColor } from './wcag-standards';
+
+function rgb(hex: string): RGBColor {
+  const value = parseInt(hex, 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+}
+
+describe('APCA', () => {
+  describe('calculateAPCA', () => {
+    // Reference values published with APCA 0.0.98G-4g
+    it.each([
+      ['888888', 'ffffff', 63.056],
+      ['ffffff', '888888', -68.541],
+      ['000000', 'aaaaaa', 58.146],
+      ['aaaaaa', '000000', -56.241],
+      ['112233', 'ddeeff', 91.668],
+      ['ddeeff', '112233', -93.068],
+    ])('should give %s on %s an Lc of %d', (text, background, expected) => {
+      expect(calculateAPCA(rgb(text), rgb(background))).toBeCloseTo(expected, 2);
+    });
+
+    it('should reach about 106 for black on white and -108 for white on black', () => {
+      expect(calculateAPCA(rgb('000000'), rgb('ffffff'))).toBeCloseTo(106.04, 1);
+      expect(calculateAPCA(rgb('ffffff'), rgb('000000'))).toBeCloseTo(-107.88, 1);
+    });
+
+    it('should return 0 for identical and nearly identical colours', () => {
+      expect(calculateAPCA(rgb('777777'), rgb('777777'))).toBe(0);
+      expect(calculateAPCA(rgb('777777'), rgb('7a7a7a'))).toBe(0);
+    });
+
+    it('should rate grey on a dark background lower than WCAG does', () => {
+      // 5.2:1 under WCAG 2.1, but short of the APCA timestamp minimum
+      const lc = calculateAPCA(rgb('8594a3'), rgb('17212b'));
+      expect(Math.abs(lc)).toBeLessThan(APCA_CONTRAST_TARGETS.AA.timestamp);
+    });
+  });
+
+  describe('apcaLuminance', () => {
+    it('should span 0 to 1', () => {
+      expect(apcaLuminance(rgb('000000'))).toBe(0);
+      expect(apcaLuminance(rgb('ffffff'))).toBeCloseTo(1, 5);
+    });
+  });
+
+  describe('APCA_CONTRAST_TARGETS', () => {
+    it('should ask less of each role down the list, and 15 more at AAA', () => {
+      const roles = ['body', 'secondary', 'timestamp', 'placeholder'] as const;
+      roles.slice(1).forEach((role, i) => {
+        expect(APCA_CONTRAST_TARGETS.AA[role]).toBeLessThan(APCA_CONTRAST_TARGETS.AA[roles[i]]);
+      });
+      roles.forEach((role) => {
+        expect(APCA_CONTRAST_TARGETS.AAA[role]).toBe(APCA_CONTRAST_TARGETS.AA[role] + 15);
+      });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * APCA (Accessible Perceptual Contrast Algorithm) 0.0.98G-4g
+ * https://github.com/Myndex/apca-w3
+ *
+ * Unlike the WCAG 2.1 ratio, APCA's lightness contrast (Lc) depends on
+ * polarity and is much less generous to mid-grey text on dark backgrounds,
+ * which WCAG rates as readable.
+ */
+
+import type { RGBColor, WCAGLevel } from './wcag-standards';
+
+/**
+ * Contrast model used to measure and fix text colours.
+ */
+export type ContrastModel = 'wcag' | 'apca';
+
+/**
+ * What a piece of text is for, which sets how much APCA contrast it needs.
+ */
+export type TextRole = 'body' | 'secondary' | 'timestamp' | 'placeholder';
+
+/**
+ * Minimum APCA Lc per text role. AA uses APCA's minimum levels for fluent
+ * (75), content (60), spot (45) and non-essential (30) text; AAA its
+ * preferred levels, 15 higher.
+ */
+export const APCA_CONTRAST_TARGETS: Record<WCAGLevel, Record<TextRole, number>> = {
+  AA: {
+    body: 75,
+    secondary: 60,
+    timestamp: 45,
+    placeholder: 30,
+  },
+  AAA: {
+    body: 90,
+    secondary: 75,
+    timestamp: 60,
+    placeholder: 45,
+  },
+};
+
+const MAIN_TRC = 2.4;
+const R_COEFFICIENT = 0.2126729;
+const G_COEFFICIENT = 0.7151522;
+const B_COEFFICIENT = 0.072175;
+
+const NORM_BG = 0.56;
+const NORM_TXT = 0.57;
+const REV_TXT = 0.62;
+const REV_BG = 0.65;
+
+const BLACK_THRESHOLD = 0.022;
+const BLACK_CLAMP = 1.414;
+const SCALE = 1.14;
+const LOW_OFFSET = 0.027;
+const DELTA_Y_MIN = 0.0005;
+const LOW_CLIP = 0.1;
+
+/**
+ * Screen luminance (Y) of an sRGB colour as APCA estimates it, with a
+ * plain 2.4 exponent instead of the piecewise sRGB curve.
+ */
+export function apcaLuminance({ r, g, b }: RGBColor): number {
+  return (
+    R_COEFFICIENT * Math.pow(r / 255, MAIN_TRC) +
+    G_COEFFICIENT * Math.pow(g / 255, MAIN_TRC) +
+    B_COEFFICIENT * Math.pow(b / 255, MAIN_TRC)
+  );
+}
+
+/**
+ * APCA lightness contrast of opaque text on an opaque background.
+ * @returns Lc from about -108 to 106: positive for dark text on a light
+ *   background, negative for light text on a dark one, 0 when too close
+ */
+export function calculateAPCA(text: RGBColor, background: RGBColor): number {
+  const textY = clampBlack(apcaLuminance(text));
+  const backgroundY = clampBlack(apcaLuminance(background));
+
+  if (Math.abs(backgroundY - textY) < DELTA_Y_MIN) {
+    return 0;
+  }
+
+  if (backgroundY > textY) {
+    // Dark text on a light background
+    const contrast = (Math.pow(backgroundY, NORM_BG) - Math.pow(textY, NORM_TXT)) * SCALE;
+    return contrast < LOW_CLIP ? 0 : (contrast - LOW_OFFSET) * 100;
+  }
+
+  // Light text on a dark background
+  const contrast = (Math.pow(backgroundY, REV_BG) - Math.pow(textY, REV_TXT)) * SCALE;
+  return contrast > -LOW_CLIP ? 0 : (contrast + LOW_OFFSET) * 100;
+}
+
+/**
+ * Soft-clamps near-black luminance, which screens and eyes flatten.
+ */
+function clampBlack(y: number): number {
+  return y > BLACK_THRESHOLD ? y : y + Math.pow(BLACK_THRESHOLD - y, BLACK_CLAMP);
+}
@@ -1,4 +1,11 @@
 export { ContrastOptimizer, contrastOptimizer } from './ContrastOptimizer';
+export {
+  ContrastSolver,
+  getPairBackdrops,
+  type ContrastSolverOptions,
+  type SolveOptions,
+  type ContrastSolution,
+} from './ContrastSolver';
 
 export {
   type WCAGLevel,
@@ -12,3 +19,11 @@ export {
   CONTRAST_THRESHOLDS,
   TELEGRAM_TEXT_PAIRS,
 } from './wcag-standards';
+
+export {
+  type ContrastModel,
+  type TextRole,
+  APCA_CONTRAST_TARGETS,
+  apcaLuminance,
+  calculateAPCA,
+} from './apca';
@@ -1,3 +1,5 @@
+import type { ContrastModel, TextRole } from './apca';
+
 /**
  * WCAG 2.1 Contrast Ratio Standards
  * https://www.w3.org/WAI/WCAG21/Understanding/contrast-minimum.html
@@ -58,11 +60,26 @@ export const CONTRAST_THRESHOLDS = {
  */
 export interface ContrastOptimizerOptions {
   /**
-   * Target WCAG conformance level.
+   * How contrast is measured: the WCAG 2.1 ratio or APCA lightness
+   * contrast (Lc). Targets, results and tolerance use the model's units.
+   * @default 'wcag'
+   */
+  model?: ContrastModel;
+
+  /**
+   * Target WCAG conformance level. With APCA, AA picks the minimum and
+   * AAA the preferred Lc targets.
    * @default 'AA'
    */
   level?: WCAGLevel;
 
+  /**
+   * Text role whose APCA target applies when none is given. WCAG targets
+   * do not depend on it.
+   * @default 'body'
+   */
+  textRole?: TextRole;
+
   /**
    * Text size category.
    * @default 'normal'
@@ -89,7 +106,8 @@ export interface ContrastOptimizerOptions {
 }
 
 /**
- * Result of a contrast check or adjustment.
+ * Result of a contrast check or adjustment. Ratios are WCAG ratios, or
+ * absolute APCA Lc values with the APCA model.
  */
 export interface ContrastResult {
   /** Original foreground color */
@@ -137,20 +155,81 @@ export interface ColorPair {
   foreground: string;
   background: string;
   name?: string;
+  /** Property drawn behind a translucent background */
+  backdrop?: string;
+  /** The background is drawn over the chat wallpaper */
+  overWallpaper?: boolean;
+  /** What the text is for, which sets its APCA target (default 'body') */
+  role?: TextRole;
 }
 
 /**
- * Telegram-specific text-background pairs that should meet contrast requirements.
+ * Telegram-specific text-background pairs that should meet contrast requirements,
+ * including the hover (Over), active and selected states of each surface.
  */
 export const TELEGRAM_TEXT_PAIRS: ColorPair[] = [
+  // Window
   { foreground: 'windowFg', background: 'windowBg', name: 'Window text' },
+  { foreground: 'windowFg', background: 'windowBgOver', name: 'Window text on hovered rows' },
+  { foreground: 'windowFg', background: 'menuBg', name: 'Window text in menus' },
+  { foreground: 'windowFgOver', background: 'windowBgOver', name: 'Window text on hover' },
   { foreground: 'windowFgActive', background: 'windowBgActive', name: 'Active window text' },
-  { foreground: 'windowSubTextFg', background: 'windowBg', name: 'Subtitle text' },
+  { foreground: 'windowSubTextFg', background: 'windowBg', name: 'Subtitle text', role: 'secondary' },
+  { foreground: 'windowSubTextFgOver', background: 'windowBgOver', name: 'Subtitle text on hover', role: 'secondary' },
+  { foreground: 'windowBoldFg', background: 'windowBg', name: 'Bold text' },
+  { foreground: 'windowBoldFgOver', background: 'windowBgOver', name: 'Bold text on hover' },
+  { foreground: 'windowActiveTextFg', background: 'windowBg', name: 'Highlighted text' },
+  { foreground: 'placeholderFg', background: 'windowBg', name: 'Placeholder text', role: 'placeholder' },
+  { foreground: 'linkFg', background: 'windowBg', name: 'Link' },
+  { foreground: 'tooltipFg', background: 'tooltipBg', name: 'Tooltip text' },
   { foreground: 'menuFg', background: 'menuBg', name: 'Menu text' },
+  { foreground: 'titleFg', background: 'titleBg', name: 'Title bar text' },
+  { foreground: 'titleFgActive', background: 'titleBgActive', name: 'Active title bar text' },
+
+  // Boxes and buttons
+  { foreground: 'boxTextFg', background: 'boxBg', name: 'Dialog box text' },
+  { foreground: 'boxTitleFg', background: 'boxBg', name: 'Dialog box title' },
+  { foreground: 'activeButtonFg', background: 'activeButtonBg', name: 'Active button text' },
+  { foreground: 'activeButtonFgOver', background: 'activeButtonBgOver', name: 'Active button text on hover' },
+  { foreground: 'lightButtonFg', background: 'lightButtonBg', name: 'Light button text' },
+  { foreground: 'lightButtonFgOver', background: 'lightButtonBgOver', name: 'Light button text on hover' },
+
+  // Messages
   { foreground: 'historyTextInFg', background: 'msgInBg', name: 'Incoming message text' },
+  { foreground: 'historyTextInFgSelected', background: 'msgInBgSelected', name: 'Selected incoming message text' },
   { foreground: 'historyTextOutFg', background: 'msgOutBg', name: 'Outgoing message text' },
+  { foreground: 'historyTextOutFgSelected', background: 'msgOutBgSelected', name: 'Selected outgoing message text' },
+  { foreground: 'historyLinkInFg', background: 'msgInBg', name: 'Incoming message link' },
+  { foreground: 'historyLinkInFgSelected', background: 'msgInBgSelected', name: 'Selected incoming message link' },
+  { foreground: 'historyLinkOutFg', background: 'msgOutBg', name: 'Outgoing message link' },
+  { foreground: 'historyLinkOutFgSelected', background: 'msgOutBgSelected', name: 'Selected outgoing message link' },
+  { foreground: 'msgInDateFg', background: 'msgInBg', name: 'Incoming message time', role: 'timestamp' },
+  { foreground: 'msgInDateFgSelected', background: 'msgInBgSelected', name: 'Selected incoming message time', role: 'timestamp' },
+  { foreground: 'msgOutDateFg', background: 'msgOutBg', name: 'Outgoing message time', role: 'timestamp' },
+  { foreground: 'msgOutDateFgSelected', background: 'msgOutBgSelected', name: 'Selected outgoing message time', role: 'timestamp' },
+  { foreground: 'msgServiceFg', background: 'msgServiceBg', name: 'Service message text', overWallpaper: true, role: 'secondary' },
+  { foreground: 'msgServiceFg', background: 'msgServiceBgSelected', name: 'Selected service message text', overWallpaper: true, role: 'secondary' },
+  { foreground: 'historyComposeAreaFg', background: 'historyComposeAreaBg', name: 'Message input text' },
+
+  // Chat list
   { foreground: 'dialogsNameFg', background: 'dialogsBg', name: 'Dialog name' },
-  { foreground: 'dialogsTextFg', background: 'dialogsBg', name: 'Dialog text' },
-  { foreground: 'activeButtonFg', background: 'activeButtonBg', name: 'Active button text' },
-  { foreground: 'lightButtonFg', background: 'lightButtonBg', name: 'Light button text' },
+  { foreground: 'dialogsNameFgOver', background: 'dialogsBgOver', name: 'Dialog name on hover' },
+  { foreground: 'dialogsNameFgActive', background: 'dialogsBgActive', name: 'Active dialog name' },
+  { foreground: 'dialogsTextFg', background: 'dialogsBg', name: 'Dialog text', role: 'secondary' },
+  { foreground: 'dialogsTextFgOver', background: 'dialogsBgOver', name: 'Dialog text on hover', role: 'secondary' },
+  { foreground: 'dialogsTextFgActive', background: 'dialogsBgActive', name: 'Active dialog text', role: 'secondary' },
+  { foreground: 'dialogsDateFg', background: 'dialogsBg', name: 'Dialog time', role: 'timestamp' },
+  { foreground: 'dialogsDateFgOver', background: 'dialogsBgOver', name: 'Dialog time on hover', role: 'timestamp' },
+  { foreground: 'dialogsDateFgActive', background: 'dialogsBgActive', name: 'Active dialog time', role: 'timestamp' },
+  { foreground: 'dialogsUnreadFg', background: 'dialogsUnreadBg', name: 'Unread badge' },
+  { foreground: 'dialogsUnreadFgOver', background: 'dialogsUnreadBgOver', name: 'Unread badge on hover' },
+  { foreground: 'dialogsUnreadFgActive', background: 'dialogsUnreadBgActive', name: 'Active unread badge' },
+  { foreground: 'sideBarTextFg', background: 'sideBarBg', name: 'Folder sidebar text' },
+  { foreground: 'sideBarTextFgActive', background: 'sideBarBgActive', name: 'Active folder sidebar text' },
+
+  // Other screens
+  { foreground: 'introTitleFg', background: 'introBg', name: 'Intro title' },
+  { foreground: 'introDescriptionFg', background: 'introBg', name: 'Intro description', role: 'secondary' },
+  { foreground: 'callNameFg', background: 'callBg', name: 'Call name' },
+  { foreground: 'stickerPanDeleteFg', background: 'stickerPanDeleteBg', name: 'Sticker delete button', backdrop: 'emojiPanBg' },
 ];
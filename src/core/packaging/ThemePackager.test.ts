@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import {
+  ThemePackager,
+  PALETTE_ENTRY_NAME,
+  BACKGROUND_ENTRY_NAME,
+  TILED_BACKGROUND_ENTRY_NAME,
+} from './index';
+
+const paletteContent = '// Test Theme\n\nwindowBg: #ffffff;\nwindowFg: #000000;';
+
+// jsdom does not implement canvas encoding; return the requested type as bytes
+const toBlobMock = vi.fn(function (
+  this: HTMLCanvasElement,
+  callback: BlobCallback,
+  type?: string
+) {
+  callback(new Blob([`${type}:${this.width}x${this.height}`], { type }));
+});
+
+// Use FileReader since jsdom doesn't support blob.arrayBuffer()
+function readBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = reject;
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+async function readArchive(blob: Blob) {
+  return unzipSync(await readBytes(blob));
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+describe('ThemePackager', () => {
+  let packager: ThemePackager;
+  const originalToBlob = HTMLCanvasElement.prototype.toBlob;
+
+  beforeEach(() => {
+    packager = new ThemePackager();
+    HTMLCanvasElement.prototype.toBlob = toBlobMock as typeof HTMLCanvasElement.prototype.toBlob;
+  });
+
+  afterEach(() => {
+    HTMLCanvasElement.prototype.toBlob = originalToBlob;
+    vi.clearAllMocks();
+  });
+
+  describe('createPackage', () => {
+    it('should create a zip archive', async () => {
+      const blob = await packager.createPackage(paletteContent);
+      const bytes = await readBytes(blob);
+
+      expect(blob.type).toBe('application/zip');
+      // ZIP local file header signature "PK\x03\x04"
+      expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    });
+
+    it('should store the palette as colors.tdesktop-theme', async () => {
+      const files = await readArchive(await packager.createPackage(paletteContent));
+
+      expect(Object.keys(files)).toEqual([PALETTE_ENTRY_NAME]);
+      expect(strFromU8(files[PALETTE_ENTRY_NAME])).toBe(paletteContent);
+    });
+
+    it('should embed a stretched background as background.jpg', async () => {
+      const blob = await packager.createPackage(paletteContent, {
+        source: createCanvas(800, 600),
+      });
+      const files = await readArchive(blob);
+
+      expect(files[BACKGROUND_ENTRY_NAME]).toBeDefined();
+      expect(files[TILED_BACKGROUND_ENTRY_NAME]).toBeUndefined();
+      expect(strFromU8(files[BACKGROUND_ENTRY_NAME])).toBe('image/jpeg:800x600');
+    });
+
+    it('should embed a tiled background as tiled.png', async () => {
+      const blob = await packager.createPackage(paletteContent, {
+        source: createCanvas(64, 64),
+        tiled: true,
+      });
+      const files = await readArchive(blob);
+
+      expect(files[TILED_BACKGROUND_ENTRY_NAME]).toBeDefined();
+      expect(files[BACKGROUND_ENTRY_NAME]).toBeUndefined();
+      expect(strFromU8(files[TILED_BACKGROUND_ENTRY_NAME])).toBe('image/png:64x64');
+    });
+  });
+
+  describe('encodeBackground', () => {
+    it('should downscale large backgrounds preserving aspect ratio', async () => {
+      const encoded = await packager.encodeBackground({ source: createCanvas(5120, 2880) });
+
+      expect(encoded.width).toBe(2560);
+      expect(encoded.height).toBe(1440);
+      expect(encoded.filename).toBe(BACKGROUND_ENTRY_NAME);
+      expect(encoded.tiled).toBe(false);
+    });
+
+    it('should downscale portrait backgrounds by height', async () => {
+      const encoded = await packager.encodeBackground({ source: createCanvas(1500, 3000) });
+
+      expect(encoded.width).toBe(1280);
+      expect(encoded.height).toBe(2560);
+    });
+
+    it('should keep small backgrounds at their original size', async () => {
+      const encoded = await packager.encodeBackground({ source: createCanvas(1024, 768) });
+
+      expect(encoded.width).toBe(1024);
+      expect(encoded.height).toBe(768);
+    });
+
+    it('should use the smaller limit for tiles', async () => {
+      const encoded = await packager.encodeBackground({
+        source: createCanvas(2048, 2048),
+        tiled: true,
+      });
+
+      expect(encoded.width).toBe(1024);
+      expect(encoded.height).toBe(1024);
+      expect(encoded.filename).toBe(TILED_BACKGROUND_ENTRY_NAME);
+    });
+
+    it('should respect custom size limits', async () => {
+      const custom = new ThemePackager({ maxBackgroundSize: 1000 });
+      const encoded = await custom.encodeBackground({ source: createCanvas(2000, 1000) });
+
+      expect(encoded.width).toBe(1000);
+      expect(encoded.height).toBe(500);
+    });
+
+    it('should pass the JPEG quality to the encoder', async () => {
+      const custom = new ThemePackager({ jpegQuality: 0.75 });
+      await custom.encodeBackground({ source: createCanvas(10, 10) });
+
+      expect(toBlobMock).toHaveBeenCalledWith(expect.any(Function), 'image/jpeg', 0.75);
+    });
+
+    it('should load backgrounds from a URL', async () => {
+      const encoded = await packager.encodeBackground({
+        source: 'data:image/png;base64,test',
+      });
+
+      // MockImage in the test setup reports 100x100
+      expect(encoded.width).toBe(100);
+      expect(encoded.height).toBe(100);
+    });
+
+    it('should load backgrounds from a Blob', async () => {
+      const createObjectURL = vi.fn(() => 'blob:background');
+      const revokeObjectURL = vi.fn();
+      global.URL.createObjectURL = createObjectURL;
+      global.URL.revokeObjectURL = revokeObjectURL;
+
+      await packager.encodeBackground({ source: new Blob(['image']) });
+
+      expect(createObjectURL).toHaveBeenCalled();
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:background');
+    });
+
+    it('should reject when the canvas cannot be encoded', async () => {
+      HTMLCanvasElement.prototype.toBlob = vi.fn((callback: BlobCallback) => {
+        callback(null);
+      }) as typeof HTMLCanvasElement.prototype.toBlob;
+
+      await expect(
+        packager.encodeBackground({ source: createCanvas(10, 10) })
+      ).rejects.toThrow('Failed to encode background image');
+    });
+  });
+});
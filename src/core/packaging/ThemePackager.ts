@@ -0,0 +1,295 @@
+import { zipSync, strToU8, type Zippable } from 'fflate';
+import { readBlob } from '../../utils/blob-utils';
+
+/**
+ * Name of the palette entry inside a .tdesktop-theme archive.
+ */
+export const PALETTE_ENTRY_NAME = 'colors.tdesktop-theme';
+
+/**
+ * Name of the background entry for a stretched (non-tiled) wallpaper.
+ */
+export const BACKGROUND_ENTRY_NAME = 'background.jpg';
+
+/**
+ * Name of the background entry for a tiled wallpaper.
+ */
+export const TILED_BACKGROUND_ENTRY_NAME = 'tiled.png';
+
+/**
+ * Image sources accepted for the theme background.
+ */
+export type BackgroundSource = HTMLImageElement | HTMLCanvasElement | Blob | string;
+
+/**
+ * Background image to embed in a theme package.
+ */
+export interface ThemeBackground {
+  /** Image element, canvas, blob or URL (object URLs and data URLs included) */
+  source: BackgroundSource;
+
+  /**
+   * Whether the wallpaper should be repeated instead of stretched.
+   * Tiled backgrounds are stored losslessly as tiled.png.
+   * @default false
+   */
+  tiled?: boolean;
+}
+
+/**
+ * Configuration options for the packager.
+ */
+export interface ThemePackagerOptions {
+  /**
+   * Maximum width/height of a stretched background in pixels.
+   * Telegram Desktop scales the wallpaper to the window, so anything
+   * beyond a large desktop resolution only inflates the file.
+   * @default 2560
+   */
+  maxBackgroundSize?: number;
+
+  /**
+   * Maximum width/height of a tiled background in pixels.
+   * @default 1024
+   */
+  maxTileSize?: number;
+
+  /**
+   * JPEG quality (0-1) used for stretched backgrounds.
+   * @default 0.9
+   */
+  jpegQuality?: number;
+}
+
+/**
+ * A background image re-encoded for the theme archive.
+ */
+export interface EncodedBackground {
+  /** Archive entry name (background.jpg or tiled.png) */
+  filename: string;
+  /** Encoded image bytes */
+  data: Uint8Array<ArrayBuffer>;
+  width: number;
+  height: number;
+  tiled: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<ThemePackagerOptions> = {
+  maxBackgroundSize: 2560,
+  maxTileSize: 1024,
+  jpegQuality: 0.9,
+};
+
+/**
+ * ThemePackager builds Telegram Desktop .tdesktop-theme archives in the browser.
+ *
+ * A .tdesktop-theme file is a ZIP archive holding the palette as
+ * `colors.tdesktop-theme` and an optional wallpaper stored either as
+ * `background.jpg` (stretched) or `tiled.png` (repeated).
+ *
+ * @example
+ * ```typescript
+ * const packager = new ThemePackager();
+ * const blob = await packager.createPackage(theme.content, {
+ *   source: imagePreviewUrl,
+ *   tiled: false,
+ * });
+ * ```
+ */
+export class ThemePackager {
+  private options: Required<ThemePackagerOptions>;
+
+  constructor(options: ThemePackagerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Creates a zipped .tdesktop-theme package.
+   * @param content - Palette content (`key: #RRGGBB;` lines)
+   * @param background - Optional wallpaper to embed
+   * @returns Promise resolving to the archive as a Blob
+   */
+  async createPackage(content: string, background?: ThemeBackground): Promise<Blob> {
+    const files: Zippable = {
+      [PALETTE_ENTRY_NAME]: strToU8(content),
+    };
+
+    if (background) {
+      const encoded = await this.encodeBackground(background);
+      // Images are already compressed, so store them as-is
+      files[encoded.filename] = [encoded.data, { level: 0 }];
+    }
+
+    const archive = zipSync(files);
+    return new Blob([archive], { type: 'application/zip' });
+  }
+
+  /**
+   * Re-encodes a wallpaper at a resolution suitable for Telegram Desktop.
+   * @param background - The wallpaper and its tiling mode
+   * @returns Promise resolving to the encoded image
+   */
+  async encodeBackground(background: ThemeBackground): Promise<EncodedBackground> {
+    const tiled = background.tiled ?? false;
+    const image = await this.loadSource(background.source);
+
+    const { width, height } = this.calculateResizedDimensions(
+      this.getSourceWidth(image),
+      this.getSourceHeight(image),
+      tiled ? this.options.maxTileSize : this.options.maxBackgroundSize
+    );
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    if (!tiled) {
+      // JPEG has no alpha channel; flatten transparent areas onto white
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(image, 0, 0, width, height);
+
+    const blob = await this.canvasToBlob(
+      canvas,
+      tiled ? 'image/png' : 'image/jpeg',
+      tiled ? undefined : this.options.jpegQuality
+    );
+
+    return {
+      filename: tiled ? TILED_BACKGROUND_ENTRY_NAME : BACKGROUND_ENTRY_NAME,
+      data: await readBlob(blob, 'Failed to read background image'),
+      width,
+      height,
+      tiled,
+    };
+  }
+
+  /**
+   * Resolves any supported background source to something drawable.
+   */
+  private async loadSource(
+    source: BackgroundSource
+  ): Promise<HTMLImageElement | HTMLCanvasElement> {
+    if (source instanceof HTMLCanvasElement) {
+      return source;
+    }
+
+    if (typeof source !== 'string' && !(source instanceof Blob)) {
+      if (!source.complete) {
+        await this.waitForImageLoad(source);
+      }
+      return source;
+    }
+
+    if (typeof source === 'string') {
+      return this.loadImage(source);
+    }
+
+    const url = URL.createObjectURL(source);
+    try {
+      return await this.loadImage(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * Loads an image from a URL.
+   */
+  private loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.crossOrigin = 'anonymous';
+
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to load background image'));
+
+      img.src = url;
+    });
+  }
+
+  /**
+   * Waits for an image to finish loading.
+   */
+  private waitForImageLoad(image: HTMLImageElement): Promise<void> {
+    return new Promise((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Background image failed to load'));
+    });
+  }
+
+  /**
+   * Encodes a canvas into a Blob of the given type.
+   */
+  private canvasToBlob(
+    canvas: HTMLCanvasElement,
+    type: string,
+    quality?: number
+  ): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => {
+          if (blob) {
+            resolve(blob);
+          } else {
+            reject(new Error('Failed to encode background image'));
+          }
+        },
+        type,
+        quality
+      );
+    });
+  }
+
+  private getSourceWidth(image: HTMLImageElement | HTMLCanvasElement): number {
+    return image instanceof HTMLCanvasElement
+      ? image.width
+      : image.naturalWidth || image.width;
+  }
+
+  private getSourceHeight(image: HTMLImageElement | HTMLCanvasElement): number {
+    return image instanceof HTMLCanvasElement
+      ? image.height
+      : image.naturalHeight || image.height;
+  }
+
+  /**
+   * Calculates resized dimensions while maintaining aspect ratio.
+   */
+  private calculateResizedDimensions(
+    originalWidth: number,
+    originalHeight: number,
+    maxSize: number
+  ): { width: number; height: number } {
+    if (originalWidth <= maxSize && originalHeight <= maxSize) {
+      return { width: originalWidth, height: originalHeight };
+    }
+
+    const aspectRatio = originalWidth / originalHeight;
+
+    if (originalWidth > originalHeight) {
+      return {
+        width: maxSize,
+        height: Math.max(1, Math.round(maxSize / aspectRatio)),
+      };
+    }
+
+    return {
+      width: Math.max(1, Math.round(maxSize * aspectRatio)),
+      height: maxSize,
+    };
+  }
+}
+
+/**
+ * Default singleton instance for convenient access.
+ */
+export const themePackager = new ThemePackager();
+
+export default ThemePackager;
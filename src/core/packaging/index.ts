@@ -0,0 +1,11 @@
+export {
+  ThemePackager,
+  themePackager,
+  type ThemePackagerOptions,
+  type ThemeBackground,
+  type BackgroundSource,
+  type EncodedBackground,
+  PALETTE_ENTRY_NAME,
+  BACKGROUND_ENTRY_NAME,
+  TILED_BACKGROUND_ENTRY_NAME,
+} from './ThemePackager';
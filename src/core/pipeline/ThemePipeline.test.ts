@@ -0,0 +1,299 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ThemePipeline, getWallpaperBackdrops } from './ThemePipeline';
+import { ContrastOptimizer, ContrastSolver } from '../contrast';
+import { ThemeValidator, replacePaletteSwatch, setPaletteRole } from '../theme-generation';
+import { ThemeImporter } from '../theme-import';
+
+// The node build of color-thief cannot load in jsdom
+vi.mock('colorthief', () => ({
+  default: class MockColorThief {
+    getPalette() {
+      return [[64, 167, 227], [93, 196, 82], [240, 240, 240]];
+    }
+  },
+}));
+
+/**
+ * A one-row image split between two colours.
+ */
+function pixels(first: [number, number, number], second: [number, number, number], count = 400) {
+  const data = new Uint8ClampedArray(count * 4);
+  for (let i = 0; i < count; i++) {
+    data.set([...(i < count * 0.7 ? first : second), 255], i * 4);
+  }
+  return { data, width: count, height: 1 };
+}
+
+const brightImage = pixels([235, 225, 210], [40, 120, 200]);
+const darkImage = pixels([20, 25, 40], [200, 80, 60]);
+
+describe('ThemePipeline', () => {
+  const pipeline = new ThemePipeline();
+
+  describe('fromPixels', () => {
+    it('should build a theme from raw pixels', () => {
+      const { theme, extractedColors } = pipeline.fromPixels(brightImage, {
+        name: 'Pixels',
+        mode: 'light',
+      });
+
+      expect(theme.name).toBe('Pixels');
+      expect(theme.properties.windowBg).toBe('ffffff');
+      expect(extractedColors.length).toBeGreaterThan(0);
+      expect(extractedColors.reduce((sum, c) => sum + c.population, 0)).toBeCloseTo(1, 5);
+    });
+
+    it('should favour colours inside the focus regions and record them', () => {
+      // The blue strip is the right 30% of the image
+      const regions = [{ x: 0.7, y: 0, width: 0.3, height: 1 }];
+      const { theme, extractedColors } = pipeline.fromPixels(brightImage, {
+        name: 'Focused',
+        mode: 'light',
+        regions,
+      });
+
+      const largest = [...extractedColors].sort((a, b) => b.population - a.population)[0];
+      expect(largest.rgb[2]).toBeGreaterThan(largest.rgb[0]);
+      expect(theme.focusRegions).toEqual(regions);
+    });
+
+    it('should leave letterbox bars out and report them', () => {
+      // 40×40: black bars on the top and bottom 5 rows around a warm picture
+      const data = new Uint8ClampedArray(40 * 40 * 4);
+      for (let i = 0; i < 40 * 40; i++) {
+        const row = Math.floor(i / 40);
+        data.set(row < 5 || row >= 35 ? [0, 0, 0, 255] : [230, 150 + (i % 5), 60, 255], i * 4);
+      }
+
+      const { borders, extractedColors } = pipeline.fromPixels(
+        { data, width: 40, height: 40 },
+        { name: 'Still', mode: 'light' }
+      );
+
+      expect(borders).toMatchObject({ kind: 'letterbox', top: 5, bottom: 5 });
+      expect(extractedColors.every((color) => color.brightness > 50)).toBe(true);
+    });
+
+    it('should return the palette it built the theme from', () => {
+      const { palette, extractedColors } = pipeline.fromPixels(brightImage, {
+        name: 'Palette',
+        mode: 'light',
+      });
+
+      expect(palette.swatches.map((swatch) => swatch.color)).toEqual(extractedColors);
+      expect(palette.primary).toBeNull();
+    });
+
+    it('should keep palette edits over a new extraction', () => {
+      const first = pipeline.fromPixels(brightImage, { name: 'First', mode: 'light' });
+      const edited = setPaletteRole(replacePaletteSwatch(first.palette, 0, '#c2185b'), 'primary', 0);
+
+      const { palette, theme } = pipeline.fromPixels(darkImage, {
+        name: 'Second',
+        mode: 'dark',
+        palette: edited,
+      });
+
+      expect(palette.swatches[0].color.hex).toBe('#c2185b');
+      expect(palette.primary).toBe('#c2185b');
+      expect(theme.colors.primary).toBe('#c2185b');
+    });
+
+    it('should not record focus regions when none are given', () => {
+      const { theme } = pipeline.fromPixels(brightImage, { name: 'Whole', mode: 'light' });
+      expect(theme.focusRegions).toBeUndefined();
+    });
+
+    it('should resolve auto mode from the image brightness', () => {
+      expect(pipeline.fromPixels(brightImage, { name: 'Bright', mode: 'auto' }).mode).toBe('light');
+      expect(pipeline.fromPixels(darkImage, { name: 'Dark', mode: 'auto' }).mode).toBe('dark');
+    });
+
+    it('should keep an explicit mode', () => {
+      expect(pipeline.fromPixels(brightImage, { name: 'Forced', mode: 'dark' }).mode).toBe('dark');
+    });
+
+    it('should report progress in order', () => {
+      const onProgress = vi.fn();
+      pipeline.fromPixels(brightImage, { name: 'Progress', mode: 'light' }, { onProgress });
+
+      expect(onProgress.mock.calls.map(([progress]) => progress.stage)).toEqual([
+        'extracting',
+        'generating',
+      ]);
+    });
+
+    it('should throw the abort reason once the signal is aborted', () => {
+      const controller = new AbortController();
+      const reason = new Error('cancelled');
+      const onProgress = vi.fn(() => controller.abort(reason));
+
+      expect(() =>
+        pipeline.fromPixels(
+          brightImage,
+          { name: 'Aborted', mode: 'light' },
+          { onProgress, signal: controller.signal }
+        )
+      ).toThrow(reason);
+      expect(onProgress).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not need the DOM', () => {
+      const createElement = vi.spyOn(document, 'createElement');
+      pipeline.fromPixels(darkImage, { name: 'Headless', mode: 'auto' });
+      expect(createElement).not.toHaveBeenCalled();
+      createElement.mockRestore();
+    });
+  });
+
+  describe('fromImage', () => {
+    it('should build a theme from an image URL', async () => {
+      const onProgress = vi.fn();
+      const result = await pipeline.fromImage(
+        'data:image/png;base64,test',
+        { name: 'Url', mode: 'light' },
+        { onProgress }
+      );
+
+      expect(result.mode).toBe('light');
+      expect(result.theme.content).toContain('windowBg');
+      expect(onProgress).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('buildTheme', () => {
+    it('should optimise text to the contrast ratio of the style', () => {
+      const solve = vi.spyOn(ContrastSolver.prototype, 'solve');
+      const { extractedColors } = pipeline.fromPixels(brightImage, { name: 'x', mode: 'light' });
+      solve.mockClear();
+
+      pipeline.buildTheme(extractedColors, 'light', { name: 'x', style: 'high-contrast' });
+
+      expect(solve).toHaveBeenCalledTimes(1);
+      expect(solve.mock.calls[0][2]?.target).toBe(7);
+      solve.mockRestore();
+    });
+
+    it('should optimise to APCA targets per text role when asked', () => {
+      const { extractedColors } = pipeline.fromPixels(darkImage, { name: 'x', mode: 'dark' });
+      const theme = pipeline.buildTheme(extractedColors, 'dark', { name: 'x', contrastModel: 'apca' });
+
+      const apca = new ContrastOptimizer({ model: 'apca' });
+      const { windowFg, windowBg, msgInDateFg, msgInBg } = theme.properties;
+      expect(apca.calculateContrast(windowFg, windowBg)).toBeGreaterThanOrEqual(74.99);
+      expect(apca.calculateContrast(msgInDateFg, msgInBg)).toBeGreaterThanOrEqual(44.99);
+    });
+
+    it('should use APCA for dark themes and WCAG for light ones by default', () => {
+      const apca = new ContrastOptimizer({ model: 'apca' });
+      const dark = pipeline.fromPixels(darkImage, { name: 'x', mode: 'dark' }).theme.properties;
+      expect(apca.calculateContrast(dark.msgInDateFg, dark.msgInBg)).toBeGreaterThanOrEqual(44.99);
+
+      const solve = vi.spyOn(ContrastSolver.prototype, 'solve');
+      pipeline.fromPixels(brightImage, { name: 'x', mode: 'light' });
+      expect(solve.mock.calls[0][2]?.target).toBe(4.5);
+      solve.mockRestore();
+    });
+
+    it('should meet the contrast target for the main text', () => {
+      const optimizer = new ContrastOptimizer();
+      const { theme } = pipeline.fromPixels(darkImage, { name: 'x', mode: 'dark' });
+      const { windowFg, windowBg } = theme.properties;
+
+      expect(optimizer.calculateContrastRatio(windowFg, windowBg)).toBeGreaterThanOrEqual(4.49);
+    });
+
+    it('should write the solved colours into the content and validation', () => {
+      const importer = new ThemeImporter();
+      const validator = new ThemeValidator();
+
+      for (const [image, mode] of [[brightImage, 'light'], [darkImage, 'dark']] as const) {
+        const { theme } = pipeline.fromPixels(image, { name: 'x', mode });
+
+        expect(importer.parsePalette(theme.content).properties).toEqual(theme.properties);
+        expect(theme.advancedValidation).toEqual(validator.validate(theme.properties));
+      }
+    });
+
+    it('should drop references of properties the solver changed', () => {
+      const solve = vi.spyOn(ContrastSolver.prototype, 'solve');
+      const { theme } = pipeline.fromPixels(brightImage, { name: 'x', mode: 'light' });
+      const { changes } = solve.mock.results[0].value as ReturnType<ContrastSolver['solve']>;
+      solve.mockRestore();
+
+      expect(Object.keys(changes).length).toBeGreaterThan(0);
+      for (const key of Object.keys(changes)) {
+        expect(theme.references[key]).toBeUndefined();
+        expect(theme.content).toContain(`${key}: #${theme.properties[key]};`);
+      }
+    });
+  });
+
+  describe('joint contrast', () => {
+    it('should fix text on every background it appears on', () => {
+      const optimizer = new ContrastOptimizer();
+      const { theme } = pipeline.fromPixels(darkImage, { name: 'x', mode: 'dark' });
+      const { windowFg, windowBg, windowBgOver, menuBg } = theme.properties;
+
+      for (const background of [windowBg, windowBgOver, menuBg]) {
+        expect(optimizer.calculateContrastRatio(windowFg, background)).toBeGreaterThanOrEqual(4.49);
+      }
+    });
+  });
+
+  describe('getWallpaperBackdrops', () => {
+    const color = (hex: string, rgb: [number, number, number], brightness: number, population: number) => ({
+      hex,
+      rgb,
+      vibrancy: 0,
+      brightness,
+      population,
+    });
+
+    it('should return the weighted average, lightest and darkest colour', () => {
+      const backdrops = getWallpaperBackdrops([
+        color('#ffffff', [255, 255, 255], 255, 0.25),
+        color('#000000', [0, 0, 0], 0, 0.75),
+      ]);
+
+      expect(backdrops).toEqual(['#404040', '#ffffff', '#000000']);
+    });
+
+    it('should be empty without colours', () => {
+      expect(getWallpaperBackdrops([])).toEqual([]);
+    });
+
+    it('should optimise service message text over the wallpaper', () => {
+      const solve = vi.spyOn(ContrastSolver.prototype, 'solve');
+      const { extractedColors } = pipeline.fromPixels(brightImage, { name: 'x', mode: 'light' });
+      solve.mockClear();
+
+      pipeline.buildTheme(extractedColors, 'light', { name: 'x' });
+
+      const [, pairs, options] = solve.mock.calls[0];
+      expect(pairs.some((pair) => pair.foreground === 'msgServiceFg' && pair.overWallpaper)).toBe(true);
+      expect(options?.wallpaperColors).toEqual(getWallpaperBackdrops(extractedColors));
+      solve.mockRestore();
+    });
+
+    it('should take the wallpaper backdrops from the image, not palette edits', () => {
+      const first = pipeline.fromPixels(brightImage, { name: 'x', mode: 'light' });
+      const edited = replacePaletteSwatch(first.palette, 0, '#c2185b');
+      const solve = vi.spyOn(ContrastSolver.prototype, 'solve');
+
+      const { extractedColors } = pipeline.fromPixels(brightImage, { name: 'x', mode: 'light', palette: edited });
+
+      const [, , options] = solve.mock.calls[0];
+      expect(options?.wallpaperColors).toEqual(getWallpaperBackdrops(extractedColors));
+      expect(options?.wallpaperColors).not.toContain('#c2185b');
+      solve.mockRestore();
+    });
+  });
+
+  describe('getTargetSize', () => {
+    it('should fit images within the extraction size', () => {
+      expect(pipeline.getTargetSize(4000, 2000)).toEqual({ width: 400, height: 200 });
+      expect(pipeline.getTargetSize(100, 50)).toEqual({ width: 100, height: 50 });
+    });
+  });
+});
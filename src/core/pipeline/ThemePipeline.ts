@@ -0,0 +1,306 @@
+import {
+  ColorExtractor,
+  type BorderReport,
+  type ExtractedColor,
+  type ExtractionResult,
+  type ImageRegion,
+  type PixelData,
+} from '../color-extraction';
+import {
+  ContrastSolver,
+  WCAG_CONTRAST_RATIOS,
+  type ColorPair,
+  type ContrastModel,
+} from '../contrast';
+import {
+  TelegramThemeBuilder,
+  PaletteDeriver,
+  THEME_STYLE_PRESETS,
+  createEditablePalette,
+  getPaletteColors,
+  mergePalette,
+  type EditablePalette,
+  type GeneratedTheme,
+  type ThemeMode,
+  type ThemeStyle,
+} from '../theme-generation';
+
+/**
+ * Mode chosen by the user; 'auto' picks light or dark from the image brightness
+ */
+export type ThemeModePreference = ThemeMode | 'auto';
+
+/**
+ * Images with an average brightness (0-255) below this get a dark theme in auto mode
+ */
+export const AUTO_MODE_BRIGHTNESS_THRESHOLD = 128;
+
+/**
+ * Text/background pairs the pipeline optimises for contrast. A foreground
+ * listed on several backgrounds is solved against all of them at once.
+ */
+const TEXT_BACKGROUND_PAIRS: ColorPair[] = [
+  { foreground: 'windowFg', background: 'windowBg' },
+  { foreground: 'windowFg', background: 'windowBgOver' },
+  { foreground: 'windowFg', background: 'menuBg' },
+  { foreground: 'historyTextInFg', background: 'msgInBg' },
+  { foreground: 'historyTextOutFg', background: 'msgOutBg' },
+  { foreground: 'dialogsNameFg', background: 'dialogsBg' },
+  { foreground: 'dialogsNameFg', background: 'dialogsBgOver' },
+  { foreground: 'msgInDateFg', background: 'msgInBg', role: 'timestamp' },
+  { foreground: 'msgOutDateFg', background: 'msgOutBg', role: 'timestamp' },
+  { foreground: 'dialogsDateFg', background: 'dialogsBg', role: 'timestamp' },
+  { foreground: 'dialogsDateFg', background: 'dialogsBgOver', role: 'timestamp' },
+  { foreground: 'msgServiceFg', background: 'msgServiceBg', role: 'secondary', overWallpaper: true },
+  { foreground: 'msgServiceFg', background: 'msgServiceBgSelected', role: 'secondary', overWallpaper: true },
+];
+
+/**
+ * Colours a translucent overlay on the image-based wallpaper may be seen
+ * against: the population-weighted average, the lightest and the darkest
+ * extracted colour. Empty when there are no colours.
+ */
+export function getWallpaperBackdrops(colors: ExtractedColor[]): string[] {
+  if (colors.length === 0) {
+    return [];
+  }
+
+  const total = colors.reduce((sum, color) => sum + color.population, 0);
+  const average = [0, 1, 2].map((channel) =>
+    Math.round(
+      total > 0
+        ? colors.reduce((sum, color) => sum + color.rgb[channel] * color.population, 0) / total
+        : colors.reduce((sum, color) => sum + color.rgb[channel], 0) / colors.length
+    )
+  );
+  const byBrightness = [...colors].sort((a, b) => a.brightness - b.brightness);
+
+  return [
+    `#${average.map((channel) => channel.toString(16).padStart(2, '0')).join('')}`,
+    byBrightness[byBrightness.length - 1].hex,
+    byBrightness[0].hex,
+  ];
+}
+
+export interface ThemePipelineOptions {
+  /** Theme name */
+  name: string;
+  /** Requested mode */
+  mode: ThemeModePreference;
+  /**
+   * Generation style preset.
+   * @default 'vibrant'
+   */
+  style?: ThemeStyle;
+  /**
+   * Parts of the image to favour when extracting colours. Stored on the
+   * generated theme as `focusRegions`.
+   */
+  regions?: ImageRegion[];
+  /**
+   * The user's palette edits from an earlier run. Locked, replaced and
+   * pinned swatches are kept over the new extraction.
+   */
+  palette?: EditablePalette;
+  /**
+   * Contrast model text is optimised with. 'wcag' uses the style's ratio
+   * for every pair; 'apca' uses per-role Lc targets, the preferred ones for
+   * styles at WCAG AAA.
+   * @default 'apca' for dark themes, whose grey text WCAG overrates; 'wcag' for light ones
+   */
+  contrastModel?: ContrastModel;
+}
+
+export interface PipelineProgress {
+  /** Step that has just started */
+  stage: 'extracting' | 'generating';
+}
+
+/**
+ * Per-run callbacks and cancellation
+ */
+export interface PipelineRunOptions {
+  /** Called as each step starts */
+  onProgress?: (progress: PipelineProgress) => void;
+  /** Aborts the run between steps, rejecting with the signal's reason */
+  signal?: AbortSignal;
+}
+
+export interface ThemePipelineResult {
+  extractedColors: ExtractedColor[];
+  /** The colours the theme was built from, with the user's edits applied */
+  palette: EditablePalette;
+  /** Letterbox bars, margins or frames left out of extraction, if any */
+  borders: BorderReport | null;
+  /** Mode the theme was generated in, with 'auto' resolved */
+  mode: ThemeMode;
+  theme: GeneratedTheme;
+}
+
+/**
+ * ThemePipeline runs colour extraction, palette derivation, theme building
+ * and contrast optimisation for one image.
+ *
+ * `fromPixels` works on raw RGBA data and never touches the DOM, so
+ * ThemeWorkerClient can run it inside a Web Worker. `fromImage` is the
+ * main-thread path that decodes an image URL through a canvas.
+ *
+ * @example
+ * ```typescript
+ * const pipeline = new ThemePipeline();
+ * const { theme, mode } = await pipeline.fromImage(url, { name: 'Sunset', mode: 'auto' });
+ * ```
+ */
+export class ThemePipeline {
+  private extractor: ColorExtractor;
+
+  constructor(
+    extractor: ColorExtractor = new ColorExtractor({
+      colorCount: 8,
+      method: 'kmeans',
+      rejectBorders: true,
+      weighting: 'saliency',
+    })
+  ) {
+    this.extractor = extractor;
+  }
+
+  /**
+   * Generates a theme from an image URL on the current thread.
+   * @param source - Image URL or data URL
+   * @param options - Name, mode and style
+   * @param run - Progress callback and abort signal
+   */
+  async fromImage(
+    source: string,
+    options: ThemePipelineOptions,
+    run: PipelineRunOptions = {}
+  ): Promise<ThemePipelineResult> {
+    const { onProgress, signal } = run;
+
+    onProgress?.({ stage: 'extracting' });
+    const extraction = await this.extractor.extract(source, { signal, regions: options.regions });
+
+    signal?.throwIfAborted();
+    onProgress?.({ stage: 'generating' });
+    return this.finish(extraction, options, signal);
+  }
+
+  /**
+   * Generates a theme from raw RGBA pixels, without using the DOM.
+   * @param pixels - RGBA pixels, already resized (see getTargetSize)
+   * @param options - Name, mode and style
+   * @param run - Progress callback and abort signal
+   */
+  fromPixels(
+    pixels: PixelData,
+    options: ThemePipelineOptions,
+    run: PipelineRunOptions = {}
+  ): ThemePipelineResult {
+    const { onProgress, signal } = run;
+
+    signal?.throwIfAborted();
+    onProgress?.({ stage: 'extracting' });
+    const extraction = this.extractor.extractFromPixels(pixels, { regions: options.regions });
+
+    signal?.throwIfAborted();
+    onProgress?.({ stage: 'generating' });
+    return this.finish(extraction, options, signal);
+  }
+
+  /**
+   * Derives theme colours, builds the theme and fixes text contrast.
+   * @param colors - Extracted colours
+   * @param mode - Resolved theme mode
+   * @param options - Name, style, focus regions to record, the palette whose
+   *   pinned primary and accent to use, and an optional abort signal.
+   *   `imageColors` are the colours actually in the image, which the
+   *   wallpaper backdrops come from; by default `colors`.
+   */
+  buildTheme(
+    colors: ExtractedColor[],
+    mode: ThemeMode,
+    options: Omit<ThemePipelineOptions, 'mode'> & {
+      imageColors?: ExtractedColor[];
+      signal?: AbortSignal;
+    }
+  ): GeneratedTheme {
+    const { signal } = options;
+    const style = options.style ?? 'vibrant';
+    const themeColors = new PaletteDeriver({ mode, style }).derive(colors, options.palette);
+    const builder = new TelegramThemeBuilder({ mode, name: options.name });
+    const generatedTheme = builder.buildTheme(themeColors, { signal });
+
+    // Apply contrast optimization for key text/background pairs
+    const contrastModel = options.contrastModel ?? (mode === 'dark' ? 'apca' : 'wcag');
+    const aaa = THEME_STYLE_PRESETS[style].contrastRatio >= WCAG_CONTRAST_RATIOS.AAA.normal;
+    const { changes } = new ContrastSolver({
+      model: contrastModel,
+      level: aaa ? 'AAA' : 'AA',
+    }).solve(generatedTheme.properties, TEXT_BACKGROUND_PAIRS, {
+      target: contrastModel === 'wcag' ? THEME_STYLE_PRESETS[style].contrastRatio : undefined,
+      wallpaperColors: getWallpaperBackdrops(options.imageColors ?? colors),
+      signal,
+    });
+
+    // Rewrite content and validation for the solved colours. A solved
+    // property, or one copying a solved property, no longer matches its
+    // reference and is written as a literal.
+    const references = Object.fromEntries(
+      Object.entries(generatedTheme.references).filter(
+        ([key, target]) => !(key in changes) && !(target in changes)
+      )
+    );
+    const solvedTheme = builder.applyPropertyEdits(
+      { ...generatedTheme, references },
+      Object.fromEntries(Object.entries(changes).map(([key, { to }]) => [key, to]))
+    );
+
+    return options.regions?.length
+      ? { ...solvedTheme, focusRegions: options.regions }
+      : solvedTheme;
+  }
+
+  /**
+   * Size pixels should be read at before calling fromPixels.
+   */
+  getTargetSize(width: number, height: number): { width: number; height: number } {
+    return this.extractor.calculateResizedDimensions(width, height);
+  }
+
+  /**
+   * Resolves the mode and builds the theme from an extraction.
+   */
+  private finish(
+    { colors, brightness, borders }: ExtractionResult,
+    options: ThemePipelineOptions,
+    signal?: AbortSignal
+  ): ThemePipelineResult {
+    // Resolve auto mode from how bright the image is overall
+    const mode = options.mode === 'auto' ? this.resolveMode(brightness) : options.mode;
+    const palette = options.palette
+      ? mergePalette(options.palette, colors)
+      : createEditablePalette(colors);
+
+    return {
+      extractedColors: colors,
+      palette,
+      borders,
+      mode,
+      // Replaced or added swatches are not in the image, so the wallpaper
+      // backdrops come from the extraction itself
+      theme: this.buildTheme(getPaletteColors(palette), mode, {
+        ...options,
+        palette,
+        imageColors: colors,
+        signal,
+      }),
+    };
+  }
+
+  private resolveMode(averageBrightness: number): ThemeMode {
+    return averageBrightness < AUTO_MODE_BRIGHTNESS_THRESHOLD ? 'dark' : 'light';
+  }
+}
+
+export default ThemePipeline;
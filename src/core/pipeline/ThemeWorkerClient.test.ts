@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ThemeWorkerClient, type ThemeWorkerRequest, type ThemeWorkerResponse } from './ThemeWorkerClient';
+import type { ThemePipeline, ThemePipelineResult } from './ThemePipeline';
+
+class FakeWorker {
+  onmessage: ((event: { data: ThemeWorkerResponse }) => void) | null = null;
+  onerror: ((event: { preventDefault: () => void }) => void) | null = null;
+  requests: { message: ThemeWorkerRequest; transfer: Transferable[] }[] = [];
+  terminate = vi.fn();
+
+  postMessage(message: ThemeWorkerRequest, transfer: Transferable[]) {
+    this.requests.push({ message, transfer });
+  }
+
+  respond(message: ThemeWorkerResponse) {
+    this.onmessage?.({ data: message });
+  }
+
+  crash() {
+    this.onerror?.({ preventDefault: () => {} });
+  }
+}
+
+const workerResult = { mode: 'dark', extractedColors: [], theme: { name: 'Worker' } } as unknown as ThemePipelineResult;
+const mainThreadResult = { mode: 'light', extractedColors: [], theme: { name: 'Main' } } as unknown as ThemePipelineResult;
+
+const source = { file: new Blob(['image']), previewUrl: 'blob:preview' };
+const options = { name: 'Test', mode: 'auto' as const };
+
+describe('ThemeWorkerClient', () => {
+  let worker: FakeWorker;
+  let pipeline: { fromImage: ReturnType<typeof vi.fn> };
+  let client: ThemeWorkerClient;
+  const bitmap = { width: 800, height: 600, close: vi.fn() };
+
+  beforeEach(() => {
+    worker = new FakeWorker();
+    pipeline = { fromImage: vi.fn().mockResolvedValue(mainThreadResult) };
+    client = new ThemeWorkerClient({
+      pipeline: pipeline as unknown as ThemePipeline,
+      createWorker: () => worker as unknown as Worker,
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('without worker support', () => {
+    it('should report no support in jsdom', () => {
+      expect(ThemeWorkerClient.isSupported()).toBe(false);
+    });
+
+    it('should run the pipeline on the main thread', async () => {
+      const onProgress = vi.fn();
+      const result = await client.generate(source, options, { onProgress });
+
+      expect(result).toBe(mainThreadResult);
+      expect(pipeline.fromImage).toHaveBeenCalledWith('blob:preview', options, { onProgress });
+      expect(worker.requests).toHaveLength(0);
+    });
+  });
+
+  describe('with worker support', () => {
+    beforeEach(() => {
+      vi.stubGlobal('Worker', FakeWorker);
+      vi.stubGlobal('OffscreenCanvas', class {});
+      vi.stubGlobal('createImageBitmap', vi.fn().mockResolvedValue(bitmap));
+    });
+
+    it('should report support', () => {
+      expect(ThemeWorkerClient.isSupported()).toBe(true);
+    });
+
+    it('should transfer the decoded bitmap to the worker', async () => {
+      const pending = client.generate(source, options);
+      await vi.waitFor(() => expect(worker.requests).toHaveLength(1));
+
+      const [{ message, transfer }] = worker.requests;
+      expect(createImageBitmap).toHaveBeenCalledWith(source.file);
+      expect(message).toEqual({ id: 1, bitmap, options });
+      expect(transfer).toEqual([bitmap]);
+
+      worker.respond({ id: 1, type: 'result', result: workerResult });
+      await expect(pending).resolves.toBe(workerResult);
+      expect(pipeline.fromImage).not.toHaveBeenCalled();
+    });
+
+    it('should forward progress messages', async () => {
+      const onProgress = vi.fn();
+      const pending = client.generate(source, options, { onProgress });
+      await vi.waitFor(() => expect(worker.requests).toHaveLength(1));
+
+      worker.respond({ id: 1, type: 'progress', progress: { stage: 'extracting' } });
+      worker.respond({ id: 1, type: 'progress', progress: { stage: 'generating' } });
+      worker.respond({ id: 1, type: 'result', result: workerResult });
+      await pending;
+
+      expect(onProgress.mock.calls).toEqual([[{ stage: 'extracting' }], [{ stage: 'generating' }]]);
+    });
+
+    it('should match responses to requests', async () => {
+      const first = client.generate(source, options);
+      const second = client.generate(source, options);
+      await vi.waitFor(() => expect(worker.requests).toHaveLength(2));
+
+      worker.respond({ id: 2, type: 'result', result: mainThreadResult });
+      worker.respond({ id: 1, type: 'result', result: workerResult });
+
+      await expect(first).resolves.toBe(workerResult);
+      await expect(second).resolves.toBe(mainThreadResult);
+    });
+
+    it('should reject with the error from the worker', async () => {
+      const pending = client.generate(source, options);
+      await vi.waitFor(() => expect(worker.requests).toHaveLength(1));
+
+      worker.respond({ id: 1, type: 'error', message: 'Failed to get canvas context' });
+
+      await expect(pending).rejects.toThrow('Failed to get canvas context');
+    });
+
+    it('should fall back to the main thread if the worker crashes', async () => {
+      const pending = client.generate(source, options);
+      await vi.waitFor(() => expect(worker.requests).toHaveLength(1));
+
+      worker.crash();
+
+      await expect(pending).resolves.toBe(mainThreadResult);
+      expect(worker.terminate).toHaveBeenCalled();
+
+      // Later requests skip the worker
+      await client.generate(source, options);
+      expect(worker.requests).toHaveLength(1);
+      expect(pipeline.fromImage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to the main thread if the image cannot be decoded', async () => {
+      vi.mocked(createImageBitmap).mockRejectedValueOnce(new Error('unsupported'));
+
+      await expect(client.generate(source, options)).resolves.toBe(mainThreadResult);
+      expect(worker.requests).toHaveLength(0);
+    });
+
+    it('should reject with the abort reason and stop the worker', async () => {
+      const controller = new AbortController();
+      const reason = new Error('Upload cancelled by user');
+      const pending = client.generate(source, options, { signal: controller.signal });
+      await vi.waitFor(() => expect(worker.requests).toHaveLength(1));
+
+      controller.abort(reason);
+
+      await expect(pending).rejects.toBe(reason);
+      expect(worker.terminate).toHaveBeenCalled();
+
+      // A late result from the stopped run is ignored
+      worker.respond({ id: 1, type: 'result', result: workerResult });
+    });
+
+    it('should keep the worker for other requests when one is aborted', async () => {
+      const controller = new AbortController();
+      const aborted = client.generate(source, options, { signal: controller.signal });
+      const kept = client.generate(source, options);
+      await vi.waitFor(() => expect(worker.requests).toHaveLength(2));
+
+      controller.abort(new Error('cancelled'));
+      await expect(aborted).rejects.toThrow('cancelled');
+      expect(worker.terminate).not.toHaveBeenCalled();
+
+      worker.respond({ id: 2, type: 'result', result: workerResult });
+      await expect(kept).resolves.toBe(workerResult);
+    });
+
+    it('should not start a run whose signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('cancelled'));
+
+      await expect(client.generate(source, options, { signal: controller.signal })).rejects.toThrow(
+        'cancelled'
+      );
+      expect(createImageBitmap).not.toHaveBeenCalled();
+    });
+
+    it('should stop the worker and reject pending requests when disposed', async () => {
+      const pending = client.generate(source, options);
+      await vi.waitFor(() => expect(worker.requests).toHaveLength(1));
+
+      client.dispose();
+
+      await expect(pending).rejects.toThrow('Theme generation was stopped');
+      expect(worker.terminate).toHaveBeenCalled();
+      expect(pipeline.fromImage).not.toHaveBeenCalled();
+    });
+  });
+});
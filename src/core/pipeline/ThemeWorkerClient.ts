@@ -0,0 +1,238 @@
+import {
+  ThemePipeline,
+  type PipelineProgress,
+  type PipelineRunOptions,
+  type ThemePipelineOptions,
+  type ThemePipelineResult,
+} from './ThemePipeline';
+
+/**
+ * Message sent to the theme worker
+ */
+export interface ThemeWorkerRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  options: ThemePipelineOptions;
+}
+
+/**
+ * Messages posted back by the theme worker
+ */
+export type ThemeWorkerResponse =
+  | { id: number; type: 'progress'; progress: PipelineProgress }
+  | { id: number; type: 'result'; result: ThemePipelineResult }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * Image to generate a theme from. The worker decodes the file; the
+ * main-thread fallback loads the preview URL.
+ */
+export interface ThemeImageSource {
+  file: Blob;
+  previewUrl: string;
+}
+
+export interface ThemeWorkerClientOptions {
+  /** Pipeline used when workers are unavailable */
+  pipeline?: ThemePipeline;
+  /** Creates the worker; override in tests */
+  createWorker?: () => Worker;
+}
+
+interface PendingRequest {
+  resolve: (result: ThemePipelineResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: PipelineProgress) => void;
+  /** Re-runs the request on the main thread if the worker dies */
+  fallback: () => Promise<ThemePipelineResult>;
+}
+
+function createThemeWorker(): Worker {
+  return new Worker(new URL('./theme.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * ThemeWorkerClient runs ThemePipeline in a Web Worker so decoding and
+ * quantizing large photos does not block the UI.
+ *
+ * The image is decoded with createImageBitmap and transferred to the
+ * worker, which reads its pixels from an OffscreenCanvas. When Worker,
+ * OffscreenCanvas or createImageBitmap is missing, or the worker fails to
+ * start, the same pipeline runs on the main thread instead, so callers
+ * always get the same result shape.
+ *
+ * Aborting a run rejects it with the signal's reason straight away. The
+ * worker cannot be interrupted mid-run, so it is terminated (and recreated
+ * on the next request) unless other requests are still waiting on it.
+ *
+ * @example
+ * ```typescript
+ * const client = new ThemeWorkerClient();
+ * const { theme } = await client.generate(
+ *   { file, previewUrl },
+ *   { name: 'Sunset', mode: 'auto' },
+ *   { onProgress: ({ stage }) => setStage(stage), signal: controller.signal }
+ * );
+ * client.dispose();
+ * ```
+ */
+export class ThemeWorkerClient {
+  private pipeline: ThemePipeline;
+  private createWorker: () => Worker;
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  constructor(options: ThemeWorkerClientOptions = {}) {
+    this.pipeline = options.pipeline ?? new ThemePipeline();
+    this.createWorker = options.createWorker ?? createThemeWorker;
+  }
+
+  /**
+   * Whether this environment can run the pipeline in a worker.
+   */
+  static isSupported(): boolean {
+    return (
+      typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap === 'function'
+    );
+  }
+
+  /**
+   * Generates a theme, in the worker when possible.
+   * @param source - Image file and its preview URL
+   * @param options - Name, mode and style
+   * @param run - Progress callback and abort signal
+   */
+  async generate(
+    source: ThemeImageSource,
+    options: ThemePipelineOptions,
+    run: PipelineRunOptions = {}
+  ): Promise<ThemePipelineResult> {
+    const { onProgress, signal } = run;
+    const fallback = () => this.pipeline.fromImage(source.previewUrl, options, run);
+
+    signal?.throwIfAborted();
+
+    if (this.workerFailed || !ThemeWorkerClient.isSupported()) {
+      return fallback();
+    }
+
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(source.file);
+    } catch {
+      // Formats the browser cannot decode off-screen may still load in an <img>
+      return fallback();
+    }
+
+    if (signal?.aborted) {
+      bitmap.close();
+      throw signal.reason;
+    }
+
+    const worker = this.getWorker();
+    const id = ++this.nextId;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => this.abort(id, signal?.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const settle = () => signal?.removeEventListener('abort', onAbort);
+      this.pending.set(id, {
+        resolve: (result) => {
+          settle();
+          resolve(result);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+        onProgress,
+        fallback,
+      });
+
+      const request: ThemeWorkerRequest = { id, bitmap, options };
+      worker.postMessage(request, [bitmap]);
+    });
+  }
+
+  /**
+   * Stops the worker. Requests still running are rejected.
+   */
+  dispose(): void {
+    this.stopWorker();
+
+    const requests = [...this.pending.values()];
+    this.pending.clear();
+    for (const request of requests) {
+      request.reject(new Error('Theme generation was stopped'));
+    }
+  }
+
+  /**
+   * Rejects one request and stops the worker if nothing else needs it.
+   */
+  private abort(id: number, reason: unknown): void {
+    const request = this.pending.get(id);
+    if (!request) return;
+
+    this.pending.delete(id);
+    if (this.pending.size === 0) {
+      this.stopWorker();
+    }
+    request.reject(reason instanceof Error ? reason : new Error('Theme generation was cancelled'));
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = this.createWorker();
+      this.worker.onmessage = (event: MessageEvent<ThemeWorkerResponse>) =>
+        this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        // The worker script failed to load or crashed; stop using workers
+        event.preventDefault();
+        this.workerFailed = true;
+        this.stopWorker();
+        this.runPendingOnMainThread();
+      };
+    }
+    return this.worker;
+  }
+
+  private stopWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private handleMessage(message: ThemeWorkerResponse): void {
+    const request = this.pending.get(message.id);
+    if (!request) return;
+
+    switch (message.type) {
+      case 'progress':
+        request.onProgress?.(message.progress);
+        break;
+      case 'result':
+        this.pending.delete(message.id);
+        request.resolve(message.result);
+        break;
+      case 'error':
+        this.pending.delete(message.id);
+        request.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  private runPendingOnMainThread(): void {
+    const requests = [...this.pending.values()];
+    this.pending.clear();
+    for (const request of requests) {
+      request.fallback().then(request.resolve, request.reject);
+    }
+  }
+}
+
+export default ThemeWorkerClient;
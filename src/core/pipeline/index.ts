@@ -0,0 +1,18 @@
+export {
+  ThemePipeline,
+  AUTO_MODE_BRIGHTNESS_THRESHOLD,
+  getWallpaperBackdrops,
+  type ThemeModePreference,
+  type ThemePipelineOptions,
+  type ThemePipelineResult,
+  type PipelineProgress,
+  type PipelineRunOptions,
+} from './ThemePipeline';
+
+export {
+  ThemeWorkerClient,
+  type ThemeWorkerClientOptions,
+  type ThemeImageSource,
+  type ThemeWorkerRequest,
+  type ThemeWorkerResponse,
+} from './ThemeWorkerClient';
@@ -0,0 +1,46 @@
+/**
+ * Web Worker running the theme pipeline off the main thread.
+ *
+ * Receives a transferred ImageBitmap, draws it onto an OffscreenCanvas at
+ * the extraction size and runs ThemePipeline.fromPixels, posting a
+ * progress message as each step starts. See ThemeWorkerClient for the
+ * main-thread side.
+ */
+import { ThemePipeline } from './ThemePipeline';
+import type { ThemeWorkerRequest, ThemeWorkerResponse } from './ThemeWorkerClient';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<ThemeWorkerRequest>) => void) | null;
+  postMessage(message: ThemeWorkerResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const pipeline = new ThemePipeline();
+
+scope.onmessage = ({ data: { id, bitmap, options } }) => {
+  try {
+    const { width, height } = pipeline.getTargetSize(bitmap.width, bitmap.height);
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const result = pipeline.fromPixels(pixels, options, {
+      onProgress: (progress) => scope.postMessage({ id, type: 'progress', progress }),
+    });
+
+    scope.postMessage({ id, type: 'result', result });
+  } catch (err) {
+    scope.postMessage({
+      id,
+      type: 'error',
+      message: err instanceof Error ? err.message : 'Failed to process image',
+    });
+  }
+};
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  AndroidThemeExporter,
+  TelegramThemeBuilder,
+  hexToAndroidColor,
+  ANDROID_THEME_KEYS,
+  ANDROID_THEME_KEY_GROUPS,
+  THEME_PROPERTIES,
+  DEFAULT_LIGHT_THEME,
+} from './index';
+
+// Use FileReader since jsdom doesn't support blob.text()
+function readText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsText(blob);
+  });
+}
+
+describe('hexToAndroidColor', () => {
+  it('should convert opaque colours to signed ARGB integers', () => {
+    expect(hexToAndroidColor('#ffffff')).toBe(-1);
+    expect(hexToAndroidColor('000000')).toBe(-16777216);
+    expect(hexToAndroidColor('#ff0000')).toBe(-65536);
+  });
+
+  it('should move the desktop alpha byte to the front', () => {
+    // RRGGBBAA 00000000 -> ARGB 0x00000000
+    expect(hexToAndroidColor('#00000000')).toBe(0);
+    // 50% black -> 0x80000000
+    expect(hexToAndroidColor('00000080')).toBe(-2147483648);
+    // Translucent white -> 0x40ffffff
+    expect(hexToAndroidColor('ffffff40')).toBe(0x40ffffff);
+  });
+
+  it('should be case-insensitive', () => {
+    expect(hexToAndroidColor('#4A90D9')).toBe(hexToAndroidColor('#4a90d9'));
+  });
+});
+
+describe('ANDROID_THEME_KEYS', () => {
+  it('should only reference known desktop properties', () => {
+    const known = new Set(THEME_PROPERTIES.map((p) => p.key));
+    for (const { source } of ANDROID_THEME_KEYS) {
+      expect(known.has(source)).toBe(true);
+    }
+  });
+
+  it('should not contain duplicate Android keys', () => {
+    const keys = ANDROID_THEME_KEYS.map((m) => m.key);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('should be the flattened list of all groups', () => {
+    const grouped = Object.values(ANDROID_THEME_KEY_GROUPS).flat();
+    expect(ANDROID_THEME_KEYS).toEqual(grouped);
+  });
+});
+
+describe('AndroidThemeExporter', () => {
+  let exporter: AndroidThemeExporter;
+
+  beforeEach(() => {
+    exporter = new AndroidThemeExporter({ name: 'Sunset Beach' });
+  });
+
+  describe('mapProperties', () => {
+    it('should map every key for a complete palette', () => {
+      const mapped = exporter.mapProperties(DEFAULT_LIGHT_THEME);
+      expect(Object.keys(mapped)).toHaveLength(ANDROID_THEME_KEYS.length);
+    });
+
+    it('should take each value from its desktop source', () => {
+      const mapped = exporter.mapProperties({
+        windowBg: 'ffffff',
+        windowFg: '000000',
+      });
+
+      for (const { key, source } of ANDROID_THEME_KEYS) {
+        if (source === 'windowBg') expect(mapped[key]).toBe(-1);
+        else if (source === 'windowFg') expect(mapped[key]).toBe(-16777216);
+        else expect(mapped[key]).toBeUndefined();
+      }
+    });
+
+    it('should skip invalid colour values', () => {
+      const mapped = exporter.mapProperties({ windowBg: 'not-a-colour' });
+      expect(Object.keys(mapped)).toHaveLength(0);
+    });
+
+    it('should support custom mappings', () => {
+      const custom = new AndroidThemeExporter({}, [{ key: 'chat_wallpaper', source: 'windowBg' }]);
+      expect(custom.mapProperties({ windowBg: '#123456' })).toEqual({
+        chat_wallpaper: hexToAndroidColor('#123456'),
+      });
+    });
+  });
+
+  describe('generateContent', () => {
+    it('should produce sorted key=value lines', () => {
+      const content = exporter.generateContent(DEFAULT_LIGHT_THEME);
+      const lines = content.trim().split('\n');
+
+      expect(lines.every((line) => /^[A-Za-z0-9_]+=-?\d+$/.test(line))).toBe(true);
+      const keys = lines.map((line) => line.split('=')[0]);
+      expect([...keys].sort()).toEqual(keys);
+      expect(content.endsWith('\n')).toBe(true);
+    });
+
+    it('should export a generated theme', () => {
+      const builder = new TelegramThemeBuilder({ mode: 'dark' });
+      const theme = builder.buildTheme({
+        primary: '#5288c1',
+        primaryLight: '#6ba8e8',
+        primaryDark: '#3b6a9e',
+        accent: '#71bafa',
+        accentLight: '#8ecbff',
+        background: '#17212b',
+        backgroundSecondary: '#0e1621',
+        backgroundTertiary: '#242f3d',
+        textPrimary: '#f5f5f5',
+        textSecondary: '#aaaaaa',
+        textMuted: '#6d7883',
+        textOnPrimary: '#ffffff',
+        online: '#5dc452',
+        offline: '#6d7883',
+        color1: '#5288c1',
+        color2: '#71bafa',
+        color3: '#5dc452',
+        color4: '#f0a030',
+        color5: '#e47272',
+        color6: '#9b59b6',
+      });
+
+      const content = exporter.generateContent(theme.properties);
+      expect(content).toContain(`windowBackgroundWhite=${hexToAndroidColor(theme.properties.windowBg)}`);
+    });
+  });
+
+  describe('createThemeFile', () => {
+    beforeEach(() => {
+      vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation((callback, type) => {
+        callback(new Blob(['JPEGDATA'], { type }));
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should return the plain content without a wallpaper', async () => {
+      const blob = await exporter.createThemeFile('windowBackgroundWhite=-1\n');
+      expect(await readText(blob)).toBe('windowBackgroundWhite=-1\n');
+    });
+
+    it('should embed the wallpaper between WPS and WPE', async () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 10;
+      canvas.height = 10;
+
+      const blob = await exporter.createThemeFile(
+        'chat_wallpaper=-1\nwindowBackgroundWhite=-1\n',
+        canvas
+      );
+
+      expect(await readText(blob)).toBe('windowBackgroundWhite=-1\nWPS\nJPEGDATA\nWPE\n');
+      expect(HTMLCanvasElement.prototype.toBlob).toHaveBeenCalledWith(
+        expect.any(Function),
+        'image/jpeg',
+        0.85
+      );
+    });
+  });
+
+  describe('getFilename', () => {
+    it('should use the .attheme extension', () => {
+      expect(exporter.getFilename()).toBe('sunset-beach.attheme');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { ANDROID_THEME_KEYS } from './templates/android-keys';
+import type { AndroidKeyMapping } from './templates/android-keys';
+import { ThemePackager, type BackgroundSource } from '../packaging';
+
+export interface AndroidThemeExporterOptions {
+  /** Theme name, used for the filename */
+  name?: string;
+
+  /**
+   * Maximum width/height of the embedded wallpaper in pixels.
+   * @default 1920
+   */
+  maxWallpaperSize?: number;
+
+  /**
+   * JPEG quality (0-1) of the embedded wallpaper.
+   * @default 0.85
+   */
+  wallpaperQuality?: number;
+}
+
+/**
+ * Marker lines delimiting the embedded wallpaper in an .attheme file.
+ */
+export const ANDROID_WALLPAPER_START = 'WPS';
+export const ANDROID_WALLPAPER_END = 'WPE';
+
+/**
+ * Converts a desktop colour (RRGGBB or RRGGBBAA, with or without #)
+ * into the signed 32-bit ARGB integer used by .attheme files.
+ */
+export function hexToAndroidColor(hex: string): number {
+  const normalized = hex.replace(/^#/, '').toLowerCase();
+  const rgb = parseInt(normalized.slice(0, 6), 16);
+  const alpha = normalized.length === 8 ? parseInt(normalized.slice(6, 8), 16) : 0xff;
+
+  // `| 0` wraps the unsigned value into the signed range Android expects
+  return ((alpha << 24) | rgb) | 0;
+}
+
+/**
+ * AndroidThemeExporter converts a generated desktop palette into a
+ * Telegram for Android .attheme file.
+ *
+ * Each Android key takes its colour from the closest desktop property
+ * (see ANDROID_THEME_KEYS). Values are written as signed ARGB integers,
+ * and the wallpaper can be embedded as a JPEG between `WPS` and `WPE` lines.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new AndroidThemeExporter({ name: theme.name });
+ * const content = exporter.generateContent(theme.properties);
+ * const blob = await exporter.createThemeFile(content, imagePreviewUrl);
+ * ```
+ */
+export class AndroidThemeExporter {
+  private options: Required<AndroidThemeExporterOptions>;
+  private mappings: AndroidKeyMapping[];
+
+  constructor(
+    options: AndroidThemeExporterOptions = {},
+    mappings: AndroidKeyMapping[] = ANDROID_THEME_KEYS
+  ) {
+    this.options = {
+      name: options.name ?? 'Generated Theme',
+      maxWallpaperSize: options.maxWallpaperSize ?? 1920,
+      wallpaperQuality: options.wallpaperQuality ?? 0.85,
+    };
+    this.mappings = mappings;
+  }
+
+  /**
+   * Maps desktop properties onto Android keys.
+   * Keys whose desktop source is missing are skipped.
+   * @param properties - Desktop theme properties (hex without #)
+   * @returns Android key to signed ARGB integer
+   */
+  mapProperties(properties: Record<string, string>): Record<string, number> {
+    const result: Record<string, number> = {};
+
+    for (const { key, source } of this.mappings) {
+      const value = properties[source];
+      if (value && /^#?[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value)) {
+        result[key] = hexToAndroidColor(value);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Generates the text part of an .attheme file (`key=value` lines).
+   * @param properties - Desktop theme properties
+   */
+  generateContent(properties: Record<string, string>): string {
+    const mapped = this.mapProperties(properties);
+
+    return Object.keys(mapped)
+      .sort()
+      .map((key) => `${key}=${mapped[key]}`)
+      .join('\n') + '\n';
+  }
+
+  /**
+   * Creates an .attheme file as a Blob, optionally embedding a wallpaper.
+   * @param content - Output of generateContent
+   * @param wallpaper - Optional wallpaper image to embed as JPEG
+   */
+  async createThemeFile(content: string, wallpaper?: BackgroundSource): Promise<Blob> {
+    if (!wallpaper) {
+      return new Blob([content], { type: 'application/octet-stream' });
+    }
+
+    const packager = new ThemePackager({
+      maxBackgroundSize: this.options.maxWallpaperSize,
+      jpegQuality: this.options.wallpaperQuality,
+    });
+    // Android has no tiled wallpapers in .attheme; always embed a JPEG
+    const encoded = await packager.encodeBackground({ source: wallpaper, tiled: false });
+
+    // Drop the solid wallpaper colour so the embedded image is used
+    const text = content
+      .split('\n')
+      .filter((line) => !line.startsWith('chat_wallpaper='))
+      .join('\n');
+
+    return new Blob(
+      [
+        text.endsWith('\n') ? text : `${text}\n`,
+        `${ANDROID_WALLPAPER_START}\n`,
+        encoded.data,
+        `\n${ANDROID_WALLPAPER_END}\n`,
+      ],
+      { type: 'application/octet-stream' }
+    );
+  }
+
+  /**
+   * Generates a filename for the theme.
+   */
+  getFilename(): string {
+    const safeName = this.options.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    return `${safeName}.attheme`;
+  }
+}
+
+export default AndroidThemeExporter;
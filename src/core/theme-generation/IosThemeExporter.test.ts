@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IosThemeExporter, IOS_THEME_SECTIONS } from './index';
+import type { IosThemeSection, ThemeColors } from './index';
+import { hexToOklch } from '../color-space';
+
+const sampleColors: ThemeColors = {
+  primary: '#4a90d9',
+  primaryLight: '#6ba8e8',
+  primaryDark: '#3578c2',
+  accent: '#58b6ed',
+  accentLight: '#7fcdff',
+  background: '#ffffff',
+  backgroundSecondary: '#f7f7f7',
+  backgroundTertiary: '#eeeeee',
+  textPrimary: '#000000',
+  textSecondary: '#666666',
+  textMuted: '#999999',
+  textOnPrimary: '#ffffff',
+  online: '#5dc452',
+  offline: '#999999',
+  color1: '#4a90d9',
+  color2: '#58b6ed',
+  color3: '#5dc452',
+  color4: '#f0a030',
+  color5: '#e47272',
+  color6: '#9b59b6',
+};
+
+const KEYWORDS = new Set(['black', 'white', 'light', 'dark', 'day', 'night', 'true', 'false']);
+
+/**
+ * Minimal parser for the indented `key: value` format, used to check that
+ * the output is well-formed and round-trips to the same tree.
+ */
+function parse(content: string): IosThemeSection {
+  const root: IosThemeSection = {};
+  const stack: { depth: number; section: IosThemeSection }[] = [{ depth: -1, section: root }];
+  let expectChildAt: number | null = null;
+
+  for (const line of content.trimEnd().split('\n')) {
+    const match = /^((?: {2})*)([A-Za-z][A-Za-z0-9]*):(?: (.+))?$/.exec(line);
+    if (!match) {
+      throw new Error(`Malformed line: "${line}"`);
+    }
+
+    const depth = match[1].length / 2;
+    if (expectChildAt !== null && depth !== expectChildAt) {
+      throw new Error(`Empty section before "${line}"`);
+    }
+    while (stack[stack.length - 1].depth >= depth) {
+      stack.pop();
+    }
+    if (depth !== stack[stack.length - 1].depth + 1) {
+      throw new Error(`Unexpected indentation: "${line}"`);
+    }
+
+    const parent = stack[stack.length - 1].section;
+    if (match[2] in parent) {
+      throw new Error(`Duplicate key: "${match[2]}"`);
+    }
+
+    if (match[3] === undefined) {
+      const section: IosThemeSection = {};
+      parent[match[2]] = section;
+      stack.push({ depth, section });
+      expectChildAt = depth + 1;
+    } else {
+      const value = match[3];
+      parent[match[2]] = value === 'true' ? true : value === 'false' ? false : value;
+      expectChildAt = null;
+    }
+  }
+
+  return root;
+}
+
+function collectValues(section: IosThemeSection): string[] {
+  return Object.values(section).flatMap((value) => {
+    if (typeof value === 'object') return collectValues(value);
+    return [String(value)];
+  });
+}
+
+describe('IosThemeExporter', () => {
+  let exporter: IosThemeExporter;
+
+  beforeEach(() => {
+    exporter = new IosThemeExporter({ name: 'Sunset' });
+  });
+
+  describe('buildTheme', () => {
+    it('should contain every required section', () => {
+      const theme = exporter.buildTheme(sampleColors);
+
+      for (const section of IOS_THEME_SECTIONS) {
+        expect(theme[section]).toBeTypeOf('object');
+        expect(Object.keys(theme[section] as IosThemeSection).length).toBeGreaterThan(0);
+      }
+    });
+
+    it('should include name, base theme and dark flag', () => {
+      const light = exporter.buildTheme(sampleColors);
+      const dark = new IosThemeExporter({ mode: 'dark' }).buildTheme(sampleColors);
+
+      expect(light.name).toBe('Sunset');
+      expect(light.basedOn).toBe('day');
+      expect(light.dark).toBe(false);
+      expect(dark.basedOn).toBe('night');
+      expect(dark.dark).toBe(true);
+    });
+
+    it('should only contain colours or known keywords', () => {
+      const theme = exporter.buildTheme(sampleColors);
+      delete theme.name;
+
+      for (const value of collectValues(theme)) {
+        const valid = KEYWORDS.has(value) || /^([0-9a-f]{2})?[0-9a-f]{6}$/.test(value);
+        expect(valid, `unexpected value "${value}"`).toBe(true);
+      }
+    });
+
+    it('should take colours from the palette', () => {
+      const theme = exporter.buildTheme(sampleColors);
+      const rootController = theme.rootController as IosThemeSection;
+      const list = theme.list as IosThemeSection;
+      const chatList = theme.chatList as IosThemeSection;
+
+      expect((rootController.navBar as IosThemeSection).accentText).toBe('4a90d9');
+      expect(list.plainBg).toBe('ffffff');
+      expect(list.primaryText).toBe('000000');
+      expect(chatList.unreadBadgeActiveBg).toBe('4a90d9');
+      expect(chatList.onlineDot).toBe('5dc452');
+    });
+
+    it('should write translucent colours with alpha first', () => {
+      const theme = exporter.buildTheme(sampleColors);
+      const actionSheet = theme.actionSheet as IosThemeSection;
+
+      // 40% black -> 0x66 alpha
+      expect(actionSheet.dim).toBe('66000000');
+    });
+
+    it('should use light status bar and keyboard in dark mode', () => {
+      const theme = new IosThemeExporter({ mode: 'dark' }).buildTheme(sampleColors);
+      const rootController = theme.rootController as IosThemeSection;
+
+      expect((theme.intro as IosThemeSection).statusBar).toBe('white');
+      expect(rootController.keyboard).toBe('dark');
+    });
+
+    it('should mix tints in OKLab, keeping the hue', () => {
+      const theme = exporter.buildTheme(sampleColors);
+      const message = (theme.chat as IosThemeSection).message as IosThemeSection;
+      const bubble = (message.outgoing as IosThemeSection).bubble as IosThemeSection;
+      const tint = hexToOklch((bubble.withoutWp as IosThemeSection).bg as string);
+      const primary = hexToOklch(sampleColors.primary);
+
+      // 20% of the primary over white
+      expect(tint.l).toBeCloseTo(1 + (primary.l - 1) * 0.2, 2);
+      expect(Math.abs(tint.h - primary.h)).toBeLessThan(1);
+    });
+
+    it('should style incoming and outgoing messages', () => {
+      const theme = exporter.buildTheme(sampleColors);
+      const message = (theme.chat as IosThemeSection).message as IosThemeSection;
+
+      for (const direction of ['incoming', 'outgoing']) {
+        const style = message[direction] as IosThemeSection;
+        const bubble = style.bubble as IosThemeSection;
+        expect(bubble.withWp).toBeTypeOf('object');
+        expect(bubble.withoutWp).toBeTypeOf('object');
+        expect(style.primaryText).toBeTypeOf('string');
+      }
+    });
+  });
+
+  describe('generateContent', () => {
+    it('should produce well-formed content', () => {
+      const content = exporter.generateContent(sampleColors);
+
+      expect(() => parse(content)).not.toThrow();
+      expect(content.endsWith('\n')).toBe(true);
+      expect(content).not.toMatch(/\t/);
+    });
+
+    it('should round-trip to the built theme', () => {
+      for (const mode of ['light', 'dark'] as const) {
+        const modeExporter = new IosThemeExporter({ mode, name: 'Sunset' });
+        expect(parse(modeExporter.generateContent(sampleColors))).toEqual(
+          modeExporter.buildTheme(sampleColors)
+        );
+      }
+    });
+
+    it('should start with the theme header and list sections at the top level', () => {
+      const lines = exporter.generateContent(sampleColors).split('\n');
+      const topLevel = lines.filter((line) => /^[A-Za-z]/.test(line)).map((line) => line.split(':')[0]);
+
+      expect(topLevel.slice(0, 3)).toEqual(['name', 'basedOn', 'dark']);
+      expect(topLevel.slice(3)).toEqual([...IOS_THEME_SECTIONS]);
+    });
+  });
+
+  describe('serialize', () => {
+    it('should indent nested sections by two spaces', () => {
+      expect(exporter.serialize({ a: { b: { c: 'ffffff' } }, d: true })).toBe(
+        'a:\n  b:\n    c: ffffff\nd: true\n'
+      );
+    });
+  });
+
+  describe('createThemeFile', () => {
+    it('should create a text Blob', () => {
+      const blob = exporter.createThemeFile('name: Test\n');
+      expect(blob.type).toBe('text/plain;charset=utf-8');
+    });
+  });
+
+  describe('getFilename', () => {
+    it('should use the .tgios-theme extension', () => {
+      expect(exporter.getFilename()).toBe('sunset.tgios-theme');
+    });
+  });
+});
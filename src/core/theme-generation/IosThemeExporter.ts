@@ -0,0 +1,548 @@
+import type { ThemeColors } from './templates/base-theme';
+import type { ThemeMode } from './TelegramThemeBuilder';
+import { srgbToOklab, oklabToSrgb } from '../color-space';
+
+export interface IosThemeExporterOptions {
+  mode?: ThemeMode;
+  name?: string;
+}
+
+/**
+ * A value in a .tgios-theme file: a colour/keyword, a flag or a nested section.
+ */
+export type IosThemeValue = string | boolean | IosThemeSection;
+
+export interface IosThemeSection {
+  [key: string]: IosThemeValue;
+}
+
+/**
+ * Top-level sections Telegram for iOS requires in a theme file.
+ */
+export const IOS_THEME_SECTIONS = [
+  'intro',
+  'passcode',
+  'rootController',
+  'list',
+  'chatList',
+  'chat',
+  'actionSheet',
+  'contextMenu',
+  'notification',
+] as const;
+
+export type IosThemeSectionName = (typeof IOS_THEME_SECTIONS)[number];
+
+/**
+ * IosThemeExporter builds a Telegram for iOS .tgios-theme file from the
+ * same ThemeColors used for the desktop theme.
+ *
+ * The format is a YAML-like tree: `key: value` lines, nested sections
+ * indented by two spaces. Colours are written as `rrggbb`, or `aarrggbb`
+ * when translucent.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new IosThemeExporter({ mode: 'dark', name: theme.name });
+ * const content = exporter.generateContent(theme.colors);
+ * ```
+ */
+export class IosThemeExporter {
+  private options: Required<IosThemeExporterOptions>;
+
+  constructor(options: IosThemeExporterOptions = {}) {
+    this.options = {
+      mode: options.mode ?? 'light',
+      name: options.name ?? 'Generated Theme',
+    };
+  }
+
+  /**
+   * Builds the theme tree from extracted colours.
+   * @param colors - Theme colours
+   * @returns Root section, with name/basedOn/dark followed by IOS_THEME_SECTIONS
+   */
+  buildTheme(colors: ThemeColors): IosThemeSection {
+    const dark = this.options.mode === 'dark';
+
+    const primary = this.normalizeColor(colors.primary);
+    const accent = this.normalizeColor(colors.accent);
+    const background = this.normalizeColor(colors.background);
+    const backgroundSecondary = this.normalizeColor(colors.backgroundSecondary);
+    const backgroundTertiary = this.normalizeColor(colors.backgroundTertiary);
+    const textPrimary = this.normalizeColor(colors.textPrimary);
+    const textSecondary = this.normalizeColor(colors.textSecondary);
+    const textMuted = this.normalizeColor(colors.textMuted);
+    const textOnPrimary = this.normalizeColor(colors.textOnPrimary);
+    const online = this.normalizeColor(colors.online);
+    const destructive = this.getErrorColor();
+
+    const statusBar = dark ? 'white' : 'black';
+    const separator = this.mixColors(backgroundSecondary, textMuted, 0.25);
+    const highlighted = this.mixColors(background, textPrimary, 0.08);
+    const outgoingBubble = dark ? this.normalizeColor(colors.primaryDark) : this.mixColors(background, primary, 0.2);
+    const incomingBubble = dark ? backgroundTertiary : background;
+    const outgoingAccent = dark ? textOnPrimary : this.normalizeColor(colors.primaryDark);
+    const outgoingSecondary = dark ? this.mixColors(outgoingBubble, textOnPrimary, 0.6) : this.mixColors(outgoingBubble, outgoingAccent, 0.7);
+
+    const bubble = (bg: string): IosThemeSection => ({
+      withWp: {
+        bg,
+        highlightedBg: this.mixColors(bg, textPrimary, 0.1),
+        stroke: bg,
+      },
+      withoutWp: {
+        bg,
+        highlightedBg: this.mixColors(bg, textPrimary, 0.1),
+        stroke: bg,
+      },
+    });
+
+    const messageStyle = (
+      bg: string,
+      text: string,
+      secondary: string,
+      accentColor: string
+    ): IosThemeSection => ({
+      bubble: bubble(bg),
+      primaryText: text,
+      secondaryText: secondary,
+      linkText: accentColor,
+      linkHighlight: this.withAlpha(accentColor, 0.3),
+      scam: destructive,
+      textHighlight: this.withAlpha(accentColor, 0.25),
+      accentText: accentColor,
+      accentControl: accentColor,
+      mediaActiveControl: accentColor,
+      mediaInactiveControl: this.withAlpha(accentColor, 0.4),
+      pendingActivity: secondary,
+      fileTitle: accentColor,
+      fileDescription: secondary,
+      fileDuration: secondary,
+      mediaPlaceholder: this.mixColors(bg, text, 0.1),
+      polls: {
+        radioButton: secondary,
+        radioProgress: accentColor,
+        highlight: this.withAlpha(accentColor, 0.12),
+        separator: this.withAlpha(secondary, 0.3),
+        bar: accentColor,
+      },
+      actionButtonsBg: {
+        withWp: this.withAlpha('000000', 0.2),
+        withoutWp: this.withAlpha(accentColor, 0.2),
+      },
+      actionButtonsStroke: {
+        withWp: '00000000',
+        withoutWp: accentColor,
+      },
+      actionButtonsText: {
+        withWp: 'ffffff',
+        withoutWp: accentColor,
+      },
+      textSelection: this.withAlpha(accentColor, 0.2),
+      textSelectionKnob: accentColor,
+    });
+
+    return {
+      name: this.options.name,
+      basedOn: dark ? 'night' : 'day',
+      dark,
+      intro: {
+        statusBar,
+        primaryText: textPrimary,
+        accentText: primary,
+        disabledText: textMuted,
+        startButton: primary,
+        dot: textMuted,
+      },
+      passcode: {
+        bg: {
+          top: this.normalizeColor(colors.primaryDark),
+          bottom: primary,
+        },
+        button: this.withAlpha('ffffff', 0.2),
+      },
+      rootController: {
+        statusBar,
+        tabBar: {
+          background: backgroundSecondary,
+          separator,
+          icon: textMuted,
+          selectedIcon: primary,
+          text: textMuted,
+          selectedText: primary,
+          badgeBackground: destructive,
+          badgeStroke: destructive,
+          badgeText: 'ffffff',
+        },
+        navBar: {
+          button: primary,
+          disabledButton: textMuted,
+          primaryText: textPrimary,
+          secondaryText: textSecondary,
+          control: textMuted,
+          accentText: primary,
+          background: backgroundSecondary,
+          separator,
+          badgeFill: destructive,
+          badgeStroke: destructive,
+          badgeText: 'ffffff',
+        },
+        searchBar: {
+          background,
+          accent: primary,
+          inputFill: backgroundTertiary,
+          inputText: textPrimary,
+          inputPlaceholderText: textMuted,
+          inputIcon: textMuted,
+          inputClearButton: textMuted,
+          separator,
+        },
+        keyboard: dark ? 'dark' : 'light',
+      },
+      list: {
+        blocksBg: backgroundSecondary,
+        plainBg: background,
+        primaryText: textPrimary,
+        secondaryText: textSecondary,
+        disabledText: textMuted,
+        accent: primary,
+        highlightedText: accent,
+        destructive,
+        placeholderText: textMuted,
+        itemBlocksBg: background,
+        itemHighlightedBg: highlighted,
+        blocksSeparator: separator,
+        plainSeparator: separator,
+        disclosureArrow: textMuted,
+        sectionHeaderText: textSecondary,
+        freeText: textSecondary,
+        freeTextError: destructive,
+        freeTextSuccess: online,
+        freeMonoIcon: textMuted,
+        switch: {
+          frame: separator,
+          handle: 'ffffff',
+          content: online,
+          positive: online,
+          negative: destructive,
+        },
+        check: {
+          bg: primary,
+          stroke: textMuted,
+          fg: textOnPrimary,
+        },
+        controlSecondary: textMuted,
+        freeInputField: {
+          bg: backgroundTertiary,
+          stroke: separator,
+          placeholder: textMuted,
+          primary: textPrimary,
+          control: textMuted,
+        },
+        mediaPlaceholder: backgroundTertiary,
+        scrollIndicator: this.withAlpha(textPrimary, 0.3),
+        pageIndicatorInactive: textMuted,
+        inputClearButton: textMuted,
+      },
+      chatList: {
+        bg: background,
+        itemSeparator: separator,
+        itemBg: background,
+        pinnedItemBg: backgroundSecondary,
+        itemHighlightedBg: highlighted,
+        itemSelectedBg: highlighted,
+        title: textPrimary,
+        secretTitle: online,
+        dateText: textMuted,
+        authorName: textPrimary,
+        messageText: textSecondary,
+        messageDraftText: destructive,
+        checkmark: online,
+        pendingIndicator: textMuted,
+        failedFill: destructive,
+        failedForeground: 'ffffff',
+        muteIcon: textMuted,
+        unreadBadgeActiveBg: primary,
+        unreadBadgeActiveText: textOnPrimary,
+        unreadBadgeInactiveBg: textMuted,
+        unreadBadgeInactiveText: background,
+        pinnedBadge: textMuted,
+        pinnedSearchBar: backgroundTertiary,
+        regularSearchBar: backgroundTertiary,
+        sectionHeaderBg: backgroundSecondary,
+        sectionHeaderText: textSecondary,
+        verifiedIconBg: primary,
+        verifiedIconFg: textOnPrimary,
+        secretIcon: online,
+        onlineDot: online,
+      },
+      chat: {
+        defaultWallpaper: backgroundSecondary,
+        message: {
+          incoming: messageStyle(incomingBubble, textPrimary, textMuted, primary),
+          outgoing: messageStyle(outgoingBubble, textPrimary, outgoingSecondary, outgoingAccent),
+          freeform: bubble(incomingBubble),
+          infoPrimaryText: textPrimary,
+          infoLinkText: accent,
+          outgoingCheck: outgoingAccent,
+          mediaDateAndStatusBg: this.withAlpha('000000', 0.4),
+          mediaDateAndStatusText: 'ffffff',
+          shareButtonBg: this.withAlpha(backgroundSecondary, 0.8),
+          shareButtonStroke: separator,
+          shareButtonFg: primary,
+          mediaOverlayControl: {
+            fill: this.withAlpha('000000', 0.6),
+            foreground: 'ffffff',
+          },
+          selectionControl: {
+            border: textMuted,
+            fill: primary,
+            foreground: textOnPrimary,
+          },
+          deliveryFailedBg: destructive,
+          deliveryFailedFg: 'ffffff',
+          mediaHighlightOverlay: this.withAlpha('ffffff', 0.6),
+        },
+        serviceMessage: {
+          components: {
+            withDefaultWp: {
+              bg: this.withAlpha(this.mixColors(backgroundSecondary, textPrimary, 0.3), 0.5),
+              primaryText: 'ffffff',
+              linkHighlight: this.withAlpha(primary, 0.3),
+              scam: destructive,
+              dateFillStatic: this.withAlpha(this.mixColors(backgroundSecondary, textPrimary, 0.3), 0.5),
+              dateFillFloating: this.withAlpha(this.mixColors(backgroundSecondary, textPrimary, 0.3), 0.5),
+            },
+            withCustomWp: {
+              bg: this.withAlpha('000000', 0.25),
+              primaryText: 'ffffff',
+              linkHighlight: this.withAlpha('ffffff', 0.3),
+              scam: destructive,
+              dateFillStatic: this.withAlpha('000000', 0.25),
+              dateFillFloating: this.withAlpha('000000', 0.25),
+            },
+          },
+          unreadBarBg: backgroundSecondary,
+          unreadBarStroke: separator,
+          unreadBarText: textSecondary,
+          dateText: {
+            withWp: 'ffffff',
+            withoutWp: textSecondary,
+          },
+        },
+        inputPanel: {
+          panelBg: backgroundSecondary,
+          panelSeparator: separator,
+          panelControlAccent: primary,
+          panelControl: textMuted,
+          panelControlDisabled: this.withAlpha(textMuted, 0.5),
+          panelControlDestructive: destructive,
+          inputBg: background,
+          inputStroke: separator,
+          inputPlaceholder: textMuted,
+          inputText: textPrimary,
+          inputControl: textMuted,
+          actionControlFg: textOnPrimary,
+          actionControlBg: primary,
+          primaryTextColor: textPrimary,
+          secondaryTextColor: textSecondary,
+          mediaRecordingDot: destructive,
+          mediaRecordingControl: {
+            button: primary,
+            micLevel: this.withAlpha(primary, 0.2),
+            activeIcon: textOnPrimary,
+          },
+        },
+        inputMediaPanel: {
+          panelSeparator: separator,
+          panelIcon: textMuted,
+          panelHighlightedIconBg: this.withAlpha(textMuted, 0.2),
+          panelHighlightedIcon: textSecondary,
+          panelContentVibrantOverlay: this.withAlpha(textMuted, 0.6),
+          panelContentControlVibrantOverlay: this.withAlpha(textMuted, 0.4),
+          stickersBg: backgroundSecondary,
+          stickersSectionText: textMuted,
+          stickersSearchBg: backgroundTertiary,
+          stickersSearchPlaceholder: textMuted,
+          stickersSearchPrimary: textPrimary,
+          stickersSearchControl: textMuted,
+          gifsBg: backgroundSecondary,
+        },
+        inputButtonPanel: {
+          panelBg: backgroundSecondary,
+          panelSeparator: separator,
+          buttonBg: background,
+          buttonHighlightedBg: highlighted,
+          buttonStroke: separator,
+          buttonHighlightedStroke: separator,
+          buttonText: textPrimary,
+        },
+        historyNavigation: {
+          bg: backgroundSecondary,
+          stroke: separator,
+          foreground: textMuted,
+          badgeBg: primary,
+          badgeStroke: primary,
+          badgeText: textOnPrimary,
+        },
+      },
+      actionSheet: {
+        dim: this.withAlpha('000000', dark ? 0.5 : 0.4),
+        backgroundType: dark ? 'dark' : 'light',
+        opaqueItemBg: background,
+        itemBg: this.withAlpha(background, 0.87),
+        opaqueItemHighlightedBg: highlighted,
+        itemHighlightedBg: this.withAlpha(highlighted, 0.7),
+        opaqueItemSeparator: separator,
+        standardActionText: primary,
+        destructiveActionText: destructive,
+        disabledActionText: textMuted,
+        primaryText: textPrimary,
+        secondaryText: textSecondary,
+        controlAccent: primary,
+        inputBg: backgroundTertiary,
+        inputHollowBg: background,
+        inputBorder: separator,
+        inputPlaceholder: textMuted,
+        inputText: textPrimary,
+        inputClearButton: textMuted,
+        checkContent: textOnPrimary,
+      },
+      contextMenu: {
+        dim: this.withAlpha('000000', 0.4),
+        background: this.withAlpha(backgroundSecondary, 0.9),
+        itemSeparator: separator,
+        sectionSeparator: this.withAlpha('000000', 0.2),
+        itemBg: '00000000',
+        itemHighlightedBg: this.withAlpha(textPrimary, 0.15),
+        primary: textPrimary,
+        secondary: textSecondary,
+        destructive,
+        badgeFill: primary,
+        badgeForeground: textOnPrimary,
+        badgeInactiveFill: textMuted,
+        badgeInactiveForeground: background,
+        extractedTint: this.withAlpha(backgroundSecondary, 0.5),
+      },
+      notification: {
+        bg: backgroundSecondary,
+        primaryText: textPrimary,
+        expanded: {
+          bgType: dark ? 'dark' : 'light',
+          navBar: {
+            background: backgroundSecondary,
+            primaryText: textPrimary,
+            control: textMuted,
+            separator,
+          },
+        },
+      },
+    };
+  }
+
+  /**
+   * Generates .tgios-theme content from extracted colours.
+   * @param colors - Theme colours
+   */
+  generateContent(colors: ThemeColors): string {
+    return this.serialize(this.buildTheme(colors));
+  }
+
+  /**
+   * Serializes a theme tree to the .tgios-theme text format.
+   * @param section - Theme tree, e.g. from buildTheme
+   */
+  serialize(section: IosThemeSection): string {
+    return this.serializeSection(section, 0).join('\n') + '\n';
+  }
+
+  /**
+   * Creates a downloadable theme file.
+   */
+  createThemeFile(content: string): Blob {
+    return new Blob([content], { type: 'text/plain;charset=utf-8' });
+  }
+
+  /**
+   * Generates a filename for the theme.
+   */
+  getFilename(): string {
+    const safeName = this.options.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    return `${safeName}.tgios-theme`;
+  }
+
+  /**
+   * Serializes one level of the tree, recursing into nested sections.
+   */
+  private serializeSection(section: IosThemeSection, depth: number): string[] {
+    const indent = '  '.repeat(depth);
+    const lines: string[] = [];
+
+    for (const [key, value] of Object.entries(section)) {
+      if (typeof value === 'object') {
+        lines.push(`${indent}${key}:`);
+        lines.push(...this.serializeSection(value, depth + 1));
+      } else {
+        lines.push(`${indent}${key}: ${value}`);
+      }
+    }
+
+    return lines;
+  }
+
+  // === Color Utility Methods ===
+
+  /**
+   * Normalizes a color to lowercase rrggbb without #.
+   */
+  private normalizeColor(color: string): string {
+    return color.replace(/^#/, '').toLowerCase().slice(0, 6);
+  }
+
+  /**
+   * Writes a colour with opacity in iOS `aarrggbb` order.
+   */
+  private withAlpha(color: string, alpha: number): string {
+    const a = Math.round(Math.min(1, Math.max(0, alpha)) * 255);
+    return a.toString(16).padStart(2, '0') + this.normalizeColor(color);
+  }
+
+  /**
+   * Mixes two colours in OKLab, the space the palette deriver shades the
+   * desktop and Android colours in; amount 0 returns `from`, 1 returns `to`.
+   */
+  private mixColors(from: string, to: string, amount: number): string {
+    const a = srgbToOklab(this.hexToRgb(from));
+    const b = srgbToOklab(this.hexToRgb(to));
+    const mixed = oklabToSrgb({
+      l: a.l + (b.l - a.l) * amount,
+      a: a.a + (b.a - a.a) * amount,
+      b: a.b + (b.b - a.b) * amount,
+    });
+
+    return mixed
+      .map((c) => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Converts hex color to RGB array.
+   */
+  private hexToRgb(hex: string): [number, number, number] {
+    const bigint = parseInt(this.normalizeColor(hex), 16);
+    return [(bigint >> 16) & 255, (bigint >> 8) & 255, bigint & 255];
+  }
+
+  /**
+   * Gets a suitable error/danger color.
+   */
+  private getErrorColor(): string {
+    return this.options.mode === 'dark' ? 'e48383' : 'dd4b39';
+  }
+}
+
+export default IosThemeExporter;
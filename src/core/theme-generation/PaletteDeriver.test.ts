@@ -0,0 +1,307 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PaletteDeriver,
+  PALETTE_STRATEGIES,
+  THEME_STYLE_PRESETS,
+  adjustBrightness,
+  type PaletteStrategy,
+} from './index';
+import type { ExtractedColor } from '../color-extraction';
+import { hexToOklch, scaleChroma } from '../color-space';
+
+function color(hex: string, vibrancy: number, brightness: number, population = 0.25): ExtractedColor {
+  const num = parseInt(hex.slice(1), 16);
+  return {
+    hex,
+    rgb: [(num >> 16) & 255, (num >> 8) & 255, num & 255],
+    vibrancy,
+    brightness,
+    population,
+  };
+}
+
+// By coverage: navy, teal, orange, grey
+const extracted: ExtractedColor[] = [
+  color('#9e9e9e', 0.1, 158, 0.1),
+  color('#f4a261', 0.9, 180, 0.2),
+  color('#2a9d8f', 0.7, 120, 0.3),
+  color('#1a2a5a', 0.5, 40, 0.4),
+];
+
+const HEX = /^#[0-9a-f]{6}$/;
+
+function channels(hex: string): [number, number, number] {
+  const num = parseInt(hex.slice(1), 16);
+  return [(num >> 16) & 255, (num >> 8) & 255, num & 255];
+}
+
+describe('PaletteDeriver', () => {
+  describe('constructor', () => {
+    it('should default to light mode and the vibrant strategy', () => {
+      const colors = new PaletteDeriver().derive(extracted);
+      expect(colors.background).toBe('#ffffff');
+      expect(colors.primary).toBe('#f4a261');
+    });
+
+    it('should throw for an unknown strategy name', () => {
+      expect(() => new PaletteDeriver({ strategy: 'neon' as never })).toThrow(
+        'Unknown palette strategy: neon'
+      );
+    });
+  });
+
+  describe('derive', () => {
+    it('should fill every ThemeColors slot with a hex colour', () => {
+      for (const mode of ['light', 'dark'] as const) {
+        const colors = new PaletteDeriver({ mode }).derive(extracted);
+        for (const value of Object.values(colors)) {
+          expect(value).toMatch(HEX);
+        }
+      }
+    });
+
+    it('should map ranked colours onto primary, accent and color1-4', () => {
+      const colors = new PaletteDeriver().derive(extracted);
+      expect(colors.primary).toBe('#f4a261');
+      expect(colors.accent).toBe('#2a9d8f');
+      expect([colors.color1, colors.color2, colors.color3, colors.color4]).toEqual([
+        '#f4a261',
+        '#2a9d8f',
+        '#1a2a5a',
+        '#9e9e9e',
+      ]);
+    });
+
+    it('should fill missing slots from derived colours', () => {
+      const colors = new PaletteDeriver().derive(extracted.slice(0, 2));
+      expect(colors.color3).toBe(colors.primaryLight);
+      expect(colors.color4).toBe(colors.accentLight);
+      expect(colors.color5).toBe(colors.backgroundSecondary);
+      expect(colors.color6).toBe(colors.backgroundTertiary);
+    });
+
+    it('should fall back to Telegram blue and green without colours', () => {
+      const colors = new PaletteDeriver().derive([]);
+      expect(colors.primary).toBe('#40a7e3');
+      expect(colors.accent).toBe('#5dc452');
+    });
+
+    it('should not mutate the input', () => {
+      const input = [...extracted];
+      new PaletteDeriver().derive(input);
+      expect(input).toEqual(extracted);
+    });
+
+    it('should use neutral surfaces in light mode', () => {
+      const colors = new PaletteDeriver({ mode: 'light' }).derive(extracted);
+      expect(colors.background).toBe('#ffffff');
+      expect(colors.backgroundSecondary).toBe('#f5f5f5');
+      expect(colors.textPrimary).toBe('#000000');
+    });
+
+    it('should tint dark surfaces from the darkest colour', () => {
+      const colors = new PaletteDeriver({ mode: 'dark' }).derive(extracted);
+      const [r, g, b] = channels(colors.background);
+
+      // Navy is the darkest colour, so the background is a deep blue
+      expect(b).toBeGreaterThan(r);
+      expect(b).toBeGreaterThan(g);
+      expect(r + g + b).toBeLessThan(3 * 64);
+      expect(colors.textPrimary).toBe('#ffffff');
+    });
+
+    it('should order dark surfaces from darkest to lightest', () => {
+      const colors = new PaletteDeriver({ mode: 'dark' }).derive(extracted);
+      const sum = (hex: string) => channels(hex).reduce((a, c) => a + c, 0);
+
+      expect(sum(colors.background)).toBeLessThan(sum(colors.backgroundSecondary));
+      expect(sum(colors.backgroundSecondary)).toBeLessThan(sum(colors.backgroundTertiary));
+      expect(sum(colors.textMuted)).toBeLessThan(sum(colors.textSecondary));
+    });
+
+    it('should use grey dark surfaces for greyscale images', () => {
+      const colors = new PaletteDeriver({ mode: 'dark' }).derive([color('#333333', 0, 51)]);
+      const [r, g, b] = channels(colors.background);
+      expect(r).toBe(g);
+      expect(g).toBe(b);
+    });
+
+    it('should lighten and darken the primary variants', () => {
+      const colors = new PaletteDeriver().derive(extracted);
+      expect(colors.primaryLight).toBe(adjustBrightness(colors.primary, 20));
+      expect(colors.primaryDark).toBe(adjustBrightness(colors.primary, -20));
+    });
+  });
+
+  describe('strategies', () => {
+    it('should rank specks after larger colours with the vibrant strategy', () => {
+      const speck = color('#ff00aa', 1, 120, 0.01);
+      const colors = new PaletteDeriver().derive([speck, ...extracted]);
+      expect(colors.primary).toBe('#f4a261');
+      expect(colors.color5).toBe('#ff00aa');
+    });
+
+    it('should still use specks when nothing else is left', () => {
+      const colors = new PaletteDeriver().derive([color('#ff00aa', 1, 120, 0.01)]);
+      expect(colors.primary).toBe('#ff00aa');
+    });
+
+    it('should put the largest colours first with the dominant strategy', () => {
+      const colors = new PaletteDeriver({ strategy: 'dominant' }).derive(extracted);
+      expect(colors.primary).toBe('#1a2a5a');
+      expect(colors.accent).toBe('#2a9d8f');
+    });
+
+    it('should put the least saturated colours first with the muted strategy', () => {
+      const colors = new PaletteDeriver({ strategy: 'muted' }).derive(extracted);
+      expect(colors.primary).toBe('#9e9e9e');
+      expect(colors.accent).toBe('#1a2a5a');
+    });
+
+    it('should accept a custom strategy', () => {
+      const brightest: PaletteStrategy = {
+        name: 'brightest',
+        rank: (colors) => [...colors].sort((a, b) => b.brightness - a.brightness),
+      };
+      const colors = new PaletteDeriver({ strategy: brightest }).derive(extracted);
+      expect(colors.primary).toBe('#f4a261');
+      expect(colors.accent).toBe('#9e9e9e');
+    });
+
+    it('should expose the built-in strategies by name', () => {
+      expect(Object.keys(PALETTE_STRATEGIES)).toEqual(['vibrant', 'dominant', 'muted']);
+      for (const [name, strategy] of Object.entries(PALETTE_STRATEGIES)) {
+        expect(strategy.name).toBe(name);
+      }
+    });
+  });
+
+  describe('roles', () => {
+    it('should put a pinned primary first and keep the ranking after it', () => {
+      const colors = new PaletteDeriver().derive(extracted, { primary: '#1a2a5a' });
+      expect(colors.primary).toBe('#1a2a5a');
+      expect(colors.accent).toBe('#f4a261');
+      expect([colors.color1, colors.color2, colors.color3, colors.color4]).toEqual([
+        '#1a2a5a',
+        '#f4a261',
+        '#2a9d8f',
+        '#9e9e9e',
+      ]);
+    });
+
+    it('should put a pinned accent second', () => {
+      const colors = new PaletteDeriver().derive(extracted, { accent: '#9e9e9e' });
+      expect(colors.primary).toBe('#f4a261');
+      expect(colors.accent).toBe('#9e9e9e');
+      expect(colors.color3).toBe('#2a9d8f');
+    });
+
+    it('should accept pinned colours that were not extracted', () => {
+      const colors = new PaletteDeriver().derive(extracted, { primary: '#FF0000', accent: null });
+      expect(colors.primary).toBe('#ff0000');
+      expect(colors.accent).toBe('#f4a261');
+    });
+
+    it('should use slot overrides exactly and derive variants from them', () => {
+      const colors = new PaletteDeriver({ style: 'muted' }).derive(extracted, {
+        primary: '#1a2a5a',
+        overrides: { primary: '#e63946', background: '#fdf0d5' },
+      });
+
+      expect(colors.primary).toBe('#e63946');
+      expect(colors.background).toBe('#fdf0d5');
+      expect(colors.primaryLight).toBe(adjustBrightness('#e63946', 20));
+    });
+
+    it('should still shape pinned colours with the style', () => {
+      const colors = new PaletteDeriver({ style: 'muted' }).derive(extracted, { primary: '#f4a261' });
+      expect(hexToOklch(colors.primary).c).toBeLessThan(hexToOklch('#f4a261').c);
+    });
+  });
+});
+
+describe('PaletteDeriver styles', () => {
+  const chroma = (hex: string) => hexToOklch(hex).c;
+
+  it('should throw for an unknown style', () => {
+    expect(() => new PaletteDeriver({ style: 'neon' as never })).toThrow('Unknown theme style: neon');
+  });
+
+  it('should default to the vibrant style', () => {
+    expect(new PaletteDeriver().derive(extracted)).toEqual(
+      new PaletteDeriver({ style: 'vibrant' }).derive(extracted)
+    );
+  });
+
+  it('should use the strategy of the preset unless one is given', () => {
+    expect(new PaletteDeriver({ style: 'muted' }).derive(extracted).primary).not.toBe('#f4a261');
+    expect(
+      new PaletteDeriver({ style: 'muted', strategy: 'vibrant' }).derive(extracted).primary
+    ).toBe(scaleChroma('#f4a261', THEME_STYLE_PRESETS.muted.chroma));
+  });
+
+  it('should desaturate primary and accent in the muted style', () => {
+    const vibrant = new PaletteDeriver({ strategy: 'dominant' }).derive(extracted);
+    const muted = new PaletteDeriver({ style: 'muted' }).derive(extracted);
+    expect(chroma(muted.primary)).toBeLessThan(chroma(vibrant.primary));
+    expect(chroma(muted.accent)).toBeLessThan(chroma(vibrant.accent));
+  });
+
+  it('should lighten and soften colours in the pastel style', () => {
+    const colors = new PaletteDeriver({ style: 'pastel' }).derive(extracted);
+    expect(hexToOklch(colors.primary).l).toBeGreaterThanOrEqual(0.77);
+    expect(hexToOklch(colors.accent).l).toBeGreaterThanOrEqual(0.77);
+    expect(chroma(colors.primary)).toBeLessThan(chroma('#f4a261'));
+  });
+
+  it('should tint light surfaces towards the primary in the pastel style', () => {
+    const colors = new PaletteDeriver({ style: 'pastel' }).derive(extracted);
+    expect(colors.background).not.toBe('#ffffff');
+    expect(chroma(colors.background)).toBeGreaterThan(0.005);
+  });
+
+  it('should keep the whole palette on one hue in the monochrome style', () => {
+    const colors = new PaletteDeriver({ style: 'monochrome' }).derive(extracted);
+    const hue = hexToOklch(colors.primary).h;
+    for (const key of ['accent', 'color2', 'color3', 'color4', 'color5', 'color6'] as const) {
+      expect(Math.abs(hexToOklch(colors[key]).h - hue)).toBeLessThan(5);
+    }
+    expect(colors.accent).not.toBe(colors.primary);
+  });
+
+  it('should use near-neutral dark surfaces in the high-contrast style', () => {
+    const vibrant = new PaletteDeriver({ mode: 'dark' }).derive(extracted);
+    const strong = new PaletteDeriver({ mode: 'dark', style: 'high-contrast' }).derive(extracted);
+    expect(chroma(strong.background)).toBeLessThan(chroma(vibrant.background));
+    expect(THEME_STYLE_PRESETS['high-contrast'].contrastRatio).toBe(7);
+  });
+
+  it('should give every preset a label and description', () => {
+    for (const preset of Object.values(THEME_STYLE_PRESETS)) {
+      expect(preset.label).toBeTruthy();
+      expect(preset.description).toBeTruthy();
+    }
+  });
+});
+
+describe('adjustBrightness', () => {
+  it('should shift perceptual lightness by a percentage', () => {
+    expect(hexToOklch(adjustBrightness('#808080', 20)).l).toBeCloseTo(hexToOklch('#808080').l + 0.2, 2);
+    expect(hexToOklch(adjustBrightness('#808080', -20)).l).toBeCloseTo(hexToOklch('#808080').l - 0.2, 2);
+  });
+
+  it('should keep the hue of saturated colours', () => {
+    const blue = hexToOklch('#2255ee');
+    expect(hexToOklch(adjustBrightness('#2255ee', 15)).h).toBeCloseTo(blue.h, 0);
+    expect(hexToOklch(adjustBrightness('#2255ee', -15)).h).toBeCloseTo(blue.h, 0);
+  });
+
+  it('should clamp to the valid range', () => {
+    expect(adjustBrightness('#f0f0f0', 50)).toBe('#ffffff');
+    expect(adjustBrightness('#101010', -50)).toBe('#000000');
+  });
+
+  it('should keep the # style of the input', () => {
+    expect(adjustBrightness('808080', 0)).toBe('808080');
+  });
+});
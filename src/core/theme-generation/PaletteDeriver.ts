@@ -0,0 +1,239 @@
+import type { ExtractedColor } from '../color-extraction';
+import { adjustLightness, hexToOklch, oklchToHex, setLightness, transformColor } from '../color-space';
+import type { ThemeMode } from './TelegramThemeBuilder';
+import type { ThemeColors } from './templates/base-theme';
+import { THEME_STYLE_PRESETS, type ThemeStyle, type ThemeStylePreset } from './templates/style-presets';
+
+/**
+ * Decides which extracted colours matter most. The first ranked colour
+ * becomes the primary, the second the accent, and the first six fill
+ * color1-color6.
+ */
+export interface PaletteStrategy {
+  /** Strategy name, for display and debugging */
+  name: string;
+
+  /**
+   * Orders the extracted colours by preference. Must not mutate the input.
+   */
+  rank(colors: ExtractedColor[]): ExtractedColor[];
+}
+
+/**
+ * Colours the user pinned to a role, by hex. A pinned colour takes that
+ * place in the ranking whatever the strategy says; the style still shapes it.
+ */
+export interface PaletteRoles {
+  primary?: string | null;
+  accent?: string | null;
+  /**
+   * Exact colours for ThemeColors slots, used as given. Primary and accent
+   * overrides also drive their light and dark variants.
+   */
+  overrides?: Partial<ThemeColors>;
+}
+
+export type PaletteStrategyName = 'vibrant' | 'dominant' | 'muted';
+
+/**
+ * Colours covering less of the image than this are specks: the vibrant and
+ * muted strategies rank them after every larger colour.
+ */
+export const MIN_SWATCH_POPULATION = 0.02;
+
+const isSpeck = (color: ExtractedColor) => color.population < MIN_SWATCH_POPULATION;
+
+/**
+ * Built-in strategies:
+ * - `vibrant` puts the most saturated colours first
+ * - `dominant` puts the colours covering most of the image first
+ * - `muted` puts the least saturated colours first, for calmer themes
+ */
+export const PALETTE_STRATEGIES: Record<PaletteStrategyName, PaletteStrategy> = {
+  vibrant: {
+    name: 'vibrant',
+    rank: (colors) =>
+      [...colors].sort((a, b) => Number(isSpeck(a)) - Number(isSpeck(b)) || b.vibrancy - a.vibrancy),
+  },
+  dominant: {
+    name: 'dominant',
+    rank: (colors) => [...colors].sort((a, b) => b.population - a.population),
+  },
+  muted: {
+    name: 'muted',
+    rank: (colors) =>
+      [...colors].sort((a, b) => Number(isSpeck(a)) - Number(isSpeck(b)) || a.vibrancy - b.vibrancy),
+  },
+};
+
+export interface PaletteDeriverOptions {
+  /**
+   * Theme mode the colours are derived for.
+   * @default 'light'
+   */
+  mode?: ThemeMode;
+
+  /**
+   * Generation style preset (see THEME_STYLE_PRESETS).
+   * @default 'vibrant'
+   */
+  style?: ThemeStyle;
+
+  /**
+   * Ranking strategy, by name or as a custom implementation.
+   * Overrides the strategy of the style preset.
+   */
+  strategy?: PaletteStrategyName | PaletteStrategy;
+}
+
+const FALLBACK_PRIMARY = '#40a7e3';
+const FALLBACK_ACCENT = '#5dc452';
+
+/**
+ * PaletteDeriver turns colours extracted from an image into the
+ * ThemeColors consumed by TelegramThemeBuilder.
+ *
+ * Light themes use white and grey surfaces. Dark surfaces and secondary
+ * text take their hue from the darkest extracted colour, so a night-sky
+ * photo gets deep blue panels and a forest gets deep green ones. The style
+ * preset decides how colourful the primary, accent and surfaces are.
+ *
+ * @example
+ * ```typescript
+ * const deriver = new PaletteDeriver({ mode: 'dark', strategy: 'dominant' });
+ * const colors = deriver.derive(await extractor.getDominantColors(url));
+ * const theme = new TelegramThemeBuilder({ mode: 'dark' }).buildTheme(colors);
+ * ```
+ */
+export class PaletteDeriver {
+  private mode: ThemeMode;
+  private preset: ThemeStylePreset;
+  private strategy: PaletteStrategy;
+
+  constructor(options: PaletteDeriverOptions = {}) {
+    const style = options.style ?? 'vibrant';
+
+    this.mode = options.mode ?? 'light';
+    this.preset = THEME_STYLE_PRESETS[style];
+
+    if (!this.preset) {
+      throw new Error(`Unknown theme style: ${String(style)}`);
+    }
+
+    const strategy = options.strategy ?? this.preset.strategy;
+    this.strategy = typeof strategy === 'string' ? PALETTE_STRATEGIES[strategy] : strategy;
+
+    if (!this.strategy) {
+      throw new Error(`Unknown palette strategy: ${String(strategy)}`);
+    }
+  }
+
+  /**
+   * Derives theme colours from extracted colours.
+   * @param colors - Colours from ColorExtractor; may be empty
+   * @param roles - Colours pinned as primary or accent, and slot overrides.
+   *   Monochrome derives the accent from the primary, so a pinned accent has
+   *   no effect there; an accent override still does.
+   */
+  derive(colors: ExtractedColor[], roles: PaletteRoles = {}): ThemeColors {
+    const { chroma, minLightness, monochrome, surfaceChroma, lightSurfaceChroma } = this.preset;
+    const isLightMode = this.mode === 'light';
+
+    const shape = (hex: string) =>
+      transformColor(hex, (color) => ({
+        l: isLightMode && minLightness ? Math.max(color.l, minLightness) : color.l,
+        c: color.c * chroma,
+        h: color.h,
+      }));
+    let swatches = pinRoles(
+      this.strategy.rank(colors).map((color) => color.hex),
+      roles
+    ).map((hex) => hex && shape(hex));
+
+    const overrides = roles.overrides ?? {};
+    const primary = overrides.primary || swatches[0] || FALLBACK_PRIMARY;
+    if (monochrome) {
+      // Shades of the primary from dark to light after the primary itself
+      swatches = [primary, ...[0.4, 0.55, 0.7, 0.85].map((l) => setLightness(primary, l))];
+      swatches.splice(1, 0, adjustLightness(primary, isLightMode ? -0.12 : 0.12));
+    }
+    const accent = overrides.accent || swatches[1] || FALLBACK_ACCENT;
+
+    const darkest = [...colors].sort((a, b) => a.brightness - b.brightness)[0];
+    const surface = darkest ? hexToOklch(darkest.hex) : { l: 0, c: 0.03, h: 250 };
+    const tint = (lightness: number, maxChroma: number) =>
+      oklchToHex({ l: lightness, c: Math.min(surface.c, maxChroma), h: surface.h });
+
+    // Light surfaces lean towards the primary hue when the style asks for it
+    const primaryHue = hexToOklch(primary).h;
+    const lightSurface = (neutral: string, lightness: number) =>
+      lightSurfaceChroma > 0
+        ? oklchToHex({ l: lightness, c: lightSurfaceChroma, h: primaryHue })
+        : neutral;
+
+    const background = isLightMode ? lightSurface('#ffffff', 0.99) : tint(0.24, surfaceChroma);
+    const backgroundSecondary = isLightMode
+      ? lightSurface('#f5f5f5', 0.965)
+      : tint(0.28, surfaceChroma);
+    const backgroundTertiary = isLightMode
+      ? lightSurface('#eeeeee', 0.945)
+      : tint(0.33, surfaceChroma * 0.875);
+
+    const textPrimary = isLightMode ? '#000000' : '#ffffff';
+    const textSecondary = isLightMode ? '#707070' : tint(0.72, surfaceChroma * 0.75);
+    const textMuted = isLightMode ? '#a0a0a0' : tint(0.56, surfaceChroma * 0.75);
+
+    const primaryLight = adjustBrightness(primary, isLightMode ? 20 : 10);
+    const primaryDark = adjustBrightness(primary, isLightMode ? -20 : -10);
+    const accentLight = adjustBrightness(accent, 15);
+
+    return {
+      primary,
+      primaryLight,
+      primaryDark,
+      accent,
+      accentLight,
+      background,
+      backgroundSecondary,
+      backgroundTertiary,
+      textPrimary,
+      textSecondary,
+      textMuted,
+      textOnPrimary: '#ffffff',
+      online: '#4fae4e',
+      offline: '#8b9aab',
+      color1: swatches[0] || primary,
+      color2: swatches[1] || accent,
+      color3: swatches[2] || primaryLight,
+      color4: swatches[3] || accentLight,
+      color5: swatches[4] || backgroundSecondary,
+      color6: swatches[5] || backgroundTertiary,
+      ...overrides,
+    };
+  }
+}
+
+/**
+ * Moves pinned colours to the front of a ranking: the primary first, the
+ * accent second. Unpinned places keep the ranking's order.
+ */
+function pinRoles(ranked: string[], { primary, accent }: PaletteRoles): (string | undefined)[] {
+  const isPinned = (hex: string) =>
+    [primary, accent].some((pinned) => pinned?.toLowerCase() === hex.toLowerCase());
+  const rest = ranked.filter((hex) => !isPinned(hex));
+
+  const first = primary ?? rest.shift();
+  const second = accent ?? rest.shift();
+  return first === undefined && second === undefined ? rest : [first, second, ...rest];
+}
+
+/**
+ * Lightens (positive) or darkens (negative) a colour by shifting its OKLCH
+ * lightness, keeping hue and chroma where the sRGB gamut allows.
+ * @param percent - Lightness change in percent (-100 to 100)
+ */
+export function adjustBrightness(hex: string, percent: number): string {
+  return adjustLightness(hex, percent / 100);
+}
+
+export default PaletteDeriver;
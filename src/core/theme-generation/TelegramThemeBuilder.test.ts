@@ -96,6 +96,13 @@ describe('TelegramThemeBuilder', () => {
       expect(theme).toHaveProperty('validation');
     });
 
+    it('should throw the abort reason for an aborted signal', () => {
+      const controller = new AbortController();
+      controller.abort(new Error('cancelled'));
+
+      expect(() => builder.buildTheme(sampleColors, { signal: controller.signal })).toThrow('cancelled');
+    });
+
     it('should generate valid theme content string', () => {
       const theme = builder.buildTheme(sampleColors);
 
@@ -311,25 +318,38 @@ describe('TelegramThemeBuilder', () => {
   });
 
   describe('theme content format', () => {
-    it('should format properties as key: #value;', () => {
+    it('should format properties as key: #value; or key: otherKey;', () => {
       const theme = builder.buildTheme(sampleColors);
       const lines = theme.content.split('\n').filter((l) => !l.startsWith('//') && l.trim());
 
       for (const line of lines) {
         // Property names can contain letters and numbers (e.g., msgFile1Bg)
+        expect(line).toMatch(/^[a-zA-Z][a-zA-Z0-9]*: (#[0-9a-f]+|[a-zA-Z][a-zA-Z0-9]*);$/i);
+      }
+    });
+
+    it('should only write literal colours when flattened', () => {
+      const flatBuilder = new TelegramThemeBuilder({ flatten: true });
+      const theme = flatBuilder.buildTheme(sampleColors);
+      const lines = theme.content.split('\n').filter((l) => !l.startsWith('//') && l.trim());
+
+      expect(theme.references).toEqual({});
+      expect(lines).toHaveLength(Object.keys(theme.properties).length);
+      for (const line of lines) {
         expect(line).toMatch(/^[a-zA-Z][a-zA-Z0-9]*: #[0-9a-f]+;$/i);
       }
     });
 
-    it('should sort properties alphabetically', () => {
+    it('should sort literals and references alphabetically', () => {
       const theme = builder.buildTheme(sampleColors);
       const lines = theme.content
         .split('\n')
         .filter((l) => !l.startsWith('//') && l.includes(':'));
-      const keys = lines.map((l) => l.split(':')[0]);
+      const literalKeys = lines.filter((l) => l.includes('#')).map((l) => l.split(':')[0]);
+      const referenceKeys = lines.filter((l) => !l.includes('#')).map((l) => l.split(':')[0]);
 
-      const sortedKeys = [...keys].sort();
-      expect(keys).toEqual(sortedKeys);
+      expect(literalKeys).toEqual([...literalKeys].sort());
+      expect(referenceKeys).toEqual([...referenceKeys].sort());
     });
 
     it('should include header comments', () => {
@@ -341,6 +361,123 @@ describe('TelegramThemeBuilder', () => {
     });
   });
 
+  describe('property references', () => {
+    it('should reference the first property that received a colour', () => {
+      const theme = builder.buildTheme(sampleColors);
+
+      expect(theme.references.menuBgRipple).toBe('windowBgRipple');
+      expect(theme.references.sliderBgInactive).toBe('windowBgRipple');
+      expect(theme.references.dialogsBg).toBe('windowBg');
+      expect(theme.content).toContain('menuBgRipple: windowBgRipple;');
+    });
+
+    it('should keep resolved values in properties', () => {
+      const theme = builder.buildTheme(sampleColors);
+
+      expect(theme.properties.menuBgRipple).toBe(theme.properties.windowBgRipple);
+      for (const [key, target] of Object.entries(theme.references)) {
+        expect(theme.properties[key]).toBe(theme.properties[target]);
+      }
+    });
+
+    it('should only reference literal colours', () => {
+      const theme = builder.buildTheme(sampleColors);
+      const targets = Object.values(theme.references);
+
+      for (const target of targets) {
+        expect(theme.references[target]).toBeUndefined();
+      }
+    });
+
+    it('should write targets before the references to them', () => {
+      const theme = builder.buildTheme(sampleColors);
+      const lines = theme.content.split('\n');
+
+      for (const [key, target] of Object.entries(theme.references)) {
+        expect(lines.indexOf(`${target}: #${theme.properties[target]};`)).toBeLessThan(
+          lines.indexOf(`${key}: ${target};`)
+        );
+      }
+    });
+
+    it('should not link properties that only share a value', () => {
+      // textOnPrimary and background are both white in sampleColors
+      const theme = builder.buildTheme(sampleColors);
+
+      expect(theme.properties.windowFgActive).toBe(theme.properties.windowBg);
+      expect(theme.references.windowFgActive).toBeUndefined();
+      expect(theme.references.activeButtonFg).toBe('windowFgActive');
+    });
+
+    it('should write a reference as a literal once its value changes', () => {
+      const theme = builder.buildTheme(sampleColors);
+      const properties = { ...theme.properties, menuBgRipple: '123456' };
+      const content = builder.generateThemeContent(properties, theme.references);
+
+      expect(content).toContain('menuBgRipple: #123456;');
+      expect(content).toContain('sliderBgInactive: windowBgRipple;');
+    });
+  });
+
+  describe('applyPropertyEdits', () => {
+    it('should update properties and content', () => {
+      const theme = builder.buildTheme(sampleColors);
+      const edited = builder.applyPropertyEdits(theme, { windowFg: '112233', msgInBg: 'ffeeddcc' });
+
+      expect(edited.properties.windowFg).toBe('112233');
+      expect(edited.properties.msgInBg).toBe('ffeeddcc');
+      expect(edited.content).toContain('windowFg: #112233;');
+      expect(edited.content).toContain('msgInBg: #ffeeddcc;');
+      expect(edited.colors).toBe(theme.colors);
+    });
+
+    it("should keep the theme's name and mode in the header", () => {
+      const theme = new TelegramThemeBuilder({ name: 'Sunset', mode: 'dark' }).buildTheme(sampleColors);
+      const edited = new TelegramThemeBuilder().applyPropertyEdits(theme, { windowFg: '112233' });
+
+      expect(edited.content.split('\n').slice(0, 3)).toEqual(theme.content.split('\n').slice(0, 3));
+      expect(edited.content).toContain('// Sunset');
+      expect(edited.content).toContain('// Mode: dark');
+      expect(edited.content).not.toContain('// Mode: light');
+    });
+
+    it('should not change the original theme', () => {
+      const theme = builder.buildTheme(sampleColors);
+      const before = theme.properties.windowFg;
+
+      builder.applyPropertyEdits(theme, { windowFg: '112233' });
+
+      expect(theme.properties.windowFg).toBe(before);
+    });
+
+    it('should let references follow an edited target', () => {
+      const theme = builder.buildTheme(sampleColors);
+      const edited = builder.applyPropertyEdits(theme, { windowBgRipple: 'abcdef' });
+
+      expect(edited.properties.menuBgRipple).toBe('abcdef');
+      expect(edited.content).toContain('windowBgRipple: #abcdef;');
+      expect(edited.content).toContain('menuBgRipple: windowBgRipple;');
+    });
+
+    it('should keep an edited reference as a literal', () => {
+      const theme = builder.buildTheme(sampleColors);
+      const edited = builder.applyPropertyEdits(theme, {
+        windowBgRipple: 'abcdef',
+        menuBgRipple: '123456',
+      });
+
+      expect(edited.content).toContain('menuBgRipple: #123456;');
+      expect(edited.properties.sliderBgInactive).toBe('abcdef');
+    });
+
+    it('should validate the edited properties', () => {
+      const theme = builder.buildTheme(sampleColors);
+      const edited = builder.applyPropertyEdits(theme, { windowBg: 'not-a-colour' });
+
+      expect(edited.validation.valid).toBe(false);
+    });
+  });
+
   describe('semantic color mapping', () => {
     it('should map online color to read markers', () => {
       const theme = builder.buildTheme(sampleColors);
@@ -5,6 +5,9 @@ import {
 import type { ThemeColors } from './templates/base-theme';
 import { ThemeValidator } from './ThemeValidator';
 import type { ValidationResult as AdvancedValidationResult, ValidatorOptions } from './ThemeValidator';
+import { ThemePackager, type ThemeBackground } from '../packaging';
+import { lighten, darken } from '../color-space';
+import type { ImageRegion } from '../color-extraction';
 
 export type ThemeMode = 'light' | 'dark';
 
@@ -12,10 +15,42 @@ export interface ThemeBuilderOptions {
   mode?: ThemeMode;
   name?: string;
   author?: string;
+  /**
+   * Write every property as a literal colour instead of emitting
+   * `key: otherKey;` references for properties that copy another one.
+   * @default false
+   */
+  flatten?: boolean;
   /** Options passed to the internal ThemeValidator */
   validatorOptions?: ValidatorOptions;
 }
 
+/**
+ * Every ThemeColors slot, used to probe which properties copy a slot unchanged.
+ */
+const THEME_COLOR_KEYS: (keyof ThemeColors)[] = [
+  'primary',
+  'primaryLight',
+  'primaryDark',
+  'accent',
+  'accentLight',
+  'background',
+  'backgroundSecondary',
+  'backgroundTertiary',
+  'textPrimary',
+  'textSecondary',
+  'textMuted',
+  'textOnPrimary',
+  'online',
+  'offline',
+  'color1',
+  'color2',
+  'color3',
+  'color4',
+  'color5',
+  'color6',
+];
+
 /**
  * Simple validation result for backward compatibility.
  * For advanced validation, use ThemeValidator directly.
@@ -31,9 +66,18 @@ export interface GeneratedTheme {
   name: string;
   content: string;
   properties: Record<string, string>;
+  /**
+   * Properties written as `key: otherKey;` in the content, mapped to the
+   * property they copy. Targets are always literal colours.
+   */
+  references: Record<string, string>;
+  /** The colours the theme was built from, for exporters to other clients */
+  colors: ThemeColors;
   validation: ValidationResult;
   /** Advanced validation result with detailed issues */
   advancedValidation?: AdvancedValidationResult;
+  /** Image regions the colours were weighted towards, to regenerate the same theme */
+  focusRegions?: ImageRegion[];
 }
 
 /**
@@ -44,26 +88,35 @@ export class TelegramThemeBuilder {
   private options: Required<Omit<ThemeBuilderOptions, 'validatorOptions'>>;
   private baseTheme: Record<string, string>;
   private validator: ThemeValidator;
+  private references: Record<string, string>;
 
   constructor(options: ThemeBuilderOptions = {}) {
     this.options = {
       mode: options.mode ?? 'light',
       name: options.name ?? 'Generated Theme',
       author: options.author ?? 'Telegram Theme Generator',
+      flatten: options.flatten ?? false,
     };
 
     this.baseTheme =
       this.options.mode === 'dark' ? { ...DEFAULT_DARK_THEME } : { ...DEFAULT_LIGHT_THEME };
 
-    this.validator = new ThemeValidator(options.validatorOptions);
+    // The validator checks brightness against the mode being built
+    this.validator = new ThemeValidator({ mode: this.options.mode, ...options.validatorOptions });
+
+    this.references = this.options.flatten ? {} : this.collectReferences();
   }
 
   /**
    * Builds a complete Telegram theme from extracted colors.
    * @param colors - The colors extracted from an image
+   * @param options - `signal` aborts the build between steps, throwing its reason
    * @returns GeneratedTheme object with content and validation
    */
-  buildTheme(colors: ThemeColors): GeneratedTheme {
+  buildTheme(colors: ThemeColors, options: { signal?: AbortSignal } = {}): GeneratedTheme {
+    const { signal } = options;
+    signal?.throwIfAborted();
+
     // Map colors to semantic properties
     const mappedProperties = this.mapColorsToProperties(colors);
 
@@ -73,8 +126,10 @@ export class TelegramThemeBuilder {
       ...mappedProperties,
     };
 
-    // Generate theme content
-    const content = this.generateThemeContent(finalProperties);
+    // Generate theme content, keeping copies of a root colour as references
+    const references = { ...this.references };
+    const content = this.generateThemeContent(finalProperties, references);
+    signal?.throwIfAborted();
 
     // Validate the theme
     const advancedValidation = this.validator.validate(finalProperties);
@@ -84,6 +139,8 @@ export class TelegramThemeBuilder {
       name: this.options.name,
       content,
       properties: finalProperties,
+      references,
+      colors,
       validation,
       advancedValidation,
     };
@@ -420,26 +477,133 @@ export class TelegramThemeBuilder {
 
   /**
    * Generates the .tdesktop-theme file content.
+   * Also used to write palettes for themes converted from other formats.
+   *
+   * Literal colours come first, then references, because Telegram resolves
+   * a reference to the value its target has at that point in the file.
+   * A reference whose value no longer matches its target (e.g. after an
+   * edit) is written as a literal instead.
+   *
+   * @param properties - Theme properties (hex without #)
+   * @param references - Property to the property it copies
+   * @param header - Comment lines to start with; defaults to this builder's
+   *   name, author and mode
    */
-  private generateThemeContent(properties: Record<string, string>): string {
-    const lines: string[] = [
+  generateThemeContent(
+    properties: Record<string, string>,
+    references: Record<string, string> = {},
+    header: string[] = [
       `// ${this.options.name}`,
       `// Generated by ${this.options.author}`,
       `// Mode: ${this.options.mode}`,
-      '',
-    ];
+    ]
+  ): string {
+    const lines: string[] = [...header, ''];
+
+    const isReference = (key: string): boolean => {
+      const target = references[key];
+      return (
+        target !== undefined &&
+        !(target in references) &&
+        properties[target] !== undefined &&
+        properties[target] === properties[key]
+      );
+    };
 
     // Sort properties alphabetically for consistency
     const sortedKeys = Object.keys(properties).sort();
+    const referenceKeys = sortedKeys.filter(isReference);
 
     for (const key of sortedKeys) {
-      const value = properties[key];
-      lines.push(`${key}: #${value};`);
+      if (!isReference(key)) {
+        lines.push(`${key}: #${properties[key]};`);
+      }
+    }
+
+    if (referenceKeys.length > 0) {
+      lines.push('');
+      for (const key of referenceKeys) {
+        lines.push(`${key}: ${references[key]};`);
+      }
     }
 
     return lines.join('\n');
   }
 
+  /**
+   * Finds properties that copy a theme colour unchanged and links each one
+   * to the first property that received the same colour.
+   *
+   * The mapping is run with a distinct placeholder per colour, so properties
+   * that only happen to share a value in a real palette are never linked.
+   */
+  private collectReferences(): Record<string, string> {
+    const placeholders = {} as ThemeColors;
+    THEME_COLOR_KEYS.forEach((key, index) => {
+      // Shared red/blue channels stop lightened or darkened placeholders matching another one
+      placeholders[key] = `#80${(0x10 + index * 9).toString(16).padStart(2, '0')}90`;
+    });
+    const placeholderValues = new Set(
+      Object.values(placeholders).map((color) => this.normalizeColor(color))
+    );
+
+    const roots = new Map<string, string>();
+    const references: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(this.mapColorsToProperties(placeholders))) {
+      const root = roots.get(value);
+      if (root) {
+        references[key] = root;
+      } else if (placeholderValues.has(value)) {
+        roots.set(value, key);
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Applies per-property edits to a theme, regenerating its content and
+   * validation. Properties written as references follow an edited target
+   * unless they are edited themselves, as they would in Telegram. The
+   * theme's own header comments (name, author, mode) are kept.
+   * @param theme - Theme as generated or imported, without edits
+   * @param edits - Property to its new value (RRGGBB or RRGGBBAA, without #)
+   */
+  applyPropertyEdits(theme: GeneratedTheme, edits: Record<string, string>): GeneratedTheme {
+    const properties = { ...theme.properties, ...edits };
+
+    for (const [key, target] of Object.entries(theme.references)) {
+      if (!(key in edits) && target in edits) {
+        properties[key] = properties[target];
+      }
+    }
+
+    const advancedValidation = this.validator.validate(properties);
+
+    return {
+      ...theme,
+      content: this.generateThemeContent(
+        properties,
+        theme.references,
+        this.readHeader(theme.content)
+      ),
+      properties,
+      validation: this.convertToSimpleValidation(advancedValidation),
+      advancedValidation,
+    };
+  }
+
+  /**
+   * The leading comment lines of theme content, or undefined when it has none.
+   */
+  private readHeader(content: string): string[] | undefined {
+    const lines = content.split('\n');
+    const end = lines.findIndex((line) => !line.startsWith('//'));
+    const header = lines.slice(0, end === -1 ? lines.length : end);
+    return header.length > 0 ? header : undefined;
+  }
+
   /**
    * Validates the generated theme properties.
    * Uses the internal ThemeValidator for comprehensive validation.
@@ -494,6 +658,14 @@ export class TelegramThemeBuilder {
     return new Blob([theme.content], { type: 'application/octet-stream' });
   }
 
+  /**
+   * Creates a zipped .tdesktop-theme package with the palette and,
+   * optionally, the wallpaper re-encoded as background.jpg or tiled.png.
+   */
+  createThemePackage(theme: GeneratedTheme, background?: ThemeBackground): Promise<Blob> {
+    return new ThemePackager().createPackage(theme.content, background);
+  }
+
   /**
    * Creates a download URL for the theme file.
    */
@@ -535,58 +707,17 @@ export class TelegramThemeBuilder {
   }
 
   /**
-   * Lightens a color by a percentage.
+   * Lightens a color by a percentage of its OKLCH distance to white.
    */
   private lightenColor(color: string, amount: number): string {
-    const normalized = this.normalizeColor(color);
-    const rgb = this.hexToRgb(normalized);
-    
-    const lightened = rgb.map((c) => {
-      const newValue = Math.round(c + (255 - c) * amount);
-      return Math.min(255, Math.max(0, newValue));
-    });
-
-    return this.rgbToHex(lightened as [number, number, number]);
+    return lighten(this.normalizeColor(color).slice(0, 6), amount);
   }
 
   /**
-   * Darkens a color by a percentage.
+   * Darkens a color by a percentage of its OKLCH lightness.
    */
   private darkenColor(color: string, amount: number): string {
-    const normalized = this.normalizeColor(color);
-    const rgb = this.hexToRgb(normalized);
-    
-    const darkened = rgb.map((c) => {
-      const newValue = Math.round(c * (1 - amount));
-      return Math.min(255, Math.max(0, newValue));
-    });
-
-    return this.rgbToHex(darkened as [number, number, number]);
-  }
-
-  /**
-   * Converts hex color to RGB array.
-   */
-  private hexToRgb(hex: string): [number, number, number] {
-    const normalized = hex.replace(/^#/, '').slice(0, 6);
-    const bigint = parseInt(normalized, 16);
-    return [
-      (bigint >> 16) & 255,
-      (bigint >> 8) & 255,
-      bigint & 255,
-    ];
-  }
-
-  /**
-   * Converts RGB array to hex string.
-   */
-  private rgbToHex(rgb: [number, number, number]): string {
-    return rgb
-      .map((c) => {
-        const hex = Math.round(c).toString(16);
-        return hex.length === 1 ? '0' + hex : hex;
-      })
-      .join('');
+    return darken(this.normalizeColor(color).slice(0, 6), amount);
   }
 
   /**
@@ -345,6 +345,122 @@ describe('ThemeValidator', () => {
     });
   });
 
+  describe('validateColorContrast', () => {
+    const contrastValidator = new ThemeValidator({ checkContrast: true });
+    const contrastIssues = (properties: Record<string, string>, v = contrastValidator) =>
+      v.validate(properties).warnings.filter((w) => w.code === 'COLOR_CONTRAST');
+
+    it('should not check contrast by default', () => {
+      const result = validator.validate({ ...DEFAULT_LIGHT_THEME, windowFg: 'eeeeee' });
+      expect(result.warnings.some((w) => w.code === 'COLOR_CONTRAST')).toBe(false);
+    });
+
+    it('should report a low-contrast pair with its ratio, target and a fix', () => {
+      const issues = contrastIssues({ ...DEFAULT_LIGHT_THEME, windowFg: 'bbbbbb' });
+      const issue = issues.find((i) => i.property === 'windowFg');
+
+      expect(issue).toBeDefined();
+      expect(issue?.severity).toBe('warning');
+      expect(issue?.ratio).toBeLessThan(2);
+      expect(issue?.targetRatio).toBe(4.5);
+      expect(issue?.message).toContain('windowFg on windowBg');
+      expect(issue?.message).toContain('below 4.5:1');
+      expect(issue?.suggestion).toMatch(/^Use windowFg: #[0-9a-f]{6};/);
+    });
+
+    it('should suggest a colour that passes when checked again', () => {
+      const properties = { ...DEFAULT_LIGHT_THEME, historyTextInFg: 'a0c4ff' };
+      const issue = contrastIssues(properties).find((i) => i.property === 'historyTextInFg');
+      const fixed = issue?.suggestion?.match(/#([0-9a-f]{6})/)?.[1] as string;
+
+      const recheck = contrastIssues({ ...properties, historyTextInFg: fixed });
+      expect(recheck.some((i) => i.property === 'historyTextInFg')).toBe(false);
+    });
+
+    it('should check hover, active and selected states', () => {
+      const issues = contrastIssues({
+        ...DEFAULT_LIGHT_THEME,
+        dialogsNameFgOver: DEFAULT_LIGHT_THEME.dialogsBgOver,
+        dialogsTextFgActive: DEFAULT_LIGHT_THEME.dialogsBgActive,
+        historyTextOutFgSelected: DEFAULT_LIGHT_THEME.msgOutBgSelected,
+      });
+      const properties = issues.map((i) => i.property);
+
+      expect(properties).toContain('dialogsNameFgOver');
+      expect(properties).toContain('dialogsTextFgActive');
+      expect(properties).toContain('historyTextOutFgSelected');
+    });
+
+    it('should keep the alpha of a translucent foreground in the fix', () => {
+      const issue = contrastIssues({ ...DEFAULT_LIGHT_THEME, windowFg: 'cccccc80' }).find(
+        (i) => i.property === 'windowFg'
+      );
+      expect(issue?.suggestion).toMatch(/#[0-9a-f]{6}80;/);
+    });
+
+    it('should check translucent backgrounds over their backdrop property', () => {
+      const properties = {
+        ...DEFAULT_LIGHT_THEME,
+        stickerPanDeleteFg: '000000',
+        stickerPanDeleteBg: 'ffffff33',
+      };
+      const deleteIssue = (emojiPanBg: string) =>
+        contrastIssues({ ...properties, emojiPanBg }).find((i) => i.property === 'stickerPanDeleteFg');
+
+      expect(deleteIssue('ffffff')).toBeUndefined();
+      expect(deleteIssue('000000')?.ratio).toBeLessThan(2);
+    });
+
+    it('should check service messages over the wallpaper colours', () => {
+      const serviceIssue = (v: ThemeValidator) =>
+        contrastIssues(DEFAULT_LIGHT_THEME, v).find((i) =>
+          i.message.startsWith('Service message text:')
+        );
+      const over = (wallpaperColors: string[]) =>
+        new ThemeValidator({ checkContrast: true, wallpaperColors });
+
+      const opaque = serviceIssue(contrastValidator);
+      expect(opaque).toBeDefined();
+      expect(serviceIssue(over(['#000000']))).toBeUndefined();
+      expect(serviceIssue(over(['#000000', '#ffffff']))?.ratio).toBeLessThan(opaque?.ratio as number);
+    });
+
+    it('should check against AAA when asked', () => {
+      const aaa = new ThemeValidator({ checkContrast: true, contrastLevel: 'AAA' });
+      // 767676 meets AA only on white, so every background windowFg sits on is white
+      const properties = {
+        ...DEFAULT_LIGHT_THEME,
+        windowFg: '767676',
+        windowBgOver: 'ffffff',
+        menuBg: 'ffffff',
+      };
+
+      expect(contrastIssues(properties).some((i) => i.property === 'windowFg')).toBe(false);
+      const issue = contrastIssues(properties, aaa).find((i) => i.property === 'windowFg');
+      expect(issue?.targetRatio).toBe(7);
+    });
+
+    it('should hold each pair to the APCA target of its role', () => {
+      const apca = new ThemeValidator({ checkContrast: true, contrastModel: 'apca' });
+      const properties = { ...DEFAULT_LIGHT_THEME, windowBg: '17212b', msgInBg: '17212b', msgInDateFg: '8594a3' };
+
+      expect(contrastIssues(properties).some((i) => i.property === 'msgInDateFg')).toBe(false);
+      const issue = contrastIssues(properties, apca).find((i) => i.property === 'msgInDateFg');
+      expect(issue?.targetRatio).toBe(45);
+      expect(issue?.message).toMatch(/contrast of Lc \d+\.\d{2}, below Lc 45$/);
+      expect(issue?.suggestion).toMatch(/^Use msgInDateFg: #[0-9a-f]{6}; \(Lc \d+\.\d{2}\)$/);
+    });
+
+    it('should skip pairs with missing or malformed colours', () => {
+      const properties: Record<string, string> = { ...DEFAULT_LIGHT_THEME, windowFg: 'nope' };
+      delete properties.msgInBg;
+      const issues = contrastIssues(properties).map((i) => i.property);
+
+      expect(issues).not.toContain('windowFg');
+      expect(issues).not.toContain('historyTextInFg');
+    });
+  });
+
   describe('helper methods', () => {
     it('should get property definition', () => {
       const prop = validator.getPropertyDefinition('windowBg');
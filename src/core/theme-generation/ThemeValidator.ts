@@ -3,6 +3,21 @@ import {
   REQUIRED_PROPERTIES,
 } from './templates/base-theme';
 import type { ThemeProperty, ThemeCategory } from './templates/base-theme';
+import {
+  ContrastOptimizer,
+  TELEGRAM_TEXT_PAIRS,
+  getPairBackdrops,
+  type ContrastModel,
+  type WCAGLevel,
+} from '../contrast';
+import { SEMANTIC_RULES, type SemanticRuleName } from './semantic-rules';
+import type { ThemeMode } from './TelegramThemeBuilder';
+
+/**
+ * How far below the target a contrast ratio may fall and still pass. Matches
+ * ContrastOptimizer's default tolerance, which its suggested colours meet.
+ */
+const CONTRAST_TOLERANCE = 0.01;
 
 /**
  * Severity levels for validation issues.
@@ -18,6 +33,10 @@ export interface ValidationIssue {
   message: string;
   code: ValidationErrorCode;
   suggestion?: string;
+  /** Measured contrast ratio (absolute Lc with APCA), for COLOR_CONTRAST issues */
+  ratio?: number;
+  /** Contrast the pair should reach, in the same units, for COLOR_CONTRAST issues */
+  targetRatio?: number;
 }
 
 /**
@@ -31,7 +50,9 @@ export type ValidationErrorCode =
   | 'COLOR_CONTRAST'
   | 'DUPLICATE_VALUE'
   | 'UNKNOWN_PROPERTY'
-  | 'SEMANTIC_MISMATCH';
+  | 'SEMANTIC_MISMATCH'
+  | 'DUPLICATE_PROPERTY'
+  | 'INVALID_REFERENCE';
 
 /**
  * Comprehensive validation result with categorized issues.
@@ -70,12 +91,46 @@ export interface ValidatorOptions {
    */
   checkContrast?: boolean;
 
+  /**
+   * WCAG level text pairs are checked against when checkContrast is on.
+   * @default 'AA'
+   */
+  contrastLevel?: WCAGLevel;
+
+  /**
+   * Contrast model text pairs are checked with. With 'apca' each pair is
+   * held to the APCA Lc target of its text role.
+   * @default 'wcag'
+   */
+  contrastModel?: ContrastModel;
+
+  /**
+   * Colours of the chat wallpaper (e.g. its average, lightest and darkest
+   * colours, with or without #). Service messages are checked over each of them; without
+   * them their background is taken as opaque.
+   * @default []
+   */
+  wallpaperColors?: string[];
+
   /**
    * Whether to check for semantic consistency.
    * @default false
    */
   checkSemantic?: boolean;
 
+  /**
+   * Semantic rules to switch off (false) when checkSemantic is on. Rules
+   * not listed run.
+   * @default {}
+   */
+  semanticRules?: Partial<Record<SemanticRuleName, boolean>>;
+
+  /**
+   * Mode the theme is labelled with, for the mode-brightness rule.
+   * Without it that rule is skipped.
+   */
+  mode?: ThemeMode;
+
   /**
    * Whether to warn about unknown properties.
    * @default true
@@ -114,8 +169,8 @@ export interface ValidationRule {
  * - Coverage analysis by category
  * - Quality scoring
  * - Custom validation rules
- * - Contrast checking (future)
- * - Semantic consistency checking (future)
+ * - Contrast checking of Telegram text pairs (WCAG 2.1)
+ * - Semantic consistency checking (see SEMANTIC_RULES)
  * 
  * @example
  * ```typescript
@@ -128,17 +183,27 @@ export interface ValidationRule {
  * ```
  */
 export class ThemeValidator {
-  protected options: Required<ValidatorOptions>;
+  protected options: Required<Omit<ValidatorOptions, 'mode'>> & Pick<ValidatorOptions, 'mode'>;
   protected customRules: ValidationRule[] = [];
+  protected contrastOptimizer: ContrastOptimizer;
 
   constructor(options: ValidatorOptions = {}) {
     this.options = {
       checkContrast: options.checkContrast ?? false,
+      contrastLevel: options.contrastLevel ?? 'AA',
+      contrastModel: options.contrastModel ?? 'wcag',
+      wallpaperColors: options.wallpaperColors ?? [],
       checkSemantic: options.checkSemantic ?? false,
+      semanticRules: options.semanticRules ?? {},
+      mode: options.mode,
       warnUnknown: options.warnUnknown ?? true,
       minScore: options.minScore ?? 70,
       customRules: options.customRules ?? [],
     };
+    this.contrastOptimizer = new ContrastOptimizer({
+      model: this.options.contrastModel,
+      level: this.options.contrastLevel,
+    });
 
     this.customRules = this.options.customRules;
   }
@@ -287,30 +352,73 @@ export class ThemeValidator {
   }
 
   /**
-   * Validates color contrast ratios for accessibility.
-   * Placeholder for future implementation.
+   * Validates the contrast of the Telegram text pairs with the configured
+   * model. Pairs with a missing or malformed colour are skipped; those are
+   * reported elsewhere.
+   * A pair passes within CONTRAST_TOLERANCE of the target, so a suggested
+   * colour passes when checked again. Translucent colours are composited
+   * over what is drawn behind them (see getPairBackdrops).
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   protected validateColorContrast(properties: Record<string, string>): ValidationIssue[] {
-    // TODO: Implement WCAG contrast ratio checking
-    // This would check pairs like:
-    // - windowBg vs windowFg
-    // - msgInBg vs historyTextInFg
-    // - activeButtonBg vs activeButtonFg
-    return [];
+    const issues: ValidationIssue[] = [];
+
+    for (const pair of TELEGRAM_TEXT_PAIRS) {
+      const foreground = properties[pair.foreground];
+      const background = properties[pair.background];
+      if (
+        !foreground ||
+        !background ||
+        !this.isValidColorFormat(foreground) ||
+        !this.isValidColorFormat(background)
+      ) {
+        continue;
+      }
+
+      const target = this.contrastOptimizer.getTarget(pair.role);
+      const backdrops = getPairBackdrops(pair, properties, this.options.wallpaperColors);
+      const ratio = this.contrastOptimizer.calculateContrast(foreground, background, backdrops);
+      if (ratio >= target - CONTRAST_TOLERANCE) {
+        continue;
+      }
+
+      const fix = this.contrastOptimizer.ensureContrast(foreground, background, target, backdrops);
+      issues.push({
+        severity: 'warning',
+        property: pair.foreground,
+        message:
+          `${pair.name ?? pair.foreground}: ${pair.foreground} on ${pair.background} has a ` +
+          `contrast of ${this.formatContrast(ratio.toFixed(2))}, below ${this.formatContrast(String(target))}`,
+        code: 'COLOR_CONTRAST',
+        suggestion: `Use ${pair.foreground}: #${fix.adjustedForeground}; (${this.formatContrast(fix.finalRatio.toFixed(2))})`,
+        ratio,
+        targetRatio: target,
+      });
+    }
+
+    return issues;
   }
 
   /**
-   * Validates semantic consistency of color assignments.
-   * Placeholder for future implementation.
+   * "4.50:1" for WCAG ratios, "Lc 45.00" for APCA.
+   */
+  protected formatContrast(value: string): string {
+    return this.options.contrastModel === 'apca' ? `Lc ${value}` : `${value}:1`;
+  }
+
+  /**
+   * Validates semantic consistency of color assignments with the enabled
+   * SEMANTIC_RULES: distinct hover, active and selected states, distinct
+   * bubble and status colours, and brightness matching the labelled mode.
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   protected validateSemanticConsistency(properties: Record<string, string>): ValidationIssue[] {
-    // TODO: Implement semantic checks like:
-    // - Active states should be visually distinct
-    // - Hover states should be visually different from default
-    // - Error colors should be distinct from success colors
-    return [];
+    const issues: ValidationIssue[] = [];
+
+    for (const rule of SEMANTIC_RULES) {
+      if (this.options.semanticRules[rule.name] === false) continue;
+      issues.push(...rule.check(properties, { mode: this.options.mode }));
+    }
+
+    return issues;
   }
 
   /**
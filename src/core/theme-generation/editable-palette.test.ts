@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEditablePalette,
+  getPaletteColors,
+  setPaletteRole,
+  lockPaletteSwatch,
+  replacePaletteSwatch,
+  setPaletteOverride,
+  mergePalette,
+} from './index';
+import type { ExtractedColor } from '../color-extraction';
+
+function color(hex: string, population = 0.25): ExtractedColor {
+  const num = parseInt(hex.slice(1), 16);
+  return {
+    hex,
+    rgb: [(num >> 16) & 255, (num >> 8) & 255, num & 255],
+    vibrancy: 0.5,
+    brightness: 128,
+    population,
+  };
+}
+
+const extracted = [color('#f4a261'), color('#2a9d8f'), color('#1a2a5a'), color('#9e9e9e')];
+
+describe('editable palette', () => {
+  describe('createEditablePalette', () => {
+    it('should wrap colours without edits', () => {
+      const palette = createEditablePalette(extracted);
+
+      expect(palette.primary).toBeNull();
+      expect(palette.accent).toBeNull();
+      expect(palette.swatches.every((swatch) => !swatch.locked)).toBe(true);
+      expect(getPaletteColors(palette)).toEqual(extracted);
+    });
+  });
+
+  describe('setPaletteRole', () => {
+    const palette = createEditablePalette(extracted);
+
+    it('should pin a swatch by its colour', () => {
+      expect(setPaletteRole(palette, 'primary', 2).primary).toBe('#1a2a5a');
+      expect(setPaletteRole(palette, 'accent', 3).accent).toBe('#9e9e9e');
+    });
+
+    it('should move a colour from one role to the other', () => {
+      const pinned = setPaletteRole(setPaletteRole(palette, 'primary', 1), 'accent', 1);
+      expect(pinned.primary).toBeNull();
+      expect(pinned.accent).toBe('#2a9d8f');
+    });
+
+    it('should unpin with null', () => {
+      const pinned = setPaletteRole(palette, 'primary', 0);
+      expect(setPaletteRole(pinned, 'primary', null).primary).toBeNull();
+    });
+
+    it('should not change the original palette', () => {
+      setPaletteRole(palette, 'primary', 0);
+      expect(palette.primary).toBeNull();
+    });
+
+    it('should throw for a missing swatch', () => {
+      expect(() => setPaletteRole(palette, 'primary', 9)).toThrow('No swatch at index 9');
+    });
+  });
+
+  describe('lockPaletteSwatch', () => {
+    it('should lock and unlock a swatch', () => {
+      const locked = lockPaletteSwatch(createEditablePalette(extracted), 1);
+      expect(locked.swatches[1].locked).toBe(true);
+      expect(lockPaletteSwatch(locked, 1, false).swatches[1].locked).toBe(false);
+    });
+  });
+
+  describe('replacePaletteSwatch', () => {
+    it('should replace the colour, remember the original and lock it', () => {
+      const palette = replacePaletteSwatch(createEditablePalette(extracted), 0, '#FF0000');
+      const [swatch] = palette.swatches;
+
+      expect(swatch.color).toMatchObject({ hex: '#ff0000', rgb: [255, 0, 0], population: 0.25 });
+      expect(swatch.color.vibrancy).toBeCloseTo(1, 5);
+      expect(swatch.originalHex).toBe('#f4a261');
+      expect(swatch.locked).toBe(true);
+    });
+
+    it('should keep the first original over several replacements', () => {
+      let palette = replacePaletteSwatch(createEditablePalette(extracted), 0, '#ff0000');
+      palette = replacePaletteSwatch(palette, 0, '00ff00');
+      expect(palette.swatches[0].originalHex).toBe('#f4a261');
+      expect(palette.swatches[0].color.hex).toBe('#00ff00');
+    });
+
+    it('should move a pinned role to the new colour', () => {
+      const pinned = setPaletteRole(createEditablePalette(extracted), 'accent', 2);
+      expect(replacePaletteSwatch(pinned, 2, '#123456').accent).toBe('#123456');
+    });
+
+    it('should reject invalid colours', () => {
+      expect(() => replacePaletteSwatch(createEditablePalette(extracted), 0, 'red')).toThrow(
+        'Invalid colour: red'
+      );
+    });
+  });
+
+  describe('setPaletteOverride', () => {
+    it('should set and clear a slot colour', () => {
+      const palette = setPaletteOverride(createEditablePalette(extracted), 'background', 'F0E6D2');
+      expect(palette.overrides).toEqual({ background: '#f0e6d2' });
+      expect(setPaletteOverride(palette, 'background', null).overrides).toEqual({});
+    });
+
+    it('should not change the original palette', () => {
+      const palette = createEditablePalette(extracted);
+      setPaletteOverride(palette, 'accent', '#123456');
+      expect(palette.overrides).toEqual({});
+    });
+
+    it('should reject invalid colours', () => {
+      expect(() =>
+        setPaletteOverride(createEditablePalette(extracted), 'primary', '#12345')
+      ).toThrow('Invalid colour: #12345');
+    });
+  });
+
+  describe('mergePalette', () => {
+    const next = [color('#e76f51', 0.4), color('#264653', 0.3), color('#1a2a5a', 0.2), color('#e9c46a', 0.1)];
+
+    it('should take the new colours when nothing is kept', () => {
+      const merged = mergePalette(createEditablePalette(extracted), next);
+      expect(getPaletteColors(merged)).toEqual(next);
+    });
+
+    it('should keep locked swatches in place and fill the rest in order', () => {
+      const palette = lockPaletteSwatch(createEditablePalette(extracted), 1);
+      const merged = mergePalette(palette, next);
+
+      expect(merged.swatches.map((swatch) => swatch.color.hex)).toEqual([
+        '#e76f51',
+        '#2a9d8f',
+        '#264653',
+        '#1a2a5a',
+      ]);
+      expect(merged.swatches[1].locked).toBe(true);
+    });
+
+    it('should keep swatches pinned to a role', () => {
+      const palette = setPaletteRole(createEditablePalette(extracted), 'primary', 3);
+      const merged = mergePalette(palette, next);
+
+      expect(merged.primary).toBe('#9e9e9e');
+      expect(merged.swatches[3].color.hex).toBe('#9e9e9e');
+    });
+
+    it('should not repeat kept colours that are extracted again, and update their population', () => {
+      const palette = lockPaletteSwatch(createEditablePalette(extracted), 2);
+      const merged = mergePalette(palette, next);
+      const hexes = merged.swatches.map((swatch) => swatch.color.hex);
+
+      expect(hexes.filter((hex) => hex === '#1a2a5a')).toHaveLength(1);
+      expect(merged.swatches[2].color.population).toBe(0.2);
+    });
+
+    it('should keep slot overrides', () => {
+      const palette = setPaletteOverride(createEditablePalette(extracted), 'primary', '#123456');
+      expect(mergePalette(palette, next).overrides).toEqual({ primary: '#123456' });
+    });
+
+    it('should keep replaced colours as the user set them', () => {
+      const palette = replacePaletteSwatch(createEditablePalette(extracted), 0, '#ff0000');
+      const merged = mergePalette(palette, next);
+
+      expect(merged.swatches[0].color.hex).toBe('#ff0000');
+      expect(merged.swatches[0].originalHex).toBe('#f4a261');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { toExtractedColor, type ExtractedColor } from '../color-extraction';
+import type { PaletteRoles } from './PaletteDeriver';
+import type { ThemeColors } from './templates/base-theme';
+
+/**
+ * One colour of an editable palette
+ */
+export interface PaletteSwatch {
+  /** The extracted colour, or the user's replacement */
+  color: ExtractedColor;
+  /** Kept when the image is extracted again */
+  locked: boolean;
+  /** Hex the extractor produced, set once the user replaces the colour */
+  originalHex?: string;
+}
+
+/**
+ * Extracted colours with the user's edits on top. Plain data, so it can be
+ * kept in React state and sent to the theme worker.
+ */
+export interface EditablePalette extends PaletteRoles {
+  swatches: PaletteSwatch[];
+  /** Hex of the swatch pinned as primary; null lets the palette strategy choose */
+  primary: string | null;
+  /** Hex of the swatch pinned as accent; null lets the palette strategy choose */
+  accent: string | null;
+  /** Exact colours for ThemeColors slots, e.g. picked with the eyedropper */
+  overrides: Partial<ThemeColors>;
+}
+
+export type PaletteRole = 'primary' | 'accent';
+
+/**
+ * Wraps freshly extracted colours in a palette without edits.
+ */
+export function createEditablePalette(colors: ExtractedColor[]): EditablePalette {
+  return {
+    swatches: colors.map((color) => ({ color, locked: false })),
+    primary: null,
+    accent: null,
+    overrides: {},
+  };
+}
+
+/**
+ * The palette's colours, in swatch order, for PaletteDeriver.
+ */
+export function getPaletteColors(palette: EditablePalette): ExtractedColor[] {
+  return palette.swatches.map((swatch) => swatch.color);
+}
+
+/**
+ * Pins a swatch as the primary or accent. A swatch holds at most one role,
+ * so pinning the other role's swatch clears that role.
+ * @param index - Swatch index, or null to let the palette strategy choose again
+ */
+export function setPaletteRole(
+  palette: EditablePalette,
+  role: PaletteRole,
+  index: number | null
+): EditablePalette {
+  const hex = index === null ? null : swatchAt(palette, index).color.hex;
+  const other: PaletteRole = role === 'primary' ? 'accent' : 'primary';
+
+  return {
+    ...palette,
+    [role]: hex,
+    [other]: hex !== null && palette[other] === hex ? null : palette[other],
+  };
+}
+
+/**
+ * Locks or unlocks a swatch. Locked swatches keep their place when the
+ * image is extracted again.
+ */
+export function lockPaletteSwatch(
+  palette: EditablePalette,
+  index: number,
+  locked = true
+): EditablePalette {
+  const swatch = swatchAt(palette, index);
+  return updateSwatch(palette, index, { ...swatch, locked });
+}
+
+/**
+ * Replaces a swatch with a custom colour and locks it. A role pinned to the
+ * swatch moves to the new colour.
+ * @param hex - Replacement colour (RRGGBB, with or without #)
+ */
+export function replacePaletteSwatch(
+  palette: EditablePalette,
+  index: number,
+  hex: string
+): EditablePalette {
+  const swatch = swatchAt(palette, index);
+  const value = parseInt(normalizeHex(hex).slice(1), 16);
+  const color = toExtractedColor(
+    [(value >> 16) & 255, (value >> 8) & 255, value & 255],
+    swatch.color.population
+  );
+  const previous = swatch.color.hex;
+
+  return {
+    ...updateSwatch(palette, index, {
+      color,
+      locked: true,
+      originalHex: swatch.originalHex ?? previous,
+    }),
+    primary: palette.primary === previous ? color.hex : palette.primary,
+    accent: palette.accent === previous ? color.hex : palette.accent,
+  };
+}
+
+/**
+ * Sets the exact colour of a ThemeColors slot, whatever the extracted
+ * colours are.
+ * @param hex - Colour (RRGGBB, with or without #), or null to derive the slot again
+ */
+export function setPaletteOverride(
+  palette: EditablePalette,
+  slot: keyof ThemeColors,
+  hex: string | null
+): EditablePalette {
+  const overrides = { ...palette.overrides };
+  if (hex === null) {
+    delete overrides[slot];
+  } else {
+    overrides[slot] = normalizeHex(hex);
+  }
+
+  return { ...palette, overrides };
+}
+
+/**
+ * Applies a palette's edits to a new extraction of the same image. Locked
+ * swatches and swatches pinned to a role keep their place; the other places
+ * are filled, in order, with the new colours not already kept. Slot
+ * overrides carry over unchanged.
+ */
+export function mergePalette(palette: EditablePalette, colors: ExtractedColor[]): EditablePalette {
+  const isKept = (swatch: PaletteSwatch) =>
+    swatch.locked || swatch.color.hex === palette.primary || swatch.color.hex === palette.accent;
+
+  const kept = palette.swatches.filter(isKept);
+  const fresh = colors.filter((color) => !kept.some((swatch) => swatch.color.hex === color.hex));
+  const size = Math.max(colors.length, kept.length);
+
+  const swatches: PaletteSwatch[] = [];
+  for (const swatch of palette.swatches) {
+    if (isKept(swatch)) {
+      // Extracted colours that came back take the new population
+      const again = swatch.originalHex
+        ? undefined
+        : colors.find((color) => color.hex === swatch.color.hex);
+      swatches.push(again ? { ...swatch, color: again } : swatch);
+    } else if (fresh.length > 0 && swatches.length < size) {
+      swatches.push({ color: fresh.shift() as ExtractedColor, locked: false });
+    }
+  }
+  while (fresh.length > 0 && swatches.length < size) {
+    swatches.push({ color: fresh.shift() as ExtractedColor, locked: false });
+  }
+
+  return { ...palette, swatches };
+}
+
+/**
+ * Lower-case #rrggbb, or an error for anything else.
+ */
+function normalizeHex(hex: string): string {
+  const normalized = hex.replace(/^#/, '').toLowerCase();
+  if (!/^[0-9a-f]{6}$/.test(normalized)) {
+    throw new Error(`Invalid colour: ${hex}`);
+  }
+  return `#${normalized}`;
+}
+
+function swatchAt(palette: EditablePalette, index: number): PaletteSwatch {
+  const swatch = palette.swatches[index];
+  if (!swatch) {
+    throw new Error(`No swatch at index ${index}`);
+  }
+  return swatch;
+}
+
+function updateSwatch(
+  palette: EditablePalette,
+  index: number,
+  swatch: PaletteSwatch
+): EditablePalette {
+  return {
+    ...palette,
+    swatches: palette.swatches.map((current, i) => (i === index ? swatch : current)),
+  };
+}
@@ -6,6 +6,46 @@ export {
   type GeneratedTheme,
 } from './TelegramThemeBuilder';
 
+export {
+  AndroidThemeExporter,
+  hexToAndroidColor,
+  ANDROID_WALLPAPER_START,
+  ANDROID_WALLPAPER_END,
+  type AndroidThemeExporterOptions,
+} from './AndroidThemeExporter';
+
+export {
+  IosThemeExporter,
+  IOS_THEME_SECTIONS,
+  type IosThemeExporterOptions,
+  type IosThemeSection,
+  type IosThemeSectionName,
+  type IosThemeValue,
+} from './IosThemeExporter';
+
+export {
+  PaletteDeriver,
+  PALETTE_STRATEGIES,
+  adjustBrightness,
+  type PaletteDeriverOptions,
+  type PaletteStrategy,
+  type PaletteStrategyName,
+  type PaletteRoles,
+} from './PaletteDeriver';
+
+export {
+  createEditablePalette,
+  getPaletteColors,
+  setPaletteRole,
+  lockPaletteSwatch,
+  replacePaletteSwatch,
+  setPaletteOverride,
+  mergePalette,
+  type EditablePalette,
+  type PaletteSwatch,
+  type PaletteRole,
+} from './editable-palette';
+
 export {
   ThemeValidator,
   type ValidationResult as AdvancedValidationResult,
@@ -17,6 +57,16 @@ export {
   type ValidationErrorCode,
 } from './ThemeValidator';
 
+export {
+  SEMANTIC_RULES,
+  MIN_STATE_DIFFERENCE,
+  MIN_HOVER_DIFFERENCE,
+  colorDifference,
+  type SemanticRule,
+  type SemanticRuleName,
+  type SemanticRuleContext,
+} from './semantic-rules';
+
 export {
   type ThemeColors,
   type ThemeProperty,
@@ -26,3 +76,16 @@ export {
   DEFAULT_LIGHT_THEME,
   DEFAULT_DARK_THEME,
 } from './templates/base-theme';
+
+export {
+  type AndroidKeyMapping,
+  type AndroidKeyGroup,
+  ANDROID_THEME_KEYS,
+  ANDROID_THEME_KEY_GROUPS,
+} from './templates/android-keys';
+
+export {
+  type ThemeStyle,
+  type ThemeStylePreset,
+  THEME_STYLE_PRESETS,
+} from './templates/style-presets';
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SEMANTIC_RULES,
+  colorDifference,
+  type SemanticRuleName,
+} from './semantic-rules';
+import { ThemeValidator, type ValidatorOptions } from './ThemeValidator';
+import { DEFAULT_LIGHT_THEME, DEFAULT_DARK_THEME } from './templates/base-theme';
+
+function semanticIssues(properties: Record<string, string>, options: ValidatorOptions = {}) {
+  return new ThemeValidator({ checkSemantic: true, mode: 'light', ...options })
+    .validate(properties)
+    .warnings.filter((w) => w.code === 'SEMANTIC_MISMATCH');
+}
+
+function flagged(properties: Record<string, string>, options?: ValidatorOptions): string[] {
+  return semanticIssues(properties, options).map((issue) => issue.property);
+}
+
+describe('semantic rules', () => {
+  describe('colorDifference', () => {
+    it('should be zero for the same colour', () => {
+      expect(colorDifference('40a7e3', '#40A7E3')).toBe(0);
+    });
+
+    it('should grow with perceptual distance and alpha', () => {
+      expect(colorDifference('ffffff', '000000')).toBeCloseTo(1, 2);
+      expect(colorDifference('ffffff', 'fefefe')).toBeLessThan(0.01);
+      expect(colorDifference('40a7e3', '40a7e380')).toBeCloseTo(127 / 255, 3);
+    });
+  });
+
+  it('should accept the default light and dark themes', () => {
+    expect(semanticIssues(DEFAULT_LIGHT_THEME)).toEqual([]);
+    expect(semanticIssues(DEFAULT_DARK_THEME, { mode: 'dark' })).toEqual([]);
+  });
+
+  it('should not run unless checkSemantic is on', () => {
+    const validator = new ThemeValidator({ mode: 'light' });
+    const result = validator.validate({ ...DEFAULT_LIGHT_THEME, msgOutBg: 'ffffff' });
+    expect(result.warnings.some((w) => w.code === 'SEMANTIC_MISMATCH')).toBe(false);
+  });
+
+  it('should flag a hover state identical to the base state', () => {
+    const issues = semanticIssues({ ...DEFAULT_LIGHT_THEME, windowBgOver: 'ffffff' });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      severity: 'warning',
+      property: 'windowBgOver',
+      code: 'SEMANTIC_MISMATCH',
+    });
+    expect(issues[0].message).toContain('windowBg');
+    expect(issues[0].suggestion).toBeDefined();
+  });
+
+  it('should flag an active chat that does not stand out', () => {
+    expect(flagged({ ...DEFAULT_LIGHT_THEME, dialogsBgActive: 'fdfdfd' })).toEqual([
+      'dialogsBgActive',
+    ]);
+  });
+
+  it('should flag a selected bubble indistinguishable from the unselected one', () => {
+    expect(flagged({ ...DEFAULT_LIGHT_THEME, msgInBgSelected: 'fcfcfc' })).toEqual([
+      'msgInBgSelected',
+    ]);
+  });
+
+  it('should flag incoming and outgoing bubbles of the same colour', () => {
+    expect(flagged({ ...DEFAULT_LIGHT_THEME, msgOutBg: 'ffffff' })).toContain('msgOutBg');
+  });
+
+  it('should flag online and offline status colours that match', () => {
+    expect(
+      flagged({ ...DEFAULT_LIGHT_THEME, dialogsOnlineBadgeFg: '999999', windowActiveTextFg: '9a9a9a' })
+    ).toEqual(['dialogsOnlineBadgeFg', 'windowActiveTextFg']);
+  });
+
+  describe('mode-brightness', () => {
+    it('should flag a dark window in a theme labelled light', () => {
+      const issues = semanticIssues({ ...DEFAULT_LIGHT_THEME, windowBg: '17212b', windowFg: '0a0a0a' });
+      const issue = issues.find((i) => i.property === 'windowBg');
+
+      expect(issue?.message).toBe('windowBg is dark in a theme labelled light');
+    });
+
+    it('should flag light text on a light window in a theme labelled light', () => {
+      expect(flagged({ ...DEFAULT_LIGHT_THEME, windowFg: 'ffffff' })).toContain('windowFg');
+    });
+
+    it('should flag a light window in a theme labelled dark', () => {
+      expect(flagged(DEFAULT_LIGHT_THEME, { mode: 'dark' })).toEqual(['windowBg', 'windowFg']);
+    });
+
+    it('should skip themes without a mode', () => {
+      expect(flagged(DEFAULT_LIGHT_THEME, { mode: undefined })).toEqual([]);
+    });
+  });
+
+  it('should let each rule be switched off', () => {
+    const broken = {
+      ...DEFAULT_LIGHT_THEME,
+      windowBgOver: 'ffffff',
+      dialogsBgActive: 'ffffff',
+      msgInBgSelected: 'ffffff',
+      msgOutBg: 'ffffff',
+      dialogsOnlineBadgeFg: '999999',
+      windowFg: 'ffffff',
+    };
+    const all = flagged(broken);
+
+    for (const rule of SEMANTIC_RULES) {
+      const off = flagged(broken, {
+        semanticRules: { [rule.name]: false } as Partial<Record<SemanticRuleName, boolean>>,
+      });
+      expect(off.length, rule.name).toBeLessThan(all.length);
+    }
+  });
+
+  it('should skip missing and malformed colours', () => {
+    const properties: Record<string, string> = { ...DEFAULT_LIGHT_THEME, windowBgOver: 'nope' };
+    delete properties.msgOutBg;
+
+    expect(flagged(properties)).toEqual([]);
+  });
+});
@@ -0,0 +1,204 @@
+import { hexToOklch, oklchToOklab } from '../color-space';
+import type { ThemeMode } from './TelegramThemeBuilder';
+import type { ValidationIssue } from './ThemeValidator';
+
+/**
+ * Names of the built-in semantic consistency rules
+ */
+export type SemanticRuleName =
+  | 'hover-state'
+  | 'active-state'
+  | 'selected-state'
+  | 'bubble-direction'
+  | 'online-status'
+  | 'mode-brightness';
+
+/**
+ * What a semantic rule knows about the theme besides its properties
+ */
+export interface SemanticRuleContext {
+  /** Mode the theme is labelled with, when known */
+  mode?: ThemeMode;
+}
+
+/**
+ * A semantic consistency check, switched on or off by name through
+ * `ValidatorOptions.semanticRules`
+ */
+export interface SemanticRule {
+  name: SemanticRuleName;
+  description: string;
+  check: (properties: Record<string, string>, context: SemanticRuleContext) => ValidationIssue[];
+}
+
+/**
+ * Smallest OKLab distance (plus alpha difference) at which two colours read
+ * as different. About one just-noticeable difference.
+ */
+export const MIN_STATE_DIFFERENCE = 0.02;
+
+/**
+ * Smallest difference for hover states. Telegram's own themes use hovers
+ * just below a noticeable step, so only (nearly) identical ones are flagged.
+ */
+export const MIN_HOVER_DIFFERENCE = 0.005;
+
+/**
+ * Perceptual difference of two RRGGBB(AA) colours: OKLab distance plus the
+ * difference in alpha (0-1).
+ */
+export function colorDifference(first: string, second: string): number {
+  const a = oklchToOklab(hexToOklch(first));
+  const b = oklchToOklab(hexToOklch(second));
+  const alpha = Math.abs(alphaOf(first) - alphaOf(second));
+  return Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b) + alpha;
+}
+
+/**
+ * A pair of properties that must look different, and why.
+ */
+interface DistinctPair {
+  base: string;
+  state: string;
+  what: string;
+}
+
+const HOVER_PAIRS: DistinctPair[] = [
+  { base: 'windowBg', state: 'windowBgOver', what: 'hovered rows' },
+  { base: 'menuBg', state: 'menuBgOver', what: 'hovered menu items' },
+  { base: 'dialogsBg', state: 'dialogsBgOver', what: 'hovered chats' },
+  { base: 'activeButtonBg', state: 'activeButtonBgOver', what: 'hovered buttons' },
+  { base: 'lightButtonBg', state: 'lightButtonBgOver', what: 'hovered light buttons' },
+  { base: 'historyToDownBg', state: 'historyToDownBgOver', what: 'the hovered scroll-down button' },
+];
+
+const ACTIVE_PAIRS: DistinctPair[] = [
+  { base: 'dialogsBg', state: 'dialogsBgActive', what: 'the open chat' },
+  { base: 'sideBarBg', state: 'sideBarBgActive', what: 'the open folder' },
+];
+
+const SELECTED_PAIRS: DistinctPair[] = [
+  { base: 'msgInBg', state: 'msgInBgSelected', what: 'selected incoming messages' },
+  { base: 'msgOutBg', state: 'msgOutBgSelected', what: 'selected outgoing messages' },
+  { base: 'msgServiceBg', state: 'msgServiceBgSelected', what: 'selected service messages' },
+];
+
+const DIRECTION_PAIRS: DistinctPair[] = [
+  { base: 'msgInBg', state: 'msgOutBg', what: 'outgoing messages' },
+];
+
+// Online users get the badge and active text; offline ones the subtitle colour
+const STATUS_PAIRS: DistinctPair[] = [
+  { base: 'windowSubTextFg', state: 'dialogsOnlineBadgeFg', what: 'online users' },
+  { base: 'windowSubTextFg', state: 'windowActiveTextFg', what: 'the online status' },
+];
+
+/**
+ * Built-in semantic rules, in the order their issues are reported.
+ */
+export const SEMANTIC_RULES: SemanticRule[] = [
+  {
+    name: 'hover-state',
+    description: 'Hover backgrounds differ from the normal background',
+    check: (properties) => checkDistinct(properties, HOVER_PAIRS, MIN_HOVER_DIFFERENCE),
+  },
+  {
+    name: 'active-state',
+    description: 'The open chat and folder stand out from the rest',
+    check: (properties) => checkDistinct(properties, ACTIVE_PAIRS, MIN_STATE_DIFFERENCE),
+  },
+  {
+    name: 'selected-state',
+    description: 'Selected message bubbles differ from unselected ones',
+    check: (properties) => checkDistinct(properties, SELECTED_PAIRS, MIN_STATE_DIFFERENCE),
+  },
+  {
+    name: 'bubble-direction',
+    description: 'Incoming and outgoing bubbles have different colours',
+    check: (properties) => checkDistinct(properties, DIRECTION_PAIRS, MIN_STATE_DIFFERENCE),
+  },
+  {
+    name: 'online-status',
+    description: 'Online and offline status colours differ',
+    check: (properties) => checkDistinct(properties, STATUS_PAIRS, MIN_STATE_DIFFERENCE),
+  },
+  {
+    name: 'mode-brightness',
+    description: 'A light theme has a light window and dark text; a dark theme the reverse',
+    check: checkModeBrightness,
+  },
+];
+
+function checkDistinct(
+  properties: Record<string, string>,
+  pairs: DistinctPair[],
+  minDifference: number
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const { base, state, what } of pairs) {
+    const baseColor = properties[base];
+    const stateColor = properties[state];
+    if (!isColor(baseColor) || !isColor(stateColor)) continue;
+
+    if (colorDifference(baseColor, stateColor) < minDifference) {
+      issues.push({
+        severity: 'warning',
+        property: state,
+        message: `${state} is indistinguishable from ${base}, so ${what} do not stand out`,
+        code: 'SEMANTIC_MISMATCH',
+        suggestion: `Make ${state} lighter or darker than ${base}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Compares windowBg and windowFg with the labelled mode. Themes without a
+ * mode are not checked.
+ */
+function checkModeBrightness(
+  properties: Record<string, string>,
+  { mode }: SemanticRuleContext
+): ValidationIssue[] {
+  const { windowBg, windowFg } = properties;
+  if (!mode || !isColor(windowBg) || !isColor(windowFg)) return [];
+
+  const background = hexToOklch(windowBg).l;
+  const text = hexToOklch(windowFg).l;
+  const lightBackground = background >= 0.5;
+  const issues: ValidationIssue[] = [];
+
+  if (mode === 'light' ? !lightBackground : lightBackground) {
+    issues.push({
+      severity: 'warning',
+      property: 'windowBg',
+      message: `windowBg is ${lightBackground ? 'light' : 'dark'} in a theme labelled ${mode}`,
+      code: 'SEMANTIC_MISMATCH',
+      suggestion: `Use a ${mode} windowBg or label the theme ${mode === 'light' ? 'dark' : 'light'}`,
+    });
+  }
+
+  if (mode === 'light' ? text >= background : text <= background) {
+    issues.push({
+      severity: 'warning',
+      property: 'windowFg',
+      message: `windowFg is ${mode === 'light' ? 'lighter' : 'darker'} than windowBg in a theme labelled ${mode}`,
+      code: 'SEMANTIC_MISMATCH',
+      suggestion: `Use a ${mode === 'light' ? 'dark' : 'light'} windowFg`,
+    });
+  }
+
+  return issues;
+}
+
+function isColor(value: string | undefined): value is string {
+  return value !== undefined && /^#?[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value);
+}
+
+function alphaOf(hex: string): number {
+  const normalized = hex.replace(/^#/, '');
+  return normalized.length === 8 ? parseInt(normalized.slice(6), 16) / 255 : 1;
+}
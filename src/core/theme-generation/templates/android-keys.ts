@@ -0,0 +1,204 @@
+/**
+ * Android Telegram Theme Key Mapping
+ *
+ * Maps Telegram for Android theme keys (.attheme) onto the Telegram Desktop
+ * properties they correspond to. Android has no exact equivalent for many
+ * desktop properties, so each Android key takes its colour from the closest
+ * desktop property in the generated palette.
+ *
+ * When several Android keys share a desktop source, the first entry is
+ * treated as the canonical one for reverse (Android → desktop) mapping.
+ */
+
+export interface AndroidKeyMapping {
+  /** Android theme key, e.g. `chats_name` */
+  key: string;
+  /** Telegram Desktop property the colour is taken from */
+  source: string;
+}
+
+export type AndroidKeyGroup =
+  | 'window'
+  | 'actionBar'
+  | 'chats'
+  | 'chat'
+  | 'dialog'
+  | 'controls'
+  | 'profile'
+  | 'calls';
+
+/**
+ * Android theme keys grouped by UI area.
+ */
+export const ANDROID_THEME_KEY_GROUPS: Record<AndroidKeyGroup, AndroidKeyMapping[]> = {
+  window: [
+    { key: 'windowBackgroundWhite', source: 'windowBg' },
+    { key: 'windowBackgroundGray', source: 'windowBgOver' },
+    { key: 'windowBackgroundWhiteBlackText', source: 'windowFg' },
+    { key: 'windowBackgroundWhiteGrayText', source: 'windowSubTextFg' },
+    { key: 'windowBackgroundWhiteGrayText2', source: 'windowSubTextFgOver' },
+    { key: 'windowBackgroundWhiteBlueText', source: 'windowActiveTextFg' },
+    { key: 'windowBackgroundWhiteBlueHeader', source: 'windowActiveTextFg' },
+    { key: 'windowBackgroundWhiteValueText', source: 'windowActiveTextFg' },
+    { key: 'windowBackgroundWhiteLinkText', source: 'linkFg' },
+    { key: 'windowBackgroundWhiteGrayIcon', source: 'menuIconFg' },
+    { key: 'windowBackgroundWhiteHintText', source: 'placeholderFg' },
+    { key: 'windowBackgroundWhiteInputField', source: 'inputBorderFg' },
+    { key: 'windowBackgroundWhiteInputFieldActivated', source: 'activeLineFg' },
+    { key: 'windowBackgroundWhiteRedText', source: 'boxTextFgError' },
+    { key: 'windowBackgroundWhiteGreenText', source: 'boxTextFgGood' },
+    { key: 'windowBackgroundGrayShadow', source: 'windowShadowFg' },
+    { key: 'graySection', source: 'windowBgOver' },
+    { key: 'divider', source: 'menuSeparatorFg' },
+    { key: 'listSelectorSDK21', source: 'windowBgRipple' },
+    { key: 'fastScrollActive', source: 'windowBgActive' },
+    { key: 'progressCircle', source: 'windowBgActive' },
+  ],
+  actionBar: [
+    { key: 'actionBarDefault', source: 'windowBgActive' },
+    { key: 'actionBarDefaultIcon', source: 'windowFgActive' },
+    { key: 'actionBarDefaultTitle', source: 'windowFgActive' },
+    { key: 'actionBarDefaultSubtitle', source: 'activeButtonSecondaryFg' },
+    { key: 'actionBarDefaultSelector', source: 'activeButtonBgRipple' },
+    { key: 'actionBarDefaultSearch', source: 'windowFgActive' },
+    { key: 'actionBarDefaultSearchPlaceholder', source: 'activeButtonSecondaryFgOver' },
+    { key: 'actionBarDefaultSubmenuBackground', source: 'menuBg' },
+    { key: 'actionBarDefaultSubmenuItem', source: 'windowFgOver' },
+    { key: 'actionBarDefaultSubmenuItemIcon', source: 'menuIconFgOver' },
+    { key: 'actionBarActionModeDefault', source: 'windowBg' },
+    { key: 'actionBarActionModeDefaultIcon', source: 'windowBoldFg' },
+    { key: 'actionBarActionModeDefaultSelector', source: 'windowBgRipple' },
+    { key: 'actionBarWhiteSelector', source: 'menuBgRipple' },
+  ],
+  chats: [
+    { key: 'chats_name', source: 'dialogsNameFg' },
+    { key: 'chats_message', source: 'dialogsTextFg' },
+    { key: 'chats_nameMessage', source: 'dialogsTextFgService' },
+    { key: 'chats_attachMessage', source: 'dialogsTextFgServiceOver' },
+    { key: 'chats_date', source: 'dialogsDateFg' },
+    { key: 'chats_draft', source: 'dialogsDraftFg' },
+    { key: 'chats_pinnedIcon', source: 'dialogsChatIconFg' },
+    { key: 'chats_sentCheck', source: 'dialogsSentIconFg' },
+    { key: 'chats_sentReadCheck', source: 'dialogsSentIconFgOver' },
+    { key: 'chats_sentClock', source: 'dialogsSendingIconFg' },
+    { key: 'chats_unreadCounter', source: 'dialogsUnreadBg' },
+    { key: 'chats_unreadCounterMuted', source: 'dialogsUnreadBgMuted' },
+    { key: 'chats_unreadCounterText', source: 'dialogsUnreadFg' },
+    { key: 'chats_muteIcon', source: 'dialogsUnreadBgMutedOver' },
+    { key: 'chats_onlineCircle', source: 'dialogsOnlineBadgeFg' },
+    { key: 'chats_verifiedBackground', source: 'dialogsVerifiedIconBg' },
+    { key: 'chats_verifiedCheck', source: 'dialogsVerifiedIconFg' },
+    { key: 'chats_archiveBackground', source: 'dialogsArchiveBg' },
+    { key: 'chats_archiveIcon', source: 'dialogsArchiveFg' },
+    { key: 'chats_actionBackground', source: 'activeButtonBg' },
+    { key: 'chats_actionPressedBackground', source: 'activeButtonBgOver' },
+    { key: 'chats_actionIcon', source: 'activeButtonFg' },
+    { key: 'chats_menuBackground', source: 'sideBarBg' },
+    { key: 'chats_menuItemText', source: 'sideBarTextFg' },
+    { key: 'chats_menuItemIcon', source: 'sideBarIconFg' },
+    { key: 'chats_menuTopBackgroundCats', source: 'sideBarBgActive' },
+    { key: 'chats_menuName', source: 'sideBarTextFgActive' },
+    { key: 'chats_menuPhone', source: 'sideBarIconFgActive' },
+  ],
+  chat: [
+    { key: 'chat_wallpaper', source: 'windowBg' },
+    { key: 'chat_inBubble', source: 'msgInBg' },
+    { key: 'chat_inBubbleSelected', source: 'msgInBgSelected' },
+    { key: 'chat_inBubbleShadow', source: 'msgInShadow' },
+    { key: 'chat_outBubble', source: 'msgOutBg' },
+    { key: 'chat_outBubbleSelected', source: 'msgOutBgSelected' },
+    { key: 'chat_outBubbleShadow', source: 'msgOutShadow' },
+    { key: 'chat_messageTextIn', source: 'historyTextInFg' },
+    { key: 'chat_messageTextOut', source: 'historyTextOutFg' },
+    { key: 'chat_messageLinkIn', source: 'historyLinkInFg' },
+    { key: 'chat_messageLinkOut', source: 'historyLinkOutFg' },
+    { key: 'chat_inTimeText', source: 'msgInDateFg' },
+    { key: 'chat_inTimeSelectedText', source: 'msgInDateFgSelected' },
+    { key: 'chat_outTimeText', source: 'msgOutDateFg' },
+    { key: 'chat_outTimeSelectedText', source: 'msgOutDateFgSelected' },
+    { key: 'chat_outSentCheck', source: 'historyOutIconFg' },
+    { key: 'chat_outSentCheckSelected', source: 'historyOutIconFgSelected' },
+    { key: 'chat_inReplyLine', source: 'msgInReplyBarColor' },
+    { key: 'chat_outReplyLine', source: 'msgOutReplyBarColor' },
+    { key: 'chat_inReplyNameText', source: 'msgInServiceFg' },
+    { key: 'chat_outReplyNameText', source: 'msgOutServiceFg' },
+    { key: 'chat_inForwardedNameText', source: 'msgInServiceFgSelected' },
+    { key: 'chat_outForwardedNameText', source: 'msgOutServiceFgSelected' },
+    { key: 'chat_inAudioSeekbarFill', source: 'msgWaveformInActive' },
+    { key: 'chat_inAudioSeekbar', source: 'msgWaveformInInactive' },
+    { key: 'chat_outAudioSeekbarFill', source: 'msgWaveformOutActive' },
+    { key: 'chat_outAudioSeekbar', source: 'msgWaveformOutInactive' },
+    { key: 'chat_serviceBackground', source: 'msgServiceBg' },
+    { key: 'chat_serviceBackgroundSelected', source: 'msgServiceBgSelected' },
+    { key: 'chat_serviceText', source: 'msgServiceFg' },
+    { key: 'chat_selectedBackground', source: 'msgSelectOverlay' },
+    { key: 'chat_messagePanelBackground', source: 'historyComposeAreaBg' },
+    { key: 'chat_messagePanelText', source: 'historyComposeAreaFg' },
+    { key: 'chat_messagePanelHint', source: 'historyComposeAreaFgService' },
+    { key: 'chat_messagePanelIcons', source: 'historyComposeIconFg' },
+    { key: 'chat_messagePanelSend', source: 'historySendIconFg' },
+    { key: 'chat_goDownButton', source: 'historyToDownBg' },
+    { key: 'chat_goDownButtonIcon', source: 'historyToDownFg' },
+    { key: 'chat_goDownButtonShadow', source: 'historyToDownShadow' },
+    { key: 'chat_topPanelBackground', source: 'historyPinnedBg' },
+    { key: 'chat_topPanelTitle', source: 'historyReplyIconFg' },
+    { key: 'chat_topPanelMessage', source: 'windowSubTextFg' },
+    { key: 'chat_topPanelClose', source: 'historyReplyCancelFg' },
+    { key: 'chat_replyPanelName', source: 'historyReplyIconFg' },
+    { key: 'chat_replyPanelClose', source: 'historyReplyCancelFgOver' },
+    { key: 'chat_emojiPanelBackground', source: 'emojiPanBg' },
+    { key: 'chat_emojiPanelShadowLine', source: 'menuSeparatorFg' },
+    { key: 'chat_emojiPanelIcon', source: 'emojiPanHeaderFg' },
+    { key: 'chat_emojiPanelIconSelected', source: 'activeLineFg' },
+    { key: 'chat_emojiPanelStickerSetName', source: 'emojiPanHeaderFg' },
+  ],
+  dialog: [
+    { key: 'dialogBackground', source: 'boxBg' },
+    { key: 'dialogTextBlack', source: 'boxTextFg' },
+    { key: 'dialogTextGray', source: 'boxTitleAdditionalFg' },
+    { key: 'dialogTextLink', source: 'linkFg' },
+    { key: 'dialogTextRed', source: 'boxTextFgError' },
+    { key: 'dialogButton', source: 'lightButtonFg' },
+    { key: 'dialogButtonSelector', source: 'lightButtonBgRipple' },
+    { key: 'dialogInputField', source: 'inputBorderFg' },
+    { key: 'dialogInputFieldActivated', source: 'activeLineFg' },
+    { key: 'dialogLineProgress', source: 'activeLineFg' },
+    { key: 'dialogSearchBackground', source: 'boxSearchBg' },
+  ],
+  controls: [
+    { key: 'checkbox', source: 'activeButtonBg' },
+    { key: 'checkboxCheck', source: 'activeButtonFg' },
+    { key: 'checkboxSquareUnchecked', source: 'checkboxFg' },
+    { key: 'radioBackground', source: 'checkboxFg' },
+    { key: 'radioBackgroundChecked', source: 'sliderBgActive' },
+    { key: 'switchTrack', source: 'sliderBgInactive' },
+    { key: 'switchTrackChecked', source: 'sliderBgActive' },
+    { key: 'featuredStickers_addButton', source: 'activeButtonBg' },
+    { key: 'featuredStickers_addButtonPressed', source: 'activeButtonBgOver' },
+    { key: 'featuredStickers_buttonText', source: 'activeButtonFg' },
+    { key: 'player_background', source: 'mediaPlayerBg' },
+    { key: 'player_progress', source: 'mediaPlayerActiveFg' },
+    { key: 'player_progressBackground', source: 'mediaPlayerInactiveFg' },
+  ],
+  profile: [
+    { key: 'avatar_backgroundActionBarBlue', source: 'windowBgActive' },
+    { key: 'avatar_actionBarSelectorBlue', source: 'activeButtonBgRipple' },
+    { key: 'avatar_subtitleInProfileBlue', source: 'activeButtonSecondaryFg' },
+    { key: 'profile_actionBackground', source: 'activeButtonBg' },
+    { key: 'profile_actionPressedBackground', source: 'activeButtonBgOver' },
+    { key: 'profile_actionIcon', source: 'activeButtonFg' },
+    { key: 'profile_verifiedBackground', source: 'profileVerifiedCheckBg' },
+    { key: 'profile_verifiedCheck', source: 'profileVerifiedCheckFg' },
+  ],
+  calls: [
+    { key: 'calls_callReceivedGreenIcon', source: 'callAnswerBg' },
+    { key: 'calls_callReceivedRedIcon', source: 'callHangupBg' },
+  ],
+};
+
+/**
+ * Flat list of every Android key mapping.
+ */
+export const ANDROID_THEME_KEYS: AndroidKeyMapping[] = Object.values(
+  ANDROID_THEME_KEY_GROUPS
+).flat();
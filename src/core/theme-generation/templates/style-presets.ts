@@ -0,0 +1,93 @@
+/**
+ * Theme Style Presets
+ *
+ * Named generation styles. Each preset changes how PaletteDeriver picks and
+ * shapes the primary and accent colours, how strongly surfaces are tinted,
+ * and which contrast ratio text is optimised to.
+ */
+
+import type { PaletteStrategyName } from '../PaletteDeriver';
+
+export type ThemeStyle = 'vibrant' | 'muted' | 'pastel' | 'monochrome' | 'high-contrast';
+
+export interface ThemeStylePreset {
+  /** Short name for pickers */
+  label: string;
+
+  /** One-line description for tooltips */
+  description: string;
+
+  /** How extracted colours are ranked for primary and accent */
+  strategy: PaletteStrategyName;
+
+  /** Multiplier for the OKLCH chroma of primary, accent and color1-color6 */
+  chroma: number;
+
+  /**
+   * OKLCH lightness primary and accent are raised to, if they are darker.
+   * Only applied in light mode, where pale colours still read on white.
+   */
+  minLightness?: number;
+
+  /** Derive the accent from the primary hue instead of a second image colour */
+  monochrome?: boolean;
+
+  /** Maximum OKLCH chroma of dark-mode surfaces tinted from the image */
+  surfaceChroma: number;
+
+  /** OKLCH chroma of light-mode surfaces, tinted towards the primary hue */
+  lightSurfaceChroma: number;
+
+  /** Contrast ratio text colours are optimised to */
+  contrastRatio: number;
+}
+
+export const THEME_STYLE_PRESETS: Record<ThemeStyle, ThemeStylePreset> = {
+  vibrant: {
+    label: 'Vibrant',
+    description: 'The most saturated colours from the image',
+    strategy: 'vibrant',
+    chroma: 1,
+    surfaceChroma: 0.04,
+    lightSurfaceChroma: 0,
+    contrastRatio: 4.5,
+  },
+  muted: {
+    label: 'Muted',
+    description: 'The main colours of the image, desaturated',
+    strategy: 'dominant',
+    chroma: 0.5,
+    surfaceChroma: 0.02,
+    lightSurfaceChroma: 0,
+    contrastRatio: 4.5,
+  },
+  pastel: {
+    label: 'Pastel',
+    description: 'Soft, light colours with gently tinted surfaces',
+    strategy: 'vibrant',
+    chroma: 0.6,
+    minLightness: 0.78,
+    surfaceChroma: 0.03,
+    lightSurfaceChroma: 0.015,
+    contrastRatio: 4.5,
+  },
+  monochrome: {
+    label: 'Monochrome',
+    description: 'Shades of a single image colour',
+    strategy: 'dominant',
+    chroma: 1,
+    monochrome: true,
+    surfaceChroma: 0.05,
+    lightSurfaceChroma: 0.01,
+    contrastRatio: 4.5,
+  },
+  'high-contrast': {
+    label: 'High contrast',
+    description: 'Neutral surfaces and text tuned to WCAG AAA',
+    strategy: 'vibrant',
+    chroma: 1,
+    surfaceChroma: 0.015,
+    lightSurfaceChroma: 0,
+    contrastRatio: 7,
+  },
+};
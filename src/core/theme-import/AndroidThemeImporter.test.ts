@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AndroidThemeImporter, ThemeImporter, androidColorToHex } from './index';
+import {
+  AndroidThemeExporter,
+  ThemeValidator,
+  DEFAULT_DARK_THEME,
+  DEFAULT_LIGHT_THEME,
+  hexToAndroidColor,
+} from '../theme-generation';
+
+function encode(...parts: (string | Uint8Array)[]): Uint8Array {
+  const chunks = parts.map((part) => (typeof part === 'string' ? new TextEncoder().encode(part) : part));
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+const attheme = [
+  'windowBackgroundWhite=-15261397', // #17212b
+  'windowBackgroundWhiteBlackText=#fff5f5f5',
+  'actionBarDefault=#5288c1',
+  'chat_inBubble=-14275532',
+  'someFutureKey=-1',
+  '',
+].join('\n');
+
+describe('androidColorToHex', () => {
+  it('should convert signed ARGB integers', () => {
+    expect(androidColorToHex('-1')).toBe('ffffff');
+    expect(androidColorToHex('-16777216')).toBe('000000');
+    expect(androidColorToHex('-65536')).toBe('ff0000');
+  });
+
+  it('should move translucent alpha to the end', () => {
+    expect(androidColorToHex('0')).toBe('00000000');
+    expect(androidColorToHex(String(0x40ffffff))).toBe('ffffff40');
+  });
+
+  it('should accept #AARRGGBB and #RRGGBB', () => {
+    expect(androidColorToHex('#80ff0000')).toBe('ff000080');
+    expect(androidColorToHex('#4a90d9')).toBe('4a90d9');
+  });
+
+  it('should invert hexToAndroidColor', () => {
+    for (const hex of ['4a90d9', '00000080', 'ffffff40', '17212b']) {
+      expect(androidColorToHex(String(hexToAndroidColor(hex)))).toBe(hex);
+    }
+  });
+});
+
+describe('AndroidThemeImporter', () => {
+  let importer: AndroidThemeImporter;
+
+  beforeEach(() => {
+    importer = new AndroidThemeImporter();
+  });
+
+  describe('parseColors', () => {
+    it('should parse key=value lines', () => {
+      const { colors, issues } = importer.parseColors(attheme);
+
+      expect(colors.windowBackgroundWhite).toBe('17212b');
+      expect(colors.windowBackgroundWhiteBlackText).toBe('f5f5f5');
+      expect(colors.actionBarDefault).toBe('5288c1');
+      expect(issues).toEqual([]);
+    });
+
+    it('should report malformed lines', () => {
+      const { colors, issues } = importer.parseColors('windowBackgroundWhite=-1\nbroken line\nchat_inBubble=abc\n');
+
+      expect(Object.keys(colors)).toEqual(['windowBackgroundWhite']);
+      expect(issues).toHaveLength(2);
+      expect(issues[0]).toMatchObject({ severity: 'error', code: 'INVALID_FORMAT' });
+      expect(issues[0].message).toContain('line 2');
+    });
+  });
+
+  describe('mapToDesktop', () => {
+    it('should map Android keys onto desktop properties', () => {
+      const { colors } = importer.parseColors(attheme);
+      const properties = importer.mapToDesktop(colors, 'dark');
+
+      expect(properties.windowBg).toBe('17212b');
+      expect(properties.windowFg).toBe('f5f5f5');
+      expect(properties.windowBgActive).toBe('5288c1');
+      expect(properties.msgInBg).toBe(androidColorToHex('-14275532'));
+    });
+
+    it('should let the first listed Android key win for a shared property', () => {
+      const custom = new AndroidThemeImporter([
+        { key: 'windowBackgroundWhite', source: 'windowBg' },
+        { key: 'chat_wallpaper', source: 'windowBg' },
+      ]);
+
+      expect(custom.mapToDesktop({ windowBackgroundWhite: '111111', chat_wallpaper: '222222' }, 'light').windowBg).toBe('111111');
+      expect(custom.mapToDesktop({ chat_wallpaper: '222222' }, 'light').windowBg).toBe('222222');
+    });
+
+    it('should fill unmapped properties from the default theme for the mode', () => {
+      expect(importer.mapToDesktop({}, 'dark')).toEqual(DEFAULT_DARK_THEME);
+      expect(importer.mapToDesktop({}, 'light')).toEqual(DEFAULT_LIGHT_THEME);
+    });
+
+    it('should report Android keys with no desktop equivalent as info', () => {
+      const issues: Parameters<AndroidThemeImporter['mapToDesktop']>[2] = [];
+      importer.mapToDesktop({ someFutureKey: 'ffffff' }, 'light', issues);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ severity: 'info', property: 'someFutureKey', code: 'UNKNOWN_PROPERTY' });
+    });
+  });
+
+  describe('importAttheme', () => {
+    it('should convert to a complete desktop theme', () => {
+      const theme = importer.importAttheme(encode(attheme), 'Night.attheme');
+      const result = new ThemeValidator().validate(theme.properties);
+
+      expect(theme.name).toBe('Night');
+      expect(theme.mode).toBe('dark');
+      expect(theme.references).toEqual({});
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should write the converted palette as desktop content', () => {
+      const theme = importer.importAttheme(encode(attheme), 'Night.attheme');
+
+      expect(theme.content).toContain('// Night');
+      expect(theme.content).toContain('windowBg: #17212b;');
+      expect(new ThemeImporter().parsePalette(theme.content).properties).toEqual(theme.properties);
+    });
+
+    it('should guess light mode from a light background', () => {
+      const theme = importer.importAttheme(encode('windowBackgroundWhite=-1\n'));
+
+      expect(theme.mode).toBe('light');
+      expect(theme.name).toBe('Imported Theme');
+    });
+
+    it('should extract the wallpaper between WPS and WPE', () => {
+      // Binary data that happens to contain newlines and marker-like bytes
+      const jpeg = encode('\xff\xd8JPEG\nWPE', new Uint8Array([0, 10, 255]), 'END');
+      const theme = importer.importAttheme(encode(attheme, 'WPS\n', jpeg, '\nWPE\n'));
+
+      expect(theme.background?.tiled).toBe(false);
+      expect(theme.background?.blob.type).toBe('image/jpeg');
+      expect(theme.background?.blob.size).toBe(jpeg.length);
+      expect(theme.properties.windowBg).toBe('17212b');
+      expect(theme.issues.filter((i) => i.severity === 'error')).toEqual([]);
+    });
+
+    it('should read files written by AndroidThemeExporter', () => {
+      const exporter = new AndroidThemeExporter();
+      const content = exporter.generateContent(DEFAULT_DARK_THEME);
+      const theme = importer.importAttheme(encode(content));
+
+      expect(theme.mode).toBe('dark');
+      expect(theme.properties.windowBg).toBe(DEFAULT_DARK_THEME.windowBg);
+      expect(theme.properties.msgInBg).toBe(DEFAULT_DARK_THEME.msgInBg);
+      expect(theme.properties.dialogsNameFg).toBe(DEFAULT_DARK_THEME.dialogsNameFg);
+    });
+  });
+
+  describe('ThemeImporter.importFile', () => {
+    it('should route .attheme files to the Android importer', async () => {
+      const theme = await new ThemeImporter().importFile(new File([attheme], 'Night.attheme'));
+
+      expect(theme.name).toBe('Night');
+      expect(theme.properties.windowBg).toBe('17212b');
+    });
+
+    it('should detect Android syntax without the extension', async () => {
+      const theme = await new ThemeImporter().importFile(new File([attheme], 'download'));
+      expect(theme.properties.windowFg).toBe('f5f5f5');
+    });
+  });
+});
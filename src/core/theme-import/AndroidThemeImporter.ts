@@ -0,0 +1,230 @@
+import {
+  TelegramThemeBuilder,
+  ANDROID_THEME_KEYS,
+  ANDROID_WALLPAPER_START,
+  ANDROID_WALLPAPER_END,
+  DEFAULT_LIGHT_THEME,
+  DEFAULT_DARK_THEME,
+  type AndroidKeyMapping,
+  type ThemeMode,
+  type ValidationIssue,
+} from '../theme-generation';
+import type { ImportedTheme } from './ThemeImporter';
+
+const LINE_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)=(-?\d+|#[0-9a-fA-F]{6}|#[0-9a-fA-F]{8})$/;
+
+/**
+ * Converts an .attheme colour (signed ARGB integer, `#RRGGBB` or
+ * `#AARRGGBB`) into a desktop colour: RRGGBB, or RRGGBBAA when translucent.
+ */
+export function androidColorToHex(value: string): string {
+  const argb = value.startsWith('#')
+    ? parseInt(value.length === 7 ? `ff${value.slice(1)}` : value.slice(1), 16)
+    : parseInt(value, 10) >>> 0;
+
+  const rgb = (argb & 0xffffff).toString(16).padStart(6, '0');
+  const alpha = (argb >>> 24) & 0xff;
+
+  return alpha === 0xff ? rgb : rgb + alpha.toString(16).padStart(2, '0');
+}
+
+/**
+ * AndroidThemeImporter converts Telegram for Android .attheme files into
+ * desktop themes.
+ *
+ * An .attheme file is a list of `key=value` lines, where values are signed
+ * ARGB integers (some tools write `#AARRGGBB` instead), optionally followed
+ * by a JPEG wallpaper between `WPS` and `WPE` lines. Android keys are mapped
+ * back onto desktop properties with ANDROID_THEME_KEYS; the first Android key
+ * listed for a desktop property wins. Desktop properties with no Android
+ * counterpart are filled from the default light or dark theme.
+ *
+ * @example
+ * ```typescript
+ * const importer = new AndroidThemeImporter();
+ * const theme = await importer.importFile(file);
+ * const result = new ThemeValidator().validate(theme.properties);
+ * ```
+ */
+export class AndroidThemeImporter {
+  private mappings: AndroidKeyMapping[];
+
+  constructor(mappings: AndroidKeyMapping[] = ANDROID_THEME_KEYS) {
+    this.mappings = mappings;
+  }
+
+  /**
+   * Imports an .attheme file.
+   * @param bytes - File contents
+   * @param filename - Original filename, used for the theme name
+   */
+  importAttheme(bytes: Uint8Array, filename?: string): ImportedTheme {
+    const { text, wallpaper } = this.splitWallpaper(bytes);
+    const { colors, issues } = this.parseColors(new TextDecoder().decode(text));
+
+    const mode = this.getThemeMode(colors);
+    const name = filename?.replace(/\.attheme$/i, '').trim() || 'Imported Theme';
+    const properties = this.mapToDesktop(colors, mode, issues);
+
+    const content = new TelegramThemeBuilder({
+      name,
+      mode,
+      author: 'Telegram Theme Generator (converted from Android)',
+    }).generateThemeContent(properties);
+
+    const theme: ImportedTheme = {
+      name,
+      mode,
+      content,
+      properties,
+      references: {},
+      issues,
+    };
+
+    if (wallpaper) {
+      theme.background = {
+        filename: 'background.jpg',
+        blob: new Blob([wallpaper as Uint8Array<ArrayBuffer>], { type: 'image/jpeg' }),
+        tiled: false,
+      };
+    }
+
+    return theme;
+  }
+
+  /**
+   * Parses the `key=value` lines of an .attheme file.
+   * @param content - Text part of the file
+   * @returns Android key to desktop-style hex colour, and issues found
+   */
+  parseColors(content: string): { colors: Record<string, string>; issues: ValidationIssue[] } {
+    const colors: Record<string, string> = {};
+    const issues: ValidationIssue[] = [];
+
+    content.split(/\r?\n/).forEach((sourceLine, index) => {
+      const line = sourceLine.trim();
+      if (!line) return;
+
+      const match = LINE_PATTERN.exec(line);
+      if (!match) {
+        issues.push({
+          severity: 'error',
+          property: `line ${index + 1}`,
+          message: `Malformed .attheme entry on line ${index + 1}: "${line}"`,
+          code: 'INVALID_FORMAT',
+          suggestion: 'Use the form key=signedInteger or key=#AARRGGBB',
+        });
+        return;
+      }
+
+      colors[match[1]] = androidColorToHex(match[2]);
+    });
+
+    return { colors, issues };
+  }
+
+  /**
+   * Maps Android colours onto desktop properties.
+   * @param colors - Output of parseColors
+   * @param mode - Selects the default theme for unmapped properties
+   * @param issues - Receives an info issue for each Android key with no desktop counterpart
+   */
+  mapToDesktop(
+    colors: Record<string, string>,
+    mode: ThemeMode,
+    issues: ValidationIssue[] = []
+  ): Record<string, string> {
+    const properties: Record<string, string> = {};
+    const mappedKeys = new Set<string>();
+
+    for (const { key, source } of this.mappings) {
+      mappedKeys.add(key);
+      if (colors[key] && !(source in properties)) {
+        properties[source] = colors[key];
+      }
+    }
+
+    for (const key of Object.keys(colors)) {
+      if (!mappedKeys.has(key)) {
+        issues.push({
+          severity: 'info',
+          property: key,
+          message: `Android key ${key} has no desktop equivalent and was skipped`,
+          code: 'UNKNOWN_PROPERTY',
+        });
+      }
+    }
+
+    const defaults = mode === 'dark' ? DEFAULT_DARK_THEME : DEFAULT_LIGHT_THEME;
+    return { ...defaults, ...properties };
+  }
+
+  /**
+   * Separates the text part from the embedded wallpaper, working on bytes
+   * because the JPEG data is binary.
+   */
+  private splitWallpaper(bytes: Uint8Array): { text: Uint8Array; wallpaper?: Uint8Array } {
+    const start = this.indexOfLine(bytes, `${ANDROID_WALLPAPER_START}\n`);
+    if (start === -1) {
+      return { text: bytes };
+    }
+
+    const dataStart = start + ANDROID_WALLPAPER_START.length + 1;
+    const end = this.lastIndexOf(bytes, `\n${ANDROID_WALLPAPER_END}`, dataStart);
+
+    return {
+      text: bytes.subarray(0, start),
+      wallpaper: bytes.subarray(dataStart, end === -1 ? bytes.length : end),
+    };
+  }
+
+  /**
+   * Finds a marker that starts a line.
+   */
+  private indexOfLine(bytes: Uint8Array, marker: string): number {
+    const needle = new TextEncoder().encode(marker);
+
+    outer: for (let i = 0; i <= bytes.length - needle.length; i++) {
+      if (i > 0 && bytes[i - 1] !== 0x0a) continue;
+      for (let j = 0; j < needle.length; j++) {
+        if (bytes[i + j] !== needle[j]) continue outer;
+      }
+      return i;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Finds the last occurrence of a marker at or after `from`.
+   */
+  private lastIndexOf(bytes: Uint8Array, marker: string, from: number): number {
+    const needle = new TextEncoder().encode(marker);
+
+    outer: for (let i = bytes.length - needle.length; i >= from; i--) {
+      for (let j = 0; j < needle.length; j++) {
+        if (bytes[i + j] !== needle[j]) continue outer;
+      }
+      return i;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Guesses the mode from the main background colour.
+   */
+  private getThemeMode(colors: Record<string, string>): ThemeMode {
+    const background = colors.windowBackgroundWhite ?? colors.chats_menuBackground;
+    if (!background) {
+      return 'light';
+    }
+
+    const value = parseInt(background.slice(0, 6), 16);
+    const luminance =
+      0.299 * ((value >> 16) & 255) + 0.587 * ((value >> 8) & 255) + 0.114 * (value & 255);
+    return luminance < 128 ? 'dark' : 'light';
+  }
+}
+
+export default AndroidThemeImporter;
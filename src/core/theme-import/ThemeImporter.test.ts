@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import { ThemeImporter } from './index';
+import { ThemeValidator, TelegramThemeBuilder, type ThemeColors } from '../theme-generation';
+
+// Use FileReader since jsdom doesn't support blob.text()
+function readText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsText(blob);
+  });
+}
+
+const palette = [
+  '// Night Sky',
+  '// Generated by Telegram Theme Generator',
+  '// Mode: dark',
+  '',
+  'windowBg: #17212B;',
+  'windowFg: #f5f5f5;',
+  'windowBgActive: #5288c180;',
+  'dialogsBg: windowBg;',
+  'dialogsNameFg: windowFg; // names use the main text colour',
+].join('\n');
+
+describe('ThemeImporter', () => {
+  let importer: ThemeImporter;
+
+  beforeEach(() => {
+    importer = new ThemeImporter();
+  });
+
+  describe('parsePalette', () => {
+    it('should parse colours as lowercase hex without #', () => {
+      const { properties, issues } = importer.parsePalette(palette);
+
+      expect(properties.windowBg).toBe('17212b');
+      expect(properties.windowBgActive).toBe('5288c180');
+      expect(issues).toEqual([]);
+    });
+
+    it('should resolve references to other keys', () => {
+      const { properties, references } = importer.parsePalette(palette);
+
+      expect(properties.dialogsBg).toBe('17212b');
+      expect(properties.dialogsNameFg).toBe('f5f5f5');
+      expect(references).toEqual({ dialogsBg: 'windowBg', dialogsNameFg: 'windowFg' });
+    });
+
+    it('should resolve reference chains and forward references', () => {
+      const { properties } = importer.parsePalette(
+        'dialogsNameFg: dialogsBg;\ndialogsBg: windowBg;\nwindowBg: #ffffff;'
+      );
+
+      expect(properties.dialogsNameFg).toBe('ffffff');
+      expect(properties.dialogsBg).toBe('ffffff');
+    });
+
+    it('should report references to undefined keys', () => {
+      const { properties, issues } = importer.parsePalette('dialogsBg: windowBg;');
+
+      expect(properties.dialogsBg).toBeUndefined();
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        severity: 'error',
+        property: 'dialogsBg',
+        code: 'INVALID_REFERENCE',
+      });
+      expect(issues[0].message).toContain('windowBg');
+    });
+
+    it('should report circular references', () => {
+      const { properties, issues } = importer.parsePalette('windowBg: windowFg;\nwindowFg: windowBg;');
+
+      expect(properties).toEqual({});
+      expect(issues.map((i) => i.code)).toEqual(['INVALID_REFERENCE', 'INVALID_REFERENCE']);
+      expect(issues[0].message).toContain('Circular');
+    });
+
+    it('should report malformed lines with their line number', () => {
+      const { properties, issues } = importer.parsePalette(
+        'windowBg: #ffffff;\nwindowFg #000000;\nwindowBgOver: #12345;\n'
+      );
+
+      expect(Object.keys(properties)).toEqual(['windowBg']);
+      expect(issues).toHaveLength(2);
+      expect(issues.every((i) => i.code === 'INVALID_FORMAT' && i.severity === 'error')).toBe(true);
+      expect(issues[0].message).toContain('line 2');
+      expect(issues[1].property).toBe('windowBgOver');
+    });
+
+    it('should report unknown keys but keep their values', () => {
+      const { properties, issues } = importer.parsePalette('someFutureKey: #123456;');
+
+      expect(properties.someFutureKey).toBe('123456');
+      expect(issues[0]).toMatchObject({ severity: 'warning', code: 'UNKNOWN_PROPERTY' });
+    });
+
+    it('should warn about duplicate keys and keep the last value', () => {
+      const { properties, issues } = importer.parsePalette('windowBg: #ffffff;\nwindowBg: #000000;');
+
+      expect(properties.windowBg).toBe('000000');
+      expect(issues[0]).toMatchObject({ code: 'DUPLICATE_PROPERTY', property: 'windowBg' });
+    });
+
+    it('should ignore comments, blank lines and missing semicolons', () => {
+      const { properties, issues } = importer.parsePalette(
+        '/* header\n   spanning lines */\n\nwindowBg: #ffffff // trailing\r\nwindowFg: #000000; windowBgOver: #f1f1f1;'
+      );
+
+      expect(properties).toEqual({ windowBg: 'ffffff', windowFg: '000000', windowBgOver: 'f1f1f1' });
+      expect(issues).toEqual([]);
+    });
+
+    it('should round-trip a generated theme', () => {
+      const theme = new TelegramThemeBuilder({ name: 'Round Trip' }).buildTheme(
+        importer.deriveThemeColors({})
+      );
+      const { properties, issues } = importer.parsePalette(theme.content);
+
+      expect(properties).toEqual(theme.properties);
+      expect(issues.filter((i) => i.severity === 'error')).toEqual([]);
+    });
+
+    it('should produce properties ThemeValidator accepts', () => {
+      const { properties } = importer.parsePalette(palette);
+      const result = new ThemeValidator().validate(properties);
+
+      expect(result.errors.filter((e) => e.code === 'INVALID_FORMAT')).toEqual([]);
+    });
+  });
+
+  describe('importPalette', () => {
+    it('should take the name from the filename', () => {
+      expect(importer.importPalette(palette, 'My Theme.tdesktop-palette').name).toBe('My Theme');
+    });
+
+    it('should fall back to the header comment for the name', () => {
+      expect(importer.importPalette(palette).name).toBe('Night Sky');
+      expect(importer.importPalette('windowBg: #ffffff;').name).toBe('Imported Theme');
+    });
+
+    it('should read the mode from the header', () => {
+      expect(importer.importPalette(palette).mode).toBe('dark');
+    });
+
+    it('should guess the mode from the window background', () => {
+      expect(importer.importPalette('windowBg: #101010;').mode).toBe('dark');
+      expect(importer.importPalette('windowBg: #fafafa;').mode).toBe('light');
+    });
+
+    it('should keep the original content', () => {
+      expect(importer.importPalette(palette).content).toBe(palette);
+    });
+  });
+
+  describe('importArchive', () => {
+    it('should read the palette from colors.tdesktop-theme', () => {
+      const archive = zipSync({ 'colors.tdesktop-theme': strToU8(palette) });
+      const theme = importer.importArchive(archive, 'night.tdesktop-theme');
+
+      expect(theme.name).toBe('night');
+      expect(theme.properties.dialogsBg).toBe('17212b');
+      expect(theme.background).toBeUndefined();
+    });
+
+    it('should extract a stretched background', async () => {
+      const archive = zipSync({
+        'colors.tdesktop-theme': strToU8(palette),
+        'background.jpg': strToU8('JPEG'),
+      });
+      const { background } = importer.importArchive(archive);
+
+      expect(background?.filename).toBe('background.jpg');
+      expect(background?.tiled).toBe(false);
+      expect(background?.blob.type).toBe('image/jpeg');
+      expect(await readText(background!.blob)).toBe('JPEG');
+    });
+
+    it('should extract a tiled background', () => {
+      const archive = zipSync({
+        'colors.tdesktop-theme': strToU8(palette),
+        'tiled.png': strToU8('PNG'),
+      });
+      const { background } = importer.importArchive(archive);
+
+      expect(background?.tiled).toBe(true);
+      expect(background?.blob.type).toBe('image/png');
+    });
+
+    it('should throw when the archive has no palette', () => {
+      const archive = zipSync({ 'background.jpg': strToU8('JPEG') });
+      expect(() => importer.importArchive(archive)).toThrow('Theme archive does not contain a palette');
+    });
+
+    it('should throw for corrupted archives', () => {
+      expect(() => importer.importArchive(new Uint8Array([0x50, 0x4b, 0x03, 0x04]))).toThrow(
+        'Theme archive is corrupted'
+      );
+    });
+  });
+
+  describe('importFile', () => {
+    it('should import plain-text palettes', async () => {
+      const file = new File([palette], 'night.tdesktop-palette');
+      const theme = await importer.importFile(file);
+
+      expect(theme.name).toBe('night');
+      expect(theme.properties.windowFg).toBe('f5f5f5');
+    });
+
+    it('should detect zipped archives', async () => {
+      const archive = zipSync({ 'colors.tdesktop-theme': strToU8(palette) });
+      const file = new File([archive], 'night.tdesktop-theme');
+      const theme = await importer.importFile(file);
+
+      expect(theme.properties.windowFg).toBe('f5f5f5');
+    });
+  });
+
+  describe('deriveThemeColors', () => {
+    it('should map core properties back to theme colours', () => {
+      const colors = importer.deriveThemeColors({
+        windowBg: '17212b',
+        windowFg: 'f5f5f5',
+        windowBgActive: '5288c180',
+      });
+
+      expect(colors.background).toBe('#17212b');
+      expect(colors.textPrimary).toBe('#f5f5f5');
+      expect(colors.primary).toBe('#5288c1');
+      expect(colors.primaryLight).toBe('#5288c1');
+    });
+
+    it('should give back the colours a generated theme was built from', () => {
+      const colors: ThemeColors = {
+        primary: '#4a90d9',
+        primaryLight: '#6ba8e8',
+        primaryDark: '#3578c2',
+        accent: '#58b6ed',
+        accentLight: '#7fcdff',
+        background: '#ffffff',
+        backgroundSecondary: '#f7f7f7',
+        backgroundTertiary: '#eeeeee',
+        textPrimary: '#000000',
+        textSecondary: '#666666',
+        textMuted: '#999999',
+        textOnPrimary: '#ffffff',
+        online: '#5dc452',
+        offline: '#999999',
+        color1: '#4a90d9',
+        color2: '#58b6ed',
+        color3: '#5dc452',
+        color4: '#f0a030',
+        color5: '#e47272',
+        color6: '#9b59b6',
+      };
+      const { properties } = new TelegramThemeBuilder().buildTheme(colors);
+
+      expect(importer.deriveThemeColors(properties)).toEqual(colors);
+    });
+
+    it('should fall back to defaults for missing properties', () => {
+      const colors = importer.deriveThemeColors({});
+      expect(Object.values(colors).every((c) => /^#[0-9a-f]{6}$/.test(c))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,380 @@
+import { unzipSync } from 'fflate';
+import {
+  THEME_PROPERTIES,
+  type ThemeColors,
+  type ThemeMode,
+  type ValidationIssue,
+} from '../theme-generation';
+import { readBlob } from '../../utils/blob-utils';
+import { AndroidThemeImporter } from './AndroidThemeImporter';
+
+/**
+ * Palette entry names recognised inside a .tdesktop-theme archive.
+ */
+const PALETTE_ENTRY_NAMES = ['colors.tdesktop-theme', 'colors.tdesktop-palette'];
+
+/**
+ * Background entry names and whether they are tiled.
+ */
+const BACKGROUND_ENTRIES: { name: string; tiled: boolean }[] = [
+  { name: 'background.jpg', tiled: false },
+  { name: 'background.png', tiled: false },
+  { name: 'tiled.jpg', tiled: true },
+  { name: 'tiled.png', tiled: true },
+];
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const COLOR_PATTERN = /^#([0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+/**
+ * Wallpaper extracted from a theme archive.
+ */
+export interface ImportedBackground {
+  /** Archive entry name, e.g. background.jpg */
+  filename: string;
+  /** Image data with the matching MIME type */
+  blob: Blob;
+  tiled: boolean;
+}
+
+/**
+ * Result of parsing a palette.
+ */
+export interface ParsedPalette {
+  /** Resolved properties (hex without #), ready for ThemeValidator */
+  properties: Record<string, string>;
+  /** Properties written as a reference in the source, mapped to the key they named */
+  references: Record<string, string>;
+  /** Malformed lines, unknown keys and broken references */
+  issues: ValidationIssue[];
+}
+
+/**
+ * A theme loaded from a .tdesktop-theme, .tdesktop-palette or .attheme file.
+ */
+export interface ImportedTheme extends ParsedPalette {
+  name: string;
+  /** Mode from the generator header, or guessed from the window background */
+  mode: ThemeMode;
+  /** Palette text as found in the file (converted to a desktop palette for .attheme) */
+  content: string;
+  background?: ImportedBackground;
+}
+
+/**
+ * ThemeImporter reads existing Telegram Desktop themes back into the app.
+ *
+ * It accepts both plain-text palettes (.tdesktop-palette, or an unzipped
+ * .tdesktop-theme) and zipped .tdesktop-theme archives. Palette lines have
+ * the form `key: #RRGGBB;`, `key: #RRGGBBAA;` or `key: otherKey;`, where
+ * the last form copies the value of another key. References are resolved
+ * so the resulting properties can go straight into ThemeValidator and
+ * the preview. Android .attheme files are handed to AndroidThemeImporter.
+ *
+ * @example
+ * ```typescript
+ * const importer = new ThemeImporter();
+ * const theme = await importer.importFile(file);
+ * const result = new ThemeValidator().validate(theme.properties);
+ * ```
+ */
+export class ThemeImporter {
+  private knownKeys = new Set(THEME_PROPERTIES.map((p) => p.key));
+  private androidImporter = new AndroidThemeImporter();
+
+  /**
+   * Imports a theme file, detecting zipped archives by their signature
+   * and Android themes by extension or `key=value` syntax.
+   * @param file - File or Blob with the theme
+   * @returns Promise resolving to the imported theme
+   */
+  async importFile(file: Blob): Promise<ImportedTheme> {
+    const bytes = await readBlob(file, 'Failed to read theme file');
+    const filename = file instanceof File ? file.name : undefined;
+
+    if (this.isZip(bytes)) {
+      return this.importArchive(bytes, filename);
+    }
+
+    if (this.isAttheme(bytes, filename)) {
+      return this.androidImporter.importAttheme(bytes, filename);
+    }
+
+    return this.importPalette(new TextDecoder().decode(bytes), filename);
+  }
+
+  /**
+   * Imports a zipped .tdesktop-theme archive.
+   * @param bytes - Archive contents
+   * @param filename - Original filename, used for the theme name
+   */
+  importArchive(bytes: Uint8Array, filename?: string): ImportedTheme {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(bytes);
+    } catch {
+      throw new Error('Theme archive is corrupted');
+    }
+
+    const paletteEntry =
+      PALETTE_ENTRY_NAMES.find((name) => name in files) ??
+      Object.keys(files).find((name) => /\.tdesktop-(theme|palette)$/.test(name));
+
+    if (!paletteEntry) {
+      throw new Error('Theme archive does not contain a palette');
+    }
+
+    const theme = this.importPalette(new TextDecoder().decode(files[paletteEntry]), filename);
+
+    const backgroundEntry = BACKGROUND_ENTRIES.find(({ name }) => name in files);
+    if (backgroundEntry) {
+      theme.background = {
+        filename: backgroundEntry.name,
+        blob: new Blob([files[backgroundEntry.name] as Uint8Array<ArrayBuffer>], {
+          type: backgroundEntry.name.endsWith('.png') ? 'image/png' : 'image/jpeg',
+        }),
+        tiled: backgroundEntry.tiled,
+      };
+    }
+
+    return theme;
+  }
+
+  /**
+   * Imports a plain-text palette.
+   * @param content - Palette text
+   * @param filename - Original filename, used for the theme name
+   */
+  importPalette(content: string, filename?: string): ImportedTheme {
+    const parsed = this.parsePalette(content);
+
+    return {
+      ...parsed,
+      name: this.getThemeName(content, filename),
+      mode: this.getThemeMode(content, parsed.properties),
+      content,
+    };
+  }
+
+  /**
+   * Parses palette text and resolves references between keys.
+   * @param content - Palette text
+   * @returns Resolved properties, references and issues found
+   */
+  parsePalette(content: string): ParsedPalette {
+    const issues: ValidationIssue[] = [];
+    const raw = new Map<string, { value: string; line: number }>();
+
+    // Blank out block comments but keep their newlines so line numbers stay right
+    const text = content.replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '));
+
+    text.split(/\r?\n/).forEach((sourceLine, index) => {
+      const line = index + 1;
+      const code = sourceLine.replace(/\/\/.*$/, '');
+
+      for (const statement of code.split(';')) {
+        const trimmed = statement.trim();
+        if (!trimmed) continue;
+
+        const separator = trimmed.indexOf(':');
+        const key = separator === -1 ? '' : trimmed.slice(0, separator).trim();
+        const value = separator === -1 ? '' : trimmed.slice(separator + 1).trim();
+
+        if (!KEY_PATTERN.test(key) || !(COLOR_PATTERN.test(value) || KEY_PATTERN.test(value))) {
+          issues.push({
+            severity: 'error',
+            property: key || `line ${line}`,
+            message: `Malformed palette entry on line ${line}: "${trimmed}"`,
+            code: 'INVALID_FORMAT',
+            suggestion: 'Use the form key: #RRGGBB; or key: otherKey;',
+          });
+          continue;
+        }
+
+        if (raw.has(key)) {
+          issues.push({
+            severity: 'warning',
+            property: key,
+            message: `${key} is defined again on line ${line}; the last value is used`,
+            code: 'DUPLICATE_PROPERTY',
+          });
+        }
+
+        if (!this.knownKeys.has(key)) {
+          issues.push({
+            severity: 'warning',
+            property: key,
+            message: `Unknown property on line ${line}: ${key}`,
+            code: 'UNKNOWN_PROPERTY',
+            suggestion: 'This property may not be recognized by Telegram Desktop',
+          });
+        }
+
+        raw.set(key, { value, line });
+      }
+    });
+
+    const properties: Record<string, string> = {};
+    const references: Record<string, string> = {};
+
+    for (const [key, { value, line }] of raw) {
+      if (COLOR_PATTERN.test(value)) {
+        properties[key] = value.slice(1).toLowerCase();
+        continue;
+      }
+
+      references[key] = value;
+      const resolved = this.resolveReference(key, raw);
+
+      if (resolved.value) {
+        properties[key] = resolved.value;
+      } else {
+        issues.push({
+          severity: 'error',
+          property: key,
+          message: resolved.circular
+            ? `Circular reference on line ${line}: ${key} refers back to itself`
+            : `${key} on line ${line} refers to ${resolved.missing}, which is not defined`,
+          code: 'INVALID_REFERENCE',
+          suggestion: 'Replace the reference with a colour value',
+        });
+      }
+    }
+
+    return { properties, references, issues };
+  }
+
+  /**
+   * Derives approximate source colours from theme properties, so themes
+   * that were not generated from an image can still be exported to other
+   * clients.
+   * @param properties - Resolved theme properties
+   */
+  deriveThemeColors(properties: Record<string, string>): ThemeColors {
+    const pick = (fallback: string, ...keys: string[]): string => {
+      const key = keys.find((k) => properties[k]);
+      return `#${(key ? properties[key] : fallback).slice(0, 6)}`;
+    };
+
+    const primary = pick('40a7e3', 'windowBgActive', 'activeButtonBg');
+    const accent = pick(primary.slice(1), 'windowActiveTextFg', 'linkFg');
+    const online = pick('4bb34b', 'dialogsOnlineBadgeFg', 'historyOutIconFg');
+    const textMuted = pick('999999', 'menuIconFg', 'dialogsUnreadBgMuted');
+
+    return {
+      primary,
+      primaryLight: pick(primary.slice(1), 'activeButtonBgOver'),
+      primaryDark: pick(primary.slice(1), 'activeButtonBgRipple', 'dialogsForwardBg'),
+      accent,
+      accentLight: pick(accent.slice(1), 'linkOverFg'),
+      background: pick('ffffff', 'windowBg'),
+      backgroundSecondary: pick('f1f1f1', 'windowBgOver', 'menuBg'),
+      backgroundTertiary: pick('e5e5e5', 'windowBgRipple', 'menuBgOver'),
+      textPrimary: pick('000000', 'windowFg'),
+      textSecondary: pick('999999', 'windowSubTextFg'),
+      textMuted,
+      textOnPrimary: pick('ffffff', 'windowFgActive', 'activeButtonFg'),
+      online,
+      offline: textMuted,
+      color1: pick(primary.slice(1), 'historyPeer1NameFg'),
+      color2: pick(accent.slice(1), 'historyPeer2NameFg'),
+      color3: pick(online.slice(1), 'historyPeer3NameFg'),
+      color4: pick('f0a030', 'historyPeer4NameFg'),
+      color5: pick('e47272', 'historyPeer5NameFg'),
+      color6: pick('9b59b6', 'historyPeer6NameFg'),
+    };
+  }
+
+  /**
+   * Follows a chain of references to a literal colour.
+   */
+  private resolveReference(
+    key: string,
+    raw: Map<string, { value: string }>
+  ): { value?: string; missing?: string; circular?: boolean } {
+    const visited = new Set<string>([key]);
+    let current = raw.get(key)!.value;
+
+    while (!COLOR_PATTERN.test(current)) {
+      if (visited.has(current)) {
+        return { circular: true };
+      }
+      visited.add(current);
+
+      const next = raw.get(current);
+      if (!next) {
+        return { missing: current };
+      }
+      current = next.value;
+    }
+
+    return { value: current.slice(1).toLowerCase() };
+  }
+
+  /**
+   * Takes the theme name from the filename, falling back to the first comment.
+   */
+  private getThemeName(content: string, filename?: string): string {
+    if (filename) {
+      const base = filename.replace(/\.(tdesktop-theme|tdesktop-palette)$/i, '').trim();
+      if (base) return base;
+    }
+
+    const header = /^\s*\/\/\s*(.+?)\s*$/m.exec(content);
+    return header?.[1] ?? 'Imported Theme';
+  }
+
+  /**
+   * Reads the mode from the generator header, or guesses it from windowBg.
+   */
+  private getThemeMode(content: string, properties: Record<string, string>): ThemeMode {
+    const header = /^\s*\/\/\s*Mode:\s*(light|dark)\s*$/m.exec(content);
+    if (header) {
+      return header[1] as ThemeMode;
+    }
+
+    const windowBg = properties.windowBg;
+    if (!windowBg) {
+      return 'light';
+    }
+
+    const value = parseInt(windowBg.slice(0, 6), 16);
+    const luminance =
+      0.299 * ((value >> 16) & 255) + 0.587 * ((value >> 8) & 255) + 0.114 * (value & 255);
+    return luminance < 128 ? 'dark' : 'light';
+  }
+
+  /**
+   * Checks for the ZIP local file header signature "PK\x03\x04".
+   */
+  private isZip(bytes: Uint8Array): boolean {
+    return (
+      bytes.length >= 4 &&
+      bytes[0] === 0x50 &&
+      bytes[1] === 0x4b &&
+      bytes[2] === 0x03 &&
+      bytes[3] === 0x04
+    );
+  }
+
+  /**
+   * Checks for an .attheme file: by extension, or by a first entry in
+   * `key=value` form (desktop palettes use `key: value;`).
+   */
+  private isAttheme(bytes: Uint8Array, filename?: string): boolean {
+    if (filename && /\.attheme$/i.test(filename)) {
+      return true;
+    }
+
+    const head = new TextDecoder().decode(bytes.subarray(0, 256));
+    const firstLine = head.split(/\r?\n/).find((line) => line.trim());
+    return !!firstLine && /^\s*[A-Za-z_][A-Za-z0-9_]*=/.test(firstLine);
+  }
+}
+
+/**
+ * Default singleton instance for convenient access.
+ */
+export const themeImporter = new ThemeImporter();
+
+export default ThemeImporter;
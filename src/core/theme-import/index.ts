@@ -0,0 +1,9 @@
+export {
+  ThemeImporter,
+  themeImporter,
+  type ImportedTheme,
+  type ImportedBackground,
+  type ParsedPalette,
+} from './ThemeImporter';
+
+export { AndroidThemeImporter, androidColorToHex } from './AndroidThemeImporter';
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { readBlob } from './blob-utils';
+
+describe('blob-utils', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('readBlob', () => {
+    it('should read the bytes of a Blob', async () => {
+      const bytes = await readBlob(new Blob([new Uint8Array([1, 2, 255])]));
+      expect(Array.from(bytes)).toEqual([1, 2, 255]);
+    });
+
+    it('should reject with the given message when reading fails', async () => {
+      vi.stubGlobal(
+        'FileReader',
+        class {
+          onerror: (() => void) | null = null;
+          readAsArrayBuffer() {
+            setTimeout(() => this.onerror?.());
+          }
+        }
+      );
+
+      await expect(readBlob(new Blob(['x']), 'Failed to read theme file')).rejects.toThrow(
+        'Failed to read theme file'
+      );
+    });
+  });
+});
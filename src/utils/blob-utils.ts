@@ -0,0 +1,19 @@
+/**
+ * Reads a Blob into bytes. FileReader is used rather than Blob.arrayBuffer()
+ * for compatibility with older browsers.
+ *
+ * @param blob - The Blob or File to read
+ * @param errorMessage - Message of the error thrown when reading fails
+ * @returns Promise resolving to the Blob's bytes
+ */
+export function readBlob(
+  blob: Blob,
+  errorMessage = 'Failed to read file'
+): Promise<Uint8Array<ArrayBuffer>> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(new Error(errorMessage));
+    reader.readAsArrayBuffer(blob);
+  });
+}
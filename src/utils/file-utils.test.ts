@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   sanitizeFilename,
   generateThemeFilename,
@@ -23,6 +23,10 @@ describe('file-utils', () => {
     vi.clearAllMocks();
   });
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   describe('constants', () => {
     it('should export correct file extension', () => {
       expect(THEME_FILE_EXTENSION).toBe('.tdesktop-theme');
@@ -84,6 +88,14 @@ describe('file-utils', () => {
     it('should handle special characters', () => {
       expect(generateThemeFilename('theme<>name')).toBe('themename.tdesktop-theme');
     });
+
+    it('should use the .attheme extension for Android', () => {
+      expect(generateThemeFilename('My Theme', 'android')).toBe('my-theme.attheme');
+    });
+
+    it('should use the .tgios-theme extension for iOS', () => {
+      expect(generateThemeFilename('My Theme', 'ios')).toBe('my-theme.tgios-theme');
+    });
   });
 
   describe('createThemeBlob', () => {
@@ -184,6 +196,59 @@ describe('file-utils', () => {
       expect(onError).toHaveBeenCalledWith(error);
     });
 
+    it('should download a zipped package when a background is given', async () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 10;
+      canvas.height = 10;
+      vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(callback => {
+        callback(new Blob(['jpeg'], { type: 'image/jpeg' }));
+      });
+
+      const result = await downloadTheme({
+        filename: 'test',
+        content: 'windowBg: #ffffff;',
+        background: { source: canvas },
+      });
+
+      const blob = vi.mocked(saveAs).mock.calls[0][0] as Blob;
+      expect(result.success).toBe(true);
+      expect(result.filename).toBe('test.tdesktop-theme');
+      expect(blob.type).toBe('application/zip');
+    });
+
+    it('should download an .attheme file for Android', async () => {
+      const result = await downloadTheme({
+        filename: 'test',
+        content: 'windowBackgroundWhite=-1\n',
+        format: 'android',
+      });
+
+      const blob = vi.mocked(saveAs).mock.calls[0][0] as Blob;
+      expect(result.success).toBe(true);
+      expect(result.filename).toBe('test.attheme');
+      expect(vi.mocked(saveAs).mock.calls[0][1]).toBe('test.attheme');
+      expect(blob.type).toBe('application/octet-stream');
+    });
+
+    it('should report an error when the background cannot be packaged', async () => {
+      const canvas = document.createElement('canvas');
+      vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(callback => {
+        callback(null);
+      });
+      const onError = vi.fn();
+
+      const result = await downloadTheme({
+        filename: 'test',
+        content: 'windowBg: #ffffff;',
+        background: { source: canvas },
+        onError,
+      });
+
+      expect(result.success).toBe(false);
+      expect(onError).toHaveBeenCalled();
+      expect(saveAs).not.toHaveBeenCalled();
+    });
+
     it('should return error result on failure', async () => {
       vi.mocked(saveAs).mockImplementationOnce(() => {
         throw new Error('Download failed');
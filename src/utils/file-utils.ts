@@ -1,10 +1,26 @@
 import { saveAs } from 'file-saver';
+import { themePackager, type ThemeBackground } from '../core/packaging';
+import { AndroidThemeExporter } from '../core/theme-generation/AndroidThemeExporter';
 
 /**
  * Theme file extension for Telegram Desktop.
  */
 export const THEME_FILE_EXTENSION = '.tdesktop-theme';
 
+/**
+ * Telegram clients a theme can be exported for.
+ */
+export type ThemeExportFormat = 'desktop' | 'android' | 'ios';
+
+/**
+ * Theme file extension for each export format.
+ */
+export const THEME_FILE_EXTENSIONS: Record<ThemeExportFormat, string> = {
+  desktop: THEME_FILE_EXTENSION,
+  android: '.attheme',
+  ios: '.tgios-theme',
+};
+
 /**
  * MIME type for theme files.
  */
@@ -33,6 +49,19 @@ export interface DownloadOptions {
    */
   content: string;
 
+  /**
+   * Target client; selects the file extension and container format.
+   * @default 'desktop'
+   */
+  format?: ThemeExportFormat;
+
+  /**
+   * Optional wallpaper to embed. For desktop themes the download becomes a
+   * zipped .tdesktop-theme package; Android themes embed it between WPS/WPE.
+   * iOS themes cannot carry an image and ignore it.
+   */
+  background?: ThemeBackground;
+
   /**
    * Optional callback when download starts.
    */
@@ -71,11 +100,15 @@ export function sanitizeFilename(name: string): string {
  * Generates a theme filename from a wallpaper name or theme name.
  *
  * @param name - The name to use (wallpaper name, theme name, etc.)
- * @returns Full filename with .tdesktop-theme extension
+ * @param format - Target client, selecting the extension
+ * @returns Full filename with .tdesktop-theme (or format-specific) extension
  */
-export function generateThemeFilename(name: string): string {
+export function generateThemeFilename(
+  name: string,
+  format: ThemeExportFormat = 'desktop'
+): string {
   const sanitized = sanitizeFilename(name);
-  return `${sanitized}${THEME_FILE_EXTENSION}`;
+  return `${sanitized}${THEME_FILE_EXTENSIONS[format]}`;
 }
 
 /**
@@ -88,10 +121,60 @@ export function createThemeBlob(content: string): Blob {
   return new Blob([content], { type: THEME_MIME_TYPE });
 }
 
+/**
+ * Creates a zipped .tdesktop-theme package holding the palette and wallpaper.
+ *
+ * @param content - The theme file content as a string
+ * @param background - The wallpaper to embed
+ * @returns Promise resolving to the archive Blob
+ */
+export function createThemePackageBlob(
+  content: string,
+  background: ThemeBackground
+): Promise<Blob> {
+  return themePackager.createPackage(content, background);
+}
+
+/**
+ * Creates an Android .attheme file, embedding the wallpaper when given.
+ *
+ * @param content - The .attheme content (`key=value` lines)
+ * @param background - Optional wallpaper to embed
+ * @returns Promise resolving to the theme Blob
+ */
+export function createAndroidThemeBlob(
+  content: string,
+  background?: ThemeBackground
+): Promise<Blob> {
+  return new AndroidThemeExporter().createThemeFile(content, background?.source);
+}
+
+/**
+ * Creates the downloadable Blob for a theme in the given format.
+ */
+function createFormatBlob(
+  content: string,
+  format: ThemeExportFormat,
+  background?: ThemeBackground
+): Blob | Promise<Blob> {
+  if (format === 'android') {
+    return createAndroidThemeBlob(content, background);
+  }
+
+  if (format === 'ios') {
+    return createThemeBlob(content);
+  }
+
+  return background
+    ? createThemePackageBlob(content, background)
+    : createThemeBlob(content);
+}
+
 /**
  * Downloads theme content as a .tdesktop-theme file.
  *
- * Uses file-saver for cross-browser compatibility.
+ * Uses file-saver for cross-browser compatibility. When a background is
+ * given, the palette and re-encoded wallpaper are zipped together.
  *
  * @param options - Download options
  * @returns Promise resolving to download result
@@ -101,20 +184,29 @@ export function createThemeBlob(content: string): Blob {
  * await downloadTheme({
  *   filename: 'my-wallpaper',
  *   content: themeContent,
+ *   background: { source: imageUrl, tiled: false },
  *   onSuccess: (result) => console.log('Downloaded:', result.filename),
  *   onError: (error) => console.error('Failed:', error.message),
  * });
  * ```
  */
 export async function downloadTheme(options: DownloadOptions): Promise<DownloadResult> {
-  const { filename, content, onStart, onSuccess, onError } = options;
+  const {
+    filename,
+    content,
+    format = 'desktop',
+    background,
+    onStart,
+    onSuccess,
+    onError,
+  } = options;
 
-  const fullFilename = generateThemeFilename(filename);
+  const fullFilename = generateThemeFilename(filename, format);
 
   try {
     onStart?.();
 
-    const blob = createThemeBlob(content);
+    const blob = await createFormatBlob(content, format, background);
     saveAs(blob, fullFilename);
 
     const result: DownloadResult = {
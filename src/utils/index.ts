@@ -1,13 +1,19 @@
 export {
   downloadTheme,
   createThemeBlob,
+  createThemePackageBlob,
+  createAndroidThemeBlob,
   createDownloadUrl,
   revokeDownloadUrl,
   sanitizeFilename,
   generateThemeFilename,
   isValidThemeContent,
   THEME_FILE_EXTENSION,
+  THEME_FILE_EXTENSIONS,
   THEME_MIME_TYPE,
   type DownloadResult,
   type DownloadOptions,
+  type ThemeExportFormat,
 } from './file-utils';
+
+export { readBlob } from './blob-utils';